@@ -0,0 +1,19 @@
+// src/lib/decision-core.ts 원문을 Edge Function 템플릿에 삽입할 문자열로 생성
+// 사용: npm run generate:decision-core (decision-core.test.ts가 생성 결과가 최신인지 확인)
+import * as fs from 'node:fs';
+
+const sourcePath = new URL('../src/lib/decision-core.ts', import.meta.url);
+const outputPath = new URL('../src/lib/decision-core.generated.ts', import.meta.url);
+
+const source = fs.readFileSync(sourcePath, 'utf8');
+const escaped = source.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+
+fs.writeFileSync(
+  outputPath,
+  `// 자동 생성 파일입니다. 직접 수정하지 말고 src/lib/decision-core.ts를 수정한 뒤
+// npm run generate:decision-core를 실행하세요.
+
+export const DECISION_CORE_SOURCE = \`${escaped}\`;
+`
+);
+console.log('wrote src/lib/decision-core.generated.ts');
@@ -3,6 +3,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { createRequire } from 'node:module';
 
 const require = createRequire(import.meta.url);
@@ -12,12 +14,54 @@ import {
   saveConfig,
   configExists,
   deleteConfig,
+  getConfigPath,
+  getConfigDir,
+  getDefaultConfig,
+  isValidApproverId,
   type Config,
+  type AllowedApproversConfig,
+  type ApproverMessengerType,
 } from '../lib/config.js';
+import {
+  analyzeCommandDetailed,
+  compileCustomPatterns,
+  findRejectedPatterns,
+  getSeverityEmoji,
+  type RuleResult,
+} from '../lib/rules.js';
+import { resolveProjectRules } from '../lib/project-config.js';
 import { registerHook, unregisterHook, isHookRegistered } from '../lib/claude-settings.js';
 import { testConnection as testSupabaseConnection, shutdownSupabase } from '../lib/supabase.js';
+import { createApprovalStore } from '../lib/approval-store.js';
+import { generatePayloadEncryptionKey } from '../lib/payload-encryption.js';
+import { isSignatureVerificationEnabled, MISSING_SIGNATURE_ERROR } from '../lib/approval-signature.js';
+import { readDecisionLog } from '../lib/decision-log.js';
+import { getMachineId, getSignedMachineId } from '../lib/machine-id.js';
+import {
+  AUDIT_STATUSES,
+  MAX_AUDIT_LIMIT,
+  findRepoRoot,
+  formatAuditCsv,
+  isAuditStatus,
+  isSeverity,
+  parseHistoryTime,
+  type AuditEntry,
+  type AuditFilter,
+} from '../lib/audit.js';
 import {
+  clearOfflineQueue,
+  getOfflineQueuePath,
+  readOfflineQueue,
+  type OfflineQueueEntry,
+} from '../lib/offline-fallback.js';
+import { startLocalServer } from '../lib/local-server/server.js';
+import { createSecretResolver, deriveTelegramWebhookSecret } from '../lib/local-server/secrets.js';
+import {
+  AUDIT_EDGE_FUNCTION_CODE,
+  AUDIT_EDGE_FUNCTION_NAME,
+  createAuditEdgeFunctionFiles,
   createEdgeFunctionFiles,
+  getAllowedApproversEnvVar,
   getEdgeFunctionEnvVars,
   getEdgeFunctionName,
   getEdgeFunctionSource,
@@ -35,13 +79,27 @@ import {
   setTelegramWebhook,
   generateWebhookSecret,
 } from '../lib/deployment/telegram-webhook.js';
-import { MessengerFactory } from '../lib/messenger/factory.js';
+import { MessengerFactory, getMessengerChannels } from '../lib/messenger/factory.js';
 import { TelegramMessenger } from '../lib/messenger/telegram.js';
-import { WhatsAppMessenger } from '../lib/messenger/whatsapp.js';
+import { WhatsAppMessenger, isValidTwilioContentSid } from '../lib/messenger/whatsapp.js';
+import { DiscordMessenger } from '../lib/messenger/discord.js';
+import { TeamsMessenger } from '../lib/messenger/teams.js';
+import { WebhookMessenger, isAllowedWebhookUrl } from '../lib/messenger/webhook.js';
 import { SlackMessenger } from '../lib/messenger/slack.js';
 
 const program = new Command();
 
+const DEFAULT_SERVE_PORT = 8787;
+
+const MESSENGER_CHOICES: Array<{ name: string; value: MessengerType }> = [
+  { name: 'Telegram (권장)', value: 'telegram' },
+  { name: 'Slack', value: 'slack' },
+  { name: 'WhatsApp (Twilio)', value: 'whatsapp' },
+  { name: 'Discord', value: 'discord' },
+  { name: 'Microsoft Teams', value: 'teams' },
+  { name: 'Webhook (사내 도구 연동)', value: 'webhook' },
+];
+
 program
   .name('claude-remote-guard')
   .description('Claude Guard - Remote approval system for Claude Code CLI')
@@ -69,168 +127,39 @@ program
       }
     }
 
-    // ━━━ Step 1/3: Supabase 설정 ━━━
-    console.log(chalk.cyan('\n━━━ Step 1/3: Supabase 설정 ━━━'));
-
-    const supabaseAnswers = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'supabaseUrl',
-        message: 'Supabase URL:',
-        validate: (input: string) => {
-          if (!input.startsWith('https://') || !input.includes('.supabase.co')) {
-            return 'https://xxx.supabase.co 형식으로 입력해주세요';
-          }
-          return true;
-        },
-      },
-      {
-        type: 'password',
-        name: 'supabaseAnonKey',
-        message: 'Anon Key:',
-        mask: '*',
-        validate: (input: string) => {
-          if (!input || input.length < 20) {
-            return 'Supabase Anon Key를 입력해주세요';
-          }
-          return true;
-        },
-      },
-    ]);
-
-    // Access Token 발급 안내
-    console.log(chalk.blue('\n💡 Access Token 발급 방법 (자동 배포를 원하면):'));
-    console.log(chalk.gray('   1. https://supabase.com/dashboard 접속'));
-    console.log(chalk.gray('   2. 좌측 하단 프로필 클릭 → Account Settings'));
-    console.log(chalk.gray('   3. Access Tokens 탭 → Generate new token'));
-    console.log(chalk.gray('   4. 생성된 토큰 복사 (sbp_로 시작)'));
-    console.log(chalk.gray('\n   ⏭️  건너뛰면 수동 배포 안내가 표시됩니다.\n'));
-
-    const { accessToken } = await inquirer.prompt([
-      {
-        type: 'password',
-        name: 'accessToken',
-        message: 'Access Token (자동 배포용, 건너뛰려면 Enter):',
-        mask: '*',
-      },
-    ]);
-
-    // accessToken을 supabaseAnswers에 병합
-    supabaseAnswers.accessToken = accessToken;
-
-    // Supabase 연결 테스트
-    console.log(chalk.gray('  Supabase 연결 확인 중...'));
-    const tempConfig: Config = {
-      messenger: { type: 'slack' }, // 임시
-      supabase: {
-        url: supabaseAnswers.supabaseUrl,
-        anonKey: supabaseAnswers.supabaseAnonKey,
-      },
-      rules: { timeoutSeconds: 300, defaultAction: 'deny' },
-    };
-    const sbResult = await testSupabaseConnection(tempConfig);
-    if (!sbResult.ok) {
-      console.log(chalk.red(`✗ Supabase 연결 실패: ${sbResult.error}`));
-      console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
-      await shutdownSupabase();
-      return;
-    }
-    console.log(chalk.green('✓ Supabase 연결 확인됨'));
-    await shutdownSupabase();
-
-    // SQL 테이블 생성 방법 선택
-    console.log(chalk.yellow('\n📋 데이터베이스 테이블 생성이 필요합니다.'));
-
-    const { tableSetupMethod } = await inquirer.prompt([
+    // ━━━ Step 1/3: 백엔드 설정 ━━━
+    const { backend } = await inquirer.prompt([
       {
         type: 'list',
-        name: 'tableSetupMethod',
-        message: '테이블 생성 방법:',
+        name: 'backend',
+        message: '승인 백엔드 선택:',
         choices: [
-          { name: 'CLI가 직접 실행 (Database Password 필요)', value: 'auto' },
-          { name: '직접 SQL Editor에서 실행', value: 'manual' },
+          { name: 'Supabase (권장, 서버 운영 불필요)', value: 'supabase' },
+          { name: 'Self-hosted (claude-remote-guard serve + SQLite)', value: 'local' },
         ],
-        default: 'auto',
+        default: 'supabase',
       },
     ]);
 
-    if (tableSetupMethod === 'auto') {
-      // CLI가 직접 SQL 실행
-      const { databasePassword } = await inquirer.prompt([
-        {
-          type: 'password',
-          name: 'databasePassword',
-          message: 'Database Password:',
-          mask: '*',
-          validate: (input: string) => {
-            if (!input || input.length < 1) {
-              return 'Database Password를 입력해주세요 (Supabase Dashboard > Settings > Database)';
-            }
-            return true;
-          },
-        },
-      ]);
-
-      console.log(chalk.gray('  테이블 생성 중...'));
-      const dbResult = await executeSetupSQL(
-        supabaseAnswers.supabaseUrl,
-        databasePassword,
-        supabaseAnswers.accessToken || undefined
-      );
-
-      if (!dbResult.ok) {
-        console.log(chalk.red(`✗ 테이블 생성 실패: ${dbResult.error}`));
-
-        // SSL 인증서 에러 처리
-        if (
-          dbResult.error?.includes('self-signed certificate') ||
-          dbResult.error?.includes('SELF_SIGNED_CERT') ||
-          dbResult.error?.includes('unable to verify')
-        ) {
-          console.log(chalk.yellow('\n⚠️  SSL 인증서 에러 (회사 프록시/VPN 환경)'));
-          console.log(chalk.gray('  해결 방법:'));
-          console.log(chalk.gray('  1. VPN 끄고 재시도'));
-          console.log(chalk.gray('  2. 또는 환경변수 설정 후 재시도:'));
-          console.log(chalk.cyan('     NODE_TLS_REJECT_UNAUTHORIZED=0 npx claude-remote-guard init'));
-        }
-
-        // 수동 방법으로 폴백
-        const { retryManual } = await inquirer.prompt([
-          {
-            type: 'confirm',
-            name: 'retryManual',
-            message: '직접 SQL Editor에서 실행하시겠습니까?',
-            default: true,
-          },
-        ]);
-
-        if (retryManual) {
-          const manualSuccess = await promptManualSqlSetup();
-          if (!manualSuccess) return;
-        } else {
-          console.log(chalk.yellow('\n설정을 확인 후 다시 init을 실행해주세요.'));
-          return;
-        }
-      } else {
-        console.log(chalk.green('✓ 테이블 생성 완료'));
-      }
-    } else {
-      // 사용자가 직접 SQL 실행
-      const manualSuccess = await promptManualSqlSetup();
-      if (!manualSuccess) return;
-    }
-
-    // Access Token 검증 (입력한 경우)
+    let backendConfig: Pick<Config, 'backend' | 'supabase' | 'localServer'>;
     let validAccessToken: string | null = null;
-    if (supabaseAnswers.accessToken && supabaseAnswers.accessToken.startsWith('sbp_')) {
-      console.log(chalk.gray('  Access Token 검증 중...'));
-      const isValid = await validateAccessToken(supabaseAnswers.accessToken);
-      if (isValid) {
-        validAccessToken = supabaseAnswers.accessToken;
-        console.log(chalk.green('✓ Access Token 유효'));
-      } else {
-        console.log(chalk.yellow('⚠ Access Token이 유효하지 않습니다. 수동 배포로 진행합니다.'));
+    // 메신저 callback URL의 기준 경로 (<base>/<messenger>-callback)
+    let callbackBaseUrl: string;
+
+    if (backend === 'local') {
+      console.log(chalk.cyan('\n━━━ Step 1/3: 로컬 서버 설정 ━━━'));
+      const localServer = await promptLocalServerConfig();
+      backendConfig = { backend: 'local', localServer };
+      callbackBaseUrl = localServer.url;
+    } else {
+      console.log(chalk.cyan('\n━━━ Step 1/3: Supabase 설정 ━━━'));
+      const supabaseSetup = await promptSupabaseSetup();
+      if (!supabaseSetup) {
+        return;
       }
+      backendConfig = { supabase: supabaseSetup.supabase };
+      validAccessToken = supabaseSetup.accessToken;
+      callbackBaseUrl = `${supabaseSetup.supabase.url.replace(/\/+$/, '')}/functions/v1`;
     }
 
     // ━━━ Step 2/3: 메신저 설정 ━━━
@@ -241,191 +170,67 @@ program
         type: 'list',
         name: 'messengerType',
         message: '메신저 선택:',
-        choices: [
-          { name: 'Telegram (권장)', value: 'telegram' },
-          { name: 'Slack', value: 'slack' },
-          { name: 'WhatsApp (Twilio)', value: 'whatsapp' },
-        ],
+        choices: MESSENGER_CHOICES,
         default: 'telegram',
       },
     ]);
 
-    let messengerConfig: Config['messenger'];
-
-    if (messengerType === 'telegram') {
-      // Telegram: Bot Token 입력 후 즉시 검증
-      const { botToken } = await inquirer.prompt([
-        {
-          type: 'password',
-          name: 'botToken',
-          message: 'Bot Token:',
-          mask: '*',
-          validate: (input: string) => {
-            if (!input || input.length < 10) {
-              return 'Telegram Bot Token을 입력해주세요 (@BotFather에서 생성)';
-            }
-            return true;
-          },
-        },
-      ]);
-
-      // Bot Token 검증
-      console.log(chalk.gray('  Bot Token 검증 중...'));
-      const telegramMessenger = new TelegramMessenger({ botToken, chatId: '' });
-      const botResult = await telegramMessenger.testConnection();
-      if (!botResult.ok) {
-        console.log(chalk.red(`✗ Bot Token 검증 실패: ${botResult.error}`));
-        console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
-        return;
-      }
-      console.log(chalk.green(`✓ Bot 확인됨: ${botResult.info?.botUsername}`));
-
-      // Chat ID 확인 방법 안내
-      console.log(chalk.blue('\n💡 Chat ID 확인 방법:'));
-      console.log(chalk.gray('   1. Telegram에서 봇에게 아무 메시지 전송'));
-      console.log(chalk.gray('   2. 브라우저에서 열기:'));
-      console.log(chalk.cyan(`      https://api.telegram.org/bot${botToken}/getUpdates`));
-      console.log(chalk.gray('   3. 응답에서 "chat":{"id": 숫자} 부분이 Chat ID'));
-      console.log('');
-
-      const { chatId } = await inquirer.prompt([
-        {
-          type: 'input',
-          name: 'chatId',
-          message: 'Chat ID:',
-          validate: (input: string) => {
-            if (!input || input.length === 0) {
-              return 'Chat ID를 입력해주세요';
-            }
-            return true;
-          },
-        },
-      ]);
+    const primaryConfig = await promptMessengerConfig(messengerType, callbackBaseUrl);
+    if (!primaryConfig) {
+      return;
+    }
+    const messengerConfig: Config['messenger'] = { type: messengerType, ...primaryConfig };
+    const allowedApprovers: AllowedApproversConfig = {};
+    await promptAllowedApprovers(messengerType, allowedApprovers);
 
-      messengerConfig = {
-        type: 'telegram',
-        telegram: { botToken, chatId },
-      };
-    } else if (messengerType === 'slack') {
-      const { webhookUrl } = await inquirer.prompt([
-        {
-          type: 'input',
-          name: 'webhookUrl',
-          message: 'Webhook URL:',
-          validate: (input: string) => {
-            if (!input.startsWith('https://hooks.slack.com/')) {
-              return 'https://hooks.slack.com/으로 시작하는 URL을 입력해주세요';
-            }
-            return true;
-          },
-        },
-      ]);
+    // 추가 채널: 모든 채널에 동시에 알림을 보내고 가장 먼저 응답한 채널의 결정을 사용
+    const { extraChannels } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'extraChannels',
+        message: '동시에 알림을 받을 메신저 추가 (선택 사항, Space로 선택 후 Enter):',
+        choices: MESSENGER_CHOICES.filter((choice) => choice.value !== messengerType),
+      },
+    ]);
 
-      // Slack Webhook 검증
-      console.log(chalk.gray('  Slack Webhook 검증 중...'));
-      const slackMessenger = new SlackMessenger({ webhookUrl });
-      const slackResult = await slackMessenger.testConnection();
-      if (!slackResult.ok) {
-        console.log(chalk.red(`✗ Slack Webhook 검증 실패: ${slackResult.error}`));
-        console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+    for (const channelType of extraChannels as MessengerType[]) {
+      console.log(chalk.cyan(`\n── ${MessengerFactory.getMessengerTypeLabel(channelType)} 설정 ──`));
+      const channelConfig = await promptMessengerConfig(channelType, callbackBaseUrl);
+      if (!channelConfig) {
         return;
       }
-      console.log(chalk.green('✓ Slack Webhook 확인됨'));
+      Object.assign(messengerConfig, channelConfig);
+      await promptAllowedApprovers(channelType, allowedApprovers);
+    }
 
-      messengerConfig = {
-        type: 'slack',
-        slack: { webhookUrl },
-      };
-    } else {
-      // WhatsApp (Twilio)
-      const { accountSid } = await inquirer.prompt([
-        {
-          type: 'input',
-          name: 'accountSid',
-          message: 'Twilio Account SID:',
-          validate: (input: string) => {
-            if (!input || !input.startsWith('AC')) {
-              return 'AC로 시작하는 Account SID를 입력해주세요';
-            }
-            return true;
-          },
-        },
-      ]);
+    if (extraChannels.length > 0) {
+      messengerConfig.channels = [messengerType, ...extraChannels];
+    }
 
-      const { authToken } = await inquirer.prompt([
+    // 페이로드 암호화 (Supabase 백엔드 전용): DB에는 command, cwd, danger_reason의 암호문만 저장
+    let payloadEncryptionKey: string | undefined;
+    if (backend !== 'local') {
+      const { encryptPayload } = await inquirer.prompt([
         {
-          type: 'password',
-          name: 'authToken',
-          message: 'Twilio Auth Token:',
-          mask: '*',
-          validate: (input: string) => {
-            if (!input || input.length < 20) {
-              return 'Twilio Auth Token을 입력해주세요';
-            }
-            return true;
-          },
+          type: 'confirm',
+          name: 'encryptPayload',
+          message: 'Supabase에 저장되는 명령어를 암호화하시겠습니까? (Edge Function에 PAYLOAD_ENCRYPTION_KEY 필요)',
+          default: false,
         },
       ]);
-
-      // Twilio 계정 검증
-      console.log(chalk.gray('  Twilio 계정 검증 중...'));
-      const tempWhatsApp = new WhatsAppMessenger({
-        accountSid,
-        authToken,
-        fromNumber: 'whatsapp:+1',
-        toNumber: 'whatsapp:+1',
-      });
-      const twilioResult = await tempWhatsApp.testConnection();
-      if (!twilioResult.ok) {
-        console.log(chalk.red(`✗ Twilio 계정 검증 실패: ${twilioResult.error}`));
-        console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
-        return;
+      if (encryptPayload) {
+        payloadEncryptionKey = generatePayloadEncryptionKey();
       }
-      console.log(chalk.green(`✓ Twilio 계정 확인됨: ${twilioResult.info?.accountName}`));
-
-      const whatsappNumbers = await inquirer.prompt([
-        {
-          type: 'input',
-          name: 'fromNumber',
-          message: 'From Number (e.g., whatsapp:+14155238886):',
-          validate: (input: string) => {
-            if (!input.startsWith('whatsapp:+')) {
-              return 'whatsapp:+로 시작하는 번호를 입력해주세요';
-            }
-            return true;
-          },
-        },
-        {
-          type: 'input',
-          name: 'toNumber',
-          message: 'To Number (e.g., whatsapp:+1234567890):',
-          validate: (input: string) => {
-            if (!input.startsWith('whatsapp:+')) {
-              return 'whatsapp:+로 시작하는 번호를 입력해주세요';
-            }
-            return true;
-          },
-        },
-      ]);
-
-      messengerConfig = {
-        type: 'whatsapp',
-        whatsapp: {
-          accountSid,
-          authToken,
-          fromNumber: whatsappNumbers.fromNumber,
-          toNumber: whatsappNumbers.toNumber,
-        },
-      };
     }
 
     // Config 저장
     const config: Config = {
       messenger: messengerConfig,
-      supabase: {
-        url: supabaseAnswers.supabaseUrl,
-        anonKey: supabaseAnswers.supabaseAnonKey,
-      },
+      ...backendConfig,
+      ...(Object.keys(allowedApprovers).length > 0 && { allowedApprovers }),
+      // 새로 배포하는 Edge Function은 결정을 서명하므로 hook에서 검증
+      requireSignedApprovals: true,
+      ...(payloadEncryptionKey && { payloadEncryptionKey }),
       rules: {
         timeoutSeconds: 300, // 기본값
         defaultAction: 'deny', // 기본값 - 보안상 'deny' 권장
@@ -439,11 +244,24 @@ program
     // ━━━ Step 3/3: 배포 및 설정 ━━━
     console.log(chalk.cyan('\n━━━ Step 3/3: 배포 및 설정 ━━━'));
 
-    // Edge Function 배포
-    if (validAccessToken) {
-      await autoDeployEdgeFunction(config, messengerType as MessengerType, validAccessToken);
-    } else {
-      await manualEdgeFunctionSetup(messengerType as MessengerType);
+    // Edge Function 배포 또는 serve callback 안내 (채널별로 하나씩)
+    for (const channelType of getMessengerChannels(config.messenger)) {
+      if (config.backend === 'local') {
+        await printLocalCallbackSetup(config, channelType);
+      } else if (validAccessToken) {
+        await autoDeployEdgeFunction(config, channelType, validAccessToken);
+      } else {
+        await manualEdgeFunctionSetup(config, channelType);
+      }
+    }
+
+    // 감사 기록 Edge Function (Supabase 백엔드, 메신저와 무관하게 하나만 배포)
+    if (config.backend !== 'local') {
+      if (validAccessToken) {
+        await autoDeployAuditFunction(config, validAccessToken);
+      } else {
+        manualAuditFunctionSetup();
+      }
     }
 
     // Hook 등록
@@ -454,9 +272,48 @@ program
       console.log(chalk.red(`✗ ${hookResult.message}`));
     }
 
+    if (config.backend === 'local') {
+      console.log(chalk.yellow(`\n⚠️  승인 요청을 처리하려면 로컬 서버를 실행해두세요: ${chalk.cyan('claude-remote-guard serve')}`));
+    }
+
     console.log(chalk.green('\n🎉 Setup complete! Claude Guard is now active.\n'));
   });
 
+/**
+ * 승인 서명 검증 상태 표시
+ * 서명하지 않는 예전 Edge Function에서 받은 승인이 거부된 기록이 있으면 재배포 방법을 안내
+ */
+function printSignatureStatus(config: Config): void {
+  if (!isSignatureVerificationEnabled(config)) {
+    const cause =
+      config.requireSignedApprovals === false ? 'requireSignedApprovals: false' : 'machineIdSecret 없음';
+    console.log(chalk.yellow(`⚠ Approval signatures not verified (${cause})`));
+    console.log(chalk.gray(`  Run ${chalk.cyan('claude-remote-guard init')} to redeploy signing Edge Functions`));
+    return;
+  }
+
+  // 마지막 서명 누락 거부 이후 원격 승인이 허용되었으면 이미 재배포된 것으로 간주
+  const entries = readDecisionLog();
+  const last = [...entries].reverse().find((entry) => entry.reason?.includes(MISSING_SIGNATURE_ERROR));
+  const allowedSince =
+    last && entries.slice(entries.indexOf(last) + 1).some((e) => e.source === 'remote' && e.decision === 'allow');
+  if (!last || allowedSince) {
+    console.log(chalk.green('✓ Approval signatures verified'));
+    return;
+  }
+
+  console.log(chalk.red('✗ Remote approvals are denied: the deployment does not sign approvals'));
+  console.log(chalk.gray(`  Last: ${last.timestamp} (request ${last.request_id ?? 'unknown'})`));
+  if (config.backend === 'local') {
+    console.log(chalk.gray(`  Restart ${chalk.cyan('claude-remote-guard serve')} with the current version`));
+  } else {
+    console.log(
+      chalk.gray(`  Run ${chalk.cyan('claude-remote-guard init')} to redeploy the Edge Functions and re-run the SQL schema`)
+    );
+  }
+  console.log(chalk.gray('  See README "승인 서명 검증" for upgrade notes'));
+}
+
 program
   .command('status')
   .description('Check Claude Guard status and connections')
@@ -471,6 +328,8 @@ program
       return;
     }
     console.log(chalk.green('✓ Configuration loaded'));
+    const channelLabels = getMessengerChannels(config.messenger).map((type) => MessengerFactory.getMessengerTypeLabel(type));
+    console.log(chalk.gray(`  Messenger: ${channelLabels.join(', ')}`));
 
     // Check hook registration
     if (isHookRegistered()) {
@@ -480,16 +339,27 @@ program
       console.log(chalk.gray(`  Run ${chalk.cyan('claude-remote-guard init')} to register`));
     }
 
-    // Test Supabase
-    console.log(chalk.gray('  Testing Supabase connection...'));
-    const sbResult = await testSupabaseConnection(config);
-    if (sbResult.ok) {
-      console.log(chalk.green('✓ Supabase connection OK'));
+    // Test approval backend
+    const backendLabel = config.backend === 'local' ? `Local server (${config.localServer?.url})` : 'Supabase';
+    console.log(chalk.gray(`  Testing ${backendLabel} connection...`));
+    const store = createApprovalStore(config);
+    const storeResult = await store.testConnection();
+    if (storeResult.ok) {
+      console.log(chalk.green(`✓ ${backendLabel} connection OK`));
     } else {
-      console.log(chalk.red(`✗ Supabase connection failed: ${sbResult.error}`));
+      console.log(chalk.red(`✗ ${backendLabel} connection failed: ${storeResult.error}`));
     }
 
-    await shutdownSupabase();
+    await store.shutdown();
+
+    printSignatureStatus(config);
+
+    // 원격에서 처리되지 않은 요청 (오프라인 폴백, 타임아웃)
+    const queued = readOfflineQueue().length;
+    if (queued > 0) {
+      console.log(chalk.yellow(`⚠ ${queued} request(s) not resolved remotely`));
+      console.log(chalk.gray(`  Run ${chalk.cyan('claude-remote-guard queue')} to inspect`));
+    }
     console.log('');
   });
 
@@ -504,16 +374,18 @@ program
     }
 
     try {
-      const messenger = MessengerFactory.create(config.messenger);
-      const messengerLabel = MessengerFactory.getMessengerTypeLabel(config.messenger.type);
+      // 설정된 모든 채널로 테스트 알림 전송
+      for (const messenger of MessengerFactory.createAll(config.messenger)) {
+        const messengerLabel = MessengerFactory.getMessengerTypeLabel(messenger.type);
 
-      console.log(chalk.blue(`Sending test notification via ${messengerLabel}...`));
+        console.log(chalk.blue(`Sending test notification via ${messengerLabel}...`));
 
-      const result = await messenger.sendTestNotification();
-      if (result.ok) {
-        console.log(chalk.green('✓ Test notification sent successfully!'));
-      } else {
-        console.log(chalk.red(`✗ Failed to send notification: ${result.error}`));
+        const result = await messenger.sendTestNotification();
+        if (result.ok) {
+          console.log(chalk.green('✓ Test notification sent successfully!'));
+        } else {
+          console.log(chalk.red(`✗ Failed to send notification: ${result.error}`));
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -550,6 +422,67 @@ program
     console.log(chalk.blue('\nClaude Guard has been uninstalled.\n'));
   });
 
+program
+  .command('serve')
+  .description('Run the self-hosted approval server (SQLite) instead of Supabase')
+  .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_SERVE_PORT))
+  .option('--host <host>', 'Host to bind', '127.0.0.1')
+  .option('--db <path>', 'SQLite database file', path.join(getConfigDir(), 'approvals.db'))
+  .option('--public-url <url>', 'Public URL that messengers call (default: localServer.url)')
+  .action(async (options: { port: string; host: string; db: string; publicUrl?: string }) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log(chalk.red('Configuration not found. Run claude-remote-guard init first.'));
+      process.exitCode = 1;
+      return;
+    }
+    if (config.backend !== 'local' || !config.localServer) {
+      console.log(chalk.red('✗ 로컬 서버 백엔드가 설정되지 않았습니다.'));
+      console.log(chalk.gray(`  ${chalk.cyan('claude-remote-guard init')}에서 Self-hosted 백엔드를 선택하세요.`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const port = parseInt(options.port, 10);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.log(chalk.red(`✗ 잘못된 포트입니다: ${options.port}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const getSecret = createSecretResolver(config);
+    const server = await startLocalServer({
+      host: options.host,
+      port,
+      dbPath: options.db,
+      apiToken: config.localServer.apiToken,
+      publicUrl: options.publicUrl ?? config.localServer.url,
+      getSecret,
+    });
+
+    console.log(chalk.blue('\n🛡️  Claude Guard Local Server\n'));
+    console.log(chalk.gray(`  Listening: ${server.url}`));
+    console.log(chalk.gray(`  Database:  ${options.db}`));
+    for (const channelType of getMessengerChannels(config.messenger)) {
+      const label = MessengerFactory.getMessengerTypeLabel(channelType);
+      const missing = getEdgeFunctionEnvVars(channelType).filter((name) => !getSecret(name) && name !== 'MACHINE_ID_SECRET');
+      const callbackUrl = `${config.localServer.url}/${getEdgeFunctionName(channelType)}`;
+      if (missing.length > 0) {
+        console.log(chalk.yellow(`  ⚠ ${label}: ${callbackUrl} (환경변수 필요: ${missing.join(', ')})`));
+      } else {
+        console.log(chalk.green(`  ✓ ${label}: ${callbackUrl}`));
+      }
+    }
+    console.log(chalk.gray('\n  Ctrl+C to stop\n'));
+
+    const stop = async () => {
+      await server.close();
+      process.exit(0);
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+
 program
   .command('show-sql')
   .description('Show SQL script for Supabase database setup')
@@ -574,52 +507,1146 @@ program
     }
   });
 
-async function autoDeployEdgeFunction(config: Config, messengerType: MessengerType, accessToken: string): Promise<void> {
-  const projectRef = extractProjectRef(config.supabase.url);
-  if (!projectRef) {
-    console.log(chalk.red('✗ Supabase URL에서 project ref를 추출할 수 없습니다.'));
-    console.log(chalk.yellow('수동 배포로 전환합니다.'));
-    await manualEdgeFunctionSetup(messengerType);
-    return;
-  }
+const rulesCommand = program.command('rules').description('Inspect the active rule policy');
 
-  const funcName = getEdgeFunctionName(messengerType);
-  const sourceCode = getEdgeFunctionSource(messengerType);
+rulesCommand
+  .command('test [commands...]')
+  .description('Dry-run commands against the active policy (args, --file, or stdin)')
+  .option('-f, --file <path>', 'Read commands from a file (one per line, # for comments)')
+  .option('--cwd <dir>', 'Directory used to resolve project rule files', process.cwd())
+  .option('--json', 'Print results as JSON')
+  .action(async (commandArgs: string[], options: { file?: string; cwd: string; json?: boolean }) => {
+    const commands = [...commandArgs];
 
-  // Edge Function 배포
-  console.log(chalk.gray(`  Edge Function 배포 중... (${funcName})`));
-  const deployResult = await deployEdgeFunction(projectRef, accessToken, funcName, sourceCode);
+    if (options.file) {
+      try {
+        commands.push(...parseCommandLines(fs.readFileSync(options.file, 'utf-8')));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.log(chalk.red(`✗ 파일을 읽을 수 없습니다: ${errorMessage}`));
+        process.exitCode = 1;
+        return;
+      }
+    }
 
-  if (!deployResult.success) {
-    console.log(chalk.red(`\n✗ Edge Function 배포 실패: ${deployResult.error}`));
-    console.log(chalk.yellow('수동 배포로 전환합니다.'));
-    await manualEdgeFunctionSetup(messengerType);
-    return;
-  }
-  console.log(chalk.green(`✓ Edge Function 배포 완료: ${deployResult.url}`));
+    if (commands.length === 0 && !process.stdin.isTTY) {
+      commands.push(...parseCommandLines(await readAllStdin()));
+    }
 
-  // Secrets 설정
-  const secrets = await collectSecretsForMessenger(config, messengerType);
-  if (Object.keys(secrets).length > 0) {
-    console.log(chalk.gray('  Secrets 설정 중...'));
-    const secretsResult = await setEdgeFunctionSecrets(projectRef, accessToken, secrets);
+    if (commands.length === 0) {
+      console.log(chalk.yellow('테스트할 명령어를 입력해주세요.'));
+      console.log(chalk.gray('  claude-remote-guard rules test "git push --force" "rm -rf ./dist"'));
+      console.log(chalk.gray('  claude-remote-guard rules test --file commands.txt'));
+      console.log(chalk.gray('  echo "npm publish" | claude-remote-guard rules test'));
+      process.exitCode = 1;
+      return;
+    }
 
-    if (!secretsResult.success) {
-      console.log(chalk.yellow(`⚠ Secrets 설정 실패: ${secretsResult.error}`));
-      console.log(chalk.gray('  수동으로 설정해주세요:'));
-      for (const [key] of Object.entries(secrets)) {
-        console.log(chalk.cyan(`    supabase secrets set ${key}=<value>`));
-      }
-    } else {
-      console.log(chalk.green('✓ Secrets 설정 완료'));
+    // 활성 정책 로드 (설정이 없으면 기본 규칙 사용)
+    const config = loadConfig();
+    const { rules, sources, warnings } = resolveProjectRules(
+      (config ?? getDefaultConfig()).rules,
+      options.cwd
+    );
+    const rejectedPatterns = findRejectedPatterns(
+      (rules.customPatterns ?? []).map((p) => p.pattern)
+    );
+    const rejectedWhitelist = findRejectedPatterns(rules.whitelist ?? [], true);
+    const rejectedWhitelistSet = new Set(rejectedWhitelist.map((r) => r.pattern));
+
+    // 거부된 패턴은 미리 제외하여 분석 중 경고 로그가 반복 출력되지 않도록 함
+    const validCustomPatterns = (rules.customPatterns ?? []).filter(
+      (p) => !rejectedPatterns.some((r) => r.pattern === p.pattern)
+    );
+    const customPatterns = compileCustomPatterns(validCustomPatterns);
+    const whitelist = (rules.whitelist ?? []).filter((p) => !rejectedWhitelistSet.has(p));
+
+    const results = commands.map((command) => ({
+      command,
+      ...analyzeCommandDetailed(command, customPatterns, whitelist),
+    }));
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          {
+            policy: {
+              globalConfig: config ? getConfigPath() : null,
+              projectFiles: sources,
+              rejectedPatterns,
+              rejectedWhitelist,
+              warnings,
+            },
+            results,
+          },
+          null,
+          2
+        )
+      );
+      return;
     }
-  }
 
-  // Telegram인 경우 Webhook 설정
-  if (messengerType === 'telegram' && config.messenger.telegram) {
-    await setupTelegramWebhook(config.messenger.telegram.botToken, deployResult.url!, secrets['TELEGRAM_WEBHOOK_SECRET']);
-  }
-}
+    console.log(chalk.blue('\n🛡️  Claude Guard Rules Test\n'));
+    console.log(
+      config
+        ? chalk.gray(`  Global config: ${getConfigPath()}`)
+        : chalk.yellow('  ⚠ 설정 파일이 없어 기본 규칙만 사용합니다.')
+    );
+    for (const source of sources) {
+      console.log(chalk.gray(`  Project rules: ${source}`));
+    }
+    console.log(
+      chalk.gray(
+        `  Custom patterns: ${customPatterns.length}, Whitelist: ${whitelist.length}, Default action: ${rules.defaultAction}`
+      )
+    );
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`  ⚠ ${warning}`));
+    }
+    for (const rejected of rejectedPatterns) {
+      console.log(chalk.yellow(`  ⚠ customPatterns 거부됨: ${rejected.reason}`));
+    }
+    for (const rejected of rejectedWhitelist) {
+      console.log(chalk.yellow(`  ⚠ whitelist 거부됨: ${rejected.reason}`));
+    }
+
+    for (const { command, result, segments } of results) {
+      console.log(`\n${chalk.bold('$')} ${command}`);
+      console.log(`  ${formatRuleResult(result)}`);
+      if (result.matchedPattern) {
+        console.log(chalk.gray(`    pattern: ${result.matchedPattern}`));
+      }
+      if (result.matchedSegment && result.matchedSegment !== command.trim()) {
+        console.log(chalk.gray(`    segment: ${result.matchedSegment}`));
+      }
+      if (result.whitelistedBy) {
+        console.log(chalk.gray(`    whitelist: ${result.whitelistedBy}`));
+      }
+      if (segments.length > 1) {
+        console.log(chalk.gray('    segments:'));
+        for (const { segment, result: segmentResult } of segments) {
+          const detail =
+            segmentResult.matchedPattern ?? segmentResult.whitelistedBy ?? segmentResult.reason;
+          console.log(chalk.gray(`      - ${segment}  →  ${segmentResult.severity} (${detail})`));
+        }
+      }
+    }
+    console.log('');
+  });
+
+const queueCommand = program
+  .command('queue')
+  .description('Inspect requests that were not resolved remotely (offline fallback, timeouts)');
+
+queueCommand
+  .command('list', { isDefault: true })
+  .description('List queued requests (newest first)')
+  .option('-n, --limit <count>', 'Maximum number of entries to show', '20')
+  .option('--json', 'Print entries as JSON')
+  .action((options: { limit: string; json?: boolean }) => {
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1) {
+      console.log(chalk.red(`✗ 잘못된 개수입니다: ${options.limit}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const entries = readOfflineQueue().reverse().slice(0, limit);
+
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    console.log(chalk.blue('\n🛡️  Claude Guard Offline Queue\n'));
+    console.log(chalk.gray(`  File: ${getOfflineQueuePath()}`));
+
+    if (entries.length === 0) {
+      console.log(chalk.green('\n✓ 원격에서 처리되지 않은 요청이 없습니다.\n'));
+      return;
+    }
+
+    for (const entry of entries) {
+      console.log(`\n${formatQueueEntry(entry)}`);
+      console.log(`  ${chalk.bold('$')} ${entry.command}`);
+      console.log(chalk.gray(`    ${entry.severity} · ${entry.danger_reason}`));
+      console.log(chalk.gray(`    cwd: ${entry.cwd}`));
+      console.log(chalk.gray(`    error: ${entry.error}`));
+    }
+    console.log('');
+  });
+
+queueCommand
+  .command('clear')
+  .description('Remove all queued requests')
+  .action(async () => {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Remove all queued requests?',
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.yellow('Cancelled.'));
+      return;
+    }
+
+    const count = clearOfflineQueue();
+    console.log(chalk.green(`✓ ${count}개의 요청을 삭제했습니다.`));
+  });
+
+program
+  .command('history')
+  .description('Show past approval decisions from the audit trail')
+  .option('--since <time>', 'Only decisions after this time (e.g. 7d, 12h, 2026-01-31)')
+  .option('--until <time>', 'Only decisions before this time')
+  .option('--severity <level>', 'Filter by severity (low, medium, high, critical)')
+  .option('--status <status>', `Filter by status (${AUDIT_STATUSES.join(', ')})`)
+  .option('--repo <dir>', 'Filter by repository (any directory inside it)')
+  .option('--approver <name>', 'Filter by approver name')
+  .option('-n, --limit <count>', `Maximum number of entries (max ${MAX_AUDIT_LIMIT})`, '50')
+  .option('--json', 'Print entries as JSON')
+  .option('--csv', 'Print entries as CSV')
+  .action(
+    async (options: {
+      since?: string;
+      until?: string;
+      severity?: string;
+      status?: string;
+      repo?: string;
+      approver?: string;
+      limit: string;
+      json?: boolean;
+      csv?: boolean;
+    }) => {
+      const config = loadConfig();
+      if (!config) {
+        console.log(chalk.red('✗ Configuration not found or invalid'));
+        process.exitCode = 1;
+        return;
+      }
+
+      const filter: AuditFilter = { limit: parseInt(options.limit, 10) };
+      const errors: string[] = [];
+      if (isNaN(filter.limit) || filter.limit < 1 || filter.limit > MAX_AUDIT_LIMIT) {
+        errors.push(`--limit은 1~${MAX_AUDIT_LIMIT} 사이여야 합니다: ${options.limit}`);
+      }
+      for (const key of ['since', 'until'] as const) {
+        const value = options[key];
+        if (value !== undefined) {
+          const parsed = parseHistoryTime(value);
+          if (parsed) {
+            filter[key] = parsed;
+          } else {
+            errors.push(`--${key} 값을 해석할 수 없습니다: ${value}`);
+          }
+        }
+      }
+      if (options.severity !== undefined) {
+        if (isSeverity(options.severity)) {
+          filter.severity = options.severity;
+        } else {
+          errors.push(`잘못된 심각도입니다: ${options.severity}`);
+        }
+      }
+      if (options.status !== undefined) {
+        if (isAuditStatus(options.status)) {
+          filter.status = options.status;
+        } else {
+          errors.push(`잘못된 상태입니다: ${options.status}`);
+        }
+      }
+      if (options.json && options.csv) {
+        errors.push('--json과 --csv는 함께 사용할 수 없습니다.');
+      }
+      if (errors.length > 0) {
+        for (const error of errors) {
+          console.log(chalk.red(`✗ ${error}`));
+        }
+        process.exitCode = 1;
+        return;
+      }
+      if (options.repo !== undefined) {
+        filter.repo = findRepoRoot(options.repo) ?? path.resolve(options.repo);
+      }
+      if (options.approver !== undefined) {
+        filter.approver = options.approver;
+      }
+
+      // 감사 기록은 머신 단위로 조회되므로 hook과 같은 machine_id 헤더 사용
+      const machineId = getMachineId();
+      const store = createApprovalStore(
+        config,
+        config.machineIdSecret ? getSignedMachineId(machineId, config.machineIdSecret) : machineId
+      );
+
+      let entries: AuditEntry[];
+      try {
+        entries = await store.listAudit(filter);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.log(chalk.red(`✗ 감사 기록을 조회할 수 없습니다: ${errorMessage}`));
+        console.log(chalk.gray('  approval_audit 테이블이 없다면 SQL 스키마를 다시 실행하세요 (claude-remote-guard show-sql).'));
+        if (config.backend !== 'local') {
+          console.log(
+            chalk.gray(`  Supabase 백엔드는 ${AUDIT_EDGE_FUNCTION_NAME} Edge Function이 필요합니다 (init 재실행 또는 직접 배포).`)
+          );
+        }
+        process.exitCode = 1;
+        return;
+      } finally {
+        await store.shutdown();
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (options.csv) {
+        process.stdout.write(formatAuditCsv(entries));
+        return;
+      }
+
+      console.log(chalk.blue('\n🛡️  Claude Guard History\n'));
+      if (entries.length === 0) {
+        console.log(chalk.gray('  조건에 맞는 기록이 없습니다.\n'));
+        return;
+      }
+
+      for (const entry of entries) {
+        console.log(formatAuditEntry(entry));
+        console.log(`  ${chalk.bold('$')} ${entry.command}`);
+        console.log(chalk.gray(`    ${entry.severity} · ${entry.danger_reason}`));
+        console.log(chalk.gray(`    ${entry.repo ?? entry.cwd}`));
+        if (entry.reason) {
+          console.log(chalk.gray(`    ${entry.reason}`));
+        }
+        console.log('');
+      }
+      if (entries.length === filter.limit) {
+        console.log(chalk.gray(`  최근 ${filter.limit}개만 표시했습니다. --limit으로 늘릴 수 있습니다.\n`));
+      }
+    }
+  );
+
+function formatAuditEntry(entry: AuditEntry): string {
+  const approver = entry.resolved_by ? ` by ${entry.resolved_by}` : '';
+  const latency = `${(entry.latency_ms / 1000).toFixed(1)}s`;
+  const label = `${entry.created_at}  ${entry.tool_name}  ${entry.status.toUpperCase()} → ${entry.decision} (${entry.resolved_via}${approver}, ${latency})`;
+  return entry.decision === 'allow' ? chalk.green(label) : chalk.red(label);
+}
+
+function formatQueueEntry(entry: OfflineQueueEntry): string {
+  const via = entry.resolved_via === 'local' ? 'Local TTY' : 'defaultAction';
+  const label = `${entry.created_at}  ${entry.tool_name}  ${entry.status.toUpperCase()} → ${entry.decision} (${via})`;
+  return entry.decision === 'allow' ? chalk.green(label) : chalk.red(label);
+}
+
+function parseCommandLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+async function readAllStdin(): Promise<string> {
+  let data = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    data += chunk;
+  }
+  return data;
+}
+
+function formatRuleResult(result: RuleResult): string {
+  if (!result.isDangerous) {
+    return chalk.green(`✓ ALLOW  ${result.reason}`);
+  }
+  const label = `${getSeverityEmoji(result.severity)} ${result.severity.toUpperCase()}  ${result.reason}`;
+  return result.severity === 'critical' || result.severity === 'high'
+    ? chalk.red(label)
+    : chalk.yellow(label);
+}
+
+/**
+ * Supabase 접속 정보 입력, 연결 확인 및 테이블 생성
+ * @returns Supabase 설정과 검증된 Access Token (실패/취소 시 null)
+ */
+async function promptSupabaseSetup(): Promise<{
+  supabase: NonNullable<Config['supabase']>;
+  accessToken: string | null;
+} | null> {
+  const supabaseAnswers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'supabaseUrl',
+      message: 'Supabase URL:',
+      validate: (input: string) => {
+        if (!input.startsWith('https://') || !input.includes('.supabase.co')) {
+          return 'https://xxx.supabase.co 형식으로 입력해주세요';
+        }
+        return true;
+      },
+    },
+    {
+      type: 'password',
+      name: 'supabaseAnonKey',
+      message: 'Anon Key:',
+      mask: '*',
+      validate: (input: string) => {
+        if (!input || input.length < 20) {
+          return 'Supabase Anon Key를 입력해주세요';
+        }
+        return true;
+      },
+    },
+  ]);
+
+  // Access Token 발급 안내
+  console.log(chalk.blue('\n💡 Access Token 발급 방법 (자동 배포를 원하면):'));
+  console.log(chalk.gray('   1. https://supabase.com/dashboard 접속'));
+  console.log(chalk.gray('   2. 좌측 하단 프로필 클릭 → Account Settings'));
+  console.log(chalk.gray('   3. Access Tokens 탭 → Generate new token'));
+  console.log(chalk.gray('   4. 생성된 토큰 복사 (sbp_로 시작)'));
+  console.log(chalk.gray('\n   ⏭️  건너뛰면 수동 배포 안내가 표시됩니다.\n'));
+
+  const { accessToken } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'accessToken',
+      message: 'Access Token (자동 배포용, 건너뛰려면 Enter):',
+      mask: '*',
+    },
+  ]);
+
+  // accessToken을 supabaseAnswers에 병합
+  supabaseAnswers.accessToken = accessToken;
+
+  // Supabase 연결 테스트
+  console.log(chalk.gray('  Supabase 연결 확인 중...'));
+  const tempConfig: Config = {
+    messenger: { type: 'slack' }, // 임시
+    supabase: {
+      url: supabaseAnswers.supabaseUrl,
+      anonKey: supabaseAnswers.supabaseAnonKey,
+    },
+    rules: { timeoutSeconds: 300, defaultAction: 'deny' },
+  };
+  const sbResult = await testSupabaseConnection(tempConfig);
+  if (!sbResult.ok) {
+    console.log(chalk.red(`✗ Supabase 연결 실패: ${sbResult.error}`));
+    console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+    await shutdownSupabase();
+    return null;
+  }
+  console.log(chalk.green('✓ Supabase 연결 확인됨'));
+  await shutdownSupabase();
+
+  // SQL 테이블 생성 방법 선택
+  console.log(chalk.yellow('\n📋 데이터베이스 테이블 생성이 필요합니다.'));
+
+  const { tableSetupMethod } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'tableSetupMethod',
+      message: '테이블 생성 방법:',
+      choices: [
+        { name: 'CLI가 직접 실행 (Database Password 필요)', value: 'auto' },
+        { name: '직접 SQL Editor에서 실행', value: 'manual' },
+      ],
+      default: 'auto',
+    },
+  ]);
+
+  if (tableSetupMethod === 'auto') {
+    // CLI가 직접 SQL 실행
+    const { databasePassword } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'databasePassword',
+        message: 'Database Password:',
+        mask: '*',
+        validate: (input: string) => {
+          if (!input || input.length < 1) {
+            return 'Database Password를 입력해주세요 (Supabase Dashboard > Settings > Database)';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    console.log(chalk.gray('  테이블 생성 중...'));
+    const dbResult = await executeSetupSQL(
+      supabaseAnswers.supabaseUrl,
+      databasePassword,
+      supabaseAnswers.accessToken || undefined
+    );
+
+    if (!dbResult.ok) {
+      console.log(chalk.red(`✗ 테이블 생성 실패: ${dbResult.error}`));
+
+      // SSL 인증서 에러 처리
+      if (
+        dbResult.error?.includes('self-signed certificate') ||
+        dbResult.error?.includes('SELF_SIGNED_CERT') ||
+        dbResult.error?.includes('unable to verify')
+      ) {
+        console.log(chalk.yellow('\n⚠️  SSL 인증서 에러 (회사 프록시/VPN 환경)'));
+        console.log(chalk.gray('  해결 방법:'));
+        console.log(chalk.gray('  1. VPN 끄고 재시도'));
+        console.log(chalk.gray('  2. 또는 환경변수 설정 후 재시도:'));
+        console.log(chalk.cyan('     NODE_TLS_REJECT_UNAUTHORIZED=0 npx claude-remote-guard init'));
+      }
+
+      // 수동 방법으로 폴백
+      const { retryManual } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'retryManual',
+          message: '직접 SQL Editor에서 실행하시겠습니까?',
+          default: true,
+        },
+      ]);
+
+      if (retryManual) {
+        const manualSuccess = await promptManualSqlSetup();
+        if (!manualSuccess) return null;
+      } else {
+        console.log(chalk.yellow('\n설정을 확인 후 다시 init을 실행해주세요.'));
+        return null;
+      }
+    } else {
+      console.log(chalk.green('✓ 테이블 생성 완료'));
+    }
+  } else {
+    // 사용자가 직접 SQL 실행
+    const manualSuccess = await promptManualSqlSetup();
+    if (!manualSuccess) return null;
+  }
+
+  // Access Token 검증 (입력한 경우)
+  let validAccessToken: string | null = null;
+  if (supabaseAnswers.accessToken && supabaseAnswers.accessToken.startsWith('sbp_')) {
+    console.log(chalk.gray('  Access Token 검증 중...'));
+    const isValid = await validateAccessToken(supabaseAnswers.accessToken);
+    if (isValid) {
+      validAccessToken = supabaseAnswers.accessToken;
+      console.log(chalk.green('✓ Access Token 유효'));
+    } else {
+      console.log(chalk.yellow('⚠ Access Token이 유효하지 않습니다. 수동 배포로 진행합니다.'));
+    }
+  }
+
+  return {
+    supabase: {
+      url: supabaseAnswers.supabaseUrl,
+      anonKey: supabaseAnswers.supabaseAnonKey,
+    },
+    accessToken: validAccessToken,
+  };
+}
+
+/**
+ * claude-remote-guard serve 접속 URL 입력 및 API 토큰 생성
+ */
+async function promptLocalServerConfig(): Promise<NonNullable<Config['localServer']>> {
+  console.log(chalk.gray('   메신저 callback은 이 URL로 전달됩니다. 외부에서 접근하려면 터널/리버스 프록시의 https URL을 입력하세요.'));
+
+  const { url } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'url',
+      message: 'Server URL:',
+      default: `http://localhost:${DEFAULT_SERVE_PORT}`,
+      validate: (input: string) => {
+        if (!isAllowedWebhookUrl(input)) {
+          return 'https:// URL을 입력해주세요 (http는 localhost만 허용)';
+        }
+        return true;
+      },
+    },
+  ]);
+
+  console.log(chalk.green('✓ API Token 자동 생성됨 (설정 파일에 암호화되어 저장)'));
+  return { url: url.replace(/\/+$/, ''), apiToken: generateWebhookSecret() };
+}
+
+const APPROVER_ID_HINTS: Record<ApproverMessengerType, string> = {
+  slack: 'Slack user ID (예: U01ABCDEF, 프로필 > ⋮ > Copy member ID)',
+  telegram: 'Telegram user ID (예: 123456789, @userinfobot으로 확인)',
+  whatsapp: '전화번호 (예: +821012345678)',
+};
+
+/**
+ * 승인 허용 사용자 입력 (Slack/Telegram/WhatsApp만 지원)
+ * 비워두면 메시지를 받은 누구나 승인 가능
+ */
+async function promptAllowedApprovers(
+  messengerType: MessengerType,
+  allowedApprovers: AllowedApproversConfig
+): Promise<void> {
+  if (messengerType !== 'slack' && messengerType !== 'telegram' && messengerType !== 'whatsapp') {
+    return;
+  }
+
+  const { approvers } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'approvers',
+      message: `승인 허용 사용자 (쉼표 구분, 비우면 모두 허용) - ${APPROVER_ID_HINTS[messengerType]}:`,
+      validate: (input: string) => {
+        const invalid = parseApproverIds(input).filter((id) => !isValidApproverId(messengerType, id));
+        if (invalid.length > 0) {
+          return `올바르지 않은 ID: ${invalid.join(', ')}`;
+        }
+        return true;
+      },
+    },
+  ]);
+
+  const ids = parseApproverIds(approvers);
+  if (ids.length > 0) {
+    allowedApprovers[messengerType] = ids;
+  }
+}
+
+function parseApproverIds(input: string): string[] {
+  return input
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+}
+
+/**
+ * 메신저별 인증 정보를 입력받고 API로 검증
+ * @returns Config['messenger']에 병합할 메신저별 설정 (검증 실패 시 null)
+ */
+async function promptMessengerConfig(
+  messengerType: MessengerType,
+  callbackBaseUrl: string
+): Promise<Omit<Config['messenger'], 'type' | 'channels'> | null> {
+  if (messengerType === 'telegram') {
+    // Telegram: Bot Token 입력 후 즉시 검증
+    const { botToken } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'botToken',
+        message: 'Bot Token:',
+        mask: '*',
+        validate: (input: string) => {
+          if (!input || input.length < 10) {
+            return 'Telegram Bot Token을 입력해주세요 (@BotFather에서 생성)';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    // Bot Token 검증
+    console.log(chalk.gray('  Bot Token 검증 중...'));
+    const telegramMessenger = new TelegramMessenger({ botToken, chatId: '' });
+    const botResult = await telegramMessenger.testConnection();
+    if (!botResult.ok) {
+      console.log(chalk.red(`✗ Bot Token 검증 실패: ${botResult.error}`));
+      console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+      return null;
+    }
+    console.log(chalk.green(`✓ Bot 확인됨: ${botResult.info?.botUsername}`));
+
+    // Chat ID 확인 방법 안내
+    console.log(chalk.blue('\n💡 Chat ID 확인 방법:'));
+    console.log(chalk.gray('   1. Telegram에서 봇에게 아무 메시지 전송'));
+    console.log(chalk.gray('   2. 브라우저에서 열기:'));
+    console.log(chalk.cyan(`      https://api.telegram.org/bot${botToken}/getUpdates`));
+    console.log(chalk.gray('   3. 응답에서 "chat":{"id": 숫자} 부분이 Chat ID'));
+    console.log('');
+
+    const { chatId } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'chatId',
+        message: 'Chat ID:',
+        validate: (input: string) => {
+          if (!input || input.length === 0) {
+            return 'Chat ID를 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    return {
+      telegram: { botToken, chatId },
+    };
+  } else if (messengerType === 'slack') {
+    const { slackMode } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'slackMode',
+        message: 'Slack 연동 방식:',
+        choices: [
+          { name: 'Incoming Webhook (간단)', value: 'webhook' },
+          { name: 'Bot Token (처리 결과/타임아웃을 원본 메시지에 표시)', value: 'bot' },
+        ],
+      },
+    ]);
+
+    if (slackMode === 'bot') {
+      const { botToken, channelId } = await inquirer.prompt([
+        {
+          type: 'password',
+          name: 'botToken',
+          message: 'Bot User OAuth Token (xoxb-...):',
+          mask: '*',
+          validate: (input: string) => {
+            if (!input.startsWith('xoxb-')) {
+              return 'xoxb-로 시작하는 Bot Token을 입력해주세요 (OAuth & Permissions, chat:write 권한 필요)';
+            }
+            return true;
+          },
+        },
+        {
+          type: 'input',
+          name: 'channelId',
+          message: 'Channel ID (예: C0123ABCD, 채널에 앱을 추가해야 합니다):',
+          validate: (input: string) => {
+            if (!/^[A-Z0-9]+$/.test(input)) {
+              return '채널 ID를 입력해주세요 (채널 이름 클릭 > 하단의 Channel ID)';
+            }
+            return true;
+          },
+        },
+      ]);
+
+      // Slack Bot Token 검증
+      console.log(chalk.gray('  Slack Bot Token 검증 중...'));
+      const slackMessenger = new SlackMessenger({ botToken, channelId });
+      const slackResult = await slackMessenger.testConnection();
+      if (!slackResult.ok) {
+        console.log(chalk.red(`✗ Slack Bot Token 검증 실패: ${slackResult.error}`));
+        console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+        return null;
+      }
+      console.log(chalk.green(`✓ Bot 확인됨: ${slackResult.info?.botUsername}`));
+
+      return {
+        slack: { botToken, channelId },
+      };
+    }
+
+    const { webhookUrl } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'webhookUrl',
+        message: 'Webhook URL:',
+        validate: (input: string) => {
+          if (!input.startsWith('https://hooks.slack.com/')) {
+            return 'https://hooks.slack.com/으로 시작하는 URL을 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    // Slack Webhook 검증
+    console.log(chalk.gray('  Slack Webhook 검증 중...'));
+    const slackMessenger = new SlackMessenger({ webhookUrl });
+    const slackResult = await slackMessenger.testConnection();
+    if (!slackResult.ok) {
+      console.log(chalk.red(`✗ Slack Webhook 검증 실패: ${slackResult.error}`));
+      console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+      return null;
+    }
+    console.log(chalk.green('✓ Slack Webhook 확인됨'));
+
+    return {
+      slack: { webhookUrl },
+    };
+  } else if (messengerType === 'discord') {
+    // Discord: Bot Token 입력 후 즉시 검증
+    const { botToken } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'botToken',
+        message: 'Bot Token:',
+        mask: '*',
+        validate: (input: string) => {
+          if (!input || input.length < 50) {
+            return 'Discord Bot Token을 입력해주세요 (Developer Portal > Bot > Reset Token)';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    console.log(chalk.gray('  Bot Token 검증 중...'));
+    const discordMessenger = new DiscordMessenger({ botToken, channelId: '' });
+    const botResult = await discordMessenger.testConnection();
+    if (!botResult.ok) {
+      console.log(chalk.red(`✗ Bot Token 검증 실패: ${botResult.error}`));
+      console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+      return null;
+    }
+    console.log(chalk.green(`✓ Bot 확인됨: ${botResult.info?.botUsername}`));
+
+    // Channel ID 확인 방법 안내
+    console.log(chalk.blue('\n💡 Channel ID 확인 방법:'));
+    console.log(chalk.gray('   1. Discord 설정 > 고급 > 개발자 모드 활성화'));
+    console.log(chalk.gray('   2. 봇이 초대된 서버의 채널을 우클릭 > "채널 ID 복사하기"'));
+    console.log(chalk.gray('   3. 봇에게 해당 채널의 "메시지 보내기" 권한이 필요합니다'));
+    console.log('');
+
+    const { channelId } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'channelId',
+        message: 'Channel ID:',
+        validate: (input: string) => {
+          if (!/^\d+$/.test(input)) {
+            return '숫자로 된 Channel ID를 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    return {
+      discord: { botToken, channelId },
+    };
+  } else if (messengerType === 'teams') {
+    // Microsoft Teams: Azure Bot 자격 증명 입력 후 즉시 검증
+    const teamsCredentials = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'appId',
+        message: 'Microsoft App ID:',
+        validate: (input: string) => {
+          if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(input)) {
+            return 'GUID 형식의 Microsoft App ID를 입력해주세요 (Azure Bot > Configuration)';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'password',
+        name: 'appPassword',
+        message: 'Client Secret:',
+        mask: '*',
+        validate: (input: string) => {
+          if (!input || input.length < 10) {
+            return 'Client Secret을 입력해주세요 (App registration > Certificates & secrets)';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'input',
+        name: 'tenantId',
+        message: 'Tenant ID (Single-tenant Bot인 경우, Multi-tenant는 Enter):',
+        validate: (input: string) => {
+          if (input && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(input)) {
+            return 'GUID 형식의 Tenant ID를 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+    const tenantId: string | undefined = teamsCredentials.tenantId || undefined;
+
+    console.log(chalk.gray('  Azure Bot 자격 증명 검증 중...'));
+    const tempTeams = new TeamsMessenger({
+      appId: teamsCredentials.appId,
+      appPassword: teamsCredentials.appPassword,
+      tenantId,
+      serviceUrl: 'https://',
+      conversationId: '',
+    });
+    const teamsResult = await tempTeams.testConnection();
+    if (!teamsResult.ok) {
+      console.log(chalk.red(`✗ Azure Bot 검증 실패: ${teamsResult.error}`));
+      console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+      return null;
+    }
+    console.log(chalk.green('✓ Azure Bot 인증 확인됨'));
+
+    // Conversation ID 확인 방법 안내
+    console.log(chalk.blue('\n💡 Conversation ID 확인 방법:'));
+    console.log(chalk.gray('   1. Teams 앱(Bot)을 알림을 받을 팀 채널에 추가'));
+    console.log(chalk.gray('   2. 채널 이름 옆 ··· > "채널 링크 가져오기"'));
+    console.log(chalk.gray('   3. 링크의 /channel/ 뒤 부분(19:...@thread.tacv2)을 URL 디코딩한 값이 Conversation ID'));
+    console.log('');
+
+    const teamsTarget = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'serviceUrl',
+        message: 'Service URL:',
+        default: 'https://smba.trafficmanager.net/teams/',
+        validate: (input: string) => {
+          if (!input.startsWith('https://')) {
+            return 'https://로 시작하는 URL을 입력해주세요';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'input',
+        name: 'conversationId',
+        message: 'Conversation ID:',
+        validate: (input: string) => {
+          if (!input || input.length === 0) {
+            return 'Conversation ID를 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    return {
+      teams: {
+        appId: teamsCredentials.appId,
+        appPassword: teamsCredentials.appPassword,
+        ...(tenantId ? { tenantId } : {}),
+        serviceUrl: teamsTarget.serviceUrl,
+        conversationId: teamsTarget.conversationId,
+      },
+    };
+  } else if (messengerType === 'webhook') {
+    // Webhook: 서명된 JSON payload를 지정한 엔드포인트로 전송
+    const webhookAnswers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'url',
+        message: 'Webhook URL:',
+        validate: (input: string) => {
+          if (!isAllowedWebhookUrl(input)) {
+            return 'https:// URL을 입력해주세요 (http는 localhost만 허용)';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'password',
+        name: 'secret',
+        message: 'Signing Secret (32자 이상, 자동 생성하려면 Enter):',
+        mask: '*',
+        validate: (input: string) => {
+          if (input && input.length < 32) {
+            return 'Signing Secret은 32자 이상이어야 합니다';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    let secret: string = webhookAnswers.secret;
+    if (!secret) {
+      // 수신 측에서 서명을 검증해야 하므로 자동 생성한 경우 한 번만 표시
+      secret = generateWebhookSecret();
+      console.log(chalk.yellow('\n⚠️  Signing Secret이 생성되었습니다. 수신 측 서명 검증에 필요하므로 안전한 곳에 보관하세요:'));
+      console.log(chalk.cyan(`   ${secret}\n`));
+    }
+
+    const callbackUrl = `${callbackBaseUrl}/${getEdgeFunctionName('webhook')}`;
+
+    console.log(chalk.gray('  Webhook 연결 확인 중 (ping 이벤트 전송)...'));
+    const webhookMessenger = new WebhookMessenger({ url: webhookAnswers.url, secret, callbackUrl });
+    const webhookResult = await webhookMessenger.testConnection();
+    if (!webhookResult.ok) {
+      console.log(chalk.red(`✗ Webhook 확인 실패: ${webhookResult.error}`));
+      console.log(chalk.yellow('엔드포인트가 ping 이벤트에 2xx로 응답하는지 확인 후 다시 시도해주세요.'));
+      return null;
+    }
+    console.log(chalk.green('✓ Webhook 확인됨'));
+
+    return {
+      webhook: { url: webhookAnswers.url, secret, callbackUrl },
+    };
+  } else {
+    // WhatsApp (Twilio)
+    const { accountSid } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'accountSid',
+        message: 'Twilio Account SID:',
+        validate: (input: string) => {
+          if (!input || !input.startsWith('AC')) {
+            return 'AC로 시작하는 Account SID를 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    const { authToken } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'authToken',
+        message: 'Twilio Auth Token:',
+        mask: '*',
+        validate: (input: string) => {
+          if (!input || input.length < 20) {
+            return 'Twilio Auth Token을 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+
+    // Twilio 계정 검증
+    console.log(chalk.gray('  Twilio 계정 검증 중...'));
+    const tempWhatsApp = new WhatsAppMessenger({
+      accountSid,
+      authToken,
+      fromNumber: 'whatsapp:+1',
+      toNumber: 'whatsapp:+1',
+    });
+    const twilioResult = await tempWhatsApp.testConnection();
+    if (!twilioResult.ok) {
+      console.log(chalk.red(`✗ Twilio 계정 검증 실패: ${twilioResult.error}`));
+      console.log(chalk.yellow('설정을 확인 후 다시 시도해주세요.'));
+      return null;
+    }
+    console.log(chalk.green(`✓ Twilio 계정 확인됨: ${twilioResult.info?.accountName}`));
+
+    const whatsappNumbers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'fromNumber',
+        message: 'From Number (e.g., whatsapp:+14155238886):',
+        validate: (input: string) => {
+          if (!input.startsWith('whatsapp:+')) {
+            return 'whatsapp:+로 시작하는 번호를 입력해주세요';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'input',
+        name: 'toNumber',
+        message: 'To Number (e.g., whatsapp:+1234567890):',
+        validate: (input: string) => {
+          if (!input.startsWith('whatsapp:+')) {
+            return 'whatsapp:+로 시작하는 번호를 입력해주세요';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'input',
+        name: 'contentSid',
+        message: 'Quick-reply Content SID (선택, 비워두면 텍스트 답장 사용):',
+        validate: (input: string) => {
+          if (input.trim() !== '' && !isValidTwilioContentSid(input.trim())) {
+            return 'HX로 시작하는 Content SID를 입력해주세요';
+          }
+          return true;
+        },
+      },
+    ]);
+    const contentSid = whatsappNumbers.contentSid.trim();
+
+    return {
+      whatsapp: {
+        accountSid,
+        authToken,
+        fromNumber: whatsappNumbers.fromNumber,
+        toNumber: whatsappNumbers.toNumber,
+        ...(contentSid ? { contentSid } : {}),
+      },
+    };
+  }
+}
+
+async function autoDeployEdgeFunction(config: Config, messengerType: MessengerType, accessToken: string): Promise<void> {
+  const projectRef = config.supabase ? extractProjectRef(config.supabase.url) : null;
+  if (!projectRef) {
+    console.log(chalk.red('✗ Supabase URL에서 project ref를 추출할 수 없습니다.'));
+    console.log(chalk.yellow('수동 배포로 전환합니다.'));
+    await manualEdgeFunctionSetup(config, messengerType);
+    return;
+  }
+
+  const funcName = getEdgeFunctionName(messengerType);
+  const sourceCode = getEdgeFunctionSource(messengerType);
+
+  // Edge Function 배포
+  console.log(chalk.gray(`  Edge Function 배포 중... (${funcName})`));
+  const deployResult = await deployEdgeFunction(projectRef, accessToken, funcName, sourceCode);
+
+  if (!deployResult.success) {
+    console.log(chalk.red(`\n✗ Edge Function 배포 실패: ${deployResult.error}`));
+    console.log(chalk.yellow('수동 배포로 전환합니다.'));
+    await manualEdgeFunctionSetup(config, messengerType);
+    return;
+  }
+  console.log(chalk.green(`✓ Edge Function 배포 완료: ${deployResult.url}`));
+
+  // Secrets 설정
+  const secrets = await collectSecretsForMessenger(config, messengerType);
+  if (Object.keys(secrets).length > 0) {
+    console.log(chalk.gray('  Secrets 설정 중...'));
+    const secretsResult = await setEdgeFunctionSecrets(projectRef, accessToken, secrets);
+
+    if (!secretsResult.success) {
+      console.log(chalk.yellow(`⚠ Secrets 설정 실패: ${secretsResult.error}`));
+      console.log(chalk.gray('  수동으로 설정해주세요:'));
+      for (const [key] of Object.entries(secrets)) {
+        console.log(chalk.cyan(`    supabase secrets set ${key}=<value>`));
+      }
+    } else {
+      console.log(chalk.green('✓ Secrets 설정 완료'));
+    }
+  }
+
+  // Telegram인 경우 Webhook 설정
+  if (messengerType === 'telegram' && config.messenger.telegram) {
+    await setupTelegramWebhook(config.messenger.telegram.botToken, deployResult.url!, secrets['TELEGRAM_WEBHOOK_SECRET']);
+  }
+}
+
+/**
+ * 감사 기록 Edge Function 배포 (approval_audit는 이 함수를 통해서만 기록/조회)
+ * MACHINE_ID_SECRET 등 Secrets는 프로젝트 단위이므로 메신저 Edge Function 배포 시 설정된 값을 공유
+ */
+async function autoDeployAuditFunction(config: Config, accessToken: string): Promise<void> {
+  const projectRef = config.supabase ? extractProjectRef(config.supabase.url) : null;
+  if (!projectRef) {
+    manualAuditFunctionSetup();
+    return;
+  }
+
+  console.log(chalk.gray(`  Edge Function 배포 중... (${AUDIT_EDGE_FUNCTION_NAME})`));
+  const deployResult = await deployEdgeFunction(
+    projectRef,
+    accessToken,
+    AUDIT_EDGE_FUNCTION_NAME,
+    AUDIT_EDGE_FUNCTION_CODE
+  );
+
+  if (!deployResult.success) {
+    console.log(chalk.red(`\n✗ Edge Function 배포 실패: ${deployResult.error}`));
+    console.log(chalk.yellow('수동 배포로 전환합니다.'));
+    manualAuditFunctionSetup();
+    return;
+  }
+  console.log(chalk.green(`✓ Edge Function 배포 완료: ${deployResult.url}`));
+}
+
+function manualAuditFunctionSetup(): void {
+  const result = createAuditEdgeFunctionFiles(process.cwd());
+  if (!result.success) {
+    console.log(chalk.red(`\n✗ Edge Function 파일 생성 실패: ${result.error}`));
+    return;
+  }
+
+  console.log(chalk.green(`\n✓ 감사 기록 Edge Function 파일 생성됨: ./${result.path}/`));
+  console.log(chalk.gray('  history 기록을 위해 배포하세요 (MACHINE_ID_SECRET은 메신저 Edge Function과 공유):'));
+  console.log(chalk.cyan(`     supabase functions deploy ${AUDIT_EDGE_FUNCTION_NAME}`));
+}
 
 async function collectSecretsForMessenger(
   config: Config,
@@ -632,6 +1659,11 @@ async function collectSecretsForMessenger(
     secrets['MACHINE_ID_SECRET'] = config.machineIdSecret;
   }
 
+  // 페이로드 암호화 키 (설정된 경우)
+  if (config.payloadEncryptionKey) {
+    secrets['PAYLOAD_ENCRYPTION_KEY'] = config.payloadEncryptionKey;
+  }
+
   if (messengerType === 'slack') {
     const { signingSecret } = await inquirer.prompt([
       {
@@ -648,6 +1680,9 @@ async function collectSecretsForMessenger(
       },
     ]);
     secrets['SLACK_SIGNING_SECRET'] = signingSecret;
+    if (config.messenger.slack?.botToken) {
+      secrets['SLACK_BOT_TOKEN'] = config.messenger.slack.botToken;
+    }
   } else if (messengerType === 'telegram' && config.messenger.telegram) {
     secrets['TELEGRAM_BOT_TOKEN'] = config.messenger.telegram.botToken;
 
@@ -657,6 +1692,38 @@ async function collectSecretsForMessenger(
     console.log(chalk.gray('  Webhook Secret 자동 생성됨'));
   } else if (messengerType === 'whatsapp' && config.messenger.whatsapp) {
     secrets['TWILIO_AUTH_TOKEN'] = config.messenger.whatsapp.authToken;
+  } else if (messengerType === 'discord') {
+    const { publicKey } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'publicKey',
+        message: 'Discord Public Key:',
+        validate: (input: string) => {
+          if (!/^[a-f0-9]{64}$/i.test(input)) {
+            return 'Discord Public Key(64자 hex)를 입력해주세요. (Developer Portal > General Information > Public Key)';
+          }
+          return true;
+        },
+      },
+    ]);
+    secrets['DISCORD_PUBLIC_KEY'] = publicKey;
+  } else if (messengerType === 'teams' && config.messenger.teams) {
+    // JWT audience 검증용 (Client Secret은 Edge Function에 필요 없음)
+    secrets['TEAMS_APP_ID'] = config.messenger.teams.appId;
+  } else if (messengerType === 'webhook' && config.messenger.webhook) {
+    secrets['WEBHOOK_SIGNING_SECRET'] = config.messenger.webhook.secret;
+  }
+
+  // 승인자 allowlist (설정된 경우만)
+  const allowedApproversEnvVar = getAllowedApproversEnvVar(messengerType);
+  const approverIds = config.allowedApprovers?.[messengerType as ApproverMessengerType];
+  if (allowedApproversEnvVar && approverIds && approverIds.length > 0) {
+    secrets[allowedApproversEnvVar] = approverIds.join(',');
+  }
+
+  // 다중 승인 정족수의 승인자 식별 (설정된 경우만, 모든 메신저 공통)
+  if (config.approverIdentities && Object.keys(config.approverIdentities).length > 0) {
+    secrets['APPROVER_IDENTITIES'] = JSON.stringify(config.approverIdentities);
   }
 
   return secrets;
@@ -678,7 +1745,7 @@ async function setupTelegramWebhook(botToken: string, webhookUrl: string, webhoo
   }
 }
 
-async function manualEdgeFunctionSetup(messengerType: MessengerType): Promise<void> {
+async function manualEdgeFunctionSetup(config: Config, messengerType: MessengerType): Promise<void> {
   const result = createEdgeFunctionFiles(process.cwd(), messengerType);
   if (result.success) {
     const funcName = getEdgeFunctionName(messengerType);
@@ -694,6 +1761,23 @@ async function manualEdgeFunctionSetup(messengerType: MessengerType): Promise<vo
         chalk.cyan(`     supabase secrets set ${envVar}=<your-${envVar.toLowerCase().replace(/_/g, '-')}>`)
       );
     }
+    const allowedApproversEnvVar = getAllowedApproversEnvVar(messengerType);
+    if (allowedApproversEnvVar) {
+      console.log(chalk.gray(`     (선택) 승인 허용 사용자 제한:`));
+      console.log(chalk.cyan(`     supabase secrets set ${allowedApproversEnvVar}=<id1>,<id2>`));
+    }
+    if (config.approverIdentities) {
+      console.log(chalk.gray(`     다중 승인 승인자 식별 (config의 approverIdentities와 동일한 JSON):`));
+      console.log(chalk.cyan(`     supabase secrets set APPROVER_IDENTITIES='<approver-identities-json>'`));
+    }
+    if (config.payloadEncryptionKey) {
+      console.log(chalk.gray(`     페이로드 암호화 키 (config의 payloadEncryptionKey와 동일):`));
+      console.log(chalk.cyan(`     supabase secrets set PAYLOAD_ENCRYPTION_KEY=<your-payload-encryption-key>`));
+    }
+    if (messengerType === 'slack' && config.messenger.slack?.botToken) {
+      console.log(chalk.gray(`     Slack Bot Token (원본 메시지 갱신용, config의 botToken과 동일):`));
+      console.log(chalk.cyan(`     supabase secrets set SLACK_BOT_TOKEN=<xoxb-...>`));
+    }
     console.log(chalk.gray(`  4. supabase functions deploy ${funcName}`));
     console.log(chalk.gray(`  5. Webhook URL 설정:`));
     console.log(chalk.cyan(`     https://<project-ref>.supabase.co/functions/v1/${funcName}`));
@@ -717,12 +1801,65 @@ async function manualEdgeFunctionSetup(messengerType: MessengerType): Promise<vo
       console.log(
         chalk.gray('   When a message comes in: https://<project-ref>.supabase.co/functions/v1/whatsapp-callback')
       );
+      if (config.messenger.whatsapp?.contentSid) {
+        console.log(chalk.gray('   Quick-reply 템플릿 버튼 id: approve:{{4}}, reject:{{4}} (README 참고)'));
+      }
+    } else if (messengerType === 'discord') {
+      console.log(chalk.yellow('\n⚠️  Discord 설정:'));
+      console.log(chalk.gray('   Public Key 위치: Developer Portal > General Information > Public Key'));
+      console.log(chalk.gray('   Interactions Endpoint URL 설정: Developer Portal > General Information'));
+      console.log(
+        chalk.gray('   Interactions Endpoint URL: https://<project-ref>.supabase.co/functions/v1/discord-callback')
+      );
+    } else if (messengerType === 'teams') {
+      console.log(chalk.yellow('\n⚠️  Microsoft Teams 설정:'));
+      console.log(chalk.gray('   TEAMS_APP_ID: Azure Bot > Configuration > Microsoft App ID'));
+      console.log(chalk.gray('   Messaging endpoint 설정: Azure Bot > Configuration'));
+      console.log(
+        chalk.gray('   Messaging endpoint: https://<project-ref>.supabase.co/functions/v1/teams-callback')
+      );
+    } else if (messengerType === 'webhook') {
+      console.log(chalk.yellow('\n⚠️  Webhook 설정:'));
+      console.log(chalk.gray('   WEBHOOK_SIGNING_SECRET: init 시 입력/생성한 Signing Secret과 동일한 값'));
+      console.log(chalk.gray('   수신 측은 payload의 callbacks.approve / callbacks.reject URL로 서명된 POST 요청을 보냅니다'));
     }
   } else {
     console.log(chalk.red(`\n✗ Edge Function 파일 생성 실패: ${result.error}`));
   }
 }
 
+/**
+ * serve 백엔드용 메신저 callback URL 및 필요한 환경변수 안내
+ * Telegram은 apiToken에서 유도한 secret_token으로 Webhook 자동 설정
+ */
+async function printLocalCallbackSetup(config: Config, messengerType: MessengerType): Promise<void> {
+  if (!config.localServer) {
+    return;
+  }
+
+  const label = MessengerFactory.getMessengerTypeLabel(messengerType);
+  const callbackUrl = `${config.localServer.url}/${getEdgeFunctionName(messengerType)}`;
+  console.log(chalk.green(`✓ ${label} callback URL: ${callbackUrl}`));
+
+  if (messengerType === 'telegram' && config.messenger.telegram) {
+    await setupTelegramWebhook(
+      config.messenger.telegram.botToken,
+      callbackUrl,
+      deriveTelegramWebhookSecret(config.localServer.apiToken)
+    );
+  } else if (messengerType === 'slack') {
+    console.log(chalk.gray('   Interactivity URL에 위 주소를 설정하고, serve 실행 시 환경변수를 지정하세요:'));
+    console.log(chalk.cyan('   SLACK_SIGNING_SECRET=<signing-secret> claude-remote-guard serve'));
+  } else if (messengerType === 'discord') {
+    console.log(chalk.gray('   Interactions Endpoint URL에 위 주소를 설정하고, serve 실행 시 환경변수를 지정하세요:'));
+    console.log(chalk.cyan('   DISCORD_PUBLIC_KEY=<public-key> claude-remote-guard serve'));
+  } else if (messengerType === 'whatsapp') {
+    console.log(chalk.gray('   Twilio Console > Messaging > Settings > "When a message comes in"에 위 주소를 설정하세요'));
+  } else if (messengerType === 'teams') {
+    console.log(chalk.gray('   Azure Bot > Configuration > Messaging endpoint에 위 주소를 설정하세요'));
+  }
+}
+
 /**
  * 사용자가 직접 SQL을 실행하도록 안내하고 확인받는 함수
  */
@@ -1,100 +1,44 @@
 #!/usr/bin/env node
 
-import { execSync } from 'node:child_process';
-import * as crypto from 'node:crypto';
 import * as fs from 'node:fs';
-import * as os from 'node:os';
 import * as readline from 'node:readline';
 import { v4 as uuidv4 } from 'uuid';
-import { loadConfig } from '../lib/config.js';
-import { analyzeCommand } from '../lib/rules.js';
+import { loadConfig, type RulesConfig } from '../lib/config.js';
+import { getMachineId, getSignedMachineId } from '../lib/machine-id.js';
+import type { RuleResult, Severity } from '../lib/rules.js';
+import { analyzeToolCall } from '../lib/tool-rules.js';
+import { parseFileToolCall } from '../lib/file-tools.js';
+import { resolveProjectRules } from '../lib/project-config.js';
 import { MessengerFactory } from '../lib/messenger/factory.js';
+import type { Messenger, MessengerResolution, MessengerResult, MessengerType } from '../lib/messenger/types.js';
+import { createApprovalStore, type ApprovalStore } from '../lib/approval-store.js';
+import { maskSensitiveInfo, type ApprovalRequest, type ApprovalTransport } from '../lib/supabase.js';
 import {
-  initializeSupabase,
-  createRequest,
-  listenForApproval,
-  shutdownSupabase,
-} from '../lib/supabase.js';
-
-/**
- * 머신 고유 식별자 생성
- * 다양한 엔트로피 소스를 조합하여 RLS 우회를 방지
- * - hostname, username, platform, arch: 기본 시스템 정보
- * - machine-id: Linux/macOS 시스템 고유 ID
- * - IOPlatformUUID: macOS 하드웨어 고유 ID
- * - homedir: 사용자별 고유 경로
- */
-function getMachineId(): string {
-  const components: string[] = [
-    os.hostname(),
-    os.userInfo().username,
-    os.platform(),
-    os.arch(),
-  ];
-
-  // Linux/macOS machine-id 추가 (시스템 고유 식별자)
-  try {
-    if (fs.existsSync('/etc/machine-id')) {
-      components.push(fs.readFileSync('/etc/machine-id', 'utf8').trim());
-    } else if (fs.existsSync('/var/lib/dbus/machine-id')) {
-      components.push(fs.readFileSync('/var/lib/dbus/machine-id', 'utf8').trim());
-    }
-  } catch {
-    // 에러 시 무시하고 다른 소스 사용
-  }
-
-  // macOS: IOPlatformUUID (하드웨어 고유 ID)
-  try {
-    if (os.platform() === 'darwin') {
-      const uuid = execSync(
-        'ioreg -rd1 -c IOPlatformExpertDevice | grep IOPlatformUUID',
-        { encoding: 'utf8' }
-      );
-      const match = uuid.match(/"IOPlatformUUID" = "([^"]+)"/);
-      if (match) {
-        components.push(match[1]);
-      }
-    }
-  } catch {
-    // 에러 시 무시하고 다른 소스 사용
-  }
-
-  // 홈 디렉토리 경로 추가 (사용자별 고유)
-  components.push(os.homedir());
-
-  const raw = components.join(':');
-  return crypto.createHash('sha256').update(raw).digest('hex').substring(0, 32);
-}
-
-/**
- * 서명된 machine_id 생성
- * HMAC 서명으로 machine_id 위조 방지
- * 형식: machineId:timestamp:signature
- */
-function getSignedMachineId(machineId: string, secret: string): string {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const payload = `${machineId}:${timestamp}`;
-  const signature = crypto
-    .createHmac('sha256', secret)
-    .update(payload)
-    .digest('hex')
-    .substring(0, 16);
-  return `${payload}:${signature}`;
-}
+  checkRemoteApproval,
+  isSignatureVerificationEnabled,
+  MISSING_SIGNATURE_ERROR,
+} from '../lib/approval-signature.js';
+import { checkModifiedCommand } from '../lib/command-modification.js';
+import { computeGrantScope, isGrantEligible, verifyApprovalGrant } from '../lib/approval-grants.js';
+import { appendOfflineQueueEntry, type OfflineQueueEntry } from '../lib/offline-fallback.js';
+import { findRepoRoot, type NewAuditEntry } from '../lib/audit.js';
+import { appendDecisionLog, type DecisionSource } from '../lib/decision-log.js';
+import { formatHookOutput, type HookOutput, type OutputFormat } from '../lib/hook-output.js';
 
 interface HookInput {
   tool_name: string;
+  session_id?: string;
+  cwd?: string;
   tool_input: {
     command?: string;
+    // Edit, Write, MultiEdit
+    file_path?: string;
+    // NotebookEdit
+    notebook_path?: string;
     [key: string]: unknown;
   };
 }
 
-interface HookOutput {
-  decision: 'allow' | 'deny';
-  reason?: string;
-}
-
 async function readStdin(): Promise<string> {
   return new Promise((resolve) => {
     let data = '';
@@ -108,22 +52,101 @@ async function readStdin(): Promise<string> {
   });
 }
 
-function output(result: HookOutput): void {
-  console.log(JSON.stringify(result));
+/** 결정 로그에 기록할 호출 정보 (main에서 입력을 분석하며 채움) */
+const invocation: {
+  startedAt: number;
+  sessionId?: string;
+  toolName?: string;
+  command?: string;
+  cwd?: string;
+  rule?: RuleResult;
+  requestId?: string;
+} = { startedAt: Date.now() };
+
+/** 승인 요청을 만든 뒤의 최종 결정 ('ask'는 요청 전에만 사용) */
+type RemoteDecision = HookOutput & { decision: 'allow' | 'deny' };
+
+/** Claude Code 출력 형식 (설정을 읽기 전에는 legacy) */
+let outputFormat: OutputFormat = 'legacy';
+
+function output(result: HookOutput, source: DecisionSource): void {
+  console.log(JSON.stringify(formatHookOutput(result, outputFormat)));
+  writeDecisionLog(result, source);
+}
+
+/**
+ * 로컬 결정 로그에 기록 (실패해도 결정에는 영향 없음)
+ */
+function writeDecisionLog(result: HookOutput, source: DecisionSource): void {
+  const { rule } = invocation;
+  try {
+    appendDecisionLog({
+      timestamp: new Date().toISOString(),
+      session_id: invocation.sessionId ?? null,
+      tool_name: invocation.toolName ?? null,
+      command: invocation.command === undefined ? null : maskSensitiveInfo(invocation.command),
+      cwd: invocation.cwd ?? null,
+      rule: rule
+        ? { ...rule, ...(rule.matchedSegment && { matchedSegment: maskSensitiveInfo(rule.matchedSegment) }) }
+        : null,
+      request_id: invocation.requestId ?? null,
+      decision: result.decision,
+      reason: result.reason ?? null,
+      source,
+      latency_ms: Date.now() - invocation.startedAt,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    process.stderr.write(`[claude-remote-guard] 결정 로그 기록 실패: ${errorMessage}\n`);
+  }
 }
 
 interface ApprovalResult {
   status: 'approved' | 'rejected' | 'timeout';
   source: 'local' | 'remote';
+  resolvedBy?: string;
+  // 원격 응답인 경우 결정이 이루어진 메신저
+  resolvedVia?: MessengerType;
+  // 원격 응답을 수신한 경로 (realtime / polling / sse)
+  transport?: ApprovalTransport;
+  // 원격 응답인 경우 갱신된 요청 (결정 서명 검증용)
+  request?: ApprovalRequest;
+  // 원격 거부 시 승인자가 남긴 사유
+  rejectionReason?: string;
+}
+
+/** 다른 채널 메시지 갱신 최대 대기 시간 (hook 응답 지연 방지) */
+const RESOLUTION_NOTIFY_TIMEOUT_MS = 5000;
+
+/** 감사 기록 최대 대기 시간 (hook 응답 지연 방지) */
+const AUDIT_TIMEOUT_MS = 5000;
+
+const TTY_PATH = '/dev/tty';
+
+/**
+ * TTY 장치 파일 확인 (Unix/Linux/macOS)
+ */
+function isTtyAvailable(): boolean {
+  try {
+    fs.accessSync(TTY_PATH, fs.constants.R_OK);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
  * 로컬 TTY에서 사용자 입력을 대기하고 유효한 입력만 resolve
  * stdin은 이미 JSON 입력에 사용되었으므로 /dev/tty를 직접 열어 사용
  *
+ * @param allowApprove false면 거부만 가능 (다중 승인이 필요한 요청은 로컬 승인으로 정족수를 우회할 수 없음)
+ * @param label 프롬프트 앞에 표시할 모드 (원격 대기 중 'Remote', 오프라인 폴백 'Offline')
  * @returns cleanup 함수와 함께 Promise 반환. 유효한 입력이 있을 때만 resolve
  */
-function createLocalInputListener(): {
+function createLocalInputListener(
+  allowApprove = true,
+  label: 'Remote' | 'Offline' = 'Remote'
+): {
   promise: Promise<ApprovalResult>;
   cleanup: () => void;
 } {
@@ -143,13 +166,8 @@ function createLocalInputListener(): {
   };
 
   const promise = new Promise<ApprovalResult>((resolve) => {
-    // TTY 장치 파일 확인 (Unix/Linux/macOS)
-    const ttyPath = '/dev/tty';
-
     // TTY 사용 가능 여부 확인
-    try {
-      fs.accessSync(ttyPath, fs.constants.R_OK);
-    } catch {
+    if (!isTtyAvailable()) {
       // TTY 없음 - 원격 응답만 대기
       process.stderr.write('[claude-remote-guard] TTY not available, waiting for remote approval only...\n');
       return;
@@ -157,7 +175,7 @@ function createLocalInputListener(): {
 
     try {
       // /dev/tty를 직접 열어 사용자 입력 대기
-      ttyStream = fs.createReadStream(ttyPath, { encoding: 'utf8' });
+      ttyStream = fs.createReadStream(TTY_PATH, { encoding: 'utf8' });
 
       rl = readline.createInterface({
         input: ttyStream,
@@ -166,13 +184,25 @@ function createLocalInputListener(): {
       });
 
       // 프롬프트 출력 (stderr로)
-      process.stderr.write('\n[Remote] Waiting for response... or type here: [y] approve / [n] reject: ');
+      if (label === 'Offline') {
+        process.stderr.write(
+          allowApprove
+            ? '\n[Offline] Remote approval unavailable. Type here: [y] approve / [n] reject: '
+            : '\n[Offline] Remote approval unavailable. Type here: [n] reject: '
+        );
+      } else {
+        process.stderr.write(
+          allowApprove
+            ? '\n[Remote] Waiting for response... or type here: [y] approve / [n] reject: '
+            : '\n[Remote] Waiting for remote approvals... or type here: [n] reject: '
+        );
+      }
 
       rl.on('line', (answer) => {
         if (resolved) return;
 
         const normalized = answer.trim().toLowerCase();
-        if (normalized === 'y' || normalized === 'yes') {
+        if (allowApprove && (normalized === 'y' || normalized === 'yes')) {
           resolved = true;
           resolve({ status: 'approved', source: 'local' });
         } else if (normalized === 'n' || normalized === 'no') {
@@ -199,26 +229,248 @@ function createLocalInputListener(): {
  * listenForApproval 콜백을 Promise로 래핑
  */
 function listenForApprovalPromise(
+  store: ApprovalStore,
   requestId: string,
   timeoutMs: number
 ): Promise<ApprovalResult> {
   return new Promise((resolve) => {
-    listenForApproval(requestId, timeoutMs, (status) => {
+    store.listenForApproval(requestId, timeoutMs, (status, request, transport) => {
       resolve({
         status: status as 'approved' | 'rejected' | 'timeout',
         source: 'remote',
+        resolvedBy: request?.resolved_by,
+        resolvedVia: request?.resolved_via as MessengerType | undefined,
+        transport,
+        request,
+        rejectionReason: request?.rejection_reason ?? undefined,
       });
     });
   });
 }
 
+/**
+ * 결정이 이루어진 채널을 제외한 나머지 채널의 메시지를 갱신
+ * (버튼 제거 및 처리 결과 표시). 실패해도 결정에는 영향 없음
+ */
+async function notifyOtherChannels(
+  messengers: Messenger[],
+  requestId: string,
+  result: ApprovalResult,
+  viaLabel: string
+): Promise<void> {
+  const resolution: MessengerResolution = {
+    status: result.status,
+    resolvedBy: result.resolvedBy,
+    via: result.status === 'timeout' ? undefined : viaLabel,
+    source: result.source,
+    rejectionReason: result.rejectionReason,
+  };
+
+  const targets = messengers.filter(
+    (messenger) => messenger.notifyResolution && !(result.source === 'remote' && messenger.type === result.resolvedVia)
+  );
+  if (targets.length === 0) {
+    return;
+  }
+
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timeoutId = setTimeout(resolve, RESOLUTION_NOTIFY_TIMEOUT_MS);
+  });
+
+  const updates = Promise.all(
+    targets.map(async (messenger) => {
+      const notifyResult = await messenger.notifyResolution!(requestId, resolution);
+      if (!notifyResult.ok) {
+        const label = MessengerFactory.getMessengerTypeLabel(messenger.type);
+        process.stderr.write(`[claude-remote-guard] ${label} 메시지 갱신 실패: ${notifyResult.error}\n`);
+      }
+    })
+  ).then(() => undefined);
+
+  await Promise.race([updates, timeout]);
+  clearTimeout(timeoutId);
+}
+
+/**
+ * 메시지 참조를 반환한 채널(Slack bot-token 모드 등)은 요청에 저장하여 callback이 원본 메시지를 갱신
+ * 실패하면 callback은 후속 메시지로 결과를 알림 (결정에는 영향 없음)
+ */
+async function saveMessageRefs(
+  store: ApprovalStore,
+  requestId: string,
+  messengers: Messenger[],
+  results: MessengerResult[]
+): Promise<void> {
+  await Promise.all(
+    messengers.map(async (messenger, i) => {
+      const messageRef = results[i].messageRef;
+      if (!messageRef) {
+        return;
+      }
+      try {
+        await store.setMessageRef(requestId, messenger.type, messageRef);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const label = MessengerFactory.getMessengerTypeLabel(messenger.type);
+        process.stderr.write(`[claude-remote-guard] ${label} 메시지 참조 저장 실패: ${errorMessage}\n`);
+      }
+    })
+  );
+}
+
+/** 원격에서 처리되지 않은 요청의 정보 (오프라인 큐 기록용) */
+interface PendingRequestInfo {
+  requestId: string;
+  toolName: string;
+  command: string;
+  cwd: string;
+  severity: Severity;
+  dangerReason: string;
+  requiredApprovals: number;
+}
+
+/**
+ * 로컬 큐에 기록 (실패해도 결정에는 영향 없음)
+ */
+function recordOfflineRequest(
+  info: PendingRequestInfo,
+  resolution: Pick<OfflineQueueEntry, 'error' | 'status' | 'resolved_via' | 'decision'>
+): void {
+  try {
+    appendOfflineQueueEntry({
+      id: info.requestId,
+      created_at: new Date().toISOString(),
+      tool_name: info.toolName,
+      command: maskSensitiveInfo(info.command),
+      cwd: info.cwd,
+      severity: info.severity,
+      danger_reason: info.dangerReason,
+      ...resolution,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    process.stderr.write(`[claude-remote-guard] 오프라인 큐 기록 실패: ${errorMessage}\n`);
+  }
+}
+
+/** 감사 기록에 남길 결정 경로 (status, 승인자, 메신저 타입 / local / grant / defaultAction) */
+type AuditOutcome = Pick<NewAuditEntry, 'status' | 'resolved_by' | 'resolved_via'>;
+
+function getDecisionSource(outcome: AuditOutcome): DecisionSource {
+  if (outcome.resolved_via === 'grant' || outcome.resolved_via === 'local') {
+    return outcome.resolved_via;
+  }
+  if (outcome.status === 'timeout') {
+    return 'timeout';
+  }
+  return outcome.status === 'failed' ? 'error' : 'remote';
+}
+
+/**
+ * 서명 검증이 꺼진 상태(requireSignedApprovals: false 또는 machineIdSecret 없음)에서 원격 승인을 허용할 때 경고
+ * (DB 행이 변조되어도 그대로 허용되므로 매번 표시)
+ */
+function warnUnverifiedApproval(subject: string): void {
+  process.stderr.write(
+    `[claude-remote-guard] ⚠️  경고: 승인 서명 검증이 꺼져 있어 ${subject}의 서명을 확인하지 않았습니다. ` +
+      `claude-remote-guard init으로 Edge Function을 재배포하고 requireSignedApprovals를 켜세요.\n`
+  );
+}
+
+/**
+ * 서명 검증 실패 시 거부 사유
+ * 서명이 아예 없으면 서명 도입 전에 배포된 Edge Function(또는 serve)이므로 업그레이드 방법을 안내
+ */
+function describeSignatureFailure(error: string | undefined): string {
+  if (error === MISSING_SIGNATURE_ERROR) {
+    process.stderr.write(
+      `[claude-remote-guard] 배포된 Edge Function(또는 serve)이 승인을 서명하지 않아 거부했습니다. ` +
+        `claude-remote-guard init으로 재배포하세요 (자세한 내용: claude-remote-guard status).\n`
+    );
+    return (
+      'Approval signature verification failed (the approval was not signed). ' +
+      'The deployed Edge Function predates signed approvals: redeploy it with `claude-remote-guard init` ' +
+      'or restart serve, or set requireSignedApprovals: false until then.'
+    );
+  }
+  return `Approval signature verification failed (${error}). Redeploy the Edge Function or restart serve.`;
+}
+
+/**
+ * 최종 결정을 감사 기록에 추가 (실패해도 결정에는 영향 없음)
+ */
+async function recordAudit(store: ApprovalStore, entry: NewAuditEntry): Promise<void> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<void>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('timed out')), AUDIT_TIMEOUT_MS);
+  });
+
+  try {
+    await Promise.race([store.recordAudit(entry), timeout]);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    process.stderr.write(`[claude-remote-guard] 감사 기록 실패: ${errorMessage}\n`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 원격 승인을 사용할 수 없을 때 (Supabase/serve 또는 메신저 오류) 폴백 체인:
+ * 로컬 TTY 프롬프트 (rules.offlineFallback 설정 시) → defaultAction
+ * 결과는 로컬 큐에 기록되어 `claude-remote-guard queue`로 확인할 수 있습니다.
+ *
+ * @param error 원격 처리 실패 사유 (defaultAction 적용 시 그대로 결정 사유로 사용)
+ */
+async function resolveOffline(
+  info: PendingRequestInfo,
+  rules: RulesConfig,
+  error: string
+): Promise<{ result: RemoteDecision; outcome: AuditOutcome }> {
+  let local: ApprovalResult | null = null;
+  const fallback = rules.offlineFallback;
+
+  if (fallback && isTtyAvailable()) {
+    process.stderr.write(`\n[claude-remote-guard] ${error}\n`);
+    const localInput = createLocalInputListener(info.requiredApprovals <= 1, 'Offline');
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timeoutId = setTimeout(() => resolve(null), fallback.localPromptSeconds * 1000);
+    });
+    local = await Promise.race([localInput.promise, timeout]);
+    clearTimeout(timeoutId);
+    localInput.cleanup();
+  }
+
+  if (local) {
+    const status = local.status === 'approved' ? 'approved' : 'rejected';
+    const decision = status === 'approved' ? 'allow' : 'deny';
+    recordOfflineRequest(info, { error, status, resolved_via: 'local', decision });
+    return {
+      result: {
+        decision,
+        reason: `${status === 'approved' ? 'Approved' : 'Rejected'} via Local TTY (offline fallback: ${error})`,
+      },
+      outcome: { status, resolved_by: null, resolved_via: 'local' },
+    };
+  }
+
+  const decision = rules.defaultAction === 'allow' ? 'allow' : 'deny';
+  recordOfflineRequest(info, { error, status: 'unresolved', resolved_via: 'defaultAction', decision });
+  return {
+    result: { decision, reason: error },
+    outcome: { status: 'failed', resolved_by: null, resolved_via: 'defaultAction' },
+  };
+}
+
 async function main(): Promise<void> {
   try {
     // Read input from stdin
     const input = await readStdin();
     if (!input.trim()) {
       // Empty input is suspicious - deny for safety
-      output({ decision: 'deny', reason: 'Empty input received' });
+      output({ decision: 'deny', reason: 'Empty input received' }, 'error');
       return;
     }
 
@@ -227,102 +479,227 @@ async function main(): Promise<void> {
       hookInput = JSON.parse(input);
     } catch {
       // Invalid JSON could be an attack - deny for safety
-      output({ decision: 'deny', reason: 'Invalid JSON input' });
-      return;
-    }
-
-    // Only process Bash commands
-    if (hookInput.tool_name !== 'Bash') {
-      output({ decision: 'allow' });
+      output({ decision: 'deny', reason: 'Invalid JSON input' }, 'error');
       return;
     }
 
-    const command = hookInput.tool_input.command;
+    const toolInput = typeof hookInput.tool_input === 'object' && hookInput.tool_input !== null ? hookInput.tool_input : {};
+    invocation.sessionId = typeof hookInput.session_id === 'string' ? hookInput.session_id : undefined;
+    invocation.toolName = typeof hookInput.tool_name === 'string' ? hookInput.tool_name : undefined;
+
+    // 요청에 기록할 명령어: Bash는 명령어, 파일 수정 도구는 "Edit <경로>", 그 외 도구는 도구 이름
+    // (변경 내용과 tool_input은 알림에만 표시)
+    const fileCall = parseFileToolCall(hookInput.tool_name, toolInput);
+    const isBash = hookInput.tool_name === 'Bash';
+    const command = isBash
+      ? toolInput.command
+      : fileCall
+        ? `${fileCall.toolName} ${fileCall.filePath}`
+        : hookInput.tool_name;
     if (!command || typeof command !== 'string') {
-      output({ decision: 'allow' });
+      output({ decision: 'allow' }, 'rule');
       return;
     }
+    invocation.command = command;
+
+    // 프로젝트 규칙 병합 (cwd의 저장소에 있는 규칙 파일, 정책 강화만 허용)
+    const cwd = typeof hookInput.cwd === 'string' && hookInput.cwd ? hookInput.cwd : process.cwd();
+    invocation.cwd = cwd;
 
     // Load config
     const config = loadConfig();
     if (!config) {
       // No config, allow all commands
-      output({ decision: 'allow' });
+      output({ decision: 'allow' }, 'config');
       return;
     }
+    outputFormat = config.rules.outputFormat ?? 'legacy';
+    const { rules, warnings } = resolveProjectRules(config.rules, cwd);
+    for (const warning of warnings) {
+      process.stderr.write(`[claude-remote-guard] 경고: ${warning}\n`);
+    }
 
-    // Analyze command for danger
-    const analysis = analyzeCommand(
-      command,
-      config.rules.customPatterns?.map((p) => ({
-        pattern: new RegExp(p.pattern, 'i'),
-        severity: p.severity,
-        reason: p.reason,
-      })),
-      config.rules.whitelist
-    );
+    // Analyze tool call for danger (명령어, 파일 경로, 도구 규칙)
+    const analysis = analyzeToolCall(hookInput.tool_name, toolInput, cwd, rules);
+    invocation.rule = analysis;
 
     if (!analysis.isDangerous) {
-      output({ decision: 'allow' });
+      output({ decision: 'allow' }, 'rule');
       return;
     }
 
+    // 심각도 설정이 'ask'면 원격 요청 없이 Claude Code 기본 권한 프롬프트로 넘김
+    if (rules.severityActions?.[analysis.severity] === 'ask') {
+      if (outputFormat === 'modern') {
+        output({ decision: 'ask', reason: `${analysis.reason} (${analysis.severity})` }, 'ask');
+        return;
+      }
+      process.stderr.write(
+        `[claude-remote-guard] 경고: severityActions 'ask'는 outputFormat 'modern'에서만 지원됩니다. 원격 승인을 요청합니다.\n`
+      );
+    }
+
     // Command is dangerous - request approval
     const requestId = uuidv4();
-    const cwd = process.cwd();
+    invocation.requestId = requestId;
+    // 심각도별 필요 승인자 수 (정족수에 도달해야 approved, 거부는 한 명만으로 즉시 반영)
+    const requiredApprovals = rules.requiredApprovals?.[analysis.severity] ?? 1;
+    const pendingInfo: PendingRequestInfo = {
+      requestId,
+      toolName: hookInput.tool_name,
+      command,
+      cwd,
+      severity: analysis.severity,
+      dangerReason: analysis.reason,
+      requiredApprovals,
+    };
+    let store: ApprovalStore | null = null;
+    let localInput: ReturnType<typeof createLocalInputListener> | null = null;
+    let machineId: string | null = null;
+    let decided = false;
+    const startedAt = Date.now();
+
+    // 최종 결정을 출력하고 감사 기록에 추가 (저장소 초기화 전 오류는 오프라인 큐에만 기록됨)
+    const finish = async (result: RemoteDecision, outcome: AuditOutcome) => {
+      decided = true;
+      output(result, getDecisionSource(outcome));
+      if (store && machineId) {
+        await recordAudit(store, {
+          request_id: requestId,
+          tool_name: hookInput.tool_name,
+          command,
+          danger_reason: analysis.reason,
+          severity: analysis.severity,
+          cwd,
+          repo: findRepoRoot(cwd),
+          decision: result.decision,
+          reason: result.reason ?? '',
+          latency_ms: Date.now() - startedAt,
+          machine_id: machineId,
+          ...outcome,
+        });
+      }
+    };
 
     try {
       // Generate machine identifier for RLS
-      const machineId = getMachineId();
+      machineId = getMachineId();
 
       // machineIdSecret이 있으면 서명된 machineId 사용 (위조 방지)
       const signedMachineId = config.machineIdSecret
         ? getSignedMachineId(machineId, config.machineIdSecret)
         : machineId;
 
-      // Initialize Supabase with machine_id header
-      initializeSupabase(config, signedMachineId);
+      // 설정된 백엔드 (Supabase 또는 로컬 serve) 초기화
+      store = createApprovalStore(config, signedMachineId);
+
+      // 유사 요청 일괄 승인: 같은 머신, 같은 cwd에서 같은 규칙에 걸린 같은 도구 호출
+      const grants = rules.approvalGrants;
+      const grantScope = isGrantEligible(grants, analysis.severity, requiredApprovals)
+        ? computeGrantScope(
+            machineId,
+            cwd,
+            hookInput.tool_name,
+            analysis.matchedPatterns ?? [analysis.matchedPattern ?? analysis.reason]
+          )
+        : undefined;
+
+      if (grantScope) {
+        // 조회 실패 (approval_grants 테이블이 없는 기존 스키마 등) 시 일반 승인 요청으로 진행
+        const grant = await store.findActiveGrant(grantScope).catch((error: unknown) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          process.stderr.write(`[claude-remote-guard] grant 조회 실패: ${errorMessage}\n`);
+          return null;
+        });
+        // 결정 서명과 마찬가지로 grant도 hook이 계산한 scope로 서명을 검증
+        const verification =
+          grant && isSignatureVerificationEnabled(config)
+            ? config.machineIdSecret
+              ? verifyApprovalGrant(config.machineIdSecret, grant, grantScope)
+              : { ok: false, error: 'machineIdSecret is not configured' }
+            : { ok: true };
+        if (grant && !isSignatureVerificationEnabled(config)) {
+          warnUnverifiedApproval(`grant ${grant.id}`);
+        }
+        if (grant && verification.ok) {
+          await finish(
+            { decision: 'allow', reason: `Auto-approved by grant ${grant.id} from ${grant.granted_by}` },
+            { status: 'approved', resolved_by: grant.granted_by, resolved_via: 'grant' }
+          );
+          await store.shutdown();
+          return;
+        }
+        if (grant) {
+          process.stderr.write(`[claude-remote-guard] grant ${grant.id} 무시 (${verification.error})\n`);
+        }
+      }
 
-      // Create request in Supabase with machine identifier
-      await createRequest(requestId, {
+      // Create request with machine identifier
+      await store.createRequest(requestId, {
         command,
         dangerReason: analysis.reason,
         severity: analysis.severity,
         cwd,
         machineId: signedMachineId,
+        requiredApprovals,
+        grantScope,
+        grantMinutes: grantScope ? grants?.minutes : undefined,
       });
 
-      // Send notification via configured messenger
-      const messenger = MessengerFactory.create(config.messenger);
-      const messengerLabel = MessengerFactory.getMessengerTypeLabel(config.messenger.type);
-      const notificationResult = await messenger.sendNotification({
-        requestId,
-        command,
-        reason: analysis.reason,
-        severity: analysis.severity,
-        cwd,
-        timestamp: Date.now(),
-      });
+      // 설정된 모든 채널에 동시에 알림 전송 (가장 먼저 응답한 채널의 결정 사용)
+      const messengers = MessengerFactory.createAll(config.messenger);
+      const notificationResults = await Promise.all(
+        messengers.map((messenger) =>
+          messenger.sendNotification({
+            requestId,
+            command,
+            reason: analysis.reason,
+            severity: analysis.severity,
+            cwd,
+            timestamp: Date.now(),
+            requiredApprovals,
+            diff: fileCall?.preview,
+            toolInput: isBash || fileCall ? undefined : JSON.stringify(toolInput, null, 2),
+            grantMinutes: grantScope ? grants?.minutes : undefined,
+            // 수정된 명령어는 updatedInput(modern 전용)으로 전달하고, 다중 승인 요청은 수정 불가
+            editable: isBash && requiredApprovals <= 1 && outputFormat === 'modern',
+          })
+        )
+      );
 
-      if (!notificationResult.ok) {
-        // Failed to send notification, use default action
-        const decision = config.rules.defaultAction === 'allow' ? 'allow' : 'deny';
-        output({
-          decision,
-          reason: `Failed to send notification: ${notificationResult.error}`,
-        });
-        await shutdownSupabase();
+      const delivered = messengers.filter((_, i) => notificationResults[i].ok);
+      const failures = messengers
+        .map((messenger, i) => ({ messenger, result: notificationResults[i] }))
+        .filter(({ result }) => !result.ok)
+        .map(({ messenger, result }) => `${MessengerFactory.getMessengerTypeLabel(messenger.type)}: ${result.error}`);
+
+      if (delivered.length === 0) {
+        // Failed to send notification, fall back to local prompt or default action
+        const offline = await resolveOffline(pendingInfo, rules, `Failed to send notification: ${failures.join('; ')}`);
+        await finish(offline.result, offline.outcome);
+        await store.shutdown();
         return;
       }
 
+      // 일부 채널만 실패한 경우 경고 후 계속 대기
+      for (const failure of failures) {
+        process.stderr.write(`[claude-remote-guard] 알림 전송 실패 (${failure})\n`);
+      }
+
+      await saveMessageRefs(store, requestId, messengers, notificationResults);
+
+      const messengerLabel = delivered
+        .map((messenger) => MessengerFactory.getMessengerTypeLabel(messenger.type))
+        .join(', ');
+
       // Wait for approval (원격 응답 + 로컬 TTY 입력 동시 대기)
-      const timeoutMs = config.rules.timeoutSeconds * 1000;
+      const timeoutMs = rules.timeoutSeconds * 1000;
 
       // 로컬 TTY 입력 리스너 생성
-      const localInput = createLocalInputListener();
+      localInput = createLocalInputListener(requiredApprovals <= 1);
 
       // 원격 응답 대기 시작
-      const remotePromise = listenForApprovalPromise(requestId, timeoutMs);
+      const remotePromise = listenForApprovalPromise(store, requestId, timeoutMs);
 
       // Promise.race로 둘 중 먼저 응답하는 것 사용
       // - 로컬 입력: 유효한 y/n 입력이 있을 때만 resolve
@@ -332,31 +709,115 @@ async function main(): Promise<void> {
       // 로컬 입력 리스너 정리 (어느 쪽이 이기든)
       localInput.cleanup();
 
-      await shutdownSupabase();
-
-      const { status, source } = result;
-      const sourceLabel = source === 'local' ? 'Local TTY' : messengerLabel;
+      const { status, source, resolvedBy, resolvedVia, transport, rejectionReason } = result;
+      const sourceLabel =
+        source === 'local'
+          ? 'Local TTY'
+          : resolvedVia && delivered.some((messenger) => messenger.type === resolvedVia)
+            ? MessengerFactory.getMessengerTypeLabel(resolvedVia)
+            : messengerLabel;
+
+      await notifyOtherChannels(delivered, requestId, result, sourceLabel);
+
+      // 원격 응답은 수신 경로 표시 (예: "Approved via Telegram (polling)")
+      const transportSuffix = source === 'remote' && transport ? ` (${transport})` : '';
+
+      // 감사 기록: 로컬 TTY 결정은 local, 원격 결정은 메신저 타입, 타임아웃은 defaultAction
+      const outcome: AuditOutcome = {
+        status,
+        resolved_by: resolvedBy ?? null,
+        resolved_via: source === 'local' ? 'local' : status === 'timeout' ? 'defaultAction' : (resolvedVia ?? 'unknown'),
+      };
+
+      // 원격 승인은 Edge Function(또는 serve)의 결정 서명을 검증 (machineIdSecret이 있고 requireSignedApprovals: false가 아니면)
+      // DB 행이 변조된 경우 승인자에게 표시된 것과 다른 명령이 승인되지 않도록 저장한 명령어로 해시 비교
+      if (status === 'approved' && source === 'remote') {
+        const verification = checkRemoteApproval(config, result.request, maskSensitiveInfo(command));
+        if (!isSignatureVerificationEnabled(config)) {
+          warnUnverifiedApproval(`request ${requestId}`);
+        }
+        if (!verification.ok) {
+          await finish(
+            {
+              decision: 'deny',
+              reason: describeSignatureFailure(verification.error),
+            },
+            outcome
+          );
+          await store.shutdown();
+          return;
+        }
+      }
 
-      if (status === 'approved') {
-        output({ decision: 'allow', reason: `Approved via ${sourceLabel}` });
+      // "Edit & approve": 승인자가 수정한 명령어 (결정 서명에 포함되어 위에서 함께 검증됨)
+      const modifiedCommand = status === 'approved' && source === 'remote' ? result.request?.modified_command : null;
+
+      if (modifiedCommand) {
+        // 같은 규칙으로 다시 분석하여 승인된 심각도보다 위험해지지 않은 경우만 수정된 입력으로 실행
+        const check =
+          outputFormat === 'modern'
+            ? checkModifiedCommand(modifiedCommand, hookInput.tool_name, toolInput, cwd, rules, analysis.severity)
+            : { ok: false as const, error: "outputFormat 'modern' is required" };
+        if (check.ok) {
+          await finish(
+            {
+              decision: 'allow',
+              reason: `Approved with changes via ${sourceLabel}${transportSuffix}: ${modifiedCommand}`,
+              updatedInput: check.updatedInput,
+            },
+            outcome
+          );
+        } else {
+          // 수정된 명령어를 reason으로 전달하여 Claude가 직접 다시 실행할 수 있도록 함 (다시 hook 검사를 거침)
+          await finish(
+            {
+              decision: 'deny',
+              reason: `Approver modified the command via ${sourceLabel}${transportSuffix}, but it was not applied (${check.error}). Modified command: ${modifiedCommand}`,
+            },
+            outcome
+          );
+        }
+      } else if (status === 'approved') {
+        // 다중 승인은 승인자 목록 표시 (예: "Approved via Slack by alice, bob (realtime)")
+        const approvers = requiredApprovals > 1 && resolvedBy ? ` by ${resolvedBy}` : '';
+        await finish({ decision: 'allow', reason: `Approved via ${sourceLabel}${approvers}${transportSuffix}` }, outcome);
       } else if (status === 'rejected') {
-        output({ decision: 'deny', reason: `Rejected via ${sourceLabel}` });
+        // 승인자가 남긴 사유를 전달하여 Claude가 같은 명령을 반복하지 않고 계획을 조정하도록 함
+        const approverReason = rejectionReason ? `. Reason from approver: ${rejectionReason}` : '';
+        await finish(
+          { decision: 'deny', reason: `Rejected via ${sourceLabel}${transportSuffix}${approverReason}` },
+          outcome
+        );
       } else {
-        // Timeout - use default action
-        const decision = config.rules.defaultAction === 'allow' ? 'allow' : 'deny';
-        output({ decision, reason: 'Approval timed out' });
+        // Timeout - use default action (로컬 TTY는 원격 대기 중 이미 사용했으므로 폴백 없이 큐에만 기록)
+        const decision = rules.defaultAction === 'allow' ? 'allow' : 'deny';
+        const reason = `Approval timed out${transportSuffix}`;
+        recordOfflineRequest(pendingInfo, {
+          error: reason,
+          status: 'unresolved',
+          resolved_via: 'defaultAction',
+          decision,
+        });
+        await finish({ decision, reason }, outcome);
       }
+      await store.shutdown();
     } catch (error) {
-      await shutdownSupabase().catch(() => {});
-      // On error, use default action
-      const decision = config.rules.defaultAction === 'allow' ? 'allow' : 'deny';
+      localInput?.cleanup();
+      if (decided) {
+        // 결정 출력 후 정리 중 오류 (결정은 이미 반환됨)
+        await store?.shutdown().catch(() => {});
+        return;
+      }
+      // On error, fall back to local prompt or default action
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      output({ decision, reason: `Error: ${errorMessage}` });
+      const offline = await resolveOffline(pendingInfo, rules, `Error: ${errorMessage}`);
+      await finish(offline.result, offline.outcome);
+      await store?.shutdown().catch(() => {});
     }
   } catch (error) {
     // Critical error, deny for safety
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    output({ decision: 'deny', reason: `Critical error: ${errorMessage}` });
+    output({ decision: 'deny', reason: `Critical error: ${errorMessage}` }, 'error');
   }
 }
 
@@ -7,5 +7,7 @@ export {
   listenForApproval,
   type ApprovalRequest,
   type ApprovalStatus,
+  type ApprovalTransport,
 } from './lib/supabase.js';
+export { createApprovalStore, type ApprovalStore } from './lib/approval-store.js';
 export { registerHook, unregisterHook } from './lib/claude-settings.js';
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeToolCall } from './tool-rules.js';
+import { computeGrantScope, isGrantEligible, signApprovalGrant, verifyApprovalGrant } from './approval-grants.js';
+
+const SECRET = 'e'.repeat(64);
+const GRANT_ID = '6f1c1b1e-8d4a-4f2e-9c1a-2b3c4d5e6f70';
+
+function signedGrant(scope: string, expiresAt = Math.floor(Date.now() / 1000) + 1800) {
+  return {
+    id: GRANT_ID,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    grant_signature: signApprovalGrant(SECRET, GRANT_ID, scope, expiresAt),
+  };
+}
+
+describe('approval grants', () => {
+  it('should scope grants to machine, cwd, tool and rule', () => {
+    const scope = computeGrantScope('machine', '/repo', 'Bash', ['git\\s+push']);
+    expect(scope).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeGrantScope('machine', '/other', 'Bash', ['git\\s+push'])).not.toBe(scope);
+    expect(computeGrantScope('machine', '/repo', 'Bash', ['rm\\s+-rf'])).not.toBe(scope);
+  });
+
+  it('should not reuse a grant scope when another dangerous command is chained', () => {
+    const rules = { timeoutSeconds: 300, defaultAction: 'deny' as const };
+    const scopeOf = (command: string) => {
+      const analysis = analyzeToolCall('Bash', { command }, '/repo', rules);
+      return computeGrantScope('machine', '/repo', 'Bash', analysis.matchedPatterns ?? []);
+    };
+
+    const scope = scopeOf('git push origin main');
+    expect(scopeOf('git push origin feature')).toBe(scope);
+    expect(scopeOf('git push origin main && kubectl delete namespace prod')).not.toBe(scope);
+    expect(scopeOf('git status && git push origin main')).toBe(scope);
+  });
+
+  it('should only offer grants below the severity cap without a quorum', () => {
+    expect(isGrantEligible({ minutes: 30 }, 'high', 1)).toBe(true);
+    expect(isGrantEligible({ minutes: 30 }, 'critical', 1)).toBe(false);
+    expect(isGrantEligible({ minutes: 30, maxSeverity: 'critical' }, 'critical', 1)).toBe(true);
+    expect(isGrantEligible({ minutes: 30 }, 'medium', 2)).toBe(false);
+    expect(isGrantEligible(undefined, 'low', 1)).toBe(false);
+  });
+
+  it('should verify grant signatures against the expected scope', () => {
+    const scope = computeGrantScope('machine', '/repo', 'Bash', ['git\\s+push']);
+    const other = computeGrantScope('machine', '/repo', 'Bash', ['rm\\s+-rf']);
+    expect(verifyApprovalGrant(SECRET, signedGrant(scope), scope)).toEqual({ ok: true });
+    expect(verifyApprovalGrant(SECRET, signedGrant(scope), other).error).toBe('grant signature mismatch');
+    expect(verifyApprovalGrant(SECRET, signedGrant(scope, Math.floor(Date.now() / 1000) - 1), scope).error).toBe(
+      'grant expired'
+    );
+    expect(verifyApprovalGrant(SECRET, { ...signedGrant(scope), grant_signature: null }, scope).ok).toBe(false);
+  });
+});
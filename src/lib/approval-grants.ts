@@ -0,0 +1,114 @@
+import * as crypto from 'node:crypto';
+import { deriveApprovalSigningKey } from './approval-signature.js';
+import { grantSignaturePayload } from './decision-core.js';
+import { SEVERITY_RANK, uniqueSorted, type Severity } from './rules.js';
+
+/**
+ * 유사 요청 일괄 승인 (approval grant)
+ *
+ * 승인자가 "Approve similar" 버튼을 누르면 Edge Function(또는 serve)이 approval_grants에
+ * (scope, 만료 시각) 행을 만들고, hook은 새 요청을 만들기 전에 같은 scope의 유효한 grant가 있으면
+ * 알림 없이 허용합니다.
+ *
+ * scope는 sha256(machineId, cwd, 도구 이름, 일치한 모든 규칙)이므로 DB에는 경로나 명령어가 남지 않습니다.
+ * grant는 승인 결정 서명과 같은 키(machineIdSecret에서 파생)로 서명되며,
+ * 서명 대상은 Edge Function과 공유하는 decision-core의 grantSignaturePayload로 만듭니다.
+ */
+
+/** approval_requests.grant_minutes CHECK 제약과 동일 (최대 24시간) */
+export const MAX_GRANT_MINUTES = 1440;
+
+export interface ApprovalGrantsConfig {
+  /** grant 유효 시간 (분) */
+  minutes: number;
+  /** 이 심각도 이하의 요청에만 버튼 표시 (기본 high, critical은 매번 승인) */
+  maxSeverity?: Severity;
+}
+
+export interface ApprovalGrant {
+  id: string;
+  request_id: string;
+  scope: string;
+  granted_by: string;
+  granted_via: string;
+  created_at: string;
+  expires_at: string;
+  grant_signature?: string | null;
+}
+
+export function isValidApprovalGrantsConfig(value: unknown): value is ApprovalGrantsConfig {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const c = value as Record<string, unknown>;
+  if (typeof c.minutes !== 'number' || !Number.isInteger(c.minutes) || c.minutes < 1 || c.minutes > MAX_GRANT_MINUTES) {
+    return false;
+  }
+  return c.maxSeverity === undefined || Object.prototype.hasOwnProperty.call(SEVERITY_RANK, c.maxSeverity as string);
+}
+
+/**
+ * 요청에 "Approve similar" 버튼을 표시할지 결정합니다.
+ * 다중 승인이 필요한 요청은 grant로 정족수를 우회할 수 없으므로 제외합니다.
+ */
+export function isGrantEligible(
+  grants: ApprovalGrantsConfig | undefined,
+  severity: Severity,
+  requiredApprovals: number
+): grants is ApprovalGrantsConfig {
+  if (!grants || requiredApprovals > 1) {
+    return false;
+  }
+  return SEVERITY_RANK[severity] <= SEVERITY_RANK[grants.maxSeverity ?? 'high'];
+}
+
+/**
+ * grant 범위 해시: 같은 머신, 같은 작업 디렉토리에서 같은 규칙 조합에 걸린 같은 도구 호출
+ * 복합 명령은 모든 segment에서 일치한 규칙이 포함되므로, 승인된 명령 뒤에 다른 위험 명령을
+ * 연결하면 범위가 달라집니다.
+ * @param matchedRules 일치한 모든 규칙 (RuleResult.matchedPatterns, 없으면 일치한 패턴 또는 위험 사유)
+ */
+export function computeGrantScope(machineId: string, cwd: string, toolName: string, matchedRules: string[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(['grant-scope-v2', machineId, cwd, toolName, ...uniqueSorted(matchedRules)].join('\n'), 'utf8')
+    .digest('hex');
+}
+
+/**
+ * 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt(unix seconds)}
+ */
+export function signApprovalGrant(machineIdSecret: string, grantId: string, scope: string, expiresAt: number): string {
+  const payload = grantSignaturePayload(grantId, scope, expiresAt);
+  return crypto.createHmac('sha256', deriveApprovalSigningKey(machineIdSecret)).update(payload).digest('hex');
+}
+
+/**
+ * hook에서 grant를 검증합니다.
+ * @param expectedScope hook이 계산한 scope (DB의 scope가 아닌 이 값으로 서명 비교)
+ */
+export function verifyApprovalGrant(
+  machineIdSecret: string,
+  grant: Pick<ApprovalGrant, 'id' | 'expires_at' | 'grant_signature'>,
+  expectedScope: string,
+  now: number = Date.now()
+): { ok: boolean; error?: string } {
+  if (!grant.grant_signature) {
+    return { ok: false, error: 'missing grant signature' };
+  }
+
+  const expiresAt = Math.floor(new Date(grant.expires_at).getTime() / 1000);
+  if (!Number.isFinite(expiresAt)) {
+    return { ok: false, error: 'invalid grant expiry' };
+  }
+  if (expiresAt * 1000 < now) {
+    return { ok: false, error: 'grant expired' };
+  }
+
+  const expected = signApprovalGrant(machineIdSecret, grant.id, expectedScope, expiresAt);
+  const actual = Buffer.from(grant.grant_signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, Buffer.from(expected))) {
+    return { ok: false, error: 'grant signature mismatch' };
+  }
+  return { ok: true };
+}
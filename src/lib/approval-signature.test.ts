@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkRemoteApproval,
+  isSignatureVerificationEnabled,
+  signApprovalDecision,
+  verifyApprovalDecision,
+} from './approval-signature.js';
+
+const SECRET = 'e'.repeat(64);
+const REQUEST_ID = '6f1c1b1e-8d4a-4f2e-9c1a-2b3c4d5e6f70';
+
+function signedRow(command: string, status = 'approved', expiresAt = Math.floor(Date.now() / 1000) + 600) {
+  return {
+    id: REQUEST_ID,
+    command,
+    status,
+    approval_signature: signApprovalDecision(SECRET, REQUEST_ID, command, status, expiresAt),
+    approval_expires_at: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+describe('verifyApprovalDecision', () => {
+  it('should accept a decision signed for the same command', () => {
+    expect(verifyApprovalDecision(SECRET, signedRow('rm -rf ./dist'), 'rm -rf ./dist')).toEqual({ ok: true });
+  });
+
+  it('should reject a decision for a different command or status', () => {
+    // DB의 command가 바뀌어도 hook은 자신이 저장한 명령어로 검증
+    const tampered = { ...signedRow('rm -rf ./dist'), command: 'rm -rf ~/' };
+    expect(verifyApprovalDecision(SECRET, tampered, 'rm -rf ~/').ok).toBe(false);
+    expect(verifyApprovalDecision(SECRET, { ...signedRow('ls', 'rejected'), status: 'approved' }, 'ls').ok).toBe(
+      false
+    );
+    expect(verifyApprovalDecision('f'.repeat(64), signedRow('ls'), 'ls').ok).toBe(false);
+  });
+
+  it('should bind the modified command to the signature', () => {
+    const expiresAt = Math.floor(Date.now() / 1000) + 600;
+    const row = {
+      ...signedRow('rm -rf ./dist'),
+      modified_command: 'rm -rf ./dist/cache',
+      approval_signature: signApprovalDecision(SECRET, REQUEST_ID, 'rm -rf ./dist', 'approved', expiresAt, 'rm -rf ./dist/cache'),
+      approval_expires_at: new Date(expiresAt * 1000).toISOString(),
+    };
+    expect(verifyApprovalDecision(SECRET, row, 'rm -rf ./dist')).toEqual({ ok: true });
+    expect(verifyApprovalDecision(SECRET, { ...row, modified_command: 'rm -rf ~/' }, 'rm -rf ./dist').ok).toBe(false);
+    expect(verifyApprovalDecision(SECRET, { ...row, modified_command: null }, 'rm -rf ./dist').ok).toBe(false);
+  });
+
+  it('should reject missing or expired signatures', () => {
+    expect(verifyApprovalDecision(SECRET, { id: REQUEST_ID, command: 'ls', status: 'approved' }, 'ls').error).toBe(
+      'missing approval signature'
+    );
+    const expired = signedRow('ls', 'approved', Math.floor(Date.now() / 1000) - 1);
+    expect(verifyApprovalDecision(SECRET, expired, 'ls').error).toBe('approval signature expired');
+  });
+});
+
+describe('checkRemoteApproval', () => {
+  it('should reject unsigned approvals by default when a secret is configured', () => {
+    const unsigned = { id: REQUEST_ID, command: 'ls', status: 'approved' };
+    expect(checkRemoteApproval({ machineIdSecret: SECRET }, unsigned, 'ls')).toEqual({
+      ok: false,
+      error: 'missing approval signature',
+    });
+    expect(checkRemoteApproval({ machineIdSecret: SECRET }, signedRow('ls'), 'ls')).toEqual({ ok: true });
+  });
+
+  it('should fail closed when required without a secret or approved row', () => {
+    expect(checkRemoteApproval({ requireSignedApprovals: true }, signedRow('ls'), 'ls').ok).toBe(false);
+    expect(checkRemoteApproval({ machineIdSecret: SECRET }, undefined, 'ls').ok).toBe(false);
+  });
+
+  it('should skip verification when disabled or no secret is configured', () => {
+    const unsigned = { id: REQUEST_ID, command: 'ls', status: 'approved' };
+    expect(checkRemoteApproval({ machineIdSecret: SECRET, requireSignedApprovals: false }, unsigned, 'ls').ok).toBe(
+      true
+    );
+    expect(isSignatureVerificationEnabled({})).toBe(false);
+    expect(checkRemoteApproval({}, unsigned, 'ls').ok).toBe(true);
+  });
+});
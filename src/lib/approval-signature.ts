@@ -0,0 +1,129 @@
+import * as crypto from 'node:crypto';
+import type { Config } from './config.js';
+import {
+  APPROVAL_SIGNATURE_TTL_SECONDS,
+  APPROVAL_SIGNING_KEY_CONTEXT,
+  approvalSignaturePayload,
+} from './decision-core.js';
+
+/**
+ * 승인 결정 서명
+ *
+ * Edge Function(또는 serve)이 상태를 변경할 때 (requestId, sha256(command), status, 만료 시각)을
+ * machineIdSecret에서 파생한 키로 서명하고, hook은 allow를 반환하기 전에 서명을 검증합니다.
+ * 따라서 DB 행이 변조되거나 anon key가 유출되어도 승인자에게 표시된 것과 다른 명령을 승인할 수 없습니다.
+ * "Edit & approve"로 승인자가 명령어를 수정한 경우 수정된 명령어의 해시도 서명에 포함됩니다.
+ * 검증은 machineIdSecret이 있으면 기본으로 켜지며, requireSignedApprovals로 명시적으로 켜고 끌 수 있습니다.
+ *
+ * 서명 대상과 키 파생 컨텍스트는 Edge Function과 공유하는 decision-core에 정의되어 있습니다.
+ */
+
+export { APPROVAL_SIGNATURE_TTL_SECONDS };
+
+export interface SignedDecision {
+  id: string;
+  command: string;
+  status: string;
+  modified_command?: string | null;
+  approval_signature?: string | null;
+  approval_expires_at?: string | null;
+}
+
+export function deriveApprovalSigningKey(machineIdSecret: string): string {
+  return crypto.createHmac('sha256', machineIdSecret).update(APPROVAL_SIGNING_KEY_CONTEXT).digest('hex');
+}
+
+export function hashCommand(command: string): string {
+  return crypto.createHash('sha256').update(command, 'utf8').digest('hex');
+}
+
+/**
+ * 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt(unix seconds)}
+ * 수정된 명령어가 있으면 뒤에 :{sha256(modifiedCommand)}를 추가
+ */
+export function signApprovalDecision(
+  machineIdSecret: string,
+  requestId: string,
+  command: string,
+  status: string,
+  expiresAt: number,
+  modifiedCommand?: string | null
+): string {
+  const modifiedHash = modifiedCommand ? hashCommand(modifiedCommand) : undefined;
+  const payload = approvalSignaturePayload(requestId, hashCommand(command), status, expiresAt, modifiedHash);
+  return crypto.createHmac('sha256', deriveApprovalSigningKey(machineIdSecret)).update(payload).digest('hex');
+}
+
+/**
+ * hook에서 승인 결정의 서명을 검증합니다.
+ * @param expectedCommand hook이 저장한 (마스킹된) 명령어. DB의 command가 아닌 이 값으로 해시를 계산
+ */
+export function verifyApprovalDecision(
+  machineIdSecret: string,
+  decision: SignedDecision,
+  expectedCommand: string,
+  now: number = Date.now()
+): { ok: boolean; error?: string } {
+  if (!decision.approval_signature || !decision.approval_expires_at) {
+    return { ok: false, error: MISSING_SIGNATURE_ERROR };
+  }
+
+  const expiresAt = Math.floor(new Date(decision.approval_expires_at).getTime() / 1000);
+  if (!Number.isFinite(expiresAt)) {
+    return { ok: false, error: 'invalid approval expiry' };
+  }
+  if (expiresAt * 1000 < now) {
+    return { ok: false, error: 'approval signature expired' };
+  }
+
+  const expected = signApprovalDecision(
+    machineIdSecret,
+    decision.id,
+    expectedCommand,
+    decision.status,
+    expiresAt,
+    decision.modified_command
+  );
+  const actual = Buffer.from(decision.approval_signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, Buffer.from(expected))) {
+    return { ok: false, error: 'approval signature mismatch' };
+  }
+  return { ok: true };
+}
+
+type SignatureConfig = Pick<Config, 'machineIdSecret' | 'requireSignedApprovals'>;
+
+/** Edge Function이 결정에 서명하지 않았을 때의 검증 오류 (서명 도입 전에 배포된 Edge Function) */
+export const MISSING_SIGNATURE_ERROR = 'missing approval signature';
+
+/**
+ * 원격 승인과 grant의 서명을 검증할지 여부
+ * requireSignedApprovals를 지정하지 않으면 서명 키(machineIdSecret)가 있을 때만 검증합니다.
+ * 서명하지 않는 예전 Edge Function을 위해 requireSignedApprovals: false로 끌 수 있습니다.
+ */
+export function isSignatureVerificationEnabled(config: SignatureConfig): boolean {
+  return config.requireSignedApprovals ?? Boolean(config.machineIdSecret);
+}
+
+/**
+ * hook이 원격 승인을 허용하기 전 결정 서명을 검증합니다.
+ * 검증이 켜져 있으면 machineIdSecret, 승인된 행, 서명 중 하나라도 없을 때 거부합니다 (fail closed).
+ * (requireSignedApprovals: true인데 machineIdSecret이 없는 경우 포함)
+ */
+export function checkRemoteApproval(
+  config: SignatureConfig,
+  decision: SignedDecision | undefined,
+  expectedCommand: string,
+  now: number = Date.now()
+): { ok: boolean; error?: string } {
+  if (!isSignatureVerificationEnabled(config)) {
+    return { ok: true };
+  }
+  if (!config.machineIdSecret) {
+    return { ok: false, error: 'machineIdSecret is not configured' };
+  }
+  if (!decision) {
+    return { ok: false, error: 'approved request not returned' };
+  }
+  return verifyApprovalDecision(config.machineIdSecret, decision, expectedCommand, now);
+}
@@ -0,0 +1,366 @@
+import type { Config } from './config.js';
+import type { Severity } from './rules.js';
+import {
+  initializeSupabase,
+  createRequest,
+  getRequest,
+  findActiveGrant,
+  setMessageRef,
+  recordAudit,
+  listAuditEntries,
+  listenForApproval,
+  testConnection,
+  shutdownSupabase,
+  maskSensitiveInfo,
+  type ApprovalRequest,
+  type ApprovalStatus,
+  type ApprovalTransport,
+} from './supabase.js';
+import type { ApprovalGrant } from './approval-grants.js';
+import type { AuditEntry, AuditFilter, NewAuditEntry } from './audit.js';
+import type { MessengerType } from './messenger/types.js';
+
+export interface NewApprovalRequest {
+  command: string;
+  dangerReason: string;
+  severity: Severity;
+  cwd: string;
+  machineId?: string;
+  // 승인에 필요한 서로 다른 승인자 수 (기본 1)
+  requiredApprovals?: number;
+  // "Approve similar" 버튼을 표시하는 경우 grant 범위 (computeGrantScope)와 유효 시간 (분)
+  grantScope?: string;
+  grantMinutes?: number;
+}
+
+/**
+ * 승인 요청 저장소
+ * - supabase: Supabase 테이블 + Realtime (기본)
+ * - local: claude-remote-guard serve (SQLite + SSE)
+ */
+export interface ApprovalStore {
+  readonly backend: 'supabase' | 'local';
+  createRequest(requestId: string, request: NewApprovalRequest): Promise<void>;
+  getRequest(requestId: string): Promise<ApprovalRequest | null>;
+  /** scope가 같은 유효한 grant 조회 (없으면 null) */
+  findActiveGrant(scope: string): Promise<ApprovalGrant | null>;
+  /**
+   * 전송된 메시지 참조를 요청에 저장 (callback이 원본 메시지를 갱신하는 데 사용)
+   * @returns 저장되었으면 true (이미 처리되었거나 같은 메신저의 참조가 있으면 false)
+   */
+  setMessageRef(requestId: string, messenger: MessengerType, ref: string): Promise<boolean>;
+  /** hook의 최종 결정을 감사 기록에 추가 (append-only) */
+  recordAudit(entry: NewAuditEntry): Promise<void>;
+  /** 이 머신의 감사 기록 조회 (최신순) */
+  listAudit(filter: AuditFilter): Promise<AuditEntry[]>;
+  /**
+   * 처리 결과 대기. timeout 시 상태를 timeout으로 기록 후 onResolved('timeout') 호출
+   * transport: 결과를 수신한 경로 (realtime / polling / sse)
+   */
+  listenForApproval(
+    requestId: string,
+    timeoutMs: number,
+    onResolved: (status: ApprovalStatus, request?: ApprovalRequest, transport?: ApprovalTransport) => void
+  ): () => void;
+  testConnection(): Promise<{ ok: boolean; error?: string }>;
+  shutdown(): Promise<void>;
+}
+
+export class SupabaseApprovalStore implements ApprovalStore {
+  readonly backend = 'supabase' as const;
+
+  constructor(private config: Config, machineId?: string) {
+    initializeSupabase(config, machineId);
+  }
+
+  createRequest(requestId: string, request: NewApprovalRequest): Promise<void> {
+    return createRequest(requestId, request);
+  }
+
+  getRequest(requestId: string): Promise<ApprovalRequest | null> {
+    return getRequest(requestId);
+  }
+
+  findActiveGrant(scope: string): Promise<ApprovalGrant | null> {
+    return findActiveGrant(scope);
+  }
+
+  setMessageRef(requestId: string, messenger: MessengerType, ref: string): Promise<boolean> {
+    return setMessageRef(requestId, messenger, ref);
+  }
+
+  recordAudit(entry: NewAuditEntry): Promise<void> {
+    return recordAudit(entry);
+  }
+
+  listAudit(filter: AuditFilter): Promise<AuditEntry[]> {
+    return listAuditEntries(filter);
+  }
+
+  listenForApproval(
+    requestId: string,
+    timeoutMs: number,
+    onResolved: (status: ApprovalStatus, request?: ApprovalRequest, transport?: ApprovalTransport) => void
+  ): () => void {
+    return listenForApproval(requestId, timeoutMs, onResolved);
+  }
+
+  testConnection(): Promise<{ ok: boolean; error?: string }> {
+    return testConnection(this.config);
+  }
+
+  shutdown(): Promise<void> {
+    return shutdownSupabase();
+  }
+}
+
+// SSE 연결이 끊긴 경우 재연결 간격 (서버 재시작 등)
+const SSE_RECONNECT_DELAY_MS = 2000;
+
+export class LocalApprovalStore implements ApprovalStore {
+  readonly backend = 'local' as const;
+  private baseUrl: string;
+  private controllers = new Set<AbortController>();
+
+  constructor(
+    url: string,
+    private apiToken: string,
+    private machineId?: string
+  ) {
+    this.baseUrl = url.replace(/\/+$/, '');
+  }
+
+  private async api(method: 'GET' | 'POST', path: string, body?: unknown): Promise<Response> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.apiToken}` };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.machineId) {
+      headers['x-machine-id'] = this.machineId;
+    }
+    return fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  private static async errorMessage(response: Response): Promise<string> {
+    const result = (await response.json().catch(() => ({}))) as { error?: string };
+    return `${response.status} ${result.error || response.statusText}`;
+  }
+
+  async createRequest(requestId: string, request: NewApprovalRequest): Promise<void> {
+    const response = await this.api('POST', '/api/requests', {
+      id: requestId,
+      command: maskSensitiveInfo(request.command),
+      dangerReason: request.dangerReason,
+      severity: request.severity,
+      cwd: request.cwd,
+      requiredApprovals: request.requiredApprovals,
+      grantScope: request.grantScope,
+      grantMinutes: request.grantMinutes,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to create request: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+  }
+
+  async getRequest(requestId: string): Promise<ApprovalRequest | null> {
+    const response = await this.api('GET', `/api/requests/${encodeURIComponent(requestId)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to get request: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+    return (await response.json()) as ApprovalRequest;
+  }
+
+  async findActiveGrant(scope: string): Promise<ApprovalGrant | null> {
+    const response = await this.api('GET', `/api/grants/${encodeURIComponent(scope)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to find approval grant: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+    return (await response.json()) as ApprovalGrant;
+  }
+
+  async setMessageRef(requestId: string, messenger: MessengerType, ref: string): Promise<boolean> {
+    const response = await this.api('POST', `/api/requests/${encodeURIComponent(requestId)}/message-ref`, {
+      messenger,
+      ref,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to set message ref: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+    return ((await response.json()) as { updated?: boolean }).updated === true;
+  }
+
+  // machine_id는 서버가 x-machine-id 헤더에서 결정
+  async recordAudit(entry: NewAuditEntry): Promise<void> {
+    const response = await this.api('POST', '/api/audit', {
+      request_id: entry.request_id,
+      tool_name: entry.tool_name,
+      command: maskSensitiveInfo(entry.command),
+      danger_reason: entry.danger_reason,
+      severity: entry.severity,
+      cwd: entry.cwd,
+      repo: entry.repo,
+      status: entry.status,
+      decision: entry.decision,
+      resolved_by: entry.resolved_by,
+      resolved_via: entry.resolved_via,
+      reason: entry.reason,
+      latency_ms: entry.latency_ms,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to record audit entry: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+  }
+
+  async listAudit(filter: AuditFilter): Promise<AuditEntry[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    }
+    const response = await this.api('GET', `/api/audit?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to list audit entries: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+    return (await response.json()) as AuditEntry[];
+  }
+
+  /**
+   * SSE 스트림에서 resolved 이벤트 1건을 기다림
+   * @returns 처리된 요청 (연결이 끊기면 null)
+   */
+  private async waitForResolvedEvent(requestId: string, signal: AbortSignal): Promise<ApprovalRequest | null> {
+    const response = await fetch(`${this.baseUrl}/api/requests/${encodeURIComponent(requestId)}/events`, {
+      headers: { Authorization: `Bearer ${this.apiToken}`, Accept: 'text/event-stream' },
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to subscribe: ${await LocalApprovalStore.errorMessage(response)}`);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let separator: number;
+      while ((separator = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, separator);
+        buffer = buffer.slice(separator + 2);
+        const lines = event.split('\n');
+        if (!lines.includes('event: resolved')) {
+          continue;
+        }
+        const data = lines
+          .filter((line) => line.startsWith('data: '))
+          .map((line) => line.slice('data: '.length))
+          .join('\n');
+        return JSON.parse(data) as ApprovalRequest;
+      }
+    }
+    return null;
+  }
+
+  listenForApproval(
+    requestId: string,
+    timeoutMs: number,
+    onResolved: (status: ApprovalStatus, request?: ApprovalRequest, transport?: ApprovalTransport) => void
+  ): () => void {
+    let resolved = false;
+    const controller = new AbortController();
+    this.controllers.add(controller);
+
+    const finish = () => {
+      resolved = true;
+      clearTimeout(timeoutId);
+      controller.abort();
+      this.controllers.delete(controller);
+    };
+
+    const subscribe = async () => {
+      while (!resolved) {
+        try {
+          const request = await this.waitForResolvedEvent(requestId, controller.signal);
+          if (request && request.status !== 'pending' && !resolved) {
+            finish();
+            onResolved(request.status, request, 'sse');
+            return;
+          }
+        } catch (err) {
+          if (resolved) {
+            return;
+          }
+          console.error(`[Claude Guard] Local server subscription failed for ${requestId}:`, err);
+        }
+        await new Promise((resolve) => setTimeout(resolve, SSE_RECONNECT_DELAY_MS).unref());
+      }
+    };
+
+    const timeoutId = setTimeout(async () => {
+      if (resolved) {
+        return;
+      }
+      finish();
+
+      // 서버에 timeout 기록 (이미 처리된 경우 서버가 무시)
+      try {
+        await this.api('POST', `/api/requests/${encodeURIComponent(requestId)}/timeout`);
+      } catch (err) {
+        console.error(`[Claude Guard] Failed to update timeout status for ${requestId}:`, err);
+      }
+
+      onResolved('timeout', undefined, 'sse');
+    }, timeoutMs);
+
+    void subscribe();
+
+    return () => {
+      if (!resolved) {
+        finish();
+      }
+    };
+  }
+
+  async testConnection(): Promise<{ ok: boolean; error?: string }> {
+    try {
+      const response = await this.api('GET', '/api/health');
+      if (!response.ok) {
+        return { ok: false, error: await LocalApprovalStore.errorMessage(response) };
+      }
+      return { ok: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage };
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    this.controllers.clear();
+  }
+}
+
+/**
+ * 설정된 백엔드의 ApprovalStore 생성
+ * @param machineId 요청에 기록할 (서명된) machine_id
+ */
+export function createApprovalStore(config: Config, machineId?: string): ApprovalStore {
+  if (config.backend === 'local') {
+    if (!config.localServer) {
+      throw new Error('localServer configuration is missing');
+    }
+    return new LocalApprovalStore(config.localServer.url, config.localServer.apiToken, machineId);
+  }
+  return new SupabaseApprovalStore(config, machineId);
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { isValidApproverIdentities, parseApproverIdentities, resolveApproverIdentity } from './approver-identity.js';
+
+const identities = { alice: { slack: 'U01ALICE', telegram: '123456789' }, bob: { slack: 'U02BOB' } };
+
+describe('approver identities', () => {
+  it('should resolve per-messenger IDs to one identity', () => {
+    expect(resolveApproverIdentity(identities, 'slack', 'U01ALICE')).toBe('identity:alice');
+    expect(resolveApproverIdentity(identities, 'telegram', '123456789')).toBe('identity:alice');
+    // 매핑되지 않은 ID는 채널별로 집계
+    expect(resolveApproverIdentity(identities, 'telegram', '987654321')).toBe('telegram:987654321');
+    expect(resolveApproverIdentity(undefined, 'slack', 'U01ALICE')).toBe('slack:U01ALICE');
+  });
+
+  it('should reject invalid or ambiguous maps', () => {
+    expect(isValidApproverIdentities(identities)).toBe(true);
+    expect(isValidApproverIdentities({ alice: { webhook: 'alice' } })).toBe(false);
+    expect(isValidApproverIdentities({ alice: {} })).toBe(false);
+    expect(isValidApproverIdentities({ 'a b': { slack: 'U01' } })).toBe(false);
+    expect(isValidApproverIdentities({ alice: { slack: 'U01' }, bob: { slack: 'U01' } })).toBe(false);
+  });
+
+  it('should ignore malformed secrets', () => {
+    expect(parseApproverIdentities(JSON.stringify(identities))).toEqual(identities);
+    expect(parseApproverIdentities('{not json')).toBeUndefined();
+    expect(parseApproverIdentities(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { resolveApproverIdentity as resolveIdentity } from './decision-core.js';
+
+/**
+ * 다중 승인 정족수의 승인자 식별 (approverIdentities)
+ *
+ * 메신저마다 사용자 ID 체계가 달라, 매핑이 없으면 같은 사람이 Slack과 Telegram에서 각각 승인해도
+ * 서로 다른 승인자로 집계됩니다. approverIdentities로 메신저별 ID를 한 사람에게 묶으면
+ * 정족수는 사람 단위로 계산되고, 매핑되지 않은 ID는 "{메신저}:{ID}"로 집계됩니다.
+ *
+ * Edge Function은 APPROVER_IDENTITIES 시크릿(JSON)으로 같은 매핑을 받으며,
+ * 식별자는 Edge Function과 공유하는 decision-core의 resolveApproverIdentity로 만듭니다.
+ */
+
+/** 사용자 ID를 메신저가 검증해 주는 채널 (webhook의 resolvedBy는 호출자가 지정하므로 제외) */
+export type IdentityMessengerType = 'slack' | 'telegram' | 'whatsapp' | 'discord' | 'teams';
+
+/** 예: { "alice": { "slack": "U01ABCDEF", "telegram": "123456789" } } */
+export type ApproverIdentitiesConfig = Record<string, Partial<Record<IdentityMessengerType, string>>>;
+
+const IDENTITY_MESSENGERS: readonly string[] = ['slack', 'telegram', 'whatsapp', 'discord', 'teams'];
+
+const IDENTITY_NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+const MAX_APPROVER_ID_LENGTH = 200;
+
+export function isValidApproverIdentities(value: unknown): value is ApproverIdentitiesConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  // 같은 메신저 ID가 두 사람에게 매핑되면 어느 쪽으로 집계할지 알 수 없으므로 거부
+  const seen = new Set<string>();
+  for (const [name, ids] of Object.entries(value)) {
+    if (!IDENTITY_NAME_PATTERN.test(name) || typeof ids !== 'object' || ids === null || Array.isArray(ids)) {
+      return false;
+    }
+    const entries = Object.entries(ids);
+    if (entries.length === 0) {
+      return false;
+    }
+    for (const [messenger, id] of entries) {
+      if (!IDENTITY_MESSENGERS.includes(messenger) || typeof id !== 'string') {
+        return false;
+      }
+      if (id.length === 0 || id.length > MAX_APPROVER_ID_LENGTH || seen.has(`${messenger}:${id}`)) {
+        return false;
+      }
+      seen.add(`${messenger}:${id}`);
+    }
+  }
+  return true;
+}
+
+/**
+ * approvals.approver에 저장할 승인자 식별자
+ * @param via 투표가 들어온 메신저
+ * @param approverId 메신저별 사용자 ID (allowedApprovers와 같은 형식)
+ */
+export function resolveApproverIdentity(
+  identities: ApproverIdentitiesConfig | undefined,
+  via: string,
+  approverId: string
+): string {
+  return resolveIdentity(identities, via, approverId);
+}
+
+/**
+ * APPROVER_IDENTITIES 시크릿 파싱 (형식이 잘못된 경우 매핑 없이 채널별 ID로 집계)
+ */
+export function parseApproverIdentities(secret: string | undefined): ApproverIdentitiesConfig | undefined {
+  if (!secret) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(secret);
+    if (isValidApproverIdentities(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // 아래에서 로그
+  }
+  console.error('Invalid APPROVER_IDENTITIES secret');
+  return undefined;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { formatAuditCsv, parseHistoryTime, type AuditEntry } from './audit.js';
+
+const entry: AuditEntry = {
+  id: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+  request_id: '6f1c1b1e-8d4a-4f2e-9c1a-2b3c4d5e6f70',
+  tool_name: 'Bash',
+  command: 'echo "a, b"',
+  danger_reason: 'Test',
+  severity: 'low',
+  cwd: '/repo',
+  repo: null,
+  status: 'rejected',
+  decision: 'deny',
+  resolved_by: null,
+  resolved_via: 'local',
+  reason: '=HYPERLINK("x")',
+  latency_ms: 42,
+  machine_id: 'c'.repeat(32),
+  created_at: '2026-01-31T09:00:00.000Z',
+};
+
+describe('parseHistoryTime', () => {
+  it('should accept relative durations and dates', () => {
+    const now = Date.parse('2026-02-01T00:00:00Z');
+    expect(parseHistoryTime('12h', now)).toBe('2026-01-31T12:00:00.000Z');
+    expect(parseHistoryTime('7d', now)).toBe('2026-01-25T00:00:00.000Z');
+    expect(parseHistoryTime('2026-01-31T09:00:00Z', now)).toBe('2026-01-31T09:00:00.000Z');
+    expect(parseHistoryTime('last week', now)).toBeNull();
+  });
+});
+
+describe('formatAuditCsv', () => {
+  it('should quote cells and neutralize formulas', () => {
+    const [header, row] = formatAuditCsv([entry]).trimEnd().split('\n');
+    expect(header.startsWith('created_at,request_id,tool_name,command')).toBe(true);
+    expect(row).toContain('"echo ""a, b"""');
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(row).toContain(',local,42,,/repo,');
+  });
+});
@@ -0,0 +1,147 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { SEVERITY_RANK, type Severity } from './rules.js';
+
+/**
+ * 승인 감사 기록 (approval_audit)
+ *
+ * approval_requests는 24시간(anon 삭제 정책)/7일(cleanup 함수) 후 삭제되므로, hook은 최종 결정을
+ * 별도의 append-only 테이블에 한 번 더 기록합니다. 원격 승인뿐 아니라 로컬 TTY 결정, grant 자동 승인,
+ * 타임아웃, 오프라인 폴백도 기록되며 `claude-remote-guard history`로 조회/내보내기 할 수 있습니다.
+ *
+ * 기록은 머신 단위로 조회됩니다 (machine_id = x-machine-id 헤더의 machineId 부분).
+ * Supabase 백엔드는 guard-audit Edge Function이 헤더의 서명을 검증한 뒤 service role로 기록/조회합니다.
+ */
+
+/**
+ * - approved / rejected: 원격 또는 로컬 TTY 결정
+ * - timeout: 원격 응답 없음 (defaultAction 적용)
+ * - failed: Supabase/serve 또는 메신저 오류 (오프라인 폴백 또는 defaultAction 적용)
+ */
+export type AuditStatus = 'approved' | 'rejected' | 'timeout' | 'failed';
+
+export const AUDIT_STATUSES: AuditStatus[] = ['approved', 'rejected', 'timeout', 'failed'];
+
+/** history 조회 최대 개수 */
+export const MAX_AUDIT_LIMIT = 1000;
+
+export interface AuditEntry {
+  id: string;
+  request_id: string;
+  tool_name: string;
+  /** 마스킹된 명령어 */
+  command: string;
+  danger_reason: string;
+  severity: Severity;
+  cwd: string;
+  /** cwd의 저장소 루트 (.git이 있는 디렉토리, 없으면 null) */
+  repo: string | null;
+  status: AuditStatus;
+  /** hook이 Claude Code에 반환한 결정 */
+  decision: 'allow' | 'deny';
+  resolved_by: string | null;
+  /** 결정 경로: 메신저 타입, local (TTY), grant, defaultAction */
+  resolved_via: string;
+  /** hook이 반환한 사유 */
+  reason: string;
+  /** 요청 생성부터 결정까지 걸린 시간 */
+  latency_ms: number;
+  machine_id: string;
+  created_at: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'created_at'>;
+
+export interface AuditFilter {
+  /** ISO 8601 (이 시각 이후) */
+  since?: string;
+  /** ISO 8601 (이 시각 이전) */
+  until?: string;
+  severity?: Severity;
+  status?: AuditStatus;
+  /** 저장소 루트 경로 (정확히 일치) */
+  repo?: string;
+  /** resolved_by 부분 일치 (다중 승인은 "alice, bob" 형태로 저장됨) */
+  approver?: string;
+  limit: number;
+}
+
+/** CSV 내보내기 컬럼 순서 */
+export const AUDIT_COLUMNS: Array<keyof AuditEntry> = [
+  'created_at',
+  'request_id',
+  'tool_name',
+  'command',
+  'severity',
+  'danger_reason',
+  'status',
+  'decision',
+  'resolved_by',
+  'resolved_via',
+  'latency_ms',
+  'repo',
+  'cwd',
+  'reason',
+];
+
+export function isAuditStatus(value: string): value is AuditStatus {
+  return (AUDIT_STATUSES as string[]).includes(value);
+}
+
+export function isSeverity(value: string): value is Severity {
+  return Object.prototype.hasOwnProperty.call(SEVERITY_RANK, value);
+}
+
+/**
+ * cwd에서 위로 올라가며 .git이 있는 디렉토리를 찾습니다.
+ */
+export function findRepoRoot(cwd: string): string | null {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * history --since/--until 값을 ISO 문자열로 변환
+ * 상대 기간 (30m, 12h, 7d) 또는 Date.parse가 인식하는 날짜 (2026-01-31, 2026-01-31T09:00:00Z)
+ * @returns 잘못된 값이면 null
+ */
+export function parseHistoryTime(value: string, now: number = Date.now()): string | null {
+  const relative = value.trim().match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(now - Number(relative[1]) * unitMs).toISOString();
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+// 스프레드시트에서 수식으로 해석되지 않도록 (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAuditCsv(entries: AuditEntry[]): string {
+  const lines = [AUDIT_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(AUDIT_COLUMNS.map((column) => toCsvCell(entry[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -24,8 +24,14 @@ interface ClaudeSettings {
   [key: string]: unknown;
 }
 
+// Bash 명령, 파일 수정 도구 (경로 규칙), WebFetch와 MCP 도구 (도구 규칙)
+const GUARD_HOOK_MATCHER = 'Bash|Edit|Write|MultiEdit|NotebookEdit|WebFetch|mcp__.*';
+
+// 이전 버전에서 등록한 기본 matcher (registerHook 시 현재 matcher로 갱신)
+const PREVIOUS_GUARD_HOOK_MATCHERS = ['Bash'];
+
 const GUARD_HOOK: ClaudeHookEntry = {
-  matcher: 'Bash',
+  matcher: GUARD_HOOK_MATCHER,
   hooks: [
     {
       type: 'command',
@@ -117,7 +123,14 @@ export function registerHook(): { success: boolean; message: string } {
     }
 
     // Check if already registered with new format
-    if (settings.hooks.PreToolUse.some(isNewFormatGuardHook)) {
+    const existing = settings.hooks.PreToolUse.find(isNewFormatGuardHook);
+    if (existing) {
+      // 이전 기본 matcher는 갱신 (사용자가 직접 바꾼 matcher는 유지)
+      if (existing.matcher !== undefined && PREVIOUS_GUARD_HOOK_MATCHERS.includes(existing.matcher)) {
+        existing.matcher = GUARD_HOOK_MATCHER;
+        writeClaudeSettings(settings);
+        return { success: true, message: `Hook matcher updated to "${GUARD_HOOK_MATCHER}"` };
+      }
       return { success: true, message: 'Hook is already registered' };
     }
 
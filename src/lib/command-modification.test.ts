@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import type { RulesConfig } from './config.js';
+import { checkModifiedCommand } from './command-modification.js';
+
+const rules: RulesConfig = { timeoutSeconds: 300, defaultAction: 'deny' };
+const toolInput = { command: 'rm -rf ./dist', description: 'Clean build output' };
+
+describe('checkModifiedCommand', () => {
+  it('should return the modified command as updated input', () => {
+    const result = checkModifiedCommand('rm -rf ./dist/cache', 'Bash', toolInput, '/tmp/project', rules, 'high');
+    expect(result).toMatchObject({
+      ok: true,
+      updatedInput: { command: 'rm -rf ./dist/cache', description: 'Clean build output' },
+      analysis: { severity: 'high' },
+    });
+    expect(checkModifiedCommand('ls ./dist', 'Bash', toolInput, '/tmp/project', rules, 'high').ok).toBe(true);
+  });
+
+  it('should reject commands that became more dangerous', () => {
+    const result = checkModifiedCommand('rm -rf /', 'Bash', toolInput, '/tmp/project', rules, 'high');
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain('critical');
+  });
+
+  it('should reject masked values, empty commands and non-Bash tools', () => {
+    const masked = 'curl "https://x.io?token=[REDACTED]"';
+    expect(checkModifiedCommand(masked, 'Bash', toolInput, '/tmp', rules, 'high').ok).toBe(false);
+    expect(checkModifiedCommand('  ', 'Bash', toolInput, '/tmp', rules, 'high').ok).toBe(false);
+    expect(checkModifiedCommand('ls', 'Write', { file_path: '/tmp/a' }, '/tmp', rules, 'high').ok).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import type { RulesConfig } from './config.js';
+import { SEVERITY_RANK, type RuleResult, type Severity } from './rules.js';
+import { analyzeToolCall } from './tool-rules.js';
+import { isEncryptedPayload } from './payload-encryption.js';
+import { MAX_MODIFIED_COMMAND_LENGTH } from './decision-core.js';
+
+/**
+ * "Edit & approve": 승인자가 수정한 명령어 검증
+ *
+ * 승인자는 원래 요청의 심각도를 보고 결정하므로, 수정된 명령어를 같은 규칙으로 다시 분석하여
+ * 더 위험해진 경우에는 실행하지 않습니다. 통과하면 hook이 PreToolUse updatedInput으로
+ * 수정된 명령어를 전달하여 Claude Code가 그대로 실행합니다.
+ */
+
+export { MAX_MODIFIED_COMMAND_LENGTH };
+
+/** 요청과 알림에 저장되는 마스킹 표시 (maskSensitiveInfo 참고) */
+const MASKED_VALUE = '[REDACTED]';
+
+export type ModifiedCommandCheck =
+  | { ok: true; updatedInput: Record<string, unknown>; analysis: RuleResult }
+  | { ok: false; error: string };
+
+/**
+ * @param approvedSeverity 승인자에게 표시된 원래 요청의 심각도
+ */
+export function checkModifiedCommand(
+  modifiedCommand: string,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  cwd: string,
+  rules: RulesConfig,
+  approvedSeverity: Severity
+): ModifiedCommandCheck {
+  if (toolName !== 'Bash') {
+    return { ok: false, error: 'only Bash commands can be modified' };
+  }
+  if (modifiedCommand.trim().length === 0 || modifiedCommand.length > MAX_MODIFIED_COMMAND_LENGTH) {
+    return { ok: false, error: 'modified command is empty or too long' };
+  }
+  if (isEncryptedPayload(modifiedCommand)) {
+    return { ok: false, error: 'modified command could not be decrypted' };
+  }
+  // 승인 메시지의 명령어는 마스킹되어 있으므로 마스킹된 값을 그대로 실행하지 않음
+  if (modifiedCommand.includes(MASKED_VALUE)) {
+    return { ok: false, error: `modified command contains masked values (${MASKED_VALUE})` };
+  }
+
+  const updatedInput = { ...toolInput, command: modifiedCommand };
+  const analysis = analyzeToolCall(toolName, updatedInput, cwd, rules);
+  if (analysis.isDangerous && SEVERITY_RANK[analysis.severity] > SEVERITY_RANK[approvedSeverity]) {
+    return {
+      ok: false,
+      error: `modified command is more dangerous than the approved request (${analysis.severity}: ${analysis.reason})`,
+    };
+  }
+
+  return { ok: true, updatedInput, analysis };
+}
@@ -5,12 +5,30 @@ import * as crypto from 'node:crypto';
 import type { MessengerType } from './messenger/types.js';
 import type { SlackConfig } from './messenger/slack.js';
 import type { TelegramConfig } from './messenger/telegram.js';
-import type { WhatsAppConfig } from './messenger/whatsapp.js';
+import { isValidTwilioContentSid, type WhatsAppConfig } from './messenger/whatsapp.js';
+import type { DiscordConfig } from './messenger/discord.js';
+import type { TeamsConfig } from './messenger/teams.js';
+import { isAllowedWebhookUrl, type WebhookConfig } from './messenger/webhook.js';
+import { validatePathPattern, type PathRule } from './path-rules.js';
+import { validateToolRule, type ToolRule } from './tool-rules.js';
+import { isValidPayloadEncryptionKey } from './payload-encryption.js';
+import { isValidApproverIdentities, type ApproverIdentitiesConfig } from './approver-identity.js';
+import { isValidApprovalGrantsConfig, type ApprovalGrantsConfig } from './approval-grants.js';
+import { isValidOfflineFallbackConfig, type OfflineFallbackConfig } from './offline-fallback.js';
+import {
+  isValidOutputFormat,
+  isValidSeverityActions,
+  type OutputFormat,
+  type SeverityAction,
+} from './hook-output.js';
 
 // Re-export for backward compatibility
 export type { SlackConfig } from './messenger/slack.js';
 export type { TelegramConfig } from './messenger/telegram.js';
 export type { WhatsAppConfig } from './messenger/whatsapp.js';
+export type { DiscordConfig } from './messenger/discord.js';
+export type { TeamsConfig } from './messenger/teams.js';
+export type { WebhookConfig } from './messenger/webhook.js';
 
 // ============================================================
 // Phase 2.1: 환경변수 매핑
@@ -21,6 +39,7 @@ const ENV_MAPPING: Record<string, string> = {
   CLAUDE_GUARD_TELEGRAM_BOT_TOKEN: 'messenger.telegram.botToken',
   CLAUDE_GUARD_TELEGRAM_CHAT_ID: 'messenger.telegram.chatId',
   CLAUDE_GUARD_SLACK_WEBHOOK_URL: 'messenger.slack.webhookUrl',
+  CLAUDE_GUARD_SLACK_BOT_TOKEN: 'messenger.slack.botToken',
   CLAUDE_GUARD_DEFAULT_ACTION: 'rules.defaultAction',
   CLAUDE_GUARD_TIMEOUT_SECONDS: 'rules.timeoutSeconds',
 };
@@ -33,9 +52,15 @@ const ENV_MAPPING: Record<string, string> = {
 const SENSITIVE_FIELDS = [
   'supabase.anonKey',
   'messenger.slack.webhookUrl',
+  'messenger.slack.botToken',
   'messenger.telegram.botToken',
   'messenger.whatsapp.authToken',
+  'messenger.discord.botToken',
+  'messenger.teams.appPassword',
+  'messenger.webhook.secret',
+  'localServer.apiToken',
   'machineIdSecret',
+  'payloadEncryptionKey',
 ];
 
 /**
@@ -176,9 +201,14 @@ function setNestedValue(obj: Record<string, unknown>, path: string, value: unkno
 
 export interface MessengerConfig {
   type: MessengerType;
+  // 동시에 알림을 보낼 메신저 목록 (type 포함)
+  channels?: MessengerType[];
   slack?: SlackConfig;
   telegram?: TelegramConfig;
   whatsapp?: WhatsAppConfig;
+  discord?: DiscordConfig;
+  teams?: TeamsConfig;
+  webhook?: WebhookConfig;
 }
 
 export interface SupabaseConfig {
@@ -186,6 +216,22 @@ export interface SupabaseConfig {
   anonKey: string;
 }
 
+// 승인 요청 저장 백엔드 (supabase: Supabase + Edge Function, local: claude-remote-guard serve)
+export type ApprovalBackend = 'supabase' | 'local';
+
+export interface LocalServerConfig {
+  // 메신저 callback과 hook이 접근하는 serve URL (https 또는 http://localhost)
+  url: string;
+  // hook → serve API 인증 토큰
+  apiToken: string;
+}
+
+// 승인자 allowlist를 지원하는 메신저
+export type ApproverMessengerType = 'slack' | 'telegram' | 'whatsapp';
+
+// 메신저별 승인 허용 사용자 ID 목록 (미설정 시 메시지를 받은 누구나 승인 가능)
+export type AllowedApproversConfig = Partial<Record<ApproverMessengerType, string[]>>;
+
 export interface RulesConfig {
   timeoutSeconds: number;
   defaultAction: 'allow' | 'deny';
@@ -193,15 +239,43 @@ export interface RulesConfig {
     pattern: string;
     severity: 'low' | 'medium' | 'high' | 'critical';
     reason: string;
+    // 프로젝트 규칙 파일에서 추가된 패턴 (다른 패턴보다 심각도가 높을 때만 적용)
+    tightenOnly?: boolean;
   }>;
   whitelist?: string[];
+  // 심각도별 필요 승인자 수 (기본 1, 예: { critical: 2 }). 거부는 한 명만 해도 즉시 반영
+  requiredApprovals?: Partial<Record<'low' | 'medium' | 'high' | 'critical', number>>;
+  // Edit/Write/MultiEdit/NotebookEdit 대상 파일 경로 규칙 (glob, 기본 규칙에 추가됨)
+  pathRules?: PathRule[];
+  // 도구 이름 glob + tool_input JSON path 조건 규칙 (MCP 도구, WebFetch 등, 기본 규칙에 추가됨)
+  toolRules?: ToolRule[];
+  // 설정 시 "Approve similar" 버튼으로 같은 저장소의 유사 요청을 일정 시간 자동 승인 (예: { minutes: 30 })
+  approvalGrants?: ApprovalGrantsConfig;
+  // 설정 시 Supabase/serve 또는 메신저 오류 때 defaultAction 전에 로컬 TTY에서 응답 대기 (예: { localPromptSeconds: 120 })
+  offlineFallback?: OfflineFallbackConfig;
+  // hook 출력 형식 (기본 'legacy'). 'modern'은 hookSpecificOutput.permissionDecision을 사용
+  outputFormat?: OutputFormat;
+  // 심각도별 처리 방식 (기본 'remote'). 'ask'면 원격 요청 없이 Claude Code 기본 프롬프트로 넘김 (modern 전용)
+  severityActions?: Partial<Record<'low' | 'medium' | 'high' | 'critical', SeverityAction>>;
 }
 
+// approval_requests.required_approvals CHECK 제약과 동일
+export const MAX_REQUIRED_APPROVALS = 10;
+
 export interface Config {
   messenger: MessengerConfig;
-  supabase: SupabaseConfig;
+  backend?: ApprovalBackend; // 기본값: supabase
+  supabase?: SupabaseConfig; // backend가 supabase일 때 필수
+  localServer?: LocalServerConfig; // backend가 local일 때 필수
   rules: RulesConfig;
   machineIdSecret?: string; // 서명된 machine_id 생성용 비밀 키
+  allowedApprovers?: AllowedApproversConfig;
+  // 다중 승인 정족수에서 메신저별 ID를 한 사람으로 묶는 매핑 (예: { "alice": { "slack": "U01..." } })
+  approverIdentities?: ApproverIdentitiesConfig;
+  // 원격 승인의 결정 서명(approval_signature)을 검증 (기본: machineIdSecret이 있으면 켜짐, false는 서명하지 않는 예전 Edge Function용)
+  requireSignedApprovals?: boolean;
+  // 설정 시 approval_requests의 command, cwd, danger_reason을 암호화하여 저장 (Supabase 백엔드, 64자 hex)
+  payloadEncryptionKey?: string;
 }
 
 // Legacy config for backward compatibility
@@ -434,6 +508,8 @@ export function deleteConfig(): void {
   }
 }
 
+const MESSENGER_TYPES: MessengerType[] = ['slack', 'telegram', 'whatsapp', 'discord', 'teams', 'webhook'];
+
 function validateMessengerConfig(messenger: unknown): boolean {
   if (typeof messenger !== 'object' || messenger === null) {
     return false;
@@ -441,16 +517,54 @@ function validateMessengerConfig(messenger: unknown): boolean {
 
   const m = messenger as Record<string, unknown>;
 
-  if (!['slack', 'telegram', 'whatsapp'].includes(m.type as string)) {
+  if (!MESSENGER_TYPES.includes(m.type as MessengerType)) {
     return false;
   }
 
-  const type = m.type as MessengerType;
+  // channels: 중복 없는 메신저 목록이며 기본 메신저(type)를 포함해야 함
+  let channels: MessengerType[] = [m.type as MessengerType];
+  if (m.channels !== undefined) {
+    if (
+      !Array.isArray(m.channels) ||
+      m.channels.length === 0 ||
+      !m.channels.every((c) => MESSENGER_TYPES.includes(c as MessengerType)) ||
+      new Set(m.channels).size !== m.channels.length ||
+      !m.channels.includes(m.type)
+    ) {
+      return false;
+    }
+    channels = m.channels as MessengerType[];
+  }
+
+  return channels.every((type) => validateMessengerTypeConfig(m, type));
+}
+
+// Telegram 포럼 topic ID (message_thread_id, 양의 정수)
+function isValidTelegramThreadId(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
 
+/**
+ * 메신저별 설정 검증 (channels의 각 메신저마다 호출)
+ */
+function validateMessengerTypeConfig(m: Record<string, unknown>, type: MessengerType): boolean {
   switch (type) {
     case 'slack': {
       const slack = m.slack as Record<string, unknown> | undefined;
-      if (!slack || typeof slack.webhookUrl !== 'string' || !slack.webhookUrl.startsWith('https://')) {
+      if (!slack) {
+        return false;
+      }
+      // bot-token 모드 (botToken + channelId) 또는 Incoming Webhook 모드
+      if (slack.botToken !== undefined) {
+        if (
+          typeof slack.botToken !== 'string' ||
+          !slack.botToken.startsWith('xoxb-') ||
+          typeof slack.channelId !== 'string' ||
+          !/^[A-Z0-9]+$/.test(slack.channelId)
+        ) {
+          return false;
+        }
+      } else if (typeof slack.webhookUrl !== 'string' || !slack.webhookUrl.startsWith('https://')) {
         return false;
       }
       break;
@@ -463,6 +577,21 @@ function validateMessengerConfig(messenger: unknown): boolean {
       if (typeof telegram.chatId !== 'string' || telegram.chatId.length === 0) {
         return false;
       }
+      // 포럼 topic ID (message_thread_id)는 양의 정수
+      if (telegram.messageThreadId !== undefined && !isValidTelegramThreadId(telegram.messageThreadId)) {
+        return false;
+      }
+      if (telegram.projectThreads !== undefined) {
+        const projectThreads = telegram.projectThreads;
+        if (
+          typeof projectThreads !== 'object' ||
+          projectThreads === null ||
+          Array.isArray(projectThreads) ||
+          !Object.values(projectThreads).every(isValidTelegramThreadId)
+        ) {
+          return false;
+        }
+      }
       break;
     }
     case 'whatsapp': {
@@ -482,6 +611,57 @@ function validateMessengerConfig(messenger: unknown): boolean {
       if (typeof whatsapp.toNumber !== 'string' || !whatsapp.toNumber.startsWith('whatsapp:')) {
         return false;
       }
+      if (whatsapp.contentSid !== undefined && !isValidTwilioContentSid(whatsapp.contentSid)) {
+        return false;
+      }
+      break;
+    }
+    case 'discord': {
+      const discord = m.discord as Record<string, unknown> | undefined;
+      if (!discord || typeof discord.botToken !== 'string' || discord.botToken.length === 0) {
+        return false;
+      }
+      // Discord 채널 ID는 숫자로 된 snowflake
+      if (typeof discord.channelId !== 'string' || !/^\d+$/.test(discord.channelId)) {
+        return false;
+      }
+      break;
+    }
+    case 'teams': {
+      const teams = m.teams as Record<string, unknown> | undefined;
+      if (!teams) {
+        return false;
+      }
+      if (typeof teams.appId !== 'string' || teams.appId.length === 0) {
+        return false;
+      }
+      if (typeof teams.appPassword !== 'string' || teams.appPassword.length === 0) {
+        return false;
+      }
+      if (teams.tenantId !== undefined && (typeof teams.tenantId !== 'string' || teams.tenantId.length === 0)) {
+        return false;
+      }
+      if (typeof teams.serviceUrl !== 'string' || !teams.serviceUrl.startsWith('https://')) {
+        return false;
+      }
+      if (typeof teams.conversationId !== 'string' || teams.conversationId.length === 0) {
+        return false;
+      }
+      break;
+    }
+    case 'webhook': {
+      const webhook = m.webhook as Record<string, unknown> | undefined;
+      if (!webhook || typeof webhook.url !== 'string' || !isAllowedWebhookUrl(webhook.url)) {
+        return false;
+      }
+      // 서명 시크릿은 최소 32자 (generateWebhookSecret은 64자 hex 생성)
+      if (typeof webhook.secret !== 'string' || webhook.secret.length < 32) {
+        return false;
+      }
+      // local 백엔드에서는 http://localhost callback 허용
+      if (typeof webhook.callbackUrl !== 'string' || !isAllowedWebhookUrl(webhook.callbackUrl)) {
+        return false;
+      }
       break;
     }
   }
@@ -489,6 +669,58 @@ function validateMessengerConfig(messenger: unknown): boolean {
   return true;
 }
 
+// Slack: user ID (U/W로 시작), Telegram: 숫자 user ID, WhatsApp: E.164 전화번호
+const APPROVER_ID_PATTERNS: Record<ApproverMessengerType, RegExp> = {
+  slack: /^[UW][A-Z0-9]{2,}$/,
+  telegram: /^\d+$/,
+  whatsapp: /^\+\d{6,15}$/,
+};
+
+export function isValidApproverId(type: ApproverMessengerType, id: string): boolean {
+  return APPROVER_ID_PATTERNS[type].test(id);
+}
+
+function validateAllowedApprovers(allowedApprovers: unknown): boolean {
+  if (typeof allowedApprovers !== 'object' || allowedApprovers === null || Array.isArray(allowedApprovers)) {
+    return false;
+  }
+
+  return Object.entries(allowedApprovers).every(
+    ([type, ids]) =>
+      type in APPROVER_ID_PATTERNS &&
+      Array.isArray(ids) &&
+      ids.every((id) => typeof id === 'string' && isValidApproverId(type as ApproverMessengerType, id))
+  );
+}
+
+export function isValidRequiredApprovals(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_REQUIRED_APPROVALS;
+}
+
+function validateRequiredApprovals(requiredApprovals: unknown): boolean {
+  if (typeof requiredApprovals !== 'object' || requiredApprovals === null || Array.isArray(requiredApprovals)) {
+    return false;
+  }
+
+  return Object.entries(requiredApprovals).every(
+    ([severity, count]) =>
+      ['low', 'medium', 'high', 'critical'].includes(severity) && isValidRequiredApprovals(count)
+  );
+}
+
+export function isValidPathRule(rule: unknown): rule is PathRule {
+  if (typeof rule !== 'object' || rule === null) {
+    return false;
+  }
+  const r = rule as Record<string, unknown>;
+  return (
+    typeof r.pattern === 'string' &&
+    validatePathPattern(r.pattern) === null &&
+    typeof r.reason === 'string' &&
+    ['low', 'medium', 'high', 'critical'].includes(r.severity as string)
+  );
+}
+
 function validateConfig(config: unknown): config is Config {
   if (typeof config !== 'object' || config === null) {
     return false;
@@ -501,15 +733,51 @@ function validateConfig(config: unknown): config is Config {
     return false;
   }
 
-  // Validate supabase config
-  if (typeof c.supabase !== 'object' || c.supabase === null) {
+  // Validate backend config
+  if (c.backend !== undefined && c.backend !== 'supabase' && c.backend !== 'local') {
     return false;
   }
-  const supabase = c.supabase as Record<string, unknown>;
-  if (typeof supabase.url !== 'string' || !supabase.url.startsWith('https://')) {
+  if (c.backend === 'local') {
+    if (typeof c.localServer !== 'object' || c.localServer === null) {
+      return false;
+    }
+    const localServer = c.localServer as Record<string, unknown>;
+    if (typeof localServer.url !== 'string' || !isAllowedWebhookUrl(localServer.url)) {
+      return false;
+    }
+    if (typeof localServer.apiToken !== 'string' || localServer.apiToken.length < 32) {
+      return false;
+    }
+  } else {
+    // Validate supabase config
+    if (typeof c.supabase !== 'object' || c.supabase === null) {
+      return false;
+    }
+    const supabase = c.supabase as Record<string, unknown>;
+    if (typeof supabase.url !== 'string' || !supabase.url.startsWith('https://')) {
+      return false;
+    }
+    if (typeof supabase.anonKey !== 'string' || supabase.anonKey.length === 0) {
+      return false;
+    }
+  }
+
+  if (c.allowedApprovers !== undefined && !validateAllowedApprovers(c.allowedApprovers)) {
     return false;
   }
-  if (typeof supabase.anonKey !== 'string' || supabase.anonKey.length === 0) {
+
+  if (c.approverIdentities !== undefined && !isValidApproverIdentities(c.approverIdentities)) {
+    return false;
+  }
+
+  if (c.requireSignedApprovals !== undefined && typeof c.requireSignedApprovals !== 'boolean') {
+    return false;
+  }
+
+  if (
+    c.payloadEncryptionKey !== undefined &&
+    (typeof c.payloadEncryptionKey !== 'string' || !isValidPayloadEncryptionKey(c.payloadEncryptionKey))
+  ) {
     return false;
   }
 
@@ -524,6 +792,30 @@ function validateConfig(config: unknown): config is Config {
   if (rules.defaultAction !== 'allow' && rules.defaultAction !== 'deny') {
     return false;
   }
+  if (rules.requiredApprovals !== undefined && !validateRequiredApprovals(rules.requiredApprovals)) {
+    return false;
+  }
+  if (rules.pathRules !== undefined && (!Array.isArray(rules.pathRules) || !rules.pathRules.every(isValidPathRule))) {
+    return false;
+  }
+  if (
+    rules.toolRules !== undefined &&
+    (!Array.isArray(rules.toolRules) || !rules.toolRules.every((rule) => validateToolRule(rule) === null))
+  ) {
+    return false;
+  }
+  if (rules.approvalGrants !== undefined && !isValidApprovalGrantsConfig(rules.approvalGrants)) {
+    return false;
+  }
+  if (rules.offlineFallback !== undefined && !isValidOfflineFallbackConfig(rules.offlineFallback)) {
+    return false;
+  }
+  if (rules.outputFormat !== undefined && !isValidOutputFormat(rules.outputFormat)) {
+    return false;
+  }
+  if (rules.severityActions !== undefined && !isValidSeverityActions(rules.severityActions)) {
+    return false;
+  }
 
   return true;
 }
@@ -0,0 +1,145 @@
+// 자동 생성 파일입니다. 직접 수정하지 말고 src/lib/decision-core.ts를 수정한 뒤
+// npm run generate:decision-core를 실행하세요.
+
+export const DECISION_CORE_SOURCE = `/**
+ * 승인 결정 공통 로직 (Edge Function과 serve가 같은 코드를 사용)
+ *
+ * serve(local-server/callbacks.ts)와 hook은 이 모듈을 import하고, Edge Function 템플릿에는
+ * decision-core.generated.ts(이 파일의 원문)가 그대로 삽입됩니다. 따라서 이 파일은
+ * - 다른 모듈을 import하지 않고
+ * - Node/Deno 전용 API(crypto, Deno.env, Buffer 등)를 사용하지 않는 순수 함수만 포함해야 합니다.
+ * 수정한 뒤에는 \`npm run generate:decision-core\`로 decision-core.generated.ts를 다시 생성하세요.
+ */
+
+// 타임스탬프 검증: 1시간(3600초) 이내 요청만 허용
+export const MAX_REQUEST_AGE_SECONDS = 3600;
+
+// 거부 사유 최대 길이 (approval_requests.rejection_reason CHECK와 동일)
+export const MAX_REJECTION_REASON_LENGTH = 500;
+
+// "Edit & approve"로 수정한 명령어 최대 길이 (Slack plain_text_input, Telegram 메시지 길이 제한 이내)
+export const MAX_MODIFIED_COMMAND_LENGTH = 3000;
+
+// 결정 서명 유효 기간 (hook은 결정 직후 검증하므로 짧게 유지)
+export const APPROVAL_SIGNATURE_TTL_SECONDS = 600;
+
+// 결정/grant 서명 키 파생용 컨텍스트 (machine_id 서명과 다른 키를 사용)
+export const APPROVAL_SIGNING_KEY_CONTEXT = 'claude-remote-guard:approval-signature:v1';
+
+export function isRequestExpired(createdAt: string, now: number = Date.now()): boolean {
+  return (now - new Date(createdAt).getTime()) / 1000 > MAX_REQUEST_AGE_SECONDS;
+}
+
+/**
+ * 승인자 allowlist 검증
+ * @param allowlist {MESSENGER}_ALLOWED_APPROVERS 값: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+ */
+export function isApproverInAllowlist(allowlist: string | undefined, approverId: string): boolean {
+  const ids = (allowlist ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  return ids.length === 0 || ids.includes(approverId);
+}
+
+/**
+ * 거부 사유 정리: 한 줄로 합치고 최대 길이로 자름 (hook이 deny reason으로 Claude에 전달)
+ */
+export function normalizeRejectionReason(text: string | null | undefined): string | undefined {
+  const reason = text?.replace(/[\\s\\p{Cc}]+/gu, ' ').trim().slice(0, MAX_REJECTION_REASON_LENGTH);
+  return reason || undefined;
+}
+
+/**
+ * "Edit & approve": 수정된 명령어 정리 (여러 줄 명령어를 위해 줄바꿈은 유지)
+ * 비어 있거나 최대 길이를 넘으면 undefined (hook이 같은 규칙으로 다시 분석한 뒤 updatedInput으로 전달)
+ */
+export function normalizeModifiedCommand(text: string | null | undefined): string | undefined {
+  const command = text?.trim();
+  return command && command.length <= MAX_MODIFIED_COMMAND_LENGTH ? command : undefined;
+}
+
+/**
+ * 결정 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt(unix seconds)}
+ * 수정된 명령어가 있으면 뒤에 :{sha256(modifiedCommand)}를 추가
+ */
+export function approvalSignaturePayload(
+  requestId: string,
+  commandHash: string,
+  status: string,
+  expiresAt: number,
+  modifiedCommandHash?: string
+): string {
+  const modifiedSuffix = modifiedCommandHash ? \`:\${modifiedCommandHash}\` : '';
+  return \`v1:\${requestId}:\${commandHash}:\${status}:\${expiresAt}\${modifiedSuffix}\`;
+}
+
+/**
+ * grant 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt(unix seconds)}
+ */
+export function grantSignaturePayload(grantId: string, scope: string, expiresAt: number): string {
+  return \`grant-v1:\${grantId}:\${scope}:\${expiresAt}\`;
+}
+
+// 처리 결과 메시지에 붙일 grant 안내
+export function grantSuffix(grantedMinutes?: number): string {
+  return grantedMinutes ? \` (similar requests auto-approved for \${grantedMinutes} min)\` : '';
+}
+
+/**
+ * approvals.approver에 저장할 승인자 식별자
+ * APPROVER_IDENTITIES ({"alice": {"slack": "U01...", "telegram": "123..."}})로 같은 사람의 메신저별 ID를 묶어
+ * 정족수를 사람 단위로 집계 (매핑되지 않은 ID는 "{via}:{ID}")
+ */
+export function resolveApproverIdentity(
+  identities: Record<string, Partial<Record<string, unknown>>> | undefined,
+  via: string,
+  approverId: string
+): string {
+  for (const [name, ids] of Object.entries(identities ?? {})) {
+    if (ids?.[via] === approverId) {
+      return \`identity:\${name}\`;
+    }
+  }
+  return \`\${via}:\${approverId}\`;
+}
+
+export function requiredApprovalCount(request: { required_approvals?: number | null }): number {
+  return Math.max(1, request.required_approvals ?? 1);
+}
+
+/**
+ * 승인자가 수정한 명령어 중 실제로 저장할 값 (거부이거나 원래 명령어와 같으면 일반 결정으로 처리)
+ */
+export function effectiveModifiedCommand(
+  status: 'approved' | 'rejected',
+  modifiedCommand: string | undefined,
+  command: string
+): string | undefined {
+  return status === 'approved' && modifiedCommand !== command ? modifiedCommand : undefined;
+}
+
+export interface QuorumResult {
+  // resolved: 정족수 도달, pending: 정족수 미달, duplicate: 이미 승인한 승인자
+  outcome: 'resolved' | 'pending' | 'duplicate';
+  approvals: number;
+  // 정족수 도달 시 resolved_by에 기록할 승인자 목록
+  resolvedBy?: string;
+}
+
+/**
+ * 다중 승인 정족수 판정 (승인 투표를 기록한 뒤 호출, 거부는 정족수와 관계없이 즉시 반영)
+ * @param approverNames 승인 투표를 한 승인자 이름 (투표 순서)
+ * @param duplicate 이번 투표가 같은 승인자의 중복 승인인지
+ */
+export function evaluateQuorum(approverNames: string[], required: number, duplicate: boolean): QuorumResult {
+  const approvals = approverNames.length;
+  if (duplicate) {
+    return { outcome: 'duplicate', approvals };
+  }
+  if (approvals < required) {
+    return { outcome: 'pending', approvals };
+  }
+  return { outcome: 'resolved', approvals, resolvedBy: approverNames.join(', ') };
+}
+`;
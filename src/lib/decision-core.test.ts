@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { DECISION_CORE_SOURCE } from './decision-core.generated.js';
+import {
+  approvalSignaturePayload,
+  evaluateQuorum,
+  isApproverInAllowlist,
+  isRequestExpired,
+} from './decision-core.js';
+
+describe('decision-core', () => {
+  it('should embed the current source in the Edge Function templates', () => {
+    const source = fs.readFileSync(fileURLToPath(new URL('./decision-core.ts', import.meta.url)), 'utf8');
+    expect(DECISION_CORE_SOURCE, 'run `npm run generate:decision-core`').toBe(source);
+  });
+
+  it('should resolve a quorum only once enough distinct approvers voted', () => {
+    expect(evaluateQuorum(['identity:alice'], 2, false)).toEqual({ outcome: 'pending', approvals: 1 });
+    expect(evaluateQuorum(['identity:alice'], 2, true)).toEqual({ outcome: 'duplicate', approvals: 1 });
+    expect(evaluateQuorum(['identity:alice', 'slack:U02'], 2, false)).toEqual({
+      outcome: 'resolved',
+      approvals: 2,
+      resolvedBy: 'identity:alice, slack:U02',
+    });
+  });
+
+  it('should check allowlists, expiry and the signature payload format', () => {
+    expect(isApproverInAllowlist(undefined, 'U01')).toBe(true);
+    expect(isApproverInAllowlist(' U01 , U02', 'U02')).toBe(true);
+    expect(isApproverInAllowlist('U01', 'U02')).toBe(false);
+
+    const now = Date.parse('2026-01-01T01:00:00Z');
+    expect(isRequestExpired('2026-01-01T00:00:00Z', now)).toBe(false);
+    expect(isRequestExpired('2025-12-31T23:59:59Z', now)).toBe(true);
+
+    expect(approvalSignaturePayload('id', 'hash', 'approved', 100)).toBe('v1:id:hash:approved:100');
+    expect(approvalSignaturePayload('id', 'hash', 'approved', 100, 'mod')).toBe('v1:id:hash:approved:100:mod');
+  });
+});
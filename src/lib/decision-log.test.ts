@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { appendDecisionLog, MAX_LOG_FILES, readDecisionLog, type DecisionLogEntry } from './decision-log.js';
+
+function entry(command: string): DecisionLogEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    session_id: 'session-1',
+    tool_name: 'Bash',
+    command,
+    cwd: '/repo',
+    rule: { isDangerous: false, severity: 'low', reason: 'No dangerous pattern detected' },
+    request_id: null,
+    decision: 'allow',
+    reason: null,
+    source: 'rule',
+    latency_ms: 3,
+  };
+}
+
+describe('appendDecisionLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'guard-log-')), 'logs');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(dir), { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per call', () => {
+    appendDecisionLog(entry('ls'), dir);
+    appendDecisionLog(entry('pwd'), dir);
+
+    const lines = fs.readFileSync(path.join(dir, 'decisions.jsonl'), 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).command)).toEqual(['ls', 'pwd']);
+    expect(fs.statSync(dir).mode & 0o777).toBe(0o700);
+  });
+
+  it('should rotate files and drop the oldest', () => {
+    // 한 줄이 maxBytes의 절반을 넘으므로 매 호출마다 회전
+    const maxBytes = JSON.stringify(entry('cmd-0')).length * 1.5;
+    for (let i = 0; i <= MAX_LOG_FILES; i++) {
+      appendDecisionLog(entry(`cmd-${i}`), dir, maxBytes);
+    }
+
+    const files = fs.readdirSync(dir).sort();
+    expect(files).toHaveLength(MAX_LOG_FILES);
+    const read = (name: string) => JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')).command;
+    expect(read('decisions.jsonl')).toBe(`cmd-${MAX_LOG_FILES}`);
+    expect(read(`decisions.${MAX_LOG_FILES - 1}.jsonl`)).toBe('cmd-1');
+  });
+
+  it('should read back the current file and skip truncated lines', () => {
+    expect(readDecisionLog(dir)).toEqual([]);
+    appendDecisionLog(entry('ls'), dir);
+    fs.appendFileSync(path.join(dir, 'decisions.jsonl'), '{"timestamp":');
+    expect(readDecisionLog(dir).map((e) => e.command)).toEqual(['ls']);
+  });
+});
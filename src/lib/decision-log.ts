@@ -0,0 +1,133 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getConfigDir } from './config.js';
+import type { RuleResult } from './rules.js';
+import type { PermissionDecision } from './hook-output.js';
+
+/**
+ * 로컬 결정 로그 (~/.claude-remote-guard/logs/decisions.jsonl)
+ *
+ * hook은 호출될 때마다 (위험하지 않아 바로 허용된 호출 포함) 한 줄의 JSON을 기록합니다.
+ * Supabase의 approval_audit와 달리 원격 저장소 없이 항상 남으므로 규칙 튜닝과 사고 분석에 사용합니다.
+ * 파일이 MAX_LOG_BYTES를 넘으면 decisions.1.jsonl, decisions.2.jsonl ... 순서로 회전합니다.
+ */
+
+export const MAX_LOG_BYTES = 5 * 1024 * 1024;
+
+/** 현재 파일을 포함해 보관할 파일 수 */
+export const MAX_LOG_FILES = 5;
+
+const LOG_FILE_BASENAME = 'decisions';
+
+/**
+ * - rule: 규칙상 위험하지 않아 허용 (또는 검사 대상이 아닌 호출)
+ * - config: 설정 파일이 없거나 유효하지 않아 허용
+ * - grant: "Approve similar" grant로 자동 승인
+ * - local: 로컬 TTY 결정 (원격 대기 중 또는 오프라인 폴백)
+ * - remote: 메신저 결정
+ * - timeout: 원격 응답 없음 (defaultAction)
+ * - error: 입력 오류, 원격 오류 (defaultAction) 등
+ * - ask: severityActions에 따라 Claude Code 기본 프롬프트로 넘김
+ */
+export type DecisionSource = 'rule' | 'config' | 'grant' | 'local' | 'remote' | 'timeout' | 'error' | 'ask';
+
+export interface DecisionLogEntry {
+  timestamp: string;
+  session_id: string | null;
+  tool_name: string | null;
+  /** 마스킹된 명령어 (Bash는 명령어, 파일 도구는 "Edit <경로>", 그 외는 도구 이름) */
+  command: string | null;
+  cwd: string | null;
+  /** 규칙 분석 결과 (matchedSegment는 마스킹됨) */
+  rule: RuleResult | null;
+  /** 승인 요청을 만든 경우 요청 ID */
+  request_id: string | null;
+  decision: PermissionDecision;
+  reason: string | null;
+  source: DecisionSource;
+  /** hook 시작부터 결정 출력까지 걸린 시간 */
+  latency_ms: number;
+}
+
+export function getDecisionLogDir(): string {
+  return path.join(getConfigDir(), 'logs');
+}
+
+function logFilePath(dir: string, index: number): string {
+  return path.join(dir, index === 0 ? `${LOG_FILE_BASENAME}.jsonl` : `${LOG_FILE_BASENAME}.${index}.jsonl`);
+}
+
+/**
+ * decisions.jsonl → decisions.1.jsonl → ... 순서로 밀어내고 가장 오래된 파일은 삭제
+ */
+function rotateLogs(dir: string): void {
+  for (let index = MAX_LOG_FILES - 1; index >= 0; index--) {
+    const source = logFilePath(dir, index);
+    if (!fs.existsSync(source)) {
+      continue;
+    }
+    if (index === MAX_LOG_FILES - 1) {
+      fs.unlinkSync(source);
+    } else {
+      fs.renameSync(source, logFilePath(dir, index + 1));
+    }
+  }
+}
+
+/**
+ * 결정 로그에 한 줄 추가. 쓰기 전에 크기를 확인하여 필요하면 회전합니다.
+ * 심볼릭 링크는 따라가지 않습니다 (O_NOFOLLOW).
+ */
+export function appendDecisionLog(
+  entry: DecisionLogEntry,
+  dir: string = getDecisionLogDir(),
+  maxBytes: number = MAX_LOG_BYTES
+): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { mode: 0o700, recursive: true });
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+  const filePath = logFilePath(dir, 0);
+  try {
+    if (fs.statSync(filePath).size + Buffer.byteLength(line) > maxBytes) {
+      rotateLogs(dir);
+    }
+  } catch {
+    // 파일이 없으면 새로 생성
+  }
+
+  const { O_WRONLY, O_CREAT, O_APPEND, O_NOFOLLOW } = fs.constants;
+  const fd = fs.openSync(filePath, O_WRONLY | O_CREAT | O_APPEND | (O_NOFOLLOW ?? 0), 0o600);
+  try {
+    fs.writeSync(fd, line);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * 현재 결정 로그 파일(회전된 파일 제외)의 항목을 읽습니다. 파싱할 수 없는 줄은 건너뜁니다.
+ * `status` 명령에서 최근 결정을 진단하는 데 사용합니다.
+ */
+export function readDecisionLog(dir: string = getDecisionLogDir()): DecisionLogEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(logFilePath(dir, 0), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: DecisionLogEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as DecisionLogEntry);
+    } catch {
+      // 쓰기 도중 잘린 줄 등
+    }
+  }
+  return entries;
+}
@@ -1,44 +1,39 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { AUDIT_STATUSES, MAX_AUDIT_LIMIT } from './audit.js';
+import { DECISION_CORE_SOURCE } from './decision-core.generated.js';
+import { SEVERITY_RANK } from './rules.js';
 import type { MessengerType } from './messenger/types.js';
 
-// Slack Edge Function Code
-export const SLACK_EDGE_FUNCTION_CODE = `// Supabase Edge Function for Slack Interactive Callbacks
-// Deploy: supabase functions deploy slack-callback
-//
-// Required environment variables:
-// - SLACK_SIGNING_SECRET: Your Slack app's signing secret
-// - SUPABASE_URL: Auto-provided by Supabase
-// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
-
-// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
-import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
-
-interface SlackAction {
-  action_id: string;
-  value: string;
-}
+// ============================================================
+// Edge Function 공통 헬퍼 (각 템플릿 문자열에 삽입됨)
+// ============================================================
 
-interface SlackUser {
-  id: string;
-  username: string;
-  name: string;
-}
-
-interface SlackPayload {
-  type: string;
-  user: SlackUser;
-  actions: SlackAction[];
-  response_url: string;
-}
+const TIMING_SAFE_EQUAL_HELPER = `// Timing-safe string comparison to prevent timing attacks
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}`;
 
-// UUID v4 형식 검증
+const UUID_HELPER = `// UUID v4 형식 검증
 const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 function isValidUUID(id: string): boolean {
   return UUID_V4_REGEX.test(id);
-}
+}`;
 
-/**
+// 승인 결정 공통 로직: src/lib/decision-core.ts 원문에서 모듈 설명과 export만 제거하여 삽입 (serve와 같은 코드)
+const DECISION_CORE_HELPER = DECISION_CORE_SOURCE.replace(
+  /^\/\*\*[\s\S]*?\*\/\n\n/,
+  '// 승인 결정 공통 로직 (src/lib/decision-core.ts에서 생성, serve와 같은 코드)\n\n'
+).replace(/^export /gm, '');
+
+const SIGNED_MACHINE_ID_HELPER = `/**
  * 서명된 machine_id 검증
  * 형식: machineId:timestamp:signature (secret 설정 시)
  * 또는 machineId (secret 미설정 시 기존 방식)
@@ -90,9 +85,305 @@ async function verifySignedMachineId(
   }
 
   return { valid: true, machineId };
+}`;
+
+const APPROVER_ALLOWLIST_HELPER = `// 승인자 allowlist 검증
+// {MESSENGER}_ALLOWED_APPROVERS: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+function isApproverAllowed(envName: string, approverId: string): boolean {
+  return isApproverInAllowlist(Deno.env.get(envName), approverId);
+}`;
+
+const APPROVAL_SIGNATURE_HELPER = `// 승인 결정 서명 (hook이 allow 전에 검증)
+// 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt}[:{sha256(modifiedCommand)}]
+// 키: HMAC-SHA256(MACHINE_ID_SECRET, APPROVAL_SIGNING_KEY_CONTEXT)
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function hmacSha256Hex(key: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+async function signApprovalDecision(
+  requestId: string,
+  command: string,
+  status: string,
+  modifiedCommand?: string
+): Promise<{ approval_signature: string; approval_expires_at: string } | null> {
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(Date.now() / 1000) + APPROVAL_SIGNATURE_TTL_SECONDS;
+  const commandHash = await sha256Hex(command);
+  // "Edit & approve": 승인자가 수정한 명령어도 서명에 포함
+  const modifiedHash = modifiedCommand ? await sha256Hex(modifiedCommand) : undefined;
+  const signingKey = await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT);
+  const signature = await hmacSha256Hex(
+    signingKey,
+    approvalSignaturePayload(requestId, commandHash, status, expiresAt, modifiedHash)
+  );
+  return { approval_signature: signature, approval_expires_at: new Date(expiresAt * 1000).toISOString() };
+}`;
+
+const PAYLOAD_ENCRYPTION_HELPER = `// 페이로드 암호화 (hook의 payloadEncryptionKey와 동일한 PAYLOAD_ENCRYPTION_KEY 사용)
+// 형식: ENC1:<iv_base64>:<ciphertext+authTag_base64>, AAD: {requestId}:{field}
+// ENC1: 접두사가 없으면 평문으로 간주, 키가 없거나 복호화에 실패하면 null
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// 승인자가 수정한 명령어(modified_command)를 원래 command와 같은 방식으로 암호화
+async function encryptPayloadField(requestId: string, field: string, plaintext: string): Promise<string | null> {
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+  const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(\`\${requestId}:\${field}\`) },
+    cryptoKey,
+    new TextEncoder().encode(plaintext)
+  );
+  return \`ENC1:\${toBase64(iv)}:\${toBase64(new Uint8Array(ciphertext))}\`;
+}
+
+async function decryptPayloadField(requestId: string, field: string, value: string): Promise<string | null> {
+  if (!value.startsWith('ENC1:')) return value;
+
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  try {
+    const [iv, data] = value.slice('ENC1:'.length).split(':');
+    const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+    const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(\`\${requestId}:\${field}\`) },
+      cryptoKey,
+      fromBase64(data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}`;
+
+const APPROVAL_GRANT_HELPER = `// 유사 요청 일괄 승인 (approval_grants)
+// "Approve similar" 버튼: hook이 요청에 넣은 grant_scope를 grant_minutes 동안 자동 승인
+// 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt} (결정 서명과 같은 키)
+async function createApprovalGrant(
+  supabase: SupabaseClient,
+  request: { id: string; grant_scope?: string | null; grant_minutes?: number | null },
+  grantedBy: string,
+  via: string
+): Promise<number | undefined> {
+  if (!request.grant_scope || !request.grant_minutes) return undefined;
+
+  const id = crypto.randomUUID();
+  const expiresAt = Math.floor(Date.now() / 1000) + request.grant_minutes * 60;
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  const signingKey = secret ? await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT) : null;
+
+  const { error } = await supabase.from('approval_grants').insert({
+    id,
+    request_id: request.id,
+    scope: request.grant_scope,
+    granted_by: grantedBy,
+    granted_via: via,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    grant_signature: signingKey
+      ? await hmacSha256Hex(signingKey, grantSignaturePayload(id, request.grant_scope, expiresAt))
+      : null,
+  });
+  if (error) {
+    // grant 생성 실패는 이번 승인에 영향 없음
+    console.error('Failed to create approval grant:', error);
+    return undefined;
+  }
+  return request.grant_minutes;
+}`;
+
+const APPROVAL_VOTE_HELPER = `// 다중 승인 정족수 처리
+// required_approvals가 1이면 바로 상태를 변경하고, 2 이상이면 approvals 테이블에 투표를 기록한 뒤
+// 서로 다른 승인자 수가 정족수에 도달했을 때만 approved로 변경 (거부는 즉시 반영)
+// details.rejectionReason: 거부 시 승인자가 남긴 사유 (normalizeRejectionReason으로 정리된 값)
+// details.modifiedCommand: "Edit & approve"로 수정한 명령어 (다중 승인 요청은 불가)
+
+// APPROVER_IDENTITIES 시크릿 파싱 (resolveApproverIdentity 참고, 형식이 잘못된 경우 채널별 ID로 집계)
+function parseApproverIdentities(): Record<string, Record<string, unknown>> | undefined {
+  const secret = Deno.env.get('APPROVER_IDENTITIES');
+  if (!secret) return undefined;
+  try {
+    return JSON.parse(secret) as Record<string, Record<string, unknown>>;
+  } catch {
+    console.error('Invalid APPROVER_IDENTITIES secret');
+    return undefined;
+  }
+}
+
+interface VoteResult {
+  // resolved: 상태 변경됨, pending: 정족수 미달, duplicate: 이미 승인한 사용자,
+  // conflict: 이미 처리됨 (race condition), unavailable: 다중 승인 요청의 명령어 수정, error: DB 오류
+  outcome: 'resolved' | 'pending' | 'duplicate' | 'conflict' | 'unavailable' | 'error';
+  approvals: number;
+  required: number;
+  // resolved_by에 기록된 값 (정족수 승인 시 승인자 목록)
+  resolvedBy: string;
+  // "Approve similar"로 grant를 만든 경우 유효 시간 (분)
+  grantedMinutes?: number;
+  // 실제로 저장된 수정 명령어 (원래 명령어와 같으면 undefined)
+  modifiedCommand?: string;
 }
 
-// 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
+async function recordVote(
+  supabase: SupabaseClient,
+  request: {
+    id: string;
+    command: string;
+    required_approvals?: number | null;
+    grant_scope?: string | null;
+    grant_minutes?: number | null;
+  },
+  status: 'approved' | 'rejected',
+  approverId: string,
+  approverName: string,
+  via: string,
+  grant = false,
+  details: { rejectionReason?: string; modifiedCommand?: string } = {}
+): Promise<VoteResult> {
+  const required = requiredApprovalCount(request);
+  let approvals = status === 'approved' ? 1 : 0;
+  let resolvedBy = approverName;
+
+  if (details.modifiedCommand && required > 1) {
+    return { outcome: 'unavailable', approvals: 0, required, resolvedBy };
+  }
+
+  if (required > 1) {
+    const vote = {
+      request_id: request.id,
+      approver: resolveApproverIdentity(parseApproverIdentities(), via, approverId),
+      approver_name: approverName,
+      via,
+      decision: status,
+    };
+
+    if (status === 'rejected') {
+      // 거부는 중복 여부와 관계없이 즉시 반영 (기존 승인 투표도 거부로 변경)
+      const { error: voteError } = await supabase
+        .from('approvals')
+        .upsert(vote, { onConflict: 'request_id,approver' });
+      if (voteError) {
+        console.error('Failed to record rejection vote:', voteError);
+      }
+    } else {
+      const { error: voteError } = await supabase.from('approvals').insert(vote);
+      // 23505: unique_violation (같은 승인자가 다시 승인, 다른 채널이라도 같은 identity면 중복)
+      const duplicate = voteError?.code === '23505';
+      if (voteError && !duplicate) {
+        console.error('Failed to record vote:', voteError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const { data: votes, error: votesError } = await supabase
+        .from('approvals')
+        .select('approver_name')
+        .eq('request_id', request.id)
+        .eq('decision', 'approved')
+        .order('created_at', { ascending: true });
+      if (votesError || !votes) {
+        console.error('Failed to count votes:', votesError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const quorum = evaluateQuorum(
+        votes.map((v: { approver_name: string }) => v.approver_name),
+        required,
+        duplicate
+      );
+      approvals = quorum.approvals;
+      if (quorum.outcome !== 'resolved') {
+        return { outcome: quorum.outcome, approvals, required, resolvedBy };
+      }
+      resolvedBy = quorum.resolvedBy ?? resolvedBy;
+    }
+  }
+
+  // 서명은 평문 명령어 기준이므로 암호화된 command는 먼저 복호화
+  const command = await decryptPayloadField(request.id, 'command', request.command);
+  if (command === null) {
+    console.error('Failed to decrypt command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // 원래 명령어와 같으면 일반 승인으로 처리
+  const modifiedCommand = effectiveModifiedCommand(status, details.modifiedCommand, command);
+  // 원래 command가 암호화된 경우 수정된 명령어도 암호화하여 저장
+  const storedModifiedCommand =
+    modifiedCommand && request.command.startsWith('ENC1:')
+      ? await encryptPayloadField(request.id, 'modified_command', modifiedCommand)
+      : modifiedCommand;
+  if (modifiedCommand && !storedModifiedCommand) {
+    console.error('Failed to encrypt modified command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // MACHINE_ID_SECRET이 설정된 경우 hook이 검증할 수 있도록 결정을 서명
+  const signature = await signApprovalDecision(request.id, command, status, modifiedCommand);
+
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .update({
+      status,
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+      resolved_via: via,
+      ...(status === 'rejected' && details.rejectionReason && { rejection_reason: details.rejectionReason }),
+      ...(storedModifiedCommand && { modified_command: storedModifiedCommand }),
+      ...signature,
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending') // Only update if still pending
+    .select('id');
+
+  if (error) {
+    console.error('Failed to update request:', error);
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // Verify that a row was actually updated
+  if (!data || data.length === 0) {
+    return { outcome: 'conflict', approvals, required, resolvedBy };
+  }
+
+  // "Approve similar": 같은 범위의 요청을 일정 시간 자동 승인
+  const grantedMinutes =
+    grant && status === 'approved' ? await createApprovalGrant(supabase, request, resolvedBy, via) : undefined;
+
+  return { outcome: 'resolved', approvals, required, resolvedBy, grantedMinutes, modifiedCommand };
+}`;
+
+const RATE_LIMIT_HELPER = `// 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
 function getClientIP(req: Request): string {
   // cf-connecting-ip: Cloudflare가 제공하는 실제 클라이언트 IP
   // x-real-ip: 일부 프록시/로드밸런서가 제공
@@ -133,6 +424,125 @@ async function checkRateLimit(supabase: SupabaseClient, identifier: string): Pro
   });
 
   return true;
+}`;
+
+// Slack Edge Function Code
+export const SLACK_EDGE_FUNCTION_CODE = `// Supabase Edge Function for Slack Interactive Callbacks
+// Deploy: supabase functions deploy slack-callback
+//
+// Required environment variables:
+// - SLACK_SIGNING_SECRET: Your Slack app's signing secret
+// - SLACK_ALLOWED_APPROVERS (optional): Comma-separated Slack user IDs allowed to approve (e.g. U01ABCDEF,U02GHIJKL)
+// - SLACK_BOT_TOKEN (optional): Bot token (xoxb-...) to replace the buttons on the original message (bot-token mode)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
+
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+interface SlackAction {
+  action_id: string;
+  value: string;
+}
+
+interface SlackUser {
+  id: string;
+  username: string;
+  name: string;
+}
+
+interface SlackBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface SlackView {
+  callback_id: string;
+  private_metadata: string;
+  state?: { values?: Record<string, Record<string, { value?: string | null }>> };
+}
+
+interface SlackPayload {
+  type: string;
+  user: SlackUser;
+  // block_actions
+  actions?: SlackAction[];
+  response_url?: string;
+  trigger_id?: string;
+  // 버튼이 눌린 원본 메시지
+  message?: { blocks?: SlackBlock[] };
+  // view_submission ("Reject with reason", "Edit & approve" modal)
+  view?: SlackView;
+}
+
+// modal의 private_metadata (제출 시 요청과 원본 메시지를 찾는 데 사용)
+interface ModalMetadata {
+  request_id: string;
+  response_url?: string;
+  blocks?: SlackBlock[];
+}
+
+// 입력란 하나로 구성된 modal 정의 (block_id는 오류 표시 위치로도 사용)
+interface InputModal {
+  callbackId: string;
+  title: string;
+  submit: string;
+  blockId: string;
+  actionId: string;
+  label: string;
+  maxLength: number;
+  placeholder?: string;
+  initialValue?: string;
+}
+
+const REJECT_REASON_CALLBACK_ID = 'reject_reason';
+const EDIT_APPROVE_CALLBACK_ID = 'edit_approve';
+// Slack private_metadata 최대 길이
+const MAX_PRIVATE_METADATA_LENGTH = 3000;
+
+${UUID_HELPER}
+
+${SIGNED_MACHINE_ID_HELPER}
+
+${DECISION_CORE_HELPER}
+
+${APPROVER_ALLOWLIST_HELPER}
+
+${APPROVAL_SIGNATURE_HELPER}
+
+${PAYLOAD_ENCRYPTION_HELPER}
+
+${APPROVAL_GRANT_HELPER}
+
+${APPROVAL_VOTE_HELPER}
+
+${RATE_LIMIT_HELPER}
+
+const REJECT_REASON_MODAL: InputModal = {
+  callbackId: REJECT_REASON_CALLBACK_ID,
+  title: 'Reject request',
+  submit: 'Reject',
+  blockId: 'reason',
+  actionId: 'reason_input',
+  label: 'Reason (sent back to Claude)',
+  maxLength: MAX_REJECTION_REASON_LENGTH,
+  placeholder: 'e.g. use git push --force-with-lease instead',
+};
+
+const EDIT_APPROVE_MODAL: InputModal = {
+  callbackId: EDIT_APPROVE_CALLBACK_ID,
+  title: 'Edit & approve',
+  submit: 'Approve',
+  blockId: 'command',
+  actionId: 'command_input',
+  label: 'Command to run instead',
+  maxLength: MAX_MODIFIED_COMMAND_LENGTH,
+};
+
+// mrkdwn 제어 문자 이스케이프 (승인자가 입력한 거부 사유, 수정된 명령어 표시용)
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 // HMAC-SHA256 signature verification for Slack requests
@@ -168,6 +578,145 @@ async function verifySlackSignature(
   return result === 0;
 }
 
+// 원본 메시지 blocks 조회 (modal의 private_metadata에 담지 못한 긴 메시지)
+// channels:history (비공개 채널은 groups:history) 권한 필요
+async function fetchSlackMessageBlocks(
+  botToken: string,
+  channel: string,
+  ts: string
+): Promise<SlackBlock[] | null> {
+  try {
+    const params = new URLSearchParams({ channel, latest: ts, inclusive: 'true', limit: '1' });
+    const response = await fetch(\`https://slack.com/api/conversations.history?\${params}\`, {
+      headers: { Authorization: \`Bearer \${botToken}\` },
+    });
+    const result = await response.json();
+    const message = result.messages?.[0];
+    if (!result.ok || message?.ts !== ts || !message.blocks) {
+      console.error('Failed to fetch Slack message:', result.error ?? 'message not found');
+      return null;
+    }
+    return message.blocks;
+  } catch (error) {
+    console.error('Failed to fetch Slack message:', error);
+    return null;
+  }
+}
+
+// bot-token 모드: hook이 저장한 channel:ts의 원본 메시지에서 버튼을 제거하고 처리 결과 footer 표시
+// blocks가 없으면 (modal 제출 시 private_metadata에서 생략된 경우) conversations.history로 조회
+// @returns 갱신되었으면 true (bot token이나 메시지 참조가 없으면 false → response_url로 후속 메시지 전송)
+async function updateSlackMessage(
+  messageRef: string | undefined,
+  blocks: SlackBlock[] | undefined,
+  footer: string
+): Promise<boolean> {
+  const botToken = Deno.env.get('SLACK_BOT_TOKEN');
+  const [channel, ts] = messageRef?.split(':') ?? [];
+  if (!botToken || !channel || !ts) {
+    return false;
+  }
+  const originalBlocks = blocks ?? (await fetchSlackMessageBlocks(botToken, channel, ts));
+  if (!originalBlocks) {
+    return false;
+  }
+
+  try {
+    const response = await fetch('https://slack.com/api/chat.update', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: \`Bearer \${botToken}\`,
+      },
+      body: JSON.stringify({
+        channel,
+        ts,
+        text: footer,
+        blocks: [
+          ...originalBlocks.filter(block => block.type !== 'actions'),
+          { type: 'context', elements: [{ type: 'mrkdwn', text: footer }] },
+        ],
+      }),
+    });
+    const result = await response.json();
+    if (!result.ok) {
+      console.error('Failed to update Slack message:', result.error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to update Slack message:', error);
+    return false;
+  }
+}
+
+// "Reject with reason", "Edit & approve": 입력 modal 열기 (views.open은 bot token 필요)
+// 원본 메시지 blocks는 private_metadata 길이 제한을 넘으면 생략 (제출 시 conversations.history로 다시 조회)
+async function openInputModal(triggerId: string, metadata: ModalMetadata, modal: InputModal): Promise<boolean> {
+  const botToken = Deno.env.get('SLACK_BOT_TOKEN');
+  if (!botToken) {
+    return false;
+  }
+
+  let privateMetadata = JSON.stringify(metadata);
+  if (privateMetadata.length > MAX_PRIVATE_METADATA_LENGTH) {
+    privateMetadata = JSON.stringify({ request_id: metadata.request_id, response_url: metadata.response_url });
+  }
+
+  try {
+    const response = await fetch('https://slack.com/api/views.open', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: \`Bearer \${botToken}\`,
+      },
+      body: JSON.stringify({
+        trigger_id: triggerId,
+        view: {
+          type: 'modal',
+          callback_id: modal.callbackId,
+          private_metadata: privateMetadata,
+          title: { type: 'plain_text', text: modal.title },
+          submit: { type: 'plain_text', text: modal.submit },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [
+            {
+              type: 'input',
+              block_id: modal.blockId,
+              label: { type: 'plain_text', text: modal.label },
+              element: {
+                type: 'plain_text_input',
+                action_id: modal.actionId,
+                multiline: true,
+                max_length: modal.maxLength,
+                ...(modal.placeholder && { placeholder: { type: 'plain_text', text: modal.placeholder } }),
+                ...(modal.initialValue && { initial_value: modal.initialValue.slice(0, modal.maxLength) }),
+              },
+            },
+          ],
+        },
+      }),
+    });
+    const result = await response.json();
+    if (!result.ok) {
+      console.error('Failed to open Slack modal:', result.error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to open Slack modal:', error);
+    return false;
+  }
+}
+
+// view_submission 응답: modal을 닫지 않고 입력란(blockId) 아래에 오류 표시
+function modalErrorResponse(message: string, blockId = 'reason'): Response {
+  return new Response(JSON.stringify({ response_action: 'errors', errors: { [blockId]: message } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
 Deno.serve(async (req: Request) => {
   // Only allow POST from Slack
   if (req.method !== 'POST') {
@@ -239,19 +788,49 @@ Deno.serve(async (req: Request) => {
 
     const payload: SlackPayload = JSON.parse(payloadStr);
 
-    // Validate payload type
-    if (payload.type !== 'block_actions') {
+    // block_actions: 메시지 버튼 클릭, view_submission: "Reject with reason"/"Edit & approve" modal 제출
+    const isModal = payload.type === 'view_submission';
+    let action_id: string;
+    let requestId: string;
+    let responseUrl: string | undefined;
+    let messageBlocks: SlackBlock[] | undefined;
+    let rejectionReason: string | undefined;
+    let modifiedCommand: string | undefined;
+    let modalBlockId = REJECT_REASON_MODAL.blockId;
+    if (
+      isModal &&
+      (payload.view?.callback_id === REJECT_REASON_CALLBACK_ID || payload.view?.callback_id === EDIT_APPROVE_CALLBACK_ID)
+    ) {
+      // private_metadata는 views.open 시 이 함수가 설정한 값 (Slack 서명으로 보호됨)
+      const metadata: ModalMetadata = JSON.parse(payload.view.private_metadata);
+      const values = payload.view.state?.values;
+      requestId = metadata.request_id;
+      responseUrl = metadata.response_url;
+      messageBlocks = metadata.blocks;
+      if (payload.view.callback_id === EDIT_APPROVE_CALLBACK_ID) {
+        action_id = 'approve_command';
+        modalBlockId = EDIT_APPROVE_MODAL.blockId;
+        modifiedCommand = normalizeModifiedCommand(values?.command?.command_input?.value);
+        if (!modifiedCommand) {
+          return modalErrorResponse(\`Enter a command (max \${MAX_MODIFIED_COMMAND_LENGTH} characters).\`, modalBlockId);
+        }
+      } else {
+        action_id = 'reject_command';
+        rejectionReason = normalizeRejectionReason(values?.reason?.reason_input?.value);
+      }
+    } else if (payload.type === 'block_actions') {
+      const action = payload.actions?.[0];
+      if (!action) {
+        return new Response('No action found', { status: 400 });
+      }
+      action_id = action.action_id;
+      requestId = action.value;
+      responseUrl = payload.response_url;
+      messageBlocks = payload.message?.blocks;
+    } else {
       return new Response('Unsupported interaction type', { status: 400 });
     }
 
-    // Get action details
-    const action = payload.actions[0];
-    if (!action) {
-      return new Response('No action found', { status: 400 });
-    }
-
-    const { action_id, value: requestId } = action;
-
     // UUID 형식 검증
     if (!isValidUUID(requestId)) {
       console.error('Invalid request ID format:', requestId);
@@ -262,27 +841,96 @@ Deno.serve(async (req: Request) => {
 
     // Determine status based on action
     let status: 'approved' | 'rejected';
-    if (action_id === 'approve_command') {
+    if (
+      action_id === 'approve_command' ||
+      action_id === 'approve_similar_command' ||
+      action_id === 'edit_approve_command'
+    ) {
       status = 'approved';
-    } else if (action_id === 'reject_command') {
+    } else if (action_id === 'reject_command' || action_id === 'reject_with_reason_command') {
       status = 'rejected';
     } else {
       return new Response('Unknown action', { status: 400 });
     }
 
+    // 버튼 클릭에 대한 안내 (본인에게만 표시)
+    const postEphemeral = async (text: string) => {
+      if (!responseUrl) return;
+      await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response_type: 'ephemeral', replace_original: false, text }),
+      });
+    };
+
+    // 승인자 allowlist 검증 (Slack user ID 기준)
+    if (!isApproverAllowed('SLACK_ALLOWED_APPROVERS', payload.user.id)) {
+      console.error('Approver not in allowlist:', payload.user.id);
+      if (isModal) {
+        return modalErrorResponse('You are not authorized to approve or reject this request.', modalBlockId);
+      }
+      if (responseUrl) {
+        await fetch(responseUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            response_type: 'ephemeral',
+            replace_original: false,
+            text: ':no_entry: You are not authorized to approve or reject this request.',
+          }),
+        });
+      }
+      return new Response('Not authorized', { status: 403 });
+    }
+
+    // 사유 입력 modal을 열고, 제출(view_submission) 시 거부 처리
+    if (action_id === 'reject_with_reason_command') {
+      const opened =
+        payload.trigger_id &&
+        (await openInputModal(
+          payload.trigger_id,
+          { request_id: requestId, response_url: responseUrl, blocks: messageBlocks },
+          REJECT_REASON_MODAL
+        ));
+      if (!opened) {
+        await postEphemeral(
+          ':warning: Could not open the reason dialog (SLACK_BOT_TOKEN is required). Use Reject instead.'
+        );
+      }
+      return new Response('OK', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' },
+      });
+    }
+
     // 요청 조회 (machine_id 포함)
     const { data: requestData, error: fetchError } = await supabase
       .from('approval_requests')
-      .select('id, created_at, status, machine_id')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes, message_refs')
       .eq('id', requestId)
       .eq('status', 'pending')
       .single();
 
     if (fetchError || !requestData) {
       console.error('Request not found or already resolved:', requestId);
+      if (isModal) {
+        return modalErrorResponse('This request was not found or has already been resolved.', modalBlockId);
+      }
+      if (action_id === 'edit_approve_command') {
+        await postEphemeral(':warning: Request not found or already resolved.');
+      }
       return new Response('Request not found or already resolved', { status: 404 });
     }
 
+    // 1시간 이내 요청만 허용
+    if (isRequestExpired(requestData.created_at)) {
+      console.error('Request expired:', requestId);
+      if (isModal) {
+        return modalErrorResponse('This request was not found or has already been resolved.', modalBlockId);
+      }
+      return new Response('Request expired', { status: 410 });
+    }
+
     // machine_id 서명 검증
     const machineIdSecret = Deno.env.get('MACHINE_ID_SECRET');
     if (machineIdSecret && requestData.machine_id) {
@@ -296,38 +944,101 @@ Deno.serve(async (req: Request) => {
       }
     }
 
-    // Update the approval request
-    const { data, error } = await supabase
-      .from('approval_requests')
-      .update({
-        status,
-        resolved_at: new Date().toISOString(),
-        resolved_by: resolvedBy,
-      })
-      .eq('id', requestId)
-      .eq('status', 'pending') // Only update if still pending
-      .select('id');
+    // 원래 명령어를 채운 편집 modal을 열고, 제출 시 수정된 명령어로 승인 처리
+    if (action_id === 'edit_approve_command') {
+      if ((requestData.required_approvals ?? 1) > 1) {
+        await postEphemeral(':warning: Edit & approve is not available for requests that need multiple approvals.');
+      } else {
+        // 복호화할 수 없으면 빈 입력란으로 열림
+        const command = await decryptPayloadField(requestId, 'command', requestData.command);
+        const opened =
+          payload.trigger_id &&
+          (await openInputModal(
+            payload.trigger_id,
+            { request_id: requestId, response_url: responseUrl, blocks: messageBlocks },
+            { ...EDIT_APPROVE_MODAL, initialValue: command ?? undefined }
+          ));
+        if (!opened) {
+          await postEphemeral(':warning: Could not open the edit dialog (SLACK_BOT_TOKEN is required).');
+        }
+      }
+      return new Response('OK', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' },
+      });
+    }
 
-    if (error) {
-      console.error('Failed to update request:', error);
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      payload.user.id,
+      resolvedBy,
+      'slack',
+      action_id === 'approve_similar_command',
+      { rejectionReason, modifiedCommand }
+    );
+
+    if (vote.outcome === 'error') {
       return new Response('Failed to update request', { status: 500 });
     }
 
-    // Verify that a row was actually updated
-    if (!data || data.length === 0) {
+    if (vote.outcome === 'unavailable') {
+      if (isModal) {
+        return modalErrorResponse(
+          'Edit & approve is not available for requests that need multiple approvals.',
+          modalBlockId
+        );
+      }
+      return new Response('Modification not available', { status: 400 });
+    }
+
+    if (vote.outcome === 'conflict') {
       console.error('Request update failed (race condition):', requestId);
+      if (isModal) {
+        return modalErrorResponse('This request has already been resolved.', modalBlockId);
+      }
       return new Response('Request update failed', { status: 409 });
     }
 
-    // Send response back to Slack to update the message
-    const responseMessage =
-      status === 'approved'
-        ? \`:white_check_mark: *Approved* by @\${resolvedBy}\`
-        : \`:x: *Rejected* by @\${resolvedBy}\`;
+    // 정족수 미달: 버튼을 유지하고 진행 상황만 표시
+    if (vote.outcome === 'pending' || vote.outcome === 'duplicate') {
+      const progressMessage =
+        vote.outcome === 'pending'
+          ? \`:ballot_box_with_check: Approved by @\${resolvedBy} (\${vote.approvals}/\${vote.required} approvals)\`
+          : \`:warning: @\${resolvedBy} already approved (\${vote.approvals}/\${vote.required} approvals)\`;
+      if (responseUrl) {
+        await fetch(responseUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ replace_original: false, text: progressMessage }),
+        });
+      }
+      return new Response('OK', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' },
+      });
+    }
+
+    // 처리 결과 (원본 메시지 footer 또는 후속 메시지)
+    let responseMessage: string;
+    if (status === 'rejected') {
+      responseMessage = \`:x: *Rejected* by @\${vote.resolvedBy}\${rejectionReason ? \`: \${escapeSlackText(rejectionReason)}\` : ''}\`;
+    } else if (vote.modifiedCommand) {
+      responseMessage = \`:pencil2: *Approved with changes* by @\${vote.resolvedBy}\\n\\\`\\\`\\\`\${escapeSlackText(vote.modifiedCommand)}\\\`\\\`\\\`\`;
+    } else {
+      responseMessage = \`:white_check_mark: *Approved* by @\${vote.resolvedBy}\${grantSuffix(vote.grantedMinutes)}\`;
+    }
 
-    // Respond to Slack's response_url to update the original message
-    if (payload.response_url) {
-      await fetch(payload.response_url, {
+    // bot-token 모드는 원본 메시지를 갱신하고, 그 외에는 response_url로 후속 메시지 전송
+    const updated = await updateSlackMessage(
+      requestData.message_refs?.slack,
+      messageBlocks,
+      responseMessage
+    );
+    if (!updated && responseUrl) {
+      await fetch(responseUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -337,6 +1048,10 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    // view_submission은 빈 200 응답으로 modal을 닫음
+    if (isModal) {
+      return new Response(null, { status: 200 });
+    }
     return new Response('OK', {
       status: 200,
       headers: { 'Content-Type': 'text/plain' },
@@ -355,134 +1070,33 @@ export const TELEGRAM_EDGE_FUNCTION_CODE = `// Supabase Edge Function for Telegr
 // Required environment variables:
 // - TELEGRAM_BOT_TOKEN: Your Telegram bot token
 // - TELEGRAM_WEBHOOK_SECRET: Secret token for webhook verification (set via setWebhook API)
+// - TELEGRAM_ALLOWED_APPROVERS (optional): Comma-separated Telegram user IDs allowed to approve (e.g. 123456789)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
 // - SUPABASE_URL: Auto-provided by Supabase
 // - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
 
 // npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
 import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
 
-// Timing-safe string comparison to prevent timing attacks
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    return false;
-  }
-  let result = 0;
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  }
-  return result === 0;
-}
-
-// UUID v4 형식 검증
-const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-function isValidUUID(id: string): boolean {
-  return UUID_V4_REGEX.test(id);
-}
-
-/**
- * 서명된 machine_id 검증
- * 형식: machineId:timestamp:signature (secret 설정 시)
- * 또는 machineId (secret 미설정 시 기존 방식)
- */
-async function verifySignedMachineId(
-  signedId: string | null,
-  maxAgeSeconds = 600
-): Promise<{ valid: boolean; machineId: string | null }> {
-  if (!signedId) return { valid: false, machineId: null };
-
-  const secret = Deno.env.get('MACHINE_ID_SECRET');
-  if (!secret) {
-    // secret 미설정 시 기존 방식 (32자 hex 검증만)
-    const isValidFormat = /^[a-f0-9]{32}$/i.test(signedId);
-    return { valid: isValidFormat, machineId: isValidFormat ? signedId : null };
-  }
-
-  const parts = signedId.split(':');
-  if (parts.length !== 3) return { valid: false, machineId: null };
-
-  const [machineId, timestampStr, signature] = parts;
-  const timestamp = parseInt(timestampStr, 10);
-
-  // 만료 확인
-  const now = Math.floor(Date.now() / 1000);
-  if (now - timestamp > maxAgeSeconds) {
-    return { valid: false, machineId: null };
-  }
-
-  // 서명 검증
-  const payload = \`\${machineId}:\${timestampStr}\`;
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
-  const expected = Array.from(new Uint8Array(sig))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-    .substring(0, 16);
-
-  // 서명 일치 확인
-  if (signature !== expected) {
-    return { valid: false, machineId: null };
-  }
+${TIMING_SAFE_EQUAL_HELPER}
 
-  return { valid: true, machineId };
-}
+${UUID_HELPER}
 
-// 타임스탬프 검증: 1시간(3600초) 이내 요청만 허용
-const MAX_REQUEST_AGE_SECONDS = 3600;
-function isRequestExpired(createdAt: string): boolean {
-  const createdTime = new Date(createdAt).getTime();
-  const now = Date.now();
-  return (now - createdTime) / 1000 > MAX_REQUEST_AGE_SECONDS;
-}
+${SIGNED_MACHINE_ID_HELPER}
 
-// 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
-function getClientIP(req: Request): string {
-  // cf-connecting-ip: Cloudflare가 제공하는 실제 클라이언트 IP
-  // x-real-ip: 일부 프록시/로드밸런서가 제공
-  // x-forwarded-for: 마지막 값이 실제 클라이언트 IP (첫 번째는 스푸핑 가능)
-  return req.headers.get('cf-connecting-ip')
-    || req.headers.get('x-real-ip')
-    || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
-    || 'unknown';
-}
+${DECISION_CORE_HELPER}
 
-// Supabase 테이블 기반 Rate Limiter (서버리스 환경에서 분산 제한)
-async function checkRateLimit(supabase: SupabaseClient, identifier: string): Promise<boolean> {
-  const windowMs = 60 * 1000; // 1분
-  const maxRequests = 30;
-  const now = Date.now();
-  const windowStart = now - windowMs;
+${APPROVER_ALLOWLIST_HELPER}
 
-  // 현재 윈도우 내 요청 수 조회
-  const { count, error } = await supabase
-    .from('rate_limits')
-    .select('*', { count: 'exact', head: true })
-    .eq('identifier', identifier)
-    .gte('created_at', new Date(windowStart).toISOString());
+${APPROVAL_SIGNATURE_HELPER}
 
-  if (error) {
-    console.error('Rate limit check failed:', error);
-    return true; // 에러 시 허용 (서비스 가용성 우선)
-  }
+${PAYLOAD_ENCRYPTION_HELPER}
 
-  if ((count || 0) >= maxRequests) {
-    return false;
-  }
+${APPROVAL_GRANT_HELPER}
 
-  // 새 요청 기록
-  await supabase.from('rate_limits').insert({
-    identifier,
-    created_at: new Date().toISOString(),
-  });
+${APPROVAL_VOTE_HELPER}
 
-  return true;
-}
+${RATE_LIMIT_HELPER}
 
 interface TelegramUser {
   id: number;
@@ -494,6 +1108,9 @@ interface TelegramUser {
 interface TelegramMessage {
   message_id: number;
   chat: { id: number };
+  from?: TelegramUser;
+  text?: string;
+  reply_to_message?: TelegramMessage;
 }
 
 interface CallbackQuery {
@@ -506,8 +1123,16 @@ interface CallbackQuery {
 interface TelegramUpdate {
   update_id: number;
   callback_query?: CallbackQuery;
+  // "Reject with reason", "Edit & approve" 프롬프트(force_reply)에 대한 답장
+  message?: TelegramMessage;
 }
 
+// force_reply 프롬프트: 답장의 reply_to_message(봇이 보낸 프롬프트)에서 요청 ID를 다시 읽음
+const REJECT_REASON_PROMPT = 'Reply to this message with the reason for rejecting request';
+const REJECT_REASON_PROMPT_REGEX = /rejecting request ([0-9a-f-]{36})/i;
+const EDIT_APPROVE_PROMPT = 'Reply to this message with the command to run instead for request';
+const EDIT_APPROVE_PROMPT_REGEX = /command to run instead for request ([0-9a-f-]{36})/i;
+
 Deno.serve(async (req: Request) => {
   if (req.method !== 'POST') {
     return new Response('Method not allowed', { status: 405 });
@@ -553,19 +1178,56 @@ Deno.serve(async (req: Request) => {
     }
 
     const update: TelegramUpdate = await req.json();
-    if (!update.callback_query) {
-      return new Response('OK', { status: 200 });
-    }
-
     const callbackQuery = update.callback_query;
-    const callbackData = callbackQuery.data;
-    if (!callbackData) {
-      return new Response('No callback data', { status: 400 });
-    }
+    // 봇이 보낸 프롬프트에 대한 답장만 거부 사유/수정된 명령어로 처리 (bot token의 앞부분이 봇의 user ID)
+    const promptReply =
+      update.message?.reply_to_message?.from?.id === Number(botToken.split(':')[0]) ? update.message : undefined;
+
+    let action: string;
+    let requestId: string;
+    let from: TelegramUser;
+    let rejectionReason: string | undefined;
+    let modifiedCommand: string | undefined;
+    let notify: (text: string, showAlert?: boolean) => Promise<void>;
+    if (callbackQuery) {
+      const callbackData = callbackQuery.data;
+      if (!callbackData) {
+        return new Response('No callback data', { status: 400 });
+      }
 
-    const [action, requestId] = callbackData.split(':');
-    if (!action || !requestId || (action !== 'approve' && action !== 'reject')) {
-      return new Response('Invalid callback data format', { status: 400 });
+      [action, requestId] = callbackData.split(':');
+      if (
+        !action ||
+        !requestId ||
+        !['approve', 'approve_similar', 'reject', 'reject_reason', 'edit_approve'].includes(action)
+      ) {
+        return new Response('Invalid callback data format', { status: 400 });
+      }
+      from = callbackQuery.from;
+      notify = (text, showAlert = false) => answerCallbackQuery(botToken, callbackQuery.id, text, showAlert);
+    } else if (promptReply?.from && promptReply.text) {
+      const promptText = promptReply.reply_to_message?.text;
+      const reasonMatch = promptText?.match(REJECT_REASON_PROMPT_REGEX);
+      const editMatch = promptText?.match(EDIT_APPROVE_PROMPT_REGEX);
+      from = promptReply.from;
+      notify = (text) => sendReply(botToken, promptReply.chat.id, promptReply.message_id, text);
+      if (reasonMatch) {
+        action = 'reject';
+        requestId = reasonMatch[1];
+        rejectionReason = normalizeRejectionReason(promptReply.text);
+      } else if (editMatch) {
+        action = 'approve';
+        requestId = editMatch[1];
+        modifiedCommand = normalizeModifiedCommand(promptReply.text);
+        if (!modifiedCommand) {
+          await notify(\`⚠️ Command is empty or longer than \${MAX_MODIFIED_COMMAND_LENGTH} characters\`);
+          return new Response('OK', { status: 200 });
+        }
+      } else {
+        return new Response('OK', { status: 200 });
+      }
+    } else {
+      return new Response('OK', { status: 200 });
     }
 
     // UUID 형식 검증
@@ -574,33 +1236,50 @@ Deno.serve(async (req: Request) => {
       return new Response('Invalid request ID format', { status: 400 });
     }
 
-    const status = action === 'approve' ? 'approved' : 'rejected';
-    const resolvedBy = callbackQuery.from.username ||
-      \`\${callbackQuery.from.first_name}\${callbackQuery.from.last_name ? ' ' + callbackQuery.from.last_name : ''}\` ||
-      String(callbackQuery.from.id);
+    const status = action.startsWith('reject') ? 'rejected' : 'approved';
+    const resolvedBy = from.username ||
+      \`\${from.first_name}\${from.last_name ? ' ' + from.last_name : ''}\` ||
+      String(from.id);
+
+    // 승인자 allowlist 검증 (Telegram user ID 기준, 그룹 채팅의 다른 멤버 차단)
+    if (!isApproverAllowed('TELEGRAM_ALLOWED_APPROVERS', String(from.id))) {
+      console.error('Approver not in allowlist:', from.id);
+      await notify('🚫 You are not authorized to approve or reject this request', true);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 처리되었거나 만료된 요청의 버튼 제거 (hook이 종료되어 원본 메시지를 갱신하지 못한 경우)
+    const removeStaleKeyboard = async () => {
+      if (callbackQuery?.message) {
+        await removeInlineKeyboard(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id);
+      }
+    };
 
     // 타임스탬프 검증: 요청의 created_at 조회
     const { data: requestData, error: fetchError } = await supabase
       .from('approval_requests')
-      .select('id, created_at, status, machine_id')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes, message_refs')
       .eq('id', requestId)
       .single();
 
     if (fetchError || !requestData) {
       console.error('Request not found:', requestId);
-      await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ Request not found');
+      await notify('⚠️ Request not found');
+      await removeStaleKeyboard();
       return new Response('Request not found', { status: 404 });
     }
 
     if (requestData.status !== 'pending') {
-      await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ Request already resolved');
+      await notify('⚠️ Request already resolved');
+      await removeStaleKeyboard();
       return new Response('OK', { status: 200 });
     }
 
     // 1시간 이내 요청만 허용
     if (isRequestExpired(requestData.created_at)) {
       console.error('Request expired:', requestId);
-      await answerCallbackQuery(botToken, callbackQuery.id, '⏰ Request expired (>1 hour)');
+      await notify('⏰ Request expired (>1 hour)');
+      await removeStaleKeyboard();
       return new Response('Request expired', { status: 410 });
     }
 
@@ -610,39 +1289,107 @@ Deno.serve(async (req: Request) => {
       const verification = await verifySignedMachineId(requestData.machine_id);
       if (!verification.valid) {
         console.error('Invalid machine_id signature:', requestId);
-        await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ 유효하지 않은 요청입니다');
+        await notify('⚠️ 유효하지 않은 요청입니다');
         return new Response('Invalid machine signature', { status: 403 });
       }
     }
 
-    const { data, error } = await supabase
-      .from('approval_requests')
-      .update({
-        status,
-        resolved_at: new Date().toISOString(),
-        resolved_by: resolvedBy,
-      })
-      .eq('id', requestId)
-      .eq('status', 'pending')
-      .select('id');
+    // "Reject with reason": 원본 메시지에 답장 프롬프트(force_reply)를 보내고, 답장이 오면 거부 처리
+    if (action === 'reject_reason') {
+      await notify('✍️ Reply with the reason');
+      if (callbackQuery?.message) {
+        await sendForceReply(
+          botToken,
+          callbackQuery.message.chat.id,
+          callbackQuery.message.message_id,
+          \`✍️ \${REJECT_REASON_PROMPT} \${requestId}\`,
+          'Reason for rejecting'
+        );
+      }
+      return new Response('OK', { status: 200 });
+    }
 
-    if (error) {
-      console.error('Failed to update request:', error);
-      await answerCallbackQuery(botToken, callbackQuery.id, '❌ Failed to update request');
+    // "Edit & approve": 원래 명령어와 함께 답장 프롬프트를 보내고, 답장으로 받은 명령어로 승인 처리
+    if (action === 'edit_approve') {
+      if ((requestData.required_approvals ?? 1) > 1) {
+        await notify('⚠️ Edit & approve is not available for requests that need multiple approvals', true);
+        return new Response('OK', { status: 200 });
+      }
+      await notify('✏️ Reply with the command to run');
+      if (callbackQuery?.message) {
+        // 복호화할 수 없으면 원래 명령어 없이 프롬프트만 전송
+        const command = await decryptPayloadField(requestId, 'command', requestData.command);
+        await sendForceReply(
+          botToken,
+          callbackQuery.message.chat.id,
+          callbackQuery.message.message_id,
+          \`✏️ \${EDIT_APPROVE_PROMPT} \${requestId}\${command ? \`\\n\\n\${command.slice(0, MAX_MODIFIED_COMMAND_LENGTH)}\` : ''}\`,
+          'Command to run instead'
+        );
+      }
+      return new Response('OK', { status: 200 });
+    }
+
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      String(from.id),
+      resolvedBy,
+      'telegram',
+      action === 'approve_similar',
+      { rejectionReason, modifiedCommand }
+    );
+
+    if (vote.outcome === 'error') {
+      await notify('❌ Failed to update request');
       return new Response('Failed to update request', { status: 500 });
     }
 
-    if (!data || data.length === 0) {
-      await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ Request not found or already resolved');
+    if (vote.outcome === 'unavailable') {
+      await notify('⚠️ Edit & approve is not available for requests that need multiple approvals');
       return new Response('OK', { status: 200 });
     }
 
-    const emoji = status === 'approved' ? '✅' : '❌';
-    const actionText = status === 'approved' ? 'Approved' : 'Rejected';
-    await answerCallbackQuery(botToken, callbackQuery.id, \`\${emoji} \${actionText}\`);
+    if (vote.outcome === 'conflict') {
+      await notify('⚠️ Request not found or already resolved');
+      await removeStaleKeyboard();
+      return new Response('OK', { status: 200 });
+    }
+
+    if (vote.outcome === 'duplicate') {
+      await notify(\`⚠️ Already approved (\${vote.approvals}/\${vote.required} approvals)\`);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 정족수 미달: 버튼을 유지하고 진행 상황만 표시
+    if (vote.outcome === 'pending') {
+      await notify(\`☑️ Approval recorded (\${vote.approvals}/\${vote.required})\`);
+      if (callbackQuery?.message) {
+        await sendReply(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id, \`☑️ Approved by @\${resolvedBy} (\${vote.approvals}/\${vote.required} approvals)\`);
+      }
+      return new Response('OK', { status: 200 });
+    }
 
-    if (callbackQuery.message) {
-      await editMessageReplyMarkup(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id, \`\\n\\n\${emoji} *\${actionText}* by @\${resolvedBy}\`);
+    const emoji = status === 'approved' ? (vote.modifiedCommand ? '✏️' : '✅') : '❌';
+    const actionText = status === 'approved' ? (vote.modifiedCommand ? 'Approved with changes' : 'Approved') : 'Rejected';
+    await notify(\`\${emoji} \${actionText}\`);
+
+    const reasonSuffix = rejectionReason
+      ? \`: \${rejectionReason}\`
+      : vote.modifiedCommand
+        ? \`\\n\${vote.modifiedCommand}\`
+        : '';
+    const resultText = \`\\n\\n\${emoji} *\${actionText}* by @\${vote.resolvedBy}\${grantSuffix(vote.grantedMinutes)}\${reasonSuffix}\`;
+    if (callbackQuery?.message) {
+      await editMessageReplyMarkup(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id, resultText);
+    } else if (promptReply) {
+      // 답장으로 처리된 경우: hook이 저장한 원본 메시지(chat_id:message_id)의 버튼 제거
+      const [chatId, messageId] = requestData.message_refs?.telegram?.split(':') ?? [];
+      if (chatId && messageId) {
+        await removeInlineKeyboard(botToken, chatId, Number(messageId));
+      }
     }
 
     return new Response('OK', { status: 200 });
@@ -652,27 +1399,55 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-async function answerCallbackQuery(botToken: string, callbackQueryId: string, text: string): Promise<void> {
+async function answerCallbackQuery(botToken: string, callbackQueryId: string, text: string, showAlert = false): Promise<void> {
   await fetch(\`https://api.telegram.org/bot\${botToken}/answerCallbackQuery\`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ callback_query_id: callbackQueryId, text, show_alert: false }),
+    body: JSON.stringify({ callback_query_id: callbackQueryId, text, show_alert: showAlert }),
   });
 }
 
 async function editMessageReplyMarkup(botToken: string, chatId: number, messageId: number, appendText: string): Promise<void> {
+  await removeInlineKeyboard(botToken, chatId, messageId);
+  await sendReply(botToken, chatId, messageId, appendText);
+}
+
+async function removeInlineKeyboard(botToken: string, chatId: number | string, messageId: number): Promise<void> {
   await fetch(\`https://api.telegram.org/bot\${botToken}/editMessageReplyMarkup\`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ chat_id: chatId, message_id: messageId, reply_markup: { inline_keyboard: [] } }),
   });
+}
+
+// 답장 입력창을 바로 열어주는 프롬프트 (MarkdownV2 없이 전송하여 요청 ID를 그대로 유지)
+async function sendForceReply(
+  botToken: string,
+  chatId: number,
+  messageId: number,
+  text: string,
+  placeholder: string
+): Promise<void> {
+  await fetch(\`https://api.telegram.org/bot\${botToken}/sendMessage\`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      chat_id: chatId,
+      reply_to_message_id: messageId,
+      text,
+      reply_markup: { force_reply: true, input_field_placeholder: placeholder },
+    }),
+  });
+}
+
+async function sendReply(botToken: string, chatId: number, messageId: number, text: string): Promise<void> {
   await fetch(\`https://api.telegram.org/bot\${botToken}/sendMessage\`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       chat_id: chatId,
       reply_to_message_id: messageId,
-      text: appendText.replace(/[_*\\[\\]()~\`>#+\\-=|{}.!\\\\]/g, '\\\\$&'),
+      text: text.replace(/[_*\\[\\]()~\`>#+\\-=|{}.!\\\\]/g, '\\\\$&'),
       parse_mode: 'MarkdownV2',
     }),
   });
@@ -685,180 +1460,941 @@ export const WHATSAPP_EDGE_FUNCTION_CODE = `// Supabase Edge Function for WhatsA
 //
 // Required environment variables:
 // - TWILIO_AUTH_TOKEN: Your Twilio auth token for signature verification
+// - WHATSAPP_ALLOWED_APPROVERS (optional): Comma-separated phone numbers allowed to approve (e.g. +821012345678)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
 // - SUPABASE_URL: Auto-provided by Supabase
 // - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
 
 // npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
 import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
 
-// Timing-safe string comparison to prevent timing attacks
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    return false;
-  }
-  let result = 0;
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  }
-  return result === 0;
-}
+${TIMING_SAFE_EQUAL_HELPER}
 
-// UUID v4 형식 검증
-const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-function isValidUUID(id: string): boolean {
-  return UUID_V4_REGEX.test(id);
-}
+${UUID_HELPER}
 
-/**
- * 서명된 machine_id 검증
- * 형식: machineId:timestamp:signature (secret 설정 시)
- * 또는 machineId (secret 미설정 시 기존 방식)
- */
-async function verifySignedMachineId(
-  signedId: string | null,
-  maxAgeSeconds = 600
-): Promise<{ valid: boolean; machineId: string | null }> {
-  if (!signedId) return { valid: false, machineId: null };
+${SIGNED_MACHINE_ID_HELPER}
 
-  const secret = Deno.env.get('MACHINE_ID_SECRET');
-  if (!secret) {
-    // secret 미설정 시 기존 방식 (32자 hex 검증만)
-    const isValidFormat = /^[a-f0-9]{32}$/i.test(signedId);
-    return { valid: isValidFormat, machineId: isValidFormat ? signedId : null };
-  }
+${DECISION_CORE_HELPER}
 
-  const parts = signedId.split(':');
-  if (parts.length !== 3) return { valid: false, machineId: null };
+${APPROVER_ALLOWLIST_HELPER}
 
-  const [machineId, timestampStr, signature] = parts;
-  const timestamp = parseInt(timestampStr, 10);
+${APPROVAL_SIGNATURE_HELPER}
 
-  // 만료 확인
-  const now = Math.floor(Date.now() / 1000);
-  if (now - timestamp > maxAgeSeconds) {
-    return { valid: false, machineId: null };
-  }
+${PAYLOAD_ENCRYPTION_HELPER}
+
+${APPROVAL_GRANT_HELPER}
+
+${APPROVAL_VOTE_HELPER}
+
+${RATE_LIMIT_HELPER}
+
+// Verify Twilio request signature
+async function verifyTwilioSignature(
+  authToken: string,
+  signature: string,
+  url: string,
+  params: Record<string, string>
+): Promise<boolean> {
+  // Sort parameters and create string
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map(key => \`\${key}\${params[key]}\`)
+    .join('');
+
+  const data = url + sortedParams;
 
-  // 서명 검증
-  const payload = \`\${machineId}:\${timestampStr}\`;
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
+    encoder.encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
     false,
     ['sign']
   );
-  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
-  const expected = Array.from(new Uint8Array(sig))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-    .substring(0, 16);
 
-  // 서명 일치 확인
-  if (signature !== expected) {
-    return { valid: false, machineId: null };
-  }
+  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  const computedSignature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)));
 
-  return { valid: true, machineId };
+  // Timing-safe comparison
+  return timingSafeEqual(signature, computedSignature);
 }
 
-// 타임스탬프 검증: 1시간(3600초) 이내 요청만 허용
-const MAX_REQUEST_AGE_SECONDS = 3600;
-function isRequestExpired(createdAt: string): boolean {
-  const createdTime = new Date(createdAt).getTime();
-  const now = Date.now();
-  return (now - createdTime) / 1000 > MAX_REQUEST_AGE_SECONDS;
-}
+Deno.serve(async (req: Request) => {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
 
-// 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
-function getClientIP(req: Request): string {
-  // cf-connecting-ip: Cloudflare가 제공하는 실제 클라이언트 IP
-  // x-real-ip: 일부 프록시/로드밸런서가 제공
-  // x-forwarded-for: 마지막 값이 실제 클라이언트 IP (첫 번째는 스푸핑 가능)
-  return req.headers.get('cf-connecting-ip')
-    || req.headers.get('x-real-ip')
-    || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
-    || 'unknown';
-}
+  try {
+    // Initialize Supabase client first for rate limiting
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-// Supabase 테이블 기반 Rate Limiter (서버리스 환경에서 분산 제한)
-async function checkRateLimit(supabase: SupabaseClient, identifier: string): Promise<boolean> {
-  const windowMs = 60 * 1000; // 1분
-  const maxRequests = 30;
-  const now = Date.now();
-  const windowStart = now - windowMs;
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return twimlResponse('Server configuration error.');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Rate limiting 체크 (Supabase 테이블 기반)
+    const clientIP = getClientIP(req);
+    if (!(await checkRateLimit(supabase, clientIP))) {
+      return new Response(JSON.stringify({ error: 'Too many requests' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    if (!authToken) {
+      console.error('Missing TWILIO_AUTH_TOKEN environment variable');
+      return new Response('Server configuration error', { status: 500 });
+    }
+
+    // Parse form data
+    const formData = await req.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      params[key] = value.toString();
+    });
+
+    // Verify Twilio signature (required for security)
+    const twilioSignature = req.headers.get('X-Twilio-Signature');
+    if (!twilioSignature) {
+      console.error('Missing Twilio signature header');
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const isValid = await verifyTwilioSignature(
+      authToken,
+      twilioSignature,
+      req.url,
+      params
+    );
+    if (!isValid) {
+      console.error('Invalid Twilio signature');
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    // Get message body
+    // quick-reply 버튼 탭은 ButtonPayload "approve:<requestId>" / "reject:<requestId>"로 전달됨
+    const buttonPayload = params['ButtonPayload']?.trim().match(/^(approve|reject):([a-f0-9-]+)$/i);
+    const body = buttonPayload ? \`\${buttonPayload[1]} \${buttonPayload[2]}\` : params['Body']?.trim();
+    const from = params['From'];
+
+    if (!body) {
+      return twimlResponse('No message body received.');
+    }
+
+    // Parse command: "APPROVE <requestId>", "APPROVE SIMILAR <requestId>", "REJECT|NO <requestId> [reason]"
+    // or "EDIT <requestId> <command>" (수정된 명령어로 승인, hook이 updatedInput으로 전달)
+    const match = body.match(/^(APPROVE(?:\\s+SIMILAR)?|REJECT|NO|EDIT)\\s+([a-f0-9-]+)(?:\\s+([\\s\\S]+))?$/i);
+    const isEdit = match?.[1].toUpperCase() === 'EDIT';
+
+    if (!match || (match[3] && match[1].toUpperCase().startsWith('APPROVE')) || (isEdit && !match[3])) {
+      return twimlResponse(
+        'Invalid format. Use:\\nAPPROVE <request-id>\\nor\\nREJECT <request-id> [reason]\\nor\\nEDIT <request-id> <command>'
+      );
+    }
+
+    const [, action, requestId, text] = match;
+    const rejectionReason = isEdit ? undefined : normalizeRejectionReason(text);
+    const modifiedCommand = isEdit ? normalizeModifiedCommand(text) : undefined;
+
+    // UUID 형식 검증
+    if (!isValidUUID(requestId)) {
+      return twimlResponse('Invalid request ID format.');
+    }
+
+    if (isEdit && !modifiedCommand) {
+      return twimlResponse(\`Command is too long (max \${MAX_MODIFIED_COMMAND_LENGTH} characters).\`);
+    }
+
+    const status = isEdit || action.toUpperCase().startsWith('APPROVE') ? 'approved' : 'rejected';
+
+    // Extract phone number for resolved_by
+    const resolvedBy = from?.replace('whatsapp:', '') || 'unknown';
+
+    // 승인자 allowlist 검증 (발신 번호 기준)
+    if (!isApproverAllowed('WHATSAPP_ALLOWED_APPROVERS', resolvedBy)) {
+      console.error('Approver not in allowlist:', resolvedBy);
+      return twimlResponse('🚫 You are not authorized to approve or reject this request.');
+    }
+
+    // 타임스탬프 검증: 요청의 created_at 조회
+    const { data: requestData, error: fetchError } = await supabase
+      .from('approval_requests')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes')
+      .eq('id', requestId)
+      .single();
+
+    if (fetchError || !requestData) {
+      return twimlResponse('Request not found.');
+    }
+
+    if (requestData.status !== 'pending') {
+      return twimlResponse('Request already resolved.');
+    }
+
+    // 1시간 이내 요청만 허용
+    if (isRequestExpired(requestData.created_at)) {
+      return twimlResponse('⏰ Request expired (over 1 hour old).');
+    }
+
+    // machine_id 서명 검증
+    const machineIdSecret = Deno.env.get('MACHINE_ID_SECRET');
+    if (machineIdSecret && requestData.machine_id) {
+      const verification = await verifySignedMachineId(requestData.machine_id);
+      if (!verification.valid) {
+        console.error('Invalid machine_id signature:', requestId);
+        return new Response(
+          '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Invalid request signature</Message></Response>',
+          { status: 403, headers: { 'Content-Type': 'text/xml' } }
+        );
+      }
+    }
+
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      resolvedBy,
+      resolvedBy,
+      'whatsapp',
+      /SIMILAR$/i.test(action),
+      { rejectionReason, modifiedCommand }
+    );
+
+    if (vote.outcome === 'error') {
+      return twimlResponse('Failed to update request. Please try again.');
+    }
+
+    if (vote.outcome === 'unavailable') {
+      return twimlResponse('EDIT is not available for requests that need multiple approvals.');
+    }
+
+    if (vote.outcome === 'conflict') {
+      return twimlResponse('Request not found or already resolved.');
+    }
+
+    if (vote.outcome === 'duplicate') {
+      return twimlResponse(\`You already approved this request (\${vote.approvals}/\${vote.required} approvals).\`);
+    }
+
+    if (vote.outcome === 'pending') {
+      return twimlResponse(
+        \`☑️ Approval recorded (\${vote.approvals}/\${vote.required} approvals). Waiting for more approvers.\`
+      );
+    }
+
+    // Send success response
+    if (vote.modifiedCommand) {
+      return twimlResponse(\`✏️ Request \${requestId.substring(0, 8)}... has been approved with changes.\`);
+    }
+    const emoji = status === 'approved' ? '✅' : '❌';
+    const actionText = status === 'approved' ? 'approved' : 'rejected';
+    const reasonSuffix = rejectionReason ? \` Reason: \${rejectionReason}\` : '';
+    return twimlResponse(
+      \`\${emoji} Request \${requestId.substring(0, 8)}... has been \${actionText}.\${grantSuffix(vote.grantedMinutes)}\${reasonSuffix}\`
+    );
+
+  } catch (error) {
+    console.error('Error processing request:', error);
+    return twimlResponse('Internal server error.');
+  }
+});
+
+function twimlResponse(message: string): Response {
+  const twiml = \`<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Message>\${escapeXml(message)}</Message>
+</Response>\`;
+
+  return new Response(twiml, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/xml',
+    },
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+`;
+
+// Discord Edge Function Code
+export const DISCORD_EDGE_FUNCTION_CODE = `// Supabase Edge Function for Discord Interactions
+// Deploy: supabase functions deploy discord-callback
+//
+// Required environment variables:
+// - DISCORD_PUBLIC_KEY: Your Discord application's public key (Developer Portal > General Information)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
+
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+${UUID_HELPER}
+
+${SIGNED_MACHINE_ID_HELPER}
+
+${DECISION_CORE_HELPER}
+
+${APPROVAL_SIGNATURE_HELPER}
+
+${PAYLOAD_ENCRYPTION_HELPER}
+
+${APPROVAL_GRANT_HELPER}
+
+${APPROVAL_VOTE_HELPER}
+
+${RATE_LIMIT_HELPER}
+
+// Discord interaction / response 타입
+const INTERACTION_PING = 1;
+const INTERACTION_MESSAGE_COMPONENT = 3;
+const RESPONSE_PONG = 1;
+const RESPONSE_CHANNEL_MESSAGE = 4;
+const RESPONSE_UPDATE_MESSAGE = 7;
+const MESSAGE_FLAG_EPHEMERAL = 64;
+
+interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+}
+
+interface DiscordInteraction {
+  type: number;
+  data?: { custom_id?: string };
+  member?: { user: DiscordUser };
+  user?: DiscordUser;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Ed25519 signature verification for Discord interactions
+async function verifyDiscordSignature(
+  publicKey: string,
+  signature: string | null,
+  timestamp: string | null,
+  body: string
+): Promise<boolean> {
+  if (!signature || !timestamp || !/^[a-f0-9]{128}$/i.test(signature)) {
+    return false;
+  }
+
+  // Replay attack 방지: 5분 이상 지난 요청 거부
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - parseInt(timestamp, 10)) > 300) {
+    return false;
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      hexToBytes(publicKey),
+      { name: 'Ed25519' },
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      hexToBytes(signature),
+      new TextEncoder().encode(timestamp + body)
+    );
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// 버튼을 누른 사용자에게만 보이는 메시지
+function ephemeralResponse(content: string): Response {
+  return jsonResponse({
+    type: RESPONSE_CHANNEL_MESSAGE,
+    data: { content, flags: MESSAGE_FLAG_EPHEMERAL },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    // Initialize Supabase client first for rate limiting
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return new Response('Server configuration error', { status: 500 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Rate limiting 체크 (Supabase 테이블 기반)
+    const clientIP = getClientIP(req);
+    if (!(await checkRateLimit(supabase, clientIP))) {
+      return new Response(JSON.stringify({ error: 'Too many requests' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const publicKey = Deno.env.get('DISCORD_PUBLIC_KEY');
+    if (!publicKey || !/^[a-f0-9]{64}$/i.test(publicKey)) {
+      console.error('Missing or invalid DISCORD_PUBLIC_KEY environment variable');
+      return new Response('Server configuration error', { status: 500 });
+    }
+
+    // Discord는 Interactions Endpoint 등록 시 잘못된 서명으로도 요청하여 401 응답을 확인함
+    const body = await req.text();
+    const signature = req.headers.get('X-Signature-Ed25519');
+    const timestamp = req.headers.get('X-Signature-Timestamp');
+    if (!(await verifyDiscordSignature(publicKey, signature, timestamp, body))) {
+      console.error('Invalid Discord signature');
+      return new Response('Invalid request signature', { status: 401 });
+    }
+
+    const interaction: DiscordInteraction = JSON.parse(body);
+
+    if (interaction.type === INTERACTION_PING) {
+      return jsonResponse({ type: RESPONSE_PONG });
+    }
+
+    if (interaction.type !== INTERACTION_MESSAGE_COMPONENT) {
+      return new Response('Unsupported interaction type', { status: 400 });
+    }
+
+    const customId = interaction.data?.custom_id;
+    if (!customId) {
+      return new Response('No custom_id', { status: 400 });
+    }
+
+    const [action, requestId] = customId.split(':');
+    if (!action || !requestId || !['approve', 'approve_similar', 'reject'].includes(action)) {
+      return new Response('Invalid custom_id format', { status: 400 });
+    }
+
+    // UUID 형식 검증
+    if (!isValidUUID(requestId)) {
+      console.error('Invalid request ID format:', requestId);
+      return new Response('Invalid request ID format', { status: 400 });
+    }
+
+    // 서버 채널에서는 member.user, DM에서는 user
+    const user = interaction.member?.user || interaction.user;
+    if (!user) {
+      return new Response('Missing user', { status: 400 });
+    }
+
+    const status = action === 'reject' ? 'rejected' : 'approved';
+    const resolvedBy = user.username || user.global_name || user.id;
+
+    // 타임스탬프 검증: 요청의 created_at 조회
+    const { data: requestData, error: fetchError } = await supabase
+      .from('approval_requests')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes')
+      .eq('id', requestId)
+      .single();
+
+    if (fetchError || !requestData) {
+      console.error('Request not found:', requestId);
+      return ephemeralResponse('⚠️ Request not found');
+    }
+
+    if (requestData.status !== 'pending') {
+      return ephemeralResponse('⚠️ Request already resolved');
+    }
+
+    // 1시간 이내 요청만 허용
+    if (isRequestExpired(requestData.created_at)) {
+      console.error('Request expired:', requestId);
+      return ephemeralResponse('⏰ Request expired (>1 hour)');
+    }
+
+    // machine_id 서명 검증
+    const machineIdSecret = Deno.env.get('MACHINE_ID_SECRET');
+    if (machineIdSecret && requestData.machine_id) {
+      const verification = await verifySignedMachineId(requestData.machine_id);
+      if (!verification.valid) {
+        console.error('Invalid machine_id signature:', requestId);
+        return ephemeralResponse('⚠️ 유효하지 않은 요청입니다');
+      }
+    }
+
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      user.id,
+      resolvedBy,
+      'discord',
+      action === 'approve_similar'
+    );
+
+    if (vote.outcome === 'error') {
+      return ephemeralResponse('❌ Failed to update request');
+    }
+
+    if (vote.outcome === 'conflict') {
+      return ephemeralResponse('⚠️ Request not found or already resolved');
+    }
+
+    if (vote.outcome === 'duplicate') {
+      return ephemeralResponse(\`⚠️ Already approved (\${vote.approvals}/\${vote.required} approvals)\`);
+    }
+
+    // 정족수 미달: 버튼을 유지하고 진행 상황을 채널에 표시
+    if (vote.outcome === 'pending') {
+      return jsonResponse({
+        type: RESPONSE_CHANNEL_MESSAGE,
+        data: {
+          content: \`☑️ Approved by @\${resolvedBy} (\${vote.approvals}/\${vote.required} approvals)\`,
+          allowed_mentions: { parse: [] },
+        },
+      });
+    }
+
+    const emoji = status === 'approved' ? '✅' : '❌';
+    const actionText = status === 'approved' ? 'Approved' : 'Rejected';
+
+    // 원본 메시지의 버튼을 제거하고 처리 결과 표시
+    return jsonResponse({
+      type: RESPONSE_UPDATE_MESSAGE,
+      data: {
+        content: \`\${emoji} **\${actionText}** by @\${vote.resolvedBy}\${grantSuffix(vote.grantedMinutes)}\`,
+        components: [],
+        allowed_mentions: { parse: [] },
+      },
+    });
+  } catch (error) {
+    console.error('Error processing request:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+});
+`;
+
+// Microsoft Teams Edge Function Code
+export const TEAMS_EDGE_FUNCTION_CODE = `// Supabase Edge Function for Microsoft Teams (Bot Framework) Callbacks
+// Deploy: supabase functions deploy teams-callback
+//
+// Required environment variables:
+// - TEAMS_APP_ID: Your Azure Bot's Microsoft App ID (JWT audience)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
+
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+${UUID_HELPER}
+
+${SIGNED_MACHINE_ID_HELPER}
+
+${DECISION_CORE_HELPER}
+
+${APPROVAL_SIGNATURE_HELPER}
+
+${PAYLOAD_ENCRYPTION_HELPER}
+
+${APPROVAL_GRANT_HELPER}
+
+${APPROVAL_VOTE_HELPER}
+
+${RATE_LIMIT_HELPER}
+
+// Bot Framework → Bot 요청 토큰 발급자
+const BOT_FRAMEWORK_OPENID_CONFIG = 'https://login.botframework.com/v1/.well-known/openidconfiguration';
+const BOT_FRAMEWORK_ISSUER = 'https://api.botframework.com';
+const CLOCK_SKEW_SECONDS = 300;
+
+interface JsonWebKeyWithKid extends JsonWebKey {
+  kid?: string;
+}
+
+interface TeamsActivity {
+  type: string;
+  name?: string;
+  serviceUrl?: string;
+  from?: { id: string; name?: string; aadObjectId?: string };
+  value?: {
+    action?: {
+      type?: string;
+      verb?: string;
+      data?: { requestId?: string };
+    };
+  };
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// OpenID metadata → JWKS 조회 (인스턴스 재사용 시 캐시)
+let cachedKeys: { keys: JsonWebKeyWithKid[]; fetchedAt: number } | null = null;
+async function getSigningKeys(): Promise<JsonWebKeyWithKid[]> {
+  if (cachedKeys && Date.now() - cachedKeys.fetchedAt < 60 * 60 * 1000) {
+    return cachedKeys.keys;
+  }
+  const config = await (await fetch(BOT_FRAMEWORK_OPENID_CONFIG)).json();
+  const jwks = await (await fetch(config.jwks_uri)).json();
+  cachedKeys = { keys: jwks.keys || [], fetchedAt: Date.now() };
+  return cachedKeys.keys;
+}
+
+/**
+ * Bot Framework JWT 검증
+ * - RS256 서명 (Bot Framework JWKS)
+ * - iss: https://api.botframework.com
+ * - aud: TEAMS_APP_ID
+ * - exp/nbf (5분 clock skew 허용)
+ * - serviceUrl claim이 activity.serviceUrl과 일치
+ */
+async function verifyBotFrameworkToken(
+  authHeader: string | null,
+  appId: string,
+  serviceUrl: string | undefined
+): Promise<boolean> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const parts = authHeader.slice('Bearer '.length).split('.');
+  if (parts.length !== 3) {
+    return false;
+  }
+
+  try {
+    const decoder = new TextDecoder();
+    const header = JSON.parse(decoder.decode(base64UrlDecode(parts[0])));
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(parts[1])));
+
+    if (header.alg !== 'RS256' || !header.kid) {
+      return false;
+    }
+
+    const jwk = (await getSigningKeys()).find(k => k.kid === header.kid);
+    if (!jwk) {
+      console.error('Unknown signing key:', header.kid);
+      return false;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: jwk.kty, n: jwk.n, e: jwk.e },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      base64UrlDecode(parts[2]),
+      new TextEncoder().encode(\`\${parts[0]}.\${parts[1]}\`)
+    );
+    if (!valid) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.iss !== BOT_FRAMEWORK_ISSUER || payload.aud !== appId) {
+      return false;
+    }
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+      return false;
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+      return false;
+    }
+    if (payload.serviceurl && payload.serviceurl !== serviceUrl) {
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Token verification error:', error);
+    return false;
+  }
+}
+
+// Action.Execute 응답: 카드를 교체하여 버튼 제거
+function invokeCardResponse(text: string, color = 'Default'): Response {
+  return new Response(
+    JSON.stringify({
+      statusCode: 200,
+      type: 'application/vnd.microsoft.card.adaptive',
+      value: {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body: [{ type: 'TextBlock', text, color, weight: 'Bolder', wrap: true }],
+      },
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+// Action.Execute 응답: 카드는 유지하고 메시지만 표시
+function invokeMessageResponse(text: string): Response {
+  return new Response(
+    JSON.stringify({
+      statusCode: 200,
+      type: 'application/vnd.microsoft.activity.message',
+      value: text,
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    // Initialize Supabase client first for rate limiting
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return new Response('Server configuration error', { status: 500 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Rate limiting 체크 (Supabase 테이블 기반)
+    const clientIP = getClientIP(req);
+    if (!(await checkRateLimit(supabase, clientIP))) {
+      return new Response(JSON.stringify({ error: 'Too many requests' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const appId = Deno.env.get('TEAMS_APP_ID');
+    if (!appId) {
+      console.error('Missing TEAMS_APP_ID environment variable');
+      return new Response('Server configuration error', { status: 500 });
+    }
+
+    const activity: TeamsActivity = await req.json();
+
+    if (!(await verifyBotFrameworkToken(req.headers.get('Authorization'), appId, activity.serviceUrl))) {
+      console.error('Invalid Bot Framework token');
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    // Universal Actions(Action.Execute) 외의 activity는 무시
+    if (activity.type !== 'invoke' || activity.name !== 'adaptiveCard/action') {
+      return new Response('OK', { status: 200 });
+    }
+
+    const action = activity.value?.action;
+    const verb = action?.verb;
+    const requestId = action?.data?.requestId;
+    if (action?.type !== 'Action.Execute' || !['approve', 'approve_similar', 'reject'].includes(verb ?? '') || !requestId) {
+      return new Response('Invalid action format', { status: 400 });
+    }
+
+    // UUID 형식 검증
+    if (!isValidUUID(requestId)) {
+      console.error('Invalid request ID format:', requestId);
+      return new Response('Invalid request ID format', { status: 400 });
+    }
+
+    const status = verb === 'reject' ? 'rejected' : 'approved';
+    const resolvedBy = activity.from?.name || activity.from?.aadObjectId || activity.from?.id || 'unknown';
+
+    // 타임스탬프 검증: 요청의 created_at 조회
+    const { data: requestData, error: fetchError } = await supabase
+      .from('approval_requests')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes')
+      .eq('id', requestId)
+      .single();
+
+    if (fetchError || !requestData) {
+      console.error('Request not found:', requestId);
+      return invokeMessageResponse('⚠️ Request not found');
+    }
+
+    if (requestData.status !== 'pending') {
+      return invokeMessageResponse('⚠️ Request already resolved');
+    }
 
-  // 현재 윈도우 내 요청 수 조회
-  const { count, error } = await supabase
-    .from('rate_limits')
-    .select('*', { count: 'exact', head: true })
-    .eq('identifier', identifier)
-    .gte('created_at', new Date(windowStart).toISOString());
+    // 1시간 이내 요청만 허용
+    if (isRequestExpired(requestData.created_at)) {
+      console.error('Request expired:', requestId);
+      return invokeCardResponse('⏰ Request expired (>1 hour)', 'Warning');
+    }
 
-  if (error) {
-    console.error('Rate limit check failed:', error);
-    return true; // 에러 시 허용 (서비스 가용성 우선)
-  }
+    // machine_id 서명 검증
+    const machineIdSecret = Deno.env.get('MACHINE_ID_SECRET');
+    if (machineIdSecret && requestData.machine_id) {
+      const verification = await verifySignedMachineId(requestData.machine_id);
+      if (!verification.valid) {
+        console.error('Invalid machine_id signature:', requestId);
+        return invokeMessageResponse('⚠️ 유효하지 않은 요청입니다');
+      }
+    }
 
-  if ((count || 0) >= maxRequests) {
-    return false;
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const approverId = activity.from?.aadObjectId || activity.from?.id || resolvedBy;
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      approverId,
+      resolvedBy,
+      'teams',
+      verb === 'approve_similar'
+    );
+
+    if (vote.outcome === 'error') {
+      return invokeMessageResponse('❌ Failed to update request');
+    }
+
+    if (vote.outcome === 'conflict') {
+      return invokeMessageResponse('⚠️ Request not found or already resolved');
+    }
+
+    if (vote.outcome === 'duplicate') {
+      return invokeMessageResponse(\`⚠️ Already approved (\${vote.approvals}/\${vote.required} approvals)\`);
+    }
+
+    // 정족수 미달: 카드를 유지하고 진행 상황만 표시
+    if (vote.outcome === 'pending') {
+      return invokeMessageResponse(\`☑️ Approval recorded (\${vote.approvals}/\${vote.required} approvals)\`);
+    }
+
+    const emoji = status === 'approved' ? '✅' : '❌';
+    const actionText = status === 'approved' ? 'Approved' : 'Rejected';
+    return invokeCardResponse(
+      \`\${emoji} \${actionText} by \${vote.resolvedBy}\${grantSuffix(vote.grantedMinutes)}\`,
+      status === 'approved' ? 'Good' : 'Attention'
+    );
+  } catch (error) {
+    console.error('Error processing request:', error);
+    return new Response('Internal server error', { status: 500 });
   }
+});
+`;
 
-  // 새 요청 기록
-  await supabase.from('rate_limits').insert({
-    identifier,
-    created_at: new Date().toISOString(),
-  });
+// Generic Webhook Edge Function Code
+export const WEBHOOK_EDGE_FUNCTION_CODE = `// Supabase Edge Function for Generic Signed Webhook Callbacks
+// Deploy: supabase functions deploy webhook-callback
+//
+// Callback 형식:
+//   POST <callback-url>?requestId=<uuid>&action=approve|approve_similar|reject
+//   X-Claude-Guard-Timestamp: <unix seconds>
+//   X-Claude-Guard-Signature: v1=<hex(HMAC-SHA256(secret, "v1:{timestamp}:{requestId}:{action}:{body}"))>
+//   Body (optional): {"resolvedBy": "alice"}
+//
+// Required environment variables:
+// - WEBHOOK_SIGNING_SECRET: Shared secret (same as messenger.webhook.secret)
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
 
-  return true;
-}
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
 
-// Verify Twilio request signature
-async function verifyTwilioSignature(
-  authToken: string,
-  signature: string,
-  url: string,
-  params: Record<string, string>
-): Promise<boolean> {
-  // Sort parameters and create string
-  const sortedParams = Object.keys(params)
-    .sort()
-    .map(key => \`\${key}\${params[key]}\`)
-    .join('');
+${TIMING_SAFE_EQUAL_HELPER}
 
-  const data = url + sortedParams;
+${UUID_HELPER}
+
+${SIGNED_MACHINE_ID_HELPER}
+
+${DECISION_CORE_HELPER}
+
+${APPROVAL_SIGNATURE_HELPER}
 
+${PAYLOAD_ENCRYPTION_HELPER}
+
+${APPROVAL_GRANT_HELPER}
+
+${APPROVAL_VOTE_HELPER}
+
+${RATE_LIMIT_HELPER}
+
+const MAX_RESOLVED_BY_LENGTH = 100;
+
+// HMAC-SHA256 signature verification for callback requests
+async function verifyCallbackSignature(
+  secret: string,
+  timestamp: string,
+  requestId: string,
+  action: string,
+  body: string,
+  signature: string
+): Promise<boolean> {
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(authToken),
-    { name: 'HMAC', hash: 'SHA-1' },
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
     false,
     ['sign']
   );
 
-  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
-  const computedSignature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)));
+  const baseString = \`v1:\${timestamp}:\${requestId}:\${action}:\${body}\`;
+  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(baseString));
+  const computedSignature = 'v1=' + Array.from(new Uint8Array(signatureBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
 
-  // Timing-safe comparison
-  return timingSafeEqual(signature, computedSignature);
+  return timingSafeEqual(computedSignature, signature);
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
 }
 
 Deno.serve(async (req: Request) => {
-  // Only allow POST
   if (req.method !== 'POST') {
-    return new Response('Method not allowed', { status: 405 });
+    return jsonResponse({ ok: false, error: 'Method not allowed' }, 405);
   }
 
   try {
     // Initialize Supabase client first for rate limiting
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-
     if (!supabaseUrl || !supabaseServiceKey) {
       console.error('Missing Supabase environment variables');
-      return twimlResponse('Server configuration error.');
+      return jsonResponse({ ok: false, error: 'Server configuration error' }, 500);
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -866,90 +2402,84 @@ Deno.serve(async (req: Request) => {
     // Rate limiting 체크 (Supabase 테이블 기반)
     const clientIP = getClientIP(req);
     if (!(await checkRateLimit(supabase, clientIP))) {
-      return new Response(JSON.stringify({ error: 'Too many requests' }), {
-        status: 429,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return jsonResponse({ ok: false, error: 'Too many requests' }, 429);
     }
 
-    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
-    if (!authToken) {
-      console.error('Missing TWILIO_AUTH_TOKEN environment variable');
-      return new Response('Server configuration error', { status: 500 });
+    const signingSecret = Deno.env.get('WEBHOOK_SIGNING_SECRET');
+    if (!signingSecret) {
+      console.error('Missing WEBHOOK_SIGNING_SECRET environment variable');
+      return jsonResponse({ ok: false, error: 'Server configuration error' }, 500);
     }
 
-    // Parse form data
-    const formData = await req.formData();
-    const params: Record<string, string> = {};
-    formData.forEach((value, key) => {
-      params[key] = value.toString();
-    });
-
-    // Verify Twilio signature (required for security)
-    const twilioSignature = req.headers.get('X-Twilio-Signature');
-    if (!twilioSignature) {
-      console.error('Missing Twilio signature header');
-      return new Response('Unauthorized', { status: 401 });
+    const url = new URL(req.url);
+    const requestId = url.searchParams.get('requestId');
+    const action = url.searchParams.get('action');
+    if (!requestId || !action || !['approve', 'approve_similar', 'reject'].includes(action)) {
+      return jsonResponse({ ok: false, error: 'Invalid requestId or action' }, 400);
     }
 
-    const isValid = await verifyTwilioSignature(
-      authToken,
-      twilioSignature,
-      req.url,
-      params
-    );
-    if (!isValid) {
-      console.error('Invalid Twilio signature');
-      return new Response('Unauthorized', { status: 401 });
+    // UUID 형식 검증
+    if (!isValidUUID(requestId)) {
+      console.error('Invalid request ID format:', requestId);
+      return jsonResponse({ ok: false, error: 'Invalid request ID format' }, 400);
     }
 
-    // Get message body
-    const body = params['Body']?.trim();
-    const from = params['From'];
-
-    if (!body) {
-      return twimlResponse('No message body received.');
+    const signature = req.headers.get('X-Claude-Guard-Signature');
+    const timestamp = req.headers.get('X-Claude-Guard-Timestamp');
+    if (!signature || !timestamp) {
+      console.error('Missing signature headers');
+      return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
     }
 
-    // Parse command: "APPROVE <requestId>" or "REJECT <requestId>"
-    const match = body.match(/^(APPROVE|REJECT)\\s+([a-f0-9-]+)$/i);
-
-    if (!match) {
-      return twimlResponse(
-        'Invalid format. Use:\\nAPPROVE <request-id>\\nor\\nREJECT <request-id>'
-      );
+    // Check timestamp to prevent replay attacks (5 minute window)
+    const currentTime = Math.floor(Date.now() / 1000);
+    const requestTime = parseInt(timestamp, 10);
+    if (!Number.isFinite(requestTime) || Math.abs(currentTime - requestTime) > 300) {
+      console.error('Request timestamp too old');
+      return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
     }
 
-    const [, action, requestId] = match;
-
-    // UUID 형식 검증
-    if (!isValidUUID(requestId)) {
-      return twimlResponse('Invalid request ID format.');
+    const bodyText = await req.text();
+    const isValid = await verifyCallbackSignature(signingSecret, timestamp, requestId, action, bodyText, signature);
+    if (!isValid) {
+      console.error('Invalid callback signature');
+      return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
     }
 
-    const status = action.toUpperCase() === 'APPROVE' ? 'approved' : 'rejected';
+    let resolvedBy = 'webhook';
+    if (bodyText) {
+      try {
+        const parsed = JSON.parse(bodyText);
+        if (typeof parsed?.resolvedBy === 'string' && parsed.resolvedBy.trim()) {
+          resolvedBy = parsed.resolvedBy.trim().slice(0, MAX_RESOLVED_BY_LENGTH);
+        }
+      } catch {
+        return jsonResponse({ ok: false, error: 'Invalid JSON body' }, 400);
+      }
+    }
 
-    // Extract phone number for resolved_by
-    const resolvedBy = from?.replace('whatsapp:', '') || 'unknown';
+    const status = action === 'reject' ? 'rejected' : 'approved';
 
     // 타임스탬프 검증: 요청의 created_at 조회
     const { data: requestData, error: fetchError } = await supabase
       .from('approval_requests')
-      .select('id, created_at, status, machine_id')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes')
       .eq('id', requestId)
       .single();
 
     if (fetchError || !requestData) {
-      return twimlResponse('Request not found.');
+      console.error('Request not found:', requestId);
+      return jsonResponse({ ok: false, error: 'Request not found' }, 404);
     }
 
     if (requestData.status !== 'pending') {
-      return twimlResponse('Request already resolved.');
+      return jsonResponse({ ok: false, error: 'Request already resolved', status: requestData.status }, 409);
     }
 
     // 1시간 이내 요청만 허용
     if (isRequestExpired(requestData.created_at)) {
-      return twimlResponse('⏰ Request expired (over 1 hour old).');
+      console.error('Request expired:', requestId);
+      return jsonResponse({ ok: false, error: 'Request expired' }, 410);
     }
 
     // machine_id 서명 검증
@@ -958,67 +2488,225 @@ Deno.serve(async (req: Request) => {
       const verification = await verifySignedMachineId(requestData.machine_id);
       if (!verification.valid) {
         console.error('Invalid machine_id signature:', requestId);
-        return new Response(
-          '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Invalid request signature</Message></Response>',
-          { status: 403, headers: { 'Content-Type': 'text/xml' } }
-        );
+        return jsonResponse({ ok: false, error: 'Invalid machine signature' }, 403);
       }
     }
 
-    // Update the approval request
-    const { data, error } = await supabase
-      .from('approval_requests')
-      .update({
-        status,
-        resolved_at: new Date().toISOString(),
-        resolved_by: resolvedBy,
-      })
-      .eq('id', requestId)
-      .eq('status', 'pending')
-      .select('id');
+    // resolvedBy는 서명 키를 가진 호출자가 임의로 지정하므로 다중 승인 정족수에는 사용할 수 없음 (거부는 허용)
+    if (status === 'approved' && (requestData.required_approvals ?? 1) > 1) {
+      return jsonResponse({ ok: false, error: 'Requests that require multiple approvers cannot be approved via webhook' }, 403);
+    }
 
-    if (error) {
-      console.error('Failed to update request:', error);
-      return twimlResponse('Failed to update request. Please try again.');
+    // 승인 투표 기록 (거부 시 상태 변경)
+    // 서명된 요청의 resolvedBy를 승인자 ID로 사용
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      resolvedBy,
+      resolvedBy,
+      'webhook',
+      action === 'approve_similar'
+    );
+
+    if (vote.outcome === 'error') {
+      return jsonResponse({ ok: false, error: 'Failed to update request' }, 500);
     }
 
-    if (!data || data.length === 0) {
-      return twimlResponse('Request not found or already resolved.');
+    if (vote.outcome === 'conflict') {
+      return jsonResponse({ ok: false, error: 'Request not found or already resolved' }, 409);
     }
 
-    // Send success response
-    const emoji = status === 'approved' ? '✅' : '❌';
-    const actionText = status === 'approved' ? 'approved' : 'rejected';
-    return twimlResponse(\`\${emoji} Request \${requestId.substring(0, 8)}... has been \${actionText}.\`);
+    if (vote.outcome === 'duplicate') {
+      return jsonResponse({ ok: false, error: 'Already approved by this approver', approvals: vote.approvals, requiredApprovals: vote.required }, 409);
+    }
+
+    // 정족수 미달: 요청은 pending 상태로 유지
+    if (vote.outcome === 'pending') {
+      return jsonResponse({ ok: true, requestId, status: 'pending', resolvedBy, approvals: vote.approvals, requiredApprovals: vote.required });
+    }
 
+    return jsonResponse({
+      ok: true,
+      requestId,
+      status,
+      resolvedBy: vote.resolvedBy,
+      ...(vote.grantedMinutes && { grantMinutes: vote.grantedMinutes }),
+    });
   } catch (error) {
     console.error('Error processing request:', error);
-    return twimlResponse('Internal server error.');
+    return jsonResponse({ ok: false, error: 'Internal server error' }, 500);
   }
 });
+`;
 
-function twimlResponse(message: string): Response {
-  const twiml = \`<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Message>\${escapeXml(message)}</Message>
-</Response>\`;
+// 템플릿에 삽입할 문자열 배열 리터럴 (예: 'low', 'medium')
+function toStringList(values: string[]): string {
+  return values.map((value) => `'${value}'`).join(', ');
+}
 
-  return new Response(twiml, {
-    status: 200,
-    headers: {
-      'Content-Type': 'application/xml',
-    },
+// Audit Edge Function Code
+export const AUDIT_EDGE_FUNCTION_CODE = `// Supabase Edge Function for the Approval Audit Log
+// Deploy: supabase functions deploy guard-audit
+//
+// approval_audit는 anon 키로 접근할 수 없으며, 이 함수가 x-machine-id 헤더를 검증한 뒤
+// service role로 해당 머신의 기록만 추가/조회합니다 (serve의 /api/audit과 같은 형식)
+//   POST: 감사 기록 추가 (machine_id는 헤더에서 결정)
+//   GET ?since=&until=&severity=&status=&repo=&approver=&limit=: 최신순 조회
+//
+// Required environment variables:
+// - MACHINE_ID_SECRET: machine_id 서명 검증 (미설정 시 32자 hex machine_id 형식만 확인)
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
+
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+${UUID_HELPER}
+
+${SIGNED_MACHINE_ID_HELPER}
+
+const SEVERITIES = [${toStringList(Object.keys(SEVERITY_RANK))}];
+const AUDIT_STATUSES = [${toStringList(AUDIT_STATUSES)}];
+const MAX_AUDIT_LIMIT = ${MAX_AUDIT_LIMIT};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
   });
 }
 
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+// 감사 기록 검증 (허용된 필드만 복사, machine_id는 검증된 헤더 값 사용)
+function toAuditRow(body: Record<string, unknown>, machineId: string): Record<string, unknown> | null {
+  const { request_id, severity, status, decision, repo, resolved_by, latency_ms } = body;
+  if (
+    !isString(request_id) ||
+    !isValidUUID(request_id) ||
+    !isString(body.tool_name) ||
+    !isString(body.command) ||
+    !isString(body.danger_reason) ||
+    !isString(body.cwd) ||
+    !isString(body.resolved_via) ||
+    !isString(body.reason) ||
+    !isString(severity) ||
+    !SEVERITIES.includes(severity) ||
+    !isString(status) ||
+    !AUDIT_STATUSES.includes(status) ||
+    (decision !== 'allow' && decision !== 'deny') ||
+    (repo !== null && !isString(repo)) ||
+    (resolved_by !== null && !isString(resolved_by)) ||
+    typeof latency_ms !== 'number' ||
+    !Number.isInteger(latency_ms) ||
+    latency_ms < 0
+  ) {
+    return null;
+  }
+
+  return {
+    request_id,
+    tool_name: body.tool_name,
+    command: body.command,
+    danger_reason: body.danger_reason,
+    severity,
+    cwd: body.cwd,
+    repo,
+    status,
+    decision,
+    resolved_by,
+    resolved_via: body.resolved_via,
+    reason: body.reason,
+    latency_ms,
+    machine_id: machineId,
+  };
+}
+
+// LIKE 패턴의 와일드카드 이스케이프
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\\\%_]/g, (c) => '\\\\' + c);
 }
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // 서명된 machine_id 검증 (10분 이내에 서명된 헤더만 허용)
+  const verification = await verifySignedMachineId(req.headers.get('x-machine-id'));
+  if (!verification.valid || !verification.machineId) {
+    return jsonResponse({ error: 'Invalid machine signature' }, 403);
+  }
+  const machineId = verification.machineId;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    if (req.method === 'POST') {
+      let body: Record<string, unknown>;
+      try {
+        body = await req.json();
+      } catch {
+        return jsonResponse({ error: 'Invalid JSON body' }, 400);
+      }
+
+      const row = toAuditRow(body, machineId);
+      if (!row) {
+        return jsonResponse({ error: 'Invalid audit entry' }, 400);
+      }
+
+      const { error } = await supabase.from('approval_audit').insert(row);
+      if (error) {
+        console.error('Failed to record audit entry:', error);
+        return jsonResponse({ error: 'Failed to record audit entry' }, 500);
+      }
+      return jsonResponse({ ok: true }, 201);
+    }
+
+    const query = new URL(req.url).searchParams;
+    const limit = Number(query.get('limit') ?? '50');
+    const severity = query.get('severity');
+    const status = query.get('status');
+    const since = query.get('since');
+    const until = query.get('until');
+    const repo = query.get('repo');
+    const approver = query.get('approver');
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_AUDIT_LIMIT ||
+      (severity !== null && !SEVERITIES.includes(severity)) ||
+      (status !== null && !AUDIT_STATUSES.includes(status)) ||
+      (since !== null && Number.isNaN(Date.parse(since))) ||
+      (until !== null && Number.isNaN(Date.parse(until)))
+    ) {
+      return jsonResponse({ error: 'Invalid audit filter' }, 400);
+    }
+
+    let select = supabase.from('approval_audit').select('*').eq('machine_id', machineId);
+    if (since !== null) select = select.gte('created_at', new Date(since).toISOString());
+    if (until !== null) select = select.lte('created_at', new Date(until).toISOString());
+    if (severity !== null) select = select.eq('severity', severity);
+    if (status !== null) select = select.eq('status', status);
+    if (repo !== null) select = select.eq('repo', repo);
+    if (approver !== null) select = select.ilike('resolved_by', '%' + escapeLikePattern(approver) + '%');
+
+    const { data, error } = await select.order('created_at', { ascending: false }).limit(limit);
+    if (error) {
+      console.error('Failed to list audit entries:', error);
+      return jsonResponse({ error: 'Failed to list audit entries' }, 500);
+    }
+    return jsonResponse(data ?? []);
+  } catch (error) {
+    console.error('Error processing request:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
 `;
 
 // Legacy export for backward compatibility
@@ -1034,6 +2722,8 @@ interface EdgeFunctionInfo {
   code: string;
   folderName: string;
   envVars: string[];
+  // 승인자 allowlist 환경변수 (선택, 지원하는 메신저만)
+  allowedApproversEnvVar?: string;
 }
 
 const EDGE_FUNCTIONS: Record<MessengerType, EdgeFunctionInfo> = {
@@ -1041,25 +2731,62 @@ const EDGE_FUNCTIONS: Record<MessengerType, EdgeFunctionInfo> = {
     code: SLACK_EDGE_FUNCTION_CODE,
     folderName: 'slack-callback',
     envVars: ['SLACK_SIGNING_SECRET', 'MACHINE_ID_SECRET'],
+    allowedApproversEnvVar: 'SLACK_ALLOWED_APPROVERS',
   },
   telegram: {
     code: TELEGRAM_EDGE_FUNCTION_CODE,
     folderName: 'telegram-callback',
     envVars: ['TELEGRAM_BOT_TOKEN', 'TELEGRAM_WEBHOOK_SECRET', 'MACHINE_ID_SECRET'],
+    allowedApproversEnvVar: 'TELEGRAM_ALLOWED_APPROVERS',
   },
   whatsapp: {
     code: WHATSAPP_EDGE_FUNCTION_CODE,
     folderName: 'whatsapp-callback',
     envVars: ['TWILIO_AUTH_TOKEN', 'MACHINE_ID_SECRET'],
+    allowedApproversEnvVar: 'WHATSAPP_ALLOWED_APPROVERS',
   },
+  discord: {
+    code: DISCORD_EDGE_FUNCTION_CODE,
+    folderName: 'discord-callback',
+    envVars: ['DISCORD_PUBLIC_KEY', 'MACHINE_ID_SECRET'],
+  },
+  teams: {
+    code: TEAMS_EDGE_FUNCTION_CODE,
+    folderName: 'teams-callback',
+    envVars: ['TEAMS_APP_ID', 'MACHINE_ID_SECRET'],
+  },
+  webhook: {
+    code: WEBHOOK_EDGE_FUNCTION_CODE,
+    folderName: 'webhook-callback',
+    envVars: ['WEBHOOK_SIGNING_SECRET', 'MACHINE_ID_SECRET'],
+  },
+};
+
+// 감사 기록 Edge Function (메신저와 무관하게 프로젝트에 하나만 배포)
+const AUDIT_EDGE_FUNCTION: EdgeFunctionInfo = {
+  code: AUDIT_EDGE_FUNCTION_CODE,
+  folderName: 'guard-audit',
+  envVars: ['MACHINE_ID_SECRET'],
 };
 
+export const AUDIT_EDGE_FUNCTION_NAME = AUDIT_EDGE_FUNCTION.folderName;
+
 export function createEdgeFunctionFiles(
   targetDir: string,
   messengerType: MessengerType = 'slack'
 ): CreateEdgeFunctionResult {
+  return writeEdgeFunctionFiles(targetDir, EDGE_FUNCTIONS[messengerType]);
+}
+
+/**
+ * 감사 기록 Edge Function 파일 생성 (supabase/functions/guard-audit/index.ts)
+ */
+export function createAuditEdgeFunctionFiles(targetDir: string): CreateEdgeFunctionResult {
+  return writeEdgeFunctionFiles(targetDir, AUDIT_EDGE_FUNCTION);
+}
+
+function writeEdgeFunctionFiles(targetDir: string, funcInfo: EdgeFunctionInfo): CreateEdgeFunctionResult {
   try {
-    const funcInfo = EDGE_FUNCTIONS[messengerType];
     const functionsDir = path.join(targetDir, 'supabase', 'functions', funcInfo.folderName);
 
     fs.mkdirSync(functionsDir, { recursive: true });
@@ -1083,6 +2810,13 @@ export function getEdgeFunctionEnvVars(messengerType: MessengerType): string[] {
   return EDGE_FUNCTIONS[messengerType].envVars;
 }
 
+/**
+ * 승인자 allowlist 환경변수 이름 (allowlist를 지원하지 않는 메신저는 undefined)
+ */
+export function getAllowedApproversEnvVar(messengerType: MessengerType): string | undefined {
+  return EDGE_FUNCTIONS[messengerType].allowedApproversEnvVar;
+}
+
 export function getEdgeFunctionName(messengerType: MessengerType): string {
   return EDGE_FUNCTIONS[messengerType].folderName;
 }
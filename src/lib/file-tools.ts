@@ -0,0 +1,120 @@
+/**
+ * 파일을 수정하는 Claude Code 도구 (경로 규칙 적용 대상)
+ */
+export const FILE_TOOL_NAMES = ['Edit', 'Write', 'MultiEdit', 'NotebookEdit'] as const;
+
+export type FileToolName = (typeof FILE_TOOL_NAMES)[number];
+
+export interface FileToolCall {
+  toolName: FileToolName;
+  filePath: string;
+  /** 알림에 표시할 변경 내용 미리보기 (줄 단위 +/- 형식, 잘림) */
+  preview: string;
+}
+
+/** 미리보기 최대 줄 수 / 문자 수 (메신저별로 추가로 잘릴 수 있음) */
+const MAX_PREVIEW_LINES = 40;
+const MAX_PREVIEW_CHARS = 2000;
+
+export function isFileToolName(toolName: string): toolName is FileToolName {
+  return (FILE_TOOL_NAMES as readonly string[]).includes(toolName);
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function prefixLines(text: string, marker: '+' | '-'): string[] {
+  if (text === '') return [];
+  return text.split('\n').map((line) => `${marker} ${line}`);
+}
+
+function replacementLines(oldText: string, newText: string): string[] {
+  return [...prefixLines(oldText, '-'), ...prefixLines(newText, '+')];
+}
+
+/**
+ * 미리보기를 줄 수와 문자 수 기준으로 자릅니다.
+ */
+function truncatePreview(lines: string[]): string {
+  const kept: string[] = [];
+  let length = 0;
+
+  for (const line of lines) {
+    if (kept.length >= MAX_PREVIEW_LINES || length + line.length + 1 > MAX_PREVIEW_CHARS) {
+      break;
+    }
+    kept.push(line);
+    length += line.length + 1;
+  }
+
+  const omitted = lines.length - kept.length;
+  if (omitted > 0) {
+    kept.push(`... (${omitted} more line${omitted === 1 ? '' : 's'})`);
+  }
+  return kept.join('\n');
+}
+
+/**
+ * 도구 입력으로 변경 내용 미리보기를 생성합니다.
+ * 실제 파일을 읽지 않고 입력만으로 만들기 때문에 Edit은 교체 전/후 문자열만 보여줍니다.
+ */
+export function buildEditPreview(toolName: FileToolName, toolInput: Record<string, unknown>): string {
+  const lines: string[] = [];
+
+  switch (toolName) {
+    case 'Edit':
+      if (toolInput.replace_all === true) {
+        lines.push('@@ replace all occurrences @@');
+      }
+      lines.push(...replacementLines(asString(toolInput.old_string), asString(toolInput.new_string)));
+      break;
+
+    case 'MultiEdit': {
+      const edits = Array.isArray(toolInput.edits) ? toolInput.edits : [];
+      edits.forEach((edit, index) => {
+        const e = (typeof edit === 'object' && edit !== null ? edit : {}) as Record<string, unknown>;
+        lines.push(`@@ edit ${index + 1}/${edits.length} @@`);
+        lines.push(...replacementLines(asString(e.old_string), asString(e.new_string)));
+      });
+      break;
+    }
+
+    case 'Write': {
+      const content = asString(toolInput.content);
+      lines.push(`@@ write ${content.split('\n').length} lines @@`);
+      lines.push(...prefixLines(content, '+'));
+      break;
+    }
+
+    case 'NotebookEdit': {
+      const editMode = asString(toolInput.edit_mode) || 'replace';
+      const cellId = asString(toolInput.cell_id);
+      lines.push(`@@ ${editMode} cell${cellId ? ` ${cellId}` : ''} @@`);
+      if (editMode !== 'delete') {
+        lines.push(...prefixLines(asString(toolInput.new_source), '+'));
+      }
+      break;
+    }
+  }
+
+  return truncatePreview(lines);
+}
+
+/**
+ * hook 입력에서 파일 수정 도구 호출 정보를 추출합니다.
+ * @returns 파일 수정 도구가 아니거나 경로가 없으면 null
+ */
+export function parseFileToolCall(toolName: string, toolInput: Record<string, unknown>): FileToolCall | null {
+  if (!isFileToolName(toolName)) {
+    return null;
+  }
+
+  // NotebookEdit은 notebook_path를 사용
+  const filePath = toolName === 'NotebookEdit' ? toolInput.notebook_path : toolInput.file_path;
+  if (typeof filePath !== 'string' || filePath.length === 0) {
+    return null;
+  }
+
+  return { toolName, filePath, preview: buildEditPreview(toolName, toolInput) };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { formatHookOutput, isValidSeverityActions } from './hook-output.js';
+
+describe('formatHookOutput', () => {
+  it('should emit the legacy decision format', () => {
+    expect(formatHookOutput({ decision: 'deny', reason: 'Rejected' }, 'legacy')).toEqual({
+      decision: 'deny',
+      reason: 'Rejected',
+    });
+    expect(formatHookOutput({ decision: 'allow', updatedInput: { command: 'ls' } }, 'legacy')).toEqual({
+      decision: 'allow',
+    });
+    // legacy 형식은 ask를 표현할 수 없으므로 deny로 변환
+    expect(formatHookOutput({ decision: 'ask' }, 'legacy')).toEqual({ decision: 'deny' });
+  });
+
+  it('should emit hookSpecificOutput in the modern format', () => {
+    expect(formatHookOutput({ decision: 'ask', reason: 'Package installation (medium)' }, 'modern')).toEqual({
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'ask',
+        permissionDecisionReason: 'Package installation (medium)',
+      },
+    });
+    expect(formatHookOutput({ decision: 'allow', updatedInput: { command: 'ls' } }, 'modern')).toEqual({
+      hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'allow', updatedInput: { command: 'ls' } },
+    });
+  });
+});
+
+describe('isValidSeverityActions', () => {
+  it('should accept only known severities and actions', () => {
+    expect(isValidSeverityActions({ low: 'ask', critical: 'remote' })).toBe(true);
+    expect(isValidSeverityActions({ low: 'allow' })).toBe(false);
+    expect(isValidSeverityActions({ urgent: 'ask' })).toBe(false);
+    expect(isValidSeverityActions(['ask'])).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import type { Severity } from './rules.js';
+
+/**
+ * PreToolUse hook 출력 형식
+ *
+ * - legacy: { decision: 'allow' | 'deny', reason } (이전 Claude Code 버전)
+ * - modern: { hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision, permissionDecisionReason } }
+ *   'ask'(Claude Code 기본 권한 프롬프트로 넘김)와 updatedInput은 modern 형식에서만 지원됩니다.
+ */
+export type OutputFormat = 'legacy' | 'modern';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * 심각도별 처리 방식
+ * - remote: 메신저로 원격 승인 요청 (기본)
+ * - ask: Claude Code 기본 프롬프트로 넘김 (outputFormat: 'modern' 필요)
+ */
+export type SeverityAction = 'remote' | 'ask';
+
+export interface HookOutput {
+  decision: PermissionDecision;
+  reason?: string;
+  /** 도구 입력을 변경하여 허용 (modern 전용) */
+  updatedInput?: Record<string, unknown>;
+}
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export function isValidOutputFormat(value: unknown): value is OutputFormat {
+  return value === 'legacy' || value === 'modern';
+}
+
+export function isValidSeverityActions(value: unknown): value is Partial<Record<Severity, SeverityAction>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(
+    ([severity, action]) => SEVERITIES.includes(severity as Severity) && (action === 'remote' || action === 'ask')
+  );
+}
+
+/**
+ * Claude Code에 출력할 JSON 객체
+ * legacy 형식은 'ask'를 표현할 수 없으므로 안전하게 deny로 변환하고 updatedInput은 무시합니다.
+ */
+export function formatHookOutput(result: HookOutput, format: OutputFormat): Record<string, unknown> {
+  if (format === 'legacy') {
+    return {
+      decision: result.decision === 'ask' ? 'deny' : result.decision,
+      ...(result.reason !== undefined && { reason: result.reason }),
+    };
+  }
+
+  return {
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse',
+      permissionDecision: result.decision,
+      ...(result.reason !== undefined && { permissionDecisionReason: result.reason }),
+      ...(result.updatedInput && { updatedInput: result.updatedInput }),
+    },
+  };
+}
@@ -0,0 +1,1509 @@
+import * as crypto from 'node:crypto';
+import type { MessengerType } from '../messenger/types.js';
+import { signApprovalDecision } from '../approval-signature.js';
+import { signApprovalGrant } from '../approval-grants.js';
+import { parseApproverIdentities, resolveApproverIdentity } from '../approver-identity.js';
+import {
+  APPROVAL_SIGNATURE_TTL_SECONDS,
+  MAX_MODIFIED_COMMAND_LENGTH,
+  MAX_REJECTION_REASON_LENGTH,
+  effectiveModifiedCommand,
+  evaluateQuorum,
+  grantSuffix,
+  isApproverInAllowlist,
+  isRequestExpired,
+  normalizeModifiedCommand,
+  normalizeRejectionReason,
+  requiredApprovalCount,
+} from '../decision-core.js';
+import type { ApprovalStatus } from '../supabase.js';
+import type { LocalDatabase, LocalApprovalRequest, ResolutionDetails } from './database.js';
+
+// ============================================================
+// supabase/functions/*-callback 의 Node 포팅 버전
+// 검증 로직과 응답 형식은 Edge Function과 동일하게 유지
+// 만료/allowlist/정족수/서명 대상 등 결정 로직은 Edge Function과 같은 decision-core를 사용
+// ============================================================
+
+export interface CallbackContext {
+  db: LocalDatabase;
+  // Edge Function의 Deno.env.get과 같은 이름으로 시크릿 조회
+  getSecret: (name: string) => string | undefined;
+  // 요청이 처리되면 호출 (대기 중인 hook에 SSE로 전달)
+  onResolved: (request: LocalApprovalRequest) => void;
+}
+
+export type CallbackHandler = (req: Request, ctx: CallbackContext) => Promise<Response>;
+
+const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// 서명된 machine_id 유효 기간 (Edge Function과 동일)
+const MACHINE_ID_MAX_AGE_SECONDS = 600;
+
+// Slack/Discord/Webhook 서명 timestamp 허용 범위 (replay attack 방지)
+const SIGNATURE_MAX_AGE_SECONDS = 300;
+
+export function isValidUUID(id: string): boolean {
+  return UUID_V4_REGEX.test(id);
+}
+
+export function timingSafeEqualString(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+function isFreshTimestamp(timestamp: string | null): boolean {
+  const requestTime = parseInt(timestamp ?? '', 10);
+  return Number.isFinite(requestTime) && Math.abs(Math.floor(Date.now() / 1000) - requestTime) <= SIGNATURE_MAX_AGE_SECONDS;
+}
+
+/**
+ * 서명된 machine_id 검증
+ * 형식: machineId:timestamp:signature (hook의 getSignedMachineId 참고)
+ */
+export function verifySignedMachineId(signedId: string, secret: string): boolean {
+  const parts = signedId.split(':');
+  if (parts.length !== 3) {
+    return false;
+  }
+
+  const [machineId, timestampStr, signature] = parts;
+  const timestamp = parseInt(timestampStr, 10);
+  if (!Number.isFinite(timestamp) || Math.floor(Date.now() / 1000) - timestamp > MACHINE_ID_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${machineId}:${timestampStr}`)
+    .digest('hex')
+    .substring(0, 16);
+  return timingSafeEqualString(signature, expected);
+}
+
+/**
+ * 승인자 allowlist 검증
+ * {MESSENGER}_ALLOWED_APPROVERS: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+ */
+function isApproverAllowed(ctx: CallbackContext, secretName: string, approverId: string): boolean {
+  return isApproverInAllowlist(ctx.getSecret(secretName), approverId);
+}
+
+// modification_unavailable: 다중 승인이 필요한 요청은 "Edit & approve" 불가
+type ResolveFailure =
+  | 'not_found'
+  | 'already_resolved'
+  | 'expired'
+  | 'invalid_signature'
+  | 'conflict'
+  | 'modification_unavailable';
+
+type ResolveOutcome =
+  // grantedMinutes: "Approve similar"로 grant를 만든 경우 유효 시간 (분)
+  | { ok: true; request: LocalApprovalRequest; grantedMinutes?: number }
+  | { ok: false; reason: ResolveFailure; currentStatus?: ApprovalStatus }
+  // 정족수 미달(quorum_pending) 또는 같은 승인자의 중복 승인(duplicate_vote): 요청은 pending 유지
+  | { ok: false; reason: 'quorum_pending' | 'duplicate_vote'; approvals: number; required: number };
+
+/**
+ * 모든 callback 공통: 요청 조회 → 상태/만료/machine_id 서명 검증 → pending인 경우만 갱신
+ * required_approvals > 1이면 Edge Function의 recordVote와 동일하게 투표를 기록하고
+ * 정족수에 도달했을 때만 approved로 변경 (거부는 즉시 반영)
+ * @param grant "Approve similar": 요청에 grant_scope가 있으면 같은 범위의 요청을 grant_minutes 동안 자동 승인
+ * @param details.rejectionReason 거부 시 승인자가 남긴 사유 (normalizeRejectionReason으로 정리된 값)
+ * @param details.modifiedCommand "Edit & approve"로 승인자가 수정한 명령어 (결정 서명에 포함)
+ */
+function resolvePendingRequest(
+  ctx: CallbackContext,
+  requestId: string,
+  status: 'approved' | 'rejected',
+  approverId: string,
+  approverName: string,
+  resolvedVia: MessengerType,
+  grant = false,
+  details: { rejectionReason?: string; modifiedCommand?: string } = {}
+): ResolveOutcome {
+  const request = ctx.db.getRequest(requestId);
+  if (!request) {
+    return { ok: false, reason: 'not_found' };
+  }
+  if (request.status !== 'pending') {
+    return { ok: false, reason: 'already_resolved', currentStatus: request.status };
+  }
+  if (isRequestExpired(request.created_at)) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  const machineIdSecret = ctx.getSecret('MACHINE_ID_SECRET');
+  if (machineIdSecret && request.machine_id && !verifySignedMachineId(request.machine_id, machineIdSecret)) {
+    console.error('Invalid machine_id signature:', requestId);
+    return { ok: false, reason: 'invalid_signature' };
+  }
+
+  let resolvedBy = approverName;
+  const required = requiredApprovalCount(request);
+  const modifiedCommand = effectiveModifiedCommand(status, details.modifiedCommand, request.command);
+  if (modifiedCommand && required > 1) {
+    return { ok: false, reason: 'modification_unavailable' };
+  }
+  if (required > 1) {
+    // 같은 사람이 여러 채널에서 승인해도 한 번만 집계되도록 approverIdentities로 식별
+    const identities = parseApproverIdentities(ctx.getSecret('APPROVER_IDENTITIES'));
+    const approver = resolveApproverIdentity(identities, resolvedVia, approverId);
+    const recorded = ctx.db.recordVote(requestId, approver, approverName, resolvedVia, status);
+    if (status === 'approved') {
+      const quorum = evaluateQuorum(ctx.db.getApprovers(requestId), required, !recorded);
+      if (quorum.outcome === 'duplicate') {
+        return { ok: false, reason: 'duplicate_vote', approvals: quorum.approvals, required };
+      }
+      if (quorum.outcome === 'pending') {
+        return { ok: false, reason: 'quorum_pending', approvals: quorum.approvals, required };
+      }
+      resolvedBy = quorum.resolvedBy ?? resolvedBy;
+    }
+  }
+
+  // Edge Function과 동일하게 hook이 검증할 결정 서명 생성
+  const resolution: ResolutionDetails = {
+    rejection_reason: status === 'rejected' ? details.rejectionReason : undefined,
+    modified_command: modifiedCommand,
+  };
+  if (machineIdSecret) {
+    const expiresAt = Math.floor(Date.now() / 1000) + APPROVAL_SIGNATURE_TTL_SECONDS;
+    resolution.approval_signature = signApprovalDecision(
+      machineIdSecret,
+      requestId,
+      request.command,
+      status,
+      expiresAt,
+      modifiedCommand
+    );
+    resolution.approval_expires_at = new Date(expiresAt * 1000).toISOString();
+  }
+
+  const updated = ctx.db.resolveRequest(requestId, status, resolvedBy, resolvedVia, resolution);
+  if (!updated) {
+    return { ok: false, reason: 'conflict' };
+  }
+
+  // Edge Function의 createApprovalGrant와 동일 (정족수가 필요한 요청에는 hook이 grant_scope를 넣지 않음)
+  let grantedMinutes: number | undefined;
+  if (grant && status === 'approved' && request.grant_scope && request.grant_minutes) {
+    const grantId = crypto.randomUUID();
+    const expiresAt = Math.floor(Date.now() / 1000) + request.grant_minutes * 60;
+    ctx.db.createGrant({
+      id: grantId,
+      request_id: requestId,
+      scope: request.grant_scope,
+      granted_by: resolvedBy,
+      granted_via: resolvedVia,
+      expires_at: new Date(expiresAt * 1000).toISOString(),
+      grant_signature: machineIdSecret ? signApprovalGrant(machineIdSecret, grantId, request.grant_scope, expiresAt) : null,
+    });
+    grantedMinutes = request.grant_minutes;
+  }
+
+  ctx.onResolved(updated);
+  return { ok: true, request: updated, grantedMinutes };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function hmacHex(algorithm: 'sha1' | 'sha256', secret: string, data: string): string {
+  return crypto.createHmac(algorithm, secret).update(data).digest('hex');
+}
+
+// ============================================================
+// Slack
+// ============================================================
+
+interface SlackBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface SlackPayload {
+  type: string;
+  user: { id: string; username: string; name: string };
+  // block_actions
+  actions?: Array<{ action_id: string; value: string }>;
+  response_url?: string;
+  trigger_id?: string;
+  message?: { blocks?: SlackBlock[] };
+  // view_submission ("Reject with reason", "Edit & approve" modal)
+  view?: {
+    callback_id: string;
+    private_metadata: string;
+    state?: { values?: Record<string, Record<string, { value?: string | null }>> };
+  };
+}
+
+// modal의 private_metadata (제출 시 요청과 원본 메시지를 찾는 데 사용)
+interface SlackModalMetadata {
+  request_id: string;
+  response_url?: string;
+  blocks?: SlackBlock[];
+}
+
+// 입력란 하나로 구성된 modal 정의 (block_id는 오류 표시 위치로도 사용)
+interface SlackInputModal {
+  callbackId: string;
+  title: string;
+  submit: string;
+  blockId: string;
+  actionId: string;
+  label: string;
+  maxLength: number;
+  placeholder?: string;
+  initialValue?: string;
+}
+
+const SLACK_REJECT_REASON_CALLBACK_ID = 'reject_reason';
+const SLACK_EDIT_APPROVE_CALLBACK_ID = 'edit_approve';
+// Slack private_metadata 최대 길이
+const SLACK_MAX_PRIVATE_METADATA_LENGTH = 3000;
+
+const SLACK_REJECT_REASON_MODAL: SlackInputModal = {
+  callbackId: SLACK_REJECT_REASON_CALLBACK_ID,
+  title: 'Reject request',
+  submit: 'Reject',
+  blockId: 'reason',
+  actionId: 'reason_input',
+  label: 'Reason (sent back to Claude)',
+  maxLength: MAX_REJECTION_REASON_LENGTH,
+  placeholder: 'e.g. use git push --force-with-lease instead',
+};
+
+const SLACK_EDIT_APPROVE_MODAL: SlackInputModal = {
+  callbackId: SLACK_EDIT_APPROVE_CALLBACK_ID,
+  title: 'Edit & approve',
+  submit: 'Approve',
+  blockId: 'command',
+  actionId: 'command_input',
+  label: 'Command to run instead',
+  maxLength: MAX_MODIFIED_COMMAND_LENGTH,
+};
+
+/**
+ * "Reject with reason", "Edit & approve": 입력 modal 열기 (views.open은 bot token 필요)
+ * 원본 메시지 blocks는 private_metadata 길이 제한을 넘으면 생략 (제출 시 conversations.history로 다시 조회)
+ */
+async function openSlackInputModal(
+  ctx: CallbackContext,
+  triggerId: string,
+  metadata: SlackModalMetadata,
+  modal: SlackInputModal
+): Promise<boolean> {
+  const botToken = ctx.getSecret('SLACK_BOT_TOKEN');
+  if (!botToken) {
+    return false;
+  }
+
+  let privateMetadata = JSON.stringify(metadata);
+  if (privateMetadata.length > SLACK_MAX_PRIVATE_METADATA_LENGTH) {
+    privateMetadata = JSON.stringify({ request_id: metadata.request_id, response_url: metadata.response_url });
+  }
+
+  try {
+    const response = await fetch('https://slack.com/api/views.open', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=utf-8', Authorization: `Bearer ${botToken}` },
+      body: JSON.stringify({
+        trigger_id: triggerId,
+        view: {
+          type: 'modal',
+          callback_id: modal.callbackId,
+          private_metadata: privateMetadata,
+          title: { type: 'plain_text', text: modal.title },
+          submit: { type: 'plain_text', text: modal.submit },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [
+            {
+              type: 'input',
+              block_id: modal.blockId,
+              label: { type: 'plain_text', text: modal.label },
+              element: {
+                type: 'plain_text_input',
+                action_id: modal.actionId,
+                multiline: true,
+                max_length: modal.maxLength,
+                ...(modal.placeholder && { placeholder: { type: 'plain_text', text: modal.placeholder } }),
+                ...(modal.initialValue && { initial_value: modal.initialValue.slice(0, modal.maxLength) }),
+              },
+            },
+          ],
+        },
+      }),
+    });
+    const result = (await response.json()) as { ok: boolean; error?: string };
+    if (!result.ok) {
+      console.error('Failed to open Slack modal:', result.error);
+    }
+    return result.ok;
+  } catch (error) {
+    console.error('Failed to open Slack modal:', error);
+    return false;
+  }
+}
+
+// view_submission 응답: modal을 닫지 않고 입력란(blockId) 아래에 오류 표시
+function slackModalError(message: string, blockId = 'reason'): Response {
+  return jsonResponse({ response_action: 'errors', errors: { [blockId]: message } });
+}
+
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 원본 메시지 blocks 조회 (modal의 private_metadata에 담지 못한 긴 메시지)
+ * channels:history (비공개 채널은 groups:history) 권한 필요
+ */
+async function fetchSlackMessageBlocks(
+  botToken: string,
+  channel: string,
+  ts: string
+): Promise<SlackBlock[] | null> {
+  try {
+    const params = new URLSearchParams({ channel, latest: ts, inclusive: 'true', limit: '1' });
+    const response = await fetch(`https://slack.com/api/conversations.history?${params}`, {
+      headers: { Authorization: `Bearer ${botToken}` },
+    });
+    const result = (await response.json()) as {
+      ok: boolean;
+      error?: string;
+      messages?: Array<{ ts?: string; blocks?: SlackBlock[] }>;
+    };
+    const message = result.messages?.[0];
+    if (!result.ok || message?.ts !== ts || !message.blocks) {
+      console.error('Failed to fetch Slack message:', result.error ?? 'message not found');
+      return null;
+    }
+    return message.blocks;
+  } catch (error) {
+    console.error('Failed to fetch Slack message:', error);
+    return null;
+  }
+}
+
+/**
+ * bot-token 모드: hook이 저장한 channel:ts의 원본 메시지에서 버튼을 제거하고 처리 결과 footer 표시
+ * @param blocks 원본 메시지 blocks (없으면 conversations.history로 조회)
+ * @returns 갱신되었으면 true (bot token이나 메시지 참조가 없으면 false)
+ */
+async function updateSlackMessage(
+  ctx: CallbackContext,
+  requestId: string,
+  blocks: SlackBlock[] | undefined,
+  footer: string
+): Promise<boolean> {
+  const botToken = ctx.getSecret('SLACK_BOT_TOKEN');
+  const [channel, ts] = ctx.db.getMessageRef(requestId, 'slack')?.split(':') ?? [];
+  if (!botToken || !channel || !ts) {
+    return false;
+  }
+  const originalBlocks = blocks ?? (await fetchSlackMessageBlocks(botToken, channel, ts));
+  if (!originalBlocks) {
+    return false;
+  }
+
+  try {
+    const response = await fetch('https://slack.com/api/chat.update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=utf-8', Authorization: `Bearer ${botToken}` },
+      body: JSON.stringify({
+        channel,
+        ts,
+        text: footer,
+        blocks: [
+          ...originalBlocks.filter((block) => block.type !== 'actions'),
+          { type: 'context', elements: [{ type: 'mrkdwn', text: footer }] },
+        ],
+      }),
+    });
+    const result = (await response.json()) as { ok: boolean; error?: string };
+    if (!result.ok) {
+      console.error('Failed to update Slack message:', result.error);
+    }
+    return result.ok;
+  } catch (error) {
+    console.error('Failed to update Slack message:', error);
+    return false;
+  }
+}
+
+const handleSlackCallback: CallbackHandler = async (req, ctx) => {
+  const signingSecret = ctx.getSecret('SLACK_SIGNING_SECRET');
+  if (!signingSecret) {
+    console.error('Missing SLACK_SIGNING_SECRET environment variable');
+    return new Response('Server configuration error', { status: 500 });
+  }
+
+  const slackSignature = req.headers.get('x-slack-signature');
+  const slackTimestamp = req.headers.get('x-slack-request-timestamp');
+  if (!slackSignature || !slackTimestamp || !isFreshTimestamp(slackTimestamp)) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const bodyText = await req.text();
+  const computedSignature = `v0=${hmacHex('sha256', signingSecret, `v0:${slackTimestamp}:${bodyText}`)}`;
+  if (!timingSafeEqualString(computedSignature, slackSignature)) {
+    console.error('Invalid Slack signature');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const payloadStr = new URLSearchParams(bodyText).get('payload');
+  if (!payloadStr) {
+    return new Response('Invalid payload', { status: 400 });
+  }
+
+  const payload: SlackPayload = JSON.parse(payloadStr);
+
+  // block_actions: 메시지 버튼 클릭, view_submission: "Reject with reason"/"Edit & approve" modal 제출
+  const isModal = payload.type === 'view_submission';
+  let action_id: string;
+  let requestId: string;
+  let responseUrl: string | undefined;
+  let messageBlocks: SlackBlock[] | undefined;
+  let rejectionReason: string | undefined;
+  let modifiedCommand: string | undefined;
+  let modalBlockId = SLACK_REJECT_REASON_MODAL.blockId;
+  if (
+    isModal &&
+    (payload.view?.callback_id === SLACK_REJECT_REASON_CALLBACK_ID ||
+      payload.view?.callback_id === SLACK_EDIT_APPROVE_CALLBACK_ID)
+  ) {
+    // private_metadata는 views.open 시 설정한 값 (Slack 서명으로 보호됨)
+    const metadata = JSON.parse(payload.view.private_metadata) as SlackModalMetadata;
+    const values = payload.view.state?.values;
+    requestId = metadata.request_id;
+    responseUrl = metadata.response_url;
+    messageBlocks = metadata.blocks;
+    if (payload.view.callback_id === SLACK_EDIT_APPROVE_CALLBACK_ID) {
+      action_id = 'approve_command';
+      modalBlockId = SLACK_EDIT_APPROVE_MODAL.blockId;
+      modifiedCommand = normalizeModifiedCommand(values?.command?.command_input?.value);
+      if (!modifiedCommand) {
+        return slackModalError(`Enter a command (max ${MAX_MODIFIED_COMMAND_LENGTH} characters).`, modalBlockId);
+      }
+    } else {
+      action_id = 'reject_command';
+      rejectionReason = normalizeRejectionReason(values?.reason?.reason_input?.value);
+    }
+  } else if (payload.type === 'block_actions') {
+    const action = payload.actions?.[0];
+    if (!action) {
+      return new Response('No action found', { status: 400 });
+    }
+    action_id = action.action_id;
+    requestId = action.value;
+    responseUrl = payload.response_url;
+    messageBlocks = payload.message?.blocks;
+  } else {
+    return new Response('Unsupported interaction type', { status: 400 });
+  }
+
+  if (!isValidUUID(requestId)) {
+    return new Response('Invalid request ID format', { status: 400 });
+  }
+
+  let status: 'approved' | 'rejected';
+  if (
+    action_id === 'approve_command' ||
+    action_id === 'approve_similar_command' ||
+    action_id === 'edit_approve_command'
+  ) {
+    status = 'approved';
+  } else if (action_id === 'reject_command' || action_id === 'reject_with_reason_command') {
+    status = 'rejected';
+  } else {
+    return new Response('Unknown action', { status: 400 });
+  }
+
+  if (!isApproverAllowed(ctx, 'SLACK_ALLOWED_APPROVERS', payload.user.id)) {
+    console.error('Approver not in allowlist:', payload.user.id);
+    if (isModal) {
+      return slackModalError('You are not authorized to approve or reject this request.', modalBlockId);
+    }
+    if (responseUrl) {
+      await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          response_type: 'ephemeral',
+          replace_original: false,
+          text: ':no_entry: You are not authorized to approve or reject this request.',
+        }),
+      }).catch((error) => console.error('Failed to post Slack response:', error));
+    }
+    return new Response('Not authorized', { status: 403 });
+  }
+
+  const resolvedBy = payload.user.username || payload.user.name || payload.user.id;
+  const postSlackResponse = (text: string, ephemeral = false) =>
+    fetch(responseUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...(ephemeral && { response_type: 'ephemeral' }), replace_original: false, text }),
+    }).catch((error) => console.error('Failed to post Slack response:', error));
+
+  // 사유 입력 modal을 열고, 제출(view_submission) 시 거부 처리
+  if (action_id === 'reject_with_reason_command') {
+    const opened =
+      payload.trigger_id &&
+      (await openSlackInputModal(
+        ctx,
+        payload.trigger_id,
+        { request_id: requestId, response_url: responseUrl, blocks: messageBlocks },
+        SLACK_REJECT_REASON_MODAL
+      ));
+    if (!opened && responseUrl) {
+      await postSlackResponse(
+        ':warning: Could not open the reason dialog (SLACK_BOT_TOKEN is required). Use Reject instead.',
+        true
+      );
+    }
+    return new Response('OK', { status: 200, headers: { 'Content-Type': 'text/plain' } });
+  }
+
+  // 원래 명령어를 채운 편집 modal을 열고, 제출 시 수정된 명령어로 승인 처리
+  if (action_id === 'edit_approve_command') {
+    const request = ctx.db.getRequest(requestId);
+    let warning: string | undefined;
+    if (!request || request.status !== 'pending' || isRequestExpired(request.created_at)) {
+      warning = ':warning: Request not found or already resolved.';
+    } else if (requiredApprovalCount(request) > 1) {
+      warning = ':warning: Edit & approve is not available for requests that need multiple approvals.';
+    } else {
+      const opened =
+        payload.trigger_id &&
+        (await openSlackInputModal(
+          ctx,
+          payload.trigger_id,
+          { request_id: requestId, response_url: responseUrl, blocks: messageBlocks },
+          { ...SLACK_EDIT_APPROVE_MODAL, initialValue: request.command }
+        ));
+      if (!opened) {
+        warning = ':warning: Could not open the edit dialog (SLACK_BOT_TOKEN is required).';
+      }
+    }
+    if (warning && responseUrl) {
+      await postSlackResponse(warning, true);
+    }
+    return new Response('OK', { status: 200, headers: { 'Content-Type': 'text/plain' } });
+  }
+
+  const grant = action_id === 'approve_similar_command';
+  const outcome = resolvePendingRequest(
+    ctx,
+    requestId,
+    status,
+    payload.user.id,
+    resolvedBy,
+    'slack',
+    grant,
+    { rejectionReason, modifiedCommand }
+  );
+  if (!outcome.ok) {
+    if (isModal && outcome.reason === 'modification_unavailable') {
+      return slackModalError(
+        'Edit & approve is not available for requests that need multiple approvals.',
+        modalBlockId
+      );
+    }
+    if (isModal && outcome.reason !== 'quorum_pending' && outcome.reason !== 'duplicate_vote') {
+      return slackModalError('This request was not found or has already been resolved.', modalBlockId);
+    }
+    switch (outcome.reason) {
+      case 'quorum_pending':
+      case 'duplicate_vote':
+        // 정족수 미달: 버튼을 유지하고 진행 상황만 표시
+        if (responseUrl) {
+          await postSlackResponse(
+            outcome.reason === 'quorum_pending'
+              ? `:ballot_box_with_check: Approved by @${resolvedBy} (${outcome.approvals}/${outcome.required} approvals)`
+              : `:warning: @${resolvedBy} already approved (${outcome.approvals}/${outcome.required} approvals)`
+          );
+        }
+        return new Response('OK', { status: 200, headers: { 'Content-Type': 'text/plain' } });
+      case 'invalid_signature':
+        return jsonResponse({ error: 'Invalid machine signature' }, 403);
+      case 'expired':
+        return new Response('Request expired', { status: 410 });
+      case 'conflict':
+        return new Response('Request update failed', { status: 409 });
+      default:
+        return new Response('Request not found or already resolved', { status: 404 });
+    }
+  }
+
+  const approvedBy = outcome.request.resolved_by;
+  const approvedCommand = outcome.request.modified_command;
+  let responseMessage: string;
+  if (status === 'rejected') {
+    responseMessage = `:x: *Rejected* by @${approvedBy}${rejectionReason ? `: ${escapeSlackText(rejectionReason)}` : ''}`;
+  } else if (approvedCommand) {
+    responseMessage = `:pencil2: *Approved with changes* by @${approvedBy}\n\`\`\`${escapeSlackText(approvedCommand)}\`\`\``;
+  } else {
+    responseMessage = `:white_check_mark: *Approved* by @${approvedBy}${grantSuffix(outcome.grantedMinutes)}`;
+  }
+  // bot-token 모드는 원본 메시지를 갱신하고, 그 외에는 response_url로 후속 메시지 전송
+  const updated = await updateSlackMessage(ctx, requestId, messageBlocks, responseMessage);
+  if (!updated && responseUrl) {
+    await postSlackResponse(responseMessage);
+  }
+
+  // view_submission은 빈 200 응답으로 modal을 닫음
+  if (isModal) {
+    return new Response(null, { status: 200 });
+  }
+  return new Response('OK', { status: 200, headers: { 'Content-Type': 'text/plain' } });
+};
+
+// ============================================================
+// Telegram
+// ============================================================
+
+interface TelegramUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+  from?: TelegramUser;
+  text?: string;
+  reply_to_message?: TelegramMessage;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+// force_reply 프롬프트: 답장의 reply_to_message(봇이 보낸 프롬프트)에서 요청 ID를 다시 읽음
+const TELEGRAM_REJECT_REASON_PROMPT = 'Reply to this message with the reason for rejecting request';
+const TELEGRAM_REJECT_REASON_PROMPT_REGEX = /rejecting request ([0-9a-f-]{36})/i;
+const TELEGRAM_EDIT_APPROVE_PROMPT = 'Reply to this message with the command to run instead for request';
+const TELEGRAM_EDIT_APPROVE_PROMPT_REGEX = /command to run instead for request ([0-9a-f-]{36})/i;
+
+async function callTelegramApi(botToken: string, method: string, body: unknown): Promise<void> {
+  await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }).catch((error) => console.error(`Telegram ${method} failed:`, error));
+}
+
+const handleTelegramCallback: CallbackHandler = async (req, ctx) => {
+  const botToken = ctx.getSecret('TELEGRAM_BOT_TOKEN');
+  const webhookSecret = ctx.getSecret('TELEGRAM_WEBHOOK_SECRET');
+  if (!botToken || !webhookSecret) {
+    console.error('Missing TELEGRAM_BOT_TOKEN or TELEGRAM_WEBHOOK_SECRET');
+    return new Response('Server configuration error', { status: 500 });
+  }
+
+  const headerToken = req.headers.get('X-Telegram-Bot-Api-Secret-Token');
+  if (!headerToken || !timingSafeEqualString(headerToken, webhookSecret)) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const update = (await req.json()) as { callback_query?: TelegramCallbackQuery; message?: TelegramMessage };
+  const callbackQuery = update.callback_query;
+  // 봇이 보낸 프롬프트에 대한 답장만 거부 사유/수정된 명령어로 처리 (bot token의 앞부분이 봇의 user ID)
+  const promptReply =
+    update.message?.reply_to_message?.from?.id === Number(botToken.split(':')[0]) ? update.message : undefined;
+
+  const sendReply = (chatId: number, messageId: number, text: string) =>
+    callTelegramApi(botToken, 'sendMessage', {
+      chat_id: chatId,
+      reply_to_message_id: messageId,
+      text: text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&'),
+      parse_mode: 'MarkdownV2',
+    });
+
+  let action: string;
+  let requestId: string;
+  let from: TelegramUser;
+  let rejectionReason: string | undefined;
+  let modifiedCommand: string | undefined;
+  let answer: (text: string, showAlert?: boolean) => Promise<void>;
+  if (callbackQuery) {
+    if (!callbackQuery.data) {
+      return new Response('No callback data', { status: 400 });
+    }
+    [action, requestId] = callbackQuery.data.split(':');
+    if (
+      !action ||
+      !requestId ||
+      !['approve', 'approve_similar', 'reject', 'reject_reason', 'edit_approve'].includes(action)
+    ) {
+      return new Response('Invalid callback data format', { status: 400 });
+    }
+    from = callbackQuery.from;
+    answer = (text, showAlert = false) =>
+      callTelegramApi(botToken, 'answerCallbackQuery', {
+        callback_query_id: callbackQuery.id,
+        text,
+        show_alert: showAlert,
+      });
+  } else if (promptReply?.from && promptReply.text) {
+    const promptText = promptReply.reply_to_message?.text;
+    const reasonMatch = promptText?.match(TELEGRAM_REJECT_REASON_PROMPT_REGEX);
+    const editMatch = promptText?.match(TELEGRAM_EDIT_APPROVE_PROMPT_REGEX);
+    from = promptReply.from;
+    answer = (text) => sendReply(promptReply.chat.id, promptReply.message_id, text);
+    if (reasonMatch) {
+      action = 'reject';
+      requestId = reasonMatch[1];
+      rejectionReason = normalizeRejectionReason(promptReply.text);
+    } else if (editMatch) {
+      action = 'approve';
+      requestId = editMatch[1];
+      modifiedCommand = normalizeModifiedCommand(promptReply.text);
+      if (!modifiedCommand) {
+        await answer(`⚠️ Command is empty or longer than ${MAX_MODIFIED_COMMAND_LENGTH} characters`);
+        return new Response('OK', { status: 200 });
+      }
+    } else {
+      return new Response('OK', { status: 200 });
+    }
+  } else {
+    return new Response('OK', { status: 200 });
+  }
+
+  if (!isValidUUID(requestId)) {
+    return new Response('Invalid request ID format', { status: 400 });
+  }
+
+  const status = action.startsWith('reject') ? 'rejected' : 'approved';
+  const resolvedBy =
+    from.username || `${from.first_name}${from.last_name ? ' ' + from.last_name : ''}` || String(from.id);
+
+  if (!isApproverAllowed(ctx, 'TELEGRAM_ALLOWED_APPROVERS', String(from.id))) {
+    console.error('Approver not in allowlist:', from.id);
+    await answer('🚫 You are not authorized to approve or reject this request', true);
+    return new Response('OK', { status: 200 });
+  }
+
+  // 처리되었거나 만료된 요청의 버튼 제거 (hook이 종료되어 원본 메시지를 갱신하지 못한 경우)
+  const removeStaleKeyboard = async () => {
+    if (callbackQuery?.message) {
+      const { chat, message_id } = callbackQuery.message;
+      await callTelegramApi(botToken, 'editMessageReplyMarkup', {
+        chat_id: chat.id,
+        message_id,
+        reply_markup: { inline_keyboard: [] },
+      });
+    }
+  };
+
+  // "Reject with reason": 원본 메시지에 답장 프롬프트(force_reply)를 보내고, 답장이 오면 거부 처리
+  if (action === 'reject_reason') {
+    const request = ctx.db.getRequest(requestId);
+    if (!request || request.status !== 'pending' || isRequestExpired(request.created_at)) {
+      await answer('⚠️ Request not found or already resolved');
+      await removeStaleKeyboard();
+      return new Response('OK', { status: 200 });
+    }
+    await answer('✍️ Reply with the reason');
+    if (callbackQuery?.message) {
+      const { chat, message_id } = callbackQuery.message;
+      await callTelegramApi(botToken, 'sendMessage', {
+        chat_id: chat.id,
+        reply_to_message_id: message_id,
+        text: `✍️ ${TELEGRAM_REJECT_REASON_PROMPT} ${requestId}`,
+        reply_markup: { force_reply: true, input_field_placeholder: 'Reason for rejecting' },
+      });
+    }
+    return new Response('OK', { status: 200 });
+  }
+
+  // "Edit & approve": 원래 명령어와 함께 답장 프롬프트를 보내고, 답장으로 받은 명령어로 승인 처리
+  if (action === 'edit_approve') {
+    const request = ctx.db.getRequest(requestId);
+    if (!request || request.status !== 'pending' || isRequestExpired(request.created_at)) {
+      await answer('⚠️ Request not found or already resolved');
+      await removeStaleKeyboard();
+      return new Response('OK', { status: 200 });
+    }
+    if (requiredApprovalCount(request) > 1) {
+      await answer('⚠️ Edit & approve is not available for requests that need multiple approvals', true);
+      return new Response('OK', { status: 200 });
+    }
+    await answer('✏️ Reply with the command to run');
+    if (callbackQuery?.message) {
+      const { chat, message_id } = callbackQuery.message;
+      await callTelegramApi(botToken, 'sendMessage', {
+        chat_id: chat.id,
+        reply_to_message_id: message_id,
+        text: `✏️ ${TELEGRAM_EDIT_APPROVE_PROMPT} ${requestId}\n\n${request.command.slice(0, MAX_MODIFIED_COMMAND_LENGTH)}`,
+        reply_markup: { force_reply: true, input_field_placeholder: 'Command to run instead' },
+      });
+    }
+    return new Response('OK', { status: 200 });
+  }
+
+  const outcome = resolvePendingRequest(
+    ctx,
+    requestId,
+    status,
+    String(from.id),
+    resolvedBy,
+    'telegram',
+    action === 'approve_similar',
+    { rejectionReason, modifiedCommand }
+  );
+  if (!outcome.ok) {
+    switch (outcome.reason) {
+      case 'duplicate_vote':
+        await answer(`⚠️ Already approved (${outcome.approvals}/${outcome.required} approvals)`);
+        return new Response('OK', { status: 200 });
+      case 'quorum_pending':
+        // 정족수 미달: 버튼을 유지하고 진행 상황만 표시
+        await answer(`☑️ Approval recorded (${outcome.approvals}/${outcome.required})`);
+        if (callbackQuery?.message) {
+          const { chat, message_id } = callbackQuery.message;
+          await sendReply(
+            chat.id,
+            message_id,
+            `☑️ Approved by @${resolvedBy} (${outcome.approvals}/${outcome.required} approvals)`
+          );
+        }
+        return new Response('OK', { status: 200 });
+      case 'not_found':
+        await answer('⚠️ Request not found');
+        await removeStaleKeyboard();
+        return new Response('Request not found', { status: 404 });
+      case 'expired':
+        await answer('⏰ Request expired (>1 hour)');
+        await removeStaleKeyboard();
+        return new Response('Request expired', { status: 410 });
+      case 'invalid_signature':
+        await answer('⚠️ 유효하지 않은 요청입니다');
+        return new Response('Invalid machine signature', { status: 403 });
+      case 'already_resolved':
+        await answer('⚠️ Request already resolved');
+        await removeStaleKeyboard();
+        return new Response('OK', { status: 200 });
+      case 'conflict':
+        await answer('⚠️ Request not found or already resolved');
+        await removeStaleKeyboard();
+        return new Response('OK', { status: 200 });
+      case 'modification_unavailable':
+        await answer('⚠️ Edit & approve is not available for requests that need multiple approvals');
+        return new Response('OK', { status: 200 });
+    }
+  }
+
+  const approvedCommand = outcome.request.modified_command;
+  const emoji = status === 'approved' ? (approvedCommand ? '✏️' : '✅') : '❌';
+  const actionText = status === 'approved' ? (approvedCommand ? 'Approved with changes' : 'Approved') : 'Rejected';
+  await answer(`${emoji} ${actionText}`);
+
+  const reasonSuffix = rejectionReason ? `: ${rejectionReason}` : approvedCommand ? `\n${approvedCommand}` : '';
+  if (callbackQuery?.message) {
+    const { chat, message_id } = callbackQuery.message;
+    await callTelegramApi(botToken, 'editMessageReplyMarkup', {
+      chat_id: chat.id,
+      message_id,
+      reply_markup: { inline_keyboard: [] },
+    });
+    await sendReply(
+      chat.id,
+      message_id,
+      `\n\n${emoji} *${actionText}* by @${outcome.request.resolved_by}${grantSuffix(outcome.grantedMinutes)}${reasonSuffix}`
+    );
+  } else if (promptReply) {
+    // 답장으로 처리된 경우: hook이 저장한 원본 메시지(chat_id:message_id)의 버튼 제거
+    const [chatId, messageId] = ctx.db.getMessageRef(requestId, 'telegram')?.split(':') ?? [];
+    if (chatId && messageId) {
+      await callTelegramApi(botToken, 'editMessageReplyMarkup', {
+        chat_id: chatId,
+        message_id: Number(messageId),
+        reply_markup: { inline_keyboard: [] },
+      });
+    }
+  }
+
+  return new Response('OK', { status: 200 });
+};
+
+// ============================================================
+// WhatsApp (Twilio)
+// ============================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function twimlResponse(message: string, status = 200): Response {
+  const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Message>${escapeXml(message)}</Message>
+</Response>`;
+  return new Response(twiml, { status, headers: { 'Content-Type': 'application/xml' } });
+}
+
+const handleWhatsAppCallback: CallbackHandler = async (req, ctx) => {
+  const authToken = ctx.getSecret('TWILIO_AUTH_TOKEN');
+  if (!authToken) {
+    console.error('Missing TWILIO_AUTH_TOKEN environment variable');
+    return new Response('Server configuration error', { status: 500 });
+  }
+
+  const params: Record<string, string> = {};
+  new URLSearchParams(await req.text()).forEach((value, key) => {
+    params[key] = value;
+  });
+
+  // Twilio 서명: URL + 정렬된 key/value 를 HMAC-SHA1 (base64)
+  const twilioSignature = req.headers.get('X-Twilio-Signature');
+  const data =
+    req.url +
+    Object.keys(params)
+      .sort()
+      .map((key) => `${key}${params[key]}`)
+      .join('');
+  const computedSignature = crypto.createHmac('sha1', authToken).update(data).digest('base64');
+  if (!twilioSignature || !timingSafeEqualString(twilioSignature, computedSignature)) {
+    console.error('Invalid Twilio signature');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  // Content API quick-reply 버튼: ButtonPayload "approve:<request-id>" (서명 검증 대상 파라미터)
+  const buttonPayload = params['ButtonPayload']?.trim().match(/^(approve|reject):([a-f0-9-]+)$/i);
+  const body = buttonPayload ? `${buttonPayload[1]} ${buttonPayload[2]}` : params['Body']?.trim();
+  if (!body) {
+    return twimlResponse('No message body received.');
+  }
+
+  // "REJECT|NO <request-id> <reason>": 사유는 hook의 deny reason으로 Claude에 전달
+  // "EDIT <request-id> <command>": 수정된 명령어로 승인 (hook이 updatedInput으로 전달)
+  const match = body.match(/^(APPROVE(?:\s+SIMILAR)?|REJECT|NO|EDIT)\s+([a-f0-9-]+)(?:\s+([\s\S]+))?$/i);
+  const isEdit = match?.[1].toUpperCase() === 'EDIT';
+  if (!match || (match[3] && match[1].toUpperCase().startsWith('APPROVE')) || (isEdit && !match[3])) {
+    return twimlResponse(
+      'Invalid format. Use:\nAPPROVE <request-id>\nor\nREJECT <request-id> [reason]\nor\nEDIT <request-id> <command>'
+    );
+  }
+
+  const [, action, requestId, text] = match;
+  const rejectionReason = isEdit ? undefined : normalizeRejectionReason(text);
+  const modifiedCommand = isEdit ? normalizeModifiedCommand(text) : undefined;
+  if (!isValidUUID(requestId)) {
+    return twimlResponse('Invalid request ID format.');
+  }
+  if (isEdit && !modifiedCommand) {
+    return twimlResponse(`Command is too long (max ${MAX_MODIFIED_COMMAND_LENGTH} characters).`);
+  }
+
+  const status = isEdit || action.toUpperCase().startsWith('APPROVE') ? 'approved' : 'rejected';
+  const resolvedBy = params['From']?.replace('whatsapp:', '') || 'unknown';
+
+  if (!isApproverAllowed(ctx, 'WHATSAPP_ALLOWED_APPROVERS', resolvedBy)) {
+    console.error('Approver not in allowlist:', resolvedBy);
+    return twimlResponse('🚫 You are not authorized to approve or reject this request.');
+  }
+
+  const grant = /SIMILAR$/i.test(action);
+  const outcome = resolvePendingRequest(
+    ctx,
+    requestId,
+    status,
+    resolvedBy,
+    resolvedBy,
+    'whatsapp',
+    grant,
+    { rejectionReason, modifiedCommand }
+  );
+  if (!outcome.ok) {
+    switch (outcome.reason) {
+      case 'duplicate_vote':
+        return twimlResponse(
+          `You already approved this request (${outcome.approvals}/${outcome.required} approvals).`
+        );
+      case 'quorum_pending':
+        return twimlResponse(
+          `☑️ Approval recorded (${outcome.approvals}/${outcome.required} approvals). Waiting for more approvers.`
+        );
+      case 'not_found':
+        return twimlResponse('Request not found.');
+      case 'already_resolved':
+        return twimlResponse('Request already resolved.');
+      case 'expired':
+        return twimlResponse('⏰ Request expired (over 1 hour old).');
+      case 'invalid_signature':
+        return twimlResponse('Invalid request signature', 403);
+      case 'conflict':
+        return twimlResponse('Request not found or already resolved.');
+      case 'modification_unavailable':
+        return twimlResponse('EDIT is not available for requests that need multiple approvals.');
+    }
+  }
+
+  if (outcome.request.modified_command) {
+    return twimlResponse(`✏️ Request ${requestId.substring(0, 8)}... has been approved with changes.`);
+  }
+  const emoji = status === 'approved' ? '✅' : '❌';
+  const reasonSuffix = rejectionReason ? ` Reason: ${rejectionReason}` : '';
+  return twimlResponse(
+    `${emoji} Request ${requestId.substring(0, 8)}... has been ${status}.${grantSuffix(outcome.grantedMinutes)}${reasonSuffix}`
+  );
+};
+
+// ============================================================
+// Discord
+// ============================================================
+
+const DISCORD_INTERACTION_PING = 1;
+const DISCORD_INTERACTION_MESSAGE_COMPONENT = 3;
+const DISCORD_RESPONSE_PONG = 1;
+const DISCORD_RESPONSE_CHANNEL_MESSAGE = 4;
+const DISCORD_RESPONSE_UPDATE_MESSAGE = 7;
+const DISCORD_MESSAGE_FLAG_EPHEMERAL = 64;
+
+interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+}
+
+interface DiscordInteraction {
+  type: number;
+  data?: { custom_id?: string };
+  member?: { user: DiscordUser };
+  user?: DiscordUser;
+}
+
+// Ed25519 서명 검증 (32바이트 raw public key → JWK)
+function verifyDiscordSignature(publicKey: string, signature: string | null, timestamp: string | null, body: string): boolean {
+  if (!signature || !timestamp || !/^[a-f0-9]{128}$/i.test(signature) || !isFreshTimestamp(timestamp)) {
+    return false;
+  }
+
+  try {
+    const key = crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey, 'hex').toString('base64url') },
+      format: 'jwk',
+    });
+    return crypto.verify(null, Buffer.from(timestamp + body), key, Buffer.from(signature, 'hex'));
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
+// 버튼을 누른 사용자에게만 보이는 메시지
+function discordEphemeral(content: string): Response {
+  return jsonResponse({
+    type: DISCORD_RESPONSE_CHANNEL_MESSAGE,
+    data: { content, flags: DISCORD_MESSAGE_FLAG_EPHEMERAL },
+  });
+}
+
+const handleDiscordCallback: CallbackHandler = async (req, ctx) => {
+  const publicKey = ctx.getSecret('DISCORD_PUBLIC_KEY');
+  if (!publicKey || !/^[a-f0-9]{64}$/i.test(publicKey)) {
+    console.error('Missing or invalid DISCORD_PUBLIC_KEY environment variable');
+    return new Response('Server configuration error', { status: 500 });
+  }
+
+  // Discord는 Interactions Endpoint 등록 시 잘못된 서명으로도 요청하여 401 응답을 확인함
+  const body = await req.text();
+  if (
+    !verifyDiscordSignature(
+      publicKey,
+      req.headers.get('X-Signature-Ed25519'),
+      req.headers.get('X-Signature-Timestamp'),
+      body
+    )
+  ) {
+    return new Response('Invalid request signature', { status: 401 });
+  }
+
+  const interaction: DiscordInteraction = JSON.parse(body);
+  if (interaction.type === DISCORD_INTERACTION_PING) {
+    return jsonResponse({ type: DISCORD_RESPONSE_PONG });
+  }
+  if (interaction.type !== DISCORD_INTERACTION_MESSAGE_COMPONENT) {
+    return new Response('Unsupported interaction type', { status: 400 });
+  }
+
+  const customId = interaction.data?.custom_id;
+  if (!customId) {
+    return new Response('No custom_id', { status: 400 });
+  }
+
+  const [action, requestId] = customId.split(':');
+  if (!action || !requestId || !['approve', 'approve_similar', 'reject'].includes(action)) {
+    return new Response('Invalid custom_id format', { status: 400 });
+  }
+  if (!isValidUUID(requestId)) {
+    return new Response('Invalid request ID format', { status: 400 });
+  }
+
+  // 서버 채널에서는 member.user, DM에서는 user
+  const user = interaction.member?.user || interaction.user;
+  if (!user) {
+    return new Response('Missing user', { status: 400 });
+  }
+
+  const status = action === 'reject' ? 'rejected' : 'approved';
+  const resolvedBy = user.username || user.global_name || user.id;
+
+  const grant = action === 'approve_similar';
+  const outcome = resolvePendingRequest(ctx, requestId, status, user.id, resolvedBy, 'discord', grant);
+  if (!outcome.ok) {
+    switch (outcome.reason) {
+      case 'duplicate_vote':
+        return discordEphemeral(`⚠️ Already approved (${outcome.approvals}/${outcome.required} approvals)`);
+      case 'quorum_pending':
+        // 정족수 미달: 버튼을 유지하고 진행 상황을 채널에 표시
+        return jsonResponse({
+          type: DISCORD_RESPONSE_CHANNEL_MESSAGE,
+          data: {
+            content: `☑️ Approved by @${resolvedBy} (${outcome.approvals}/${outcome.required} approvals)`,
+            allowed_mentions: { parse: [] },
+          },
+        });
+      case 'not_found':
+        return discordEphemeral('⚠️ Request not found');
+      case 'already_resolved':
+        return discordEphemeral('⚠️ Request already resolved');
+      case 'expired':
+        return discordEphemeral('⏰ Request expired (>1 hour)');
+      case 'invalid_signature':
+        return discordEphemeral('⚠️ 유효하지 않은 요청입니다');
+      case 'conflict':
+      case 'modification_unavailable':
+        return discordEphemeral('⚠️ Request not found or already resolved');
+    }
+  }
+
+  const emoji = status === 'approved' ? '✅' : '❌';
+  const actionText = status === 'approved' ? 'Approved' : 'Rejected';
+
+  // 원본 메시지의 버튼을 제거하고 처리 결과 표시
+  return jsonResponse({
+    type: DISCORD_RESPONSE_UPDATE_MESSAGE,
+    data: {
+      content: `${emoji} **${actionText}** by @${outcome.request.resolved_by}${grantSuffix(outcome.grantedMinutes)}`,
+      components: [],
+      allowed_mentions: { parse: [] },
+    },
+  });
+};
+
+// ============================================================
+// Microsoft Teams (Bot Framework)
+// ============================================================
+
+const BOT_FRAMEWORK_OPENID_CONFIG = 'https://login.botframework.com/v1/.well-known/openidconfiguration';
+const BOT_FRAMEWORK_ISSUER = 'https://api.botframework.com';
+const CLOCK_SKEW_SECONDS = 300;
+
+interface BotFrameworkJwk {
+  kid?: string;
+  kty: string;
+  n?: string;
+  e?: string;
+}
+
+interface TeamsActivity {
+  type: string;
+  name?: string;
+  serviceUrl?: string;
+  from?: { id: string; name?: string; aadObjectId?: string };
+  value?: {
+    action?: {
+      type?: string;
+      verb?: string;
+      data?: { requestId?: string };
+    };
+  };
+}
+
+// OpenID metadata → JWKS 조회 (1시간 캐시)
+let cachedSigningKeys: { keys: BotFrameworkJwk[]; fetchedAt: number } | null = null;
+async function getBotFrameworkSigningKeys(): Promise<BotFrameworkJwk[]> {
+  if (cachedSigningKeys && Date.now() - cachedSigningKeys.fetchedAt < 60 * 60 * 1000) {
+    return cachedSigningKeys.keys;
+  }
+  const openIdConfig = (await (await fetch(BOT_FRAMEWORK_OPENID_CONFIG)).json()) as { jwks_uri: string };
+  const jwks = (await (await fetch(openIdConfig.jwks_uri)).json()) as { keys?: BotFrameworkJwk[] };
+  cachedSigningKeys = { keys: jwks.keys || [], fetchedAt: Date.now() };
+  return cachedSigningKeys.keys;
+}
+
+/**
+ * Bot Framework JWT 검증 (teams-callback Edge Function과 동일한 조건)
+ * RS256 서명, iss, aud(TEAMS_APP_ID), exp/nbf, serviceurl claim
+ */
+async function verifyBotFrameworkToken(
+  authHeader: string | null,
+  appId: string,
+  serviceUrl: string | undefined
+): Promise<boolean> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const parts = authHeader.slice('Bearer '.length).split('.');
+  if (parts.length !== 3) {
+    return false;
+  }
+
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    if (header.alg !== 'RS256' || !header.kid) {
+      return false;
+    }
+
+    const jwk = (await getBotFrameworkSigningKeys()).find((k) => k.kid === header.kid);
+    if (!jwk) {
+      console.error('Unknown signing key:', header.kid);
+      return false;
+    }
+
+    const key = crypto.createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' });
+    const valid = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      key,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!valid) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.iss !== BOT_FRAMEWORK_ISSUER || payload.aud !== appId) {
+      return false;
+    }
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+      return false;
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+      return false;
+    }
+    return !payload.serviceurl || payload.serviceurl === serviceUrl;
+  } catch (error) {
+    console.error('Token verification error:', error);
+    return false;
+  }
+}
+
+// Action.Execute 응답: 카드를 교체하여 버튼 제거
+function teamsCardResponse(text: string, color = 'Default'): Response {
+  return jsonResponse({
+    statusCode: 200,
+    type: 'application/vnd.microsoft.card.adaptive',
+    value: {
+      type: 'AdaptiveCard',
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      version: '1.4',
+      body: [{ type: 'TextBlock', text, color, weight: 'Bolder', wrap: true }],
+    },
+  });
+}
+
+// Action.Execute 응답: 카드는 유지하고 메시지만 표시
+function teamsMessageResponse(text: string): Response {
+  return jsonResponse({
+    statusCode: 200,
+    type: 'application/vnd.microsoft.activity.message',
+    value: text,
+  });
+}
+
+const handleTeamsCallback: CallbackHandler = async (req, ctx) => {
+  const appId = ctx.getSecret('TEAMS_APP_ID');
+  if (!appId) {
+    console.error('Missing TEAMS_APP_ID environment variable');
+    return new Response('Server configuration error', { status: 500 });
+  }
+
+  const activity = (await req.json()) as TeamsActivity;
+  if (!(await verifyBotFrameworkToken(req.headers.get('Authorization'), appId, activity.serviceUrl))) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  // Universal Actions(Action.Execute) 외의 activity는 무시
+  if (activity.type !== 'invoke' || activity.name !== 'adaptiveCard/action') {
+    return new Response('OK', { status: 200 });
+  }
+
+  const action = activity.value?.action;
+  const verb = action?.verb;
+  const requestId = action?.data?.requestId;
+  if (action?.type !== 'Action.Execute' || !['approve', 'approve_similar', 'reject'].includes(verb ?? '') || !requestId) {
+    return new Response('Invalid action format', { status: 400 });
+  }
+  if (!isValidUUID(requestId)) {
+    return new Response('Invalid request ID format', { status: 400 });
+  }
+
+  const status = verb === 'reject' ? 'rejected' : 'approved';
+  const resolvedBy = activity.from?.name || activity.from?.aadObjectId || activity.from?.id || 'unknown';
+
+  const approverId = activity.from?.aadObjectId || activity.from?.id || resolvedBy;
+  const grant = verb === 'approve_similar';
+  const outcome = resolvePendingRequest(ctx, requestId, status, approverId, resolvedBy, 'teams', grant);
+  if (!outcome.ok) {
+    switch (outcome.reason) {
+      case 'duplicate_vote':
+        return teamsMessageResponse(`⚠️ Already approved (${outcome.approvals}/${outcome.required} approvals)`);
+      case 'quorum_pending':
+        // 정족수 미달: 카드를 유지하고 진행 상황만 표시
+        return teamsMessageResponse(`☑️ Approval recorded (${outcome.approvals}/${outcome.required} approvals)`);
+      case 'not_found':
+        return teamsMessageResponse('⚠️ Request not found');
+      case 'already_resolved':
+        return teamsMessageResponse('⚠️ Request already resolved');
+      case 'expired':
+        return teamsCardResponse('⏰ Request expired (>1 hour)', 'Warning');
+      case 'invalid_signature':
+        return teamsMessageResponse('⚠️ 유효하지 않은 요청입니다');
+      case 'conflict':
+      case 'modification_unavailable':
+        return teamsMessageResponse('⚠️ Request not found or already resolved');
+    }
+  }
+
+  const emoji = status === 'approved' ? '✅' : '❌';
+  const actionText = status === 'approved' ? 'Approved' : 'Rejected';
+  return teamsCardResponse(
+    `${emoji} ${actionText} by ${outcome.request.resolved_by}${grantSuffix(outcome.grantedMinutes)}`,
+    status === 'approved' ? 'Good' : 'Attention'
+  );
+};
+
+// ============================================================
+// Webhook
+// ============================================================
+
+const MAX_RESOLVED_BY_LENGTH = 100;
+
+const WEBHOOK_QUORUM_ERROR = 'Requests that require multiple approvers cannot be approved via webhook';
+
+const handleWebhookCallback: CallbackHandler = async (req, ctx) => {
+  const signingSecret = ctx.getSecret('WEBHOOK_SIGNING_SECRET');
+  if (!signingSecret) {
+    console.error('Missing WEBHOOK_SIGNING_SECRET environment variable');
+    return jsonResponse({ ok: false, error: 'Server configuration error' }, 500);
+  }
+
+  const url = new URL(req.url);
+  const requestId = url.searchParams.get('requestId');
+  const action = url.searchParams.get('action');
+  if (!requestId || !action || !['approve', 'approve_similar', 'reject'].includes(action)) {
+    return jsonResponse({ ok: false, error: 'Invalid requestId or action' }, 400);
+  }
+  if (!isValidUUID(requestId)) {
+    return jsonResponse({ ok: false, error: 'Invalid request ID format' }, 400);
+  }
+
+  const signature = req.headers.get('X-Claude-Guard-Signature');
+  const timestamp = req.headers.get('X-Claude-Guard-Timestamp');
+  if (!signature || !timestamp || !isFreshTimestamp(timestamp)) {
+    return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
+  }
+
+  const bodyText = await req.text();
+  const computedSignature = `v1=${hmacHex('sha256', signingSecret, `v1:${timestamp}:${requestId}:${action}:${bodyText}`)}`;
+  if (!timingSafeEqualString(computedSignature, signature)) {
+    return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
+  }
+
+  let resolvedBy = 'webhook';
+  if (bodyText) {
+    try {
+      const parsed = JSON.parse(bodyText);
+      if (typeof parsed?.resolvedBy === 'string' && parsed.resolvedBy.trim()) {
+        resolvedBy = parsed.resolvedBy.trim().slice(0, MAX_RESOLVED_BY_LENGTH);
+      }
+    } catch {
+      return jsonResponse({ ok: false, error: 'Invalid JSON body' }, 400);
+    }
+  }
+
+  const status = action === 'reject' ? 'rejected' : 'approved';
+  // resolvedBy는 서명 키를 가진 호출자가 임의로 지정하므로 다중 승인 정족수에는 사용할 수 없음 (거부는 허용)
+  if (status === 'approved' && (ctx.db.getRequest(requestId)?.required_approvals ?? 1) > 1) {
+    return jsonResponse({ ok: false, error: WEBHOOK_QUORUM_ERROR }, 403);
+  }
+  // 서명된 요청의 resolvedBy를 승인자 ID로 사용
+  const grant = action === 'approve_similar';
+  const outcome = resolvePendingRequest(ctx, requestId, status, resolvedBy, resolvedBy, 'webhook', grant);
+  if (!outcome.ok) {
+    switch (outcome.reason) {
+      case 'duplicate_vote':
+        return jsonResponse(
+          {
+            ok: false,
+            error: 'Already approved by this approver',
+            approvals: outcome.approvals,
+            requiredApprovals: outcome.required,
+          },
+          409
+        );
+      case 'quorum_pending':
+        // 정족수 미달: 요청은 pending 상태로 유지
+        return jsonResponse({
+          ok: true,
+          requestId,
+          status: 'pending',
+          resolvedBy,
+          approvals: outcome.approvals,
+          requiredApprovals: outcome.required,
+        });
+      case 'not_found':
+        return jsonResponse({ ok: false, error: 'Request not found' }, 404);
+      case 'already_resolved':
+        return jsonResponse({ ok: false, error: 'Request already resolved', status: outcome.currentStatus }, 409);
+      case 'expired':
+        return jsonResponse({ ok: false, error: 'Request expired' }, 410);
+      case 'invalid_signature':
+        return jsonResponse({ ok: false, error: 'Invalid machine signature' }, 403);
+      case 'conflict':
+      case 'modification_unavailable':
+        return jsonResponse({ ok: false, error: 'Request not found or already resolved' }, 409);
+    }
+  }
+
+  return jsonResponse({
+    ok: true,
+    requestId,
+    status,
+    resolvedBy: outcome.request.resolved_by,
+    ...(outcome.grantedMinutes && { grantMinutes: outcome.grantedMinutes }),
+  });
+};
+
+/** Edge Function 폴더명과 동일한 경로로 노출 (예: POST /slack-callback) */
+export const CALLBACK_HANDLERS: Record<MessengerType, CallbackHandler> = {
+  slack: handleSlackCallback,
+  telegram: handleTelegramCallback,
+  whatsapp: handleWhatsAppCallback,
+  discord: handleDiscordCallback,
+  teams: handleTeamsCallback,
+  webhook: handleWebhookCallback,
+};
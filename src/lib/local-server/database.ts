@@ -0,0 +1,477 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import type { ApprovalRequest, ApprovalStatus } from '../supabase.js';
+import type { Severity } from '../rules.js';
+import type { ApprovalGrant } from '../approval-grants.js';
+import type { AuditEntry, AuditFilter, NewAuditEntry } from '../audit.js';
+
+// supabase/migrations/001_create_approval_requests.sql의 approval_requests, approvals, approval_grants,
+// approval_audit와 동일한 컬럼
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS approval_requests (
+  id TEXT PRIMARY KEY,
+  command TEXT NOT NULL,
+  danger_reason TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  cwd TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'timeout')),
+  created_at TEXT NOT NULL,
+  resolved_at TEXT,
+  resolved_by TEXT,
+  resolved_via TEXT,
+  machine_id TEXT NOT NULL,
+  required_approvals INTEGER NOT NULL DEFAULT 1 CHECK (required_approvals BETWEEN 1 AND 10),
+  approval_signature TEXT,
+  approval_expires_at TEXT,
+  grant_scope TEXT,
+  grant_minutes INTEGER,
+  message_refs TEXT NOT NULL DEFAULT '{}',
+  rejection_reason TEXT,
+  modified_command TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_status ON approval_requests(status);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_created_at ON approval_requests(created_at);
+CREATE TABLE IF NOT EXISTS approvals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  request_id TEXT NOT NULL,
+  approver TEXT NOT NULL,
+  approver_name TEXT NOT NULL,
+  via TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_approvals_request_id ON approvals(request_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approvals_request_approver ON approvals(request_id, approver);
+CREATE TABLE IF NOT EXISTS approval_grants (
+  id TEXT PRIMARY KEY,
+  request_id TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  granted_by TEXT NOT NULL,
+  granted_via TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  grant_signature TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_approval_grants_scope ON approval_grants(scope, expires_at);
+CREATE TABLE IF NOT EXISTS approval_audit (
+  id TEXT PRIMARY KEY,
+  request_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  command TEXT NOT NULL,
+  danger_reason TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  cwd TEXT NOT NULL,
+  repo TEXT,
+  status TEXT NOT NULL CHECK (status IN ('approved', 'rejected', 'timeout', 'failed')),
+  decision TEXT NOT NULL CHECK (decision IN ('allow', 'deny')),
+  resolved_by TEXT,
+  resolved_via TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  latency_ms INTEGER NOT NULL CHECK (latency_ms >= 0),
+  machine_id TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_approval_audit_machine_created ON approval_audit(machine_id, created_at);
+CREATE TRIGGER IF NOT EXISTS approval_audit_no_update BEFORE UPDATE ON approval_audit
+BEGIN
+  SELECT RAISE(ABORT, 'approval_audit is append-only');
+END;
+CREATE TRIGGER IF NOT EXISTS approval_audit_no_delete BEFORE DELETE ON approval_audit
+BEGIN
+  SELECT RAISE(ABORT, 'approval_audit is append-only');
+END;
+`;
+
+// 이전 버전에서 생성된 DB 파일에 추가할 컬럼
+const ADDED_COLUMNS: Array<{ name: string; definition: string }> = [
+  { name: 'required_approvals', definition: 'INTEGER NOT NULL DEFAULT 1' },
+  { name: 'approval_signature', definition: 'TEXT' },
+  { name: 'approval_expires_at', definition: 'TEXT' },
+  { name: 'grant_scope', definition: 'TEXT' },
+  { name: 'grant_minutes', definition: 'INTEGER' },
+  { name: 'message_refs', definition: "TEXT NOT NULL DEFAULT '{}'" },
+  { name: 'rejection_reason', definition: 'TEXT' },
+  { name: 'modified_command', definition: 'TEXT' },
+];
+
+const REQUEST_COLUMNS = [
+  'id',
+  'command',
+  'danger_reason',
+  'severity',
+  'cwd',
+  'status',
+  'created_at',
+  'resolved_at',
+  'resolved_by',
+  'resolved_via',
+  'machine_id',
+  'required_approvals',
+  'approval_signature',
+  'approval_expires_at',
+  'grant_scope',
+  'grant_minutes',
+  'rejection_reason',
+  'modified_command',
+] as const;
+
+const GRANT_COLUMNS = [
+  'id',
+  'request_id',
+  'scope',
+  'granted_by',
+  'granted_via',
+  'created_at',
+  'expires_at',
+  'grant_signature',
+] as const;
+
+const AUDIT_COLUMNS = [
+  'id',
+  'request_id',
+  'tool_name',
+  'command',
+  'danger_reason',
+  'severity',
+  'cwd',
+  'repo',
+  'status',
+  'decision',
+  'resolved_by',
+  'resolved_via',
+  'reason',
+  'latency_ms',
+  'machine_id',
+  'created_at',
+] as const;
+
+export type LocalApprovalRequest = ApprovalRequest & { machine_id: string };
+
+export interface NewLocalRequest {
+  id: string;
+  command: string;
+  dangerReason: string;
+  severity: Severity;
+  cwd: string;
+  machineId: string;
+  requiredApprovals?: number;
+  grantScope?: string;
+  grantMinutes?: number;
+}
+
+/** resolveRequest와 함께 기록하는 값 */
+export interface ResolutionDetails {
+  approval_signature?: string;
+  approval_expires_at?: string;
+  rejection_reason?: string;
+  modified_command?: string;
+}
+
+/**
+ * claude-remote-guard serve 용 SQLite 저장소 (sql.js, WASM 기반이라 네이티브 빌드 불필요)
+ * 메모리에서 동작하고 변경 시마다 파일에 저장 (단일 프로세스 전용)
+ */
+export class LocalDatabase {
+  private constructor(
+    private db: Database,
+    private filePath: string | null
+  ) {}
+
+  /**
+   * DB 파일을 열거나 새로 생성
+   * @param filePath null이면 메모리 전용 (테스트용)
+   */
+  static async open(filePath: string | null): Promise<LocalDatabase> {
+    const SQL = await initSqlJs();
+    const data = filePath && fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+    const database = new LocalDatabase(new SQL.Database(data), filePath);
+    database.db.run(SCHEMA_SQL);
+    database.migrate();
+    database.persist();
+    return database;
+  }
+
+  // SQLite는 ADD COLUMN IF NOT EXISTS를 지원하지 않으므로 컬럼 목록을 확인 후 추가
+  private migrate(): void {
+    const result = this.db.exec('PRAGMA table_info(approval_requests)');
+    const existing = new Set(result[0]?.values.map((row) => String(row[1])) ?? []);
+    for (const column of ADDED_COLUMNS) {
+      if (!existing.has(column.name)) {
+        this.db.run(`ALTER TABLE approval_requests ADD COLUMN ${column.name} ${column.definition}`);
+      }
+    }
+  }
+
+  // 임시 파일에 쓴 뒤 rename (쓰기 중 종료되어도 DB 파일이 깨지지 않도록)
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, Buffer.from(this.db.export()), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  createRequest(request: NewLocalRequest): void {
+    this.db.run(
+      `INSERT INTO approval_requests
+         (id, command, danger_reason, severity, cwd, status, created_at, machine_id, required_approvals,
+          grant_scope, grant_minutes)
+       VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?)`,
+      [
+        request.id,
+        request.command,
+        request.dangerReason,
+        request.severity,
+        request.cwd,
+        new Date().toISOString(),
+        request.machineId,
+        request.requiredApprovals ?? 1,
+        request.grantScope ?? null,
+        request.grantScope ? (request.grantMinutes ?? null) : null,
+      ]
+    );
+    this.persist();
+  }
+
+  getRequest(requestId: string): LocalApprovalRequest | null {
+    const statement = this.db.prepare(
+      `SELECT ${REQUEST_COLUMNS.join(', ')} FROM approval_requests WHERE id = ?`
+    );
+    try {
+      statement.bind([requestId]);
+      if (!statement.step()) {
+        return null;
+      }
+      const row = statement.getAsObject();
+      const request: Record<string, unknown> = {};
+      for (const column of REQUEST_COLUMNS) {
+        // NULL 컬럼은 Supabase 응답과 마찬가지로 생략
+        if (row[column] !== null && row[column] !== undefined) {
+          request[column] = row[column];
+        }
+      }
+      return request as unknown as LocalApprovalRequest;
+    } finally {
+      statement.free();
+    }
+  }
+
+  /**
+   * pending 상태인 요청만 갱신 (Edge Function의 .eq('status', 'pending')과 동일)
+   * @param details 결정 서명, 거부 사유, 승인자가 수정한 명령어 (Supabase의 같은 이름 컬럼)
+   * @returns 갱신된 요청 (이미 처리되었거나 없으면 null)
+   */
+  resolveRequest(
+    requestId: string,
+    status: Exclude<ApprovalStatus, 'pending'>,
+    resolvedBy?: string,
+    resolvedVia?: string,
+    details: ResolutionDetails = {}
+  ): LocalApprovalRequest | null {
+    this.db.run(
+      `UPDATE approval_requests
+       SET status = ?, resolved_at = ?, resolved_by = ?, resolved_via = ?,
+           approval_signature = ?, approval_expires_at = ?, rejection_reason = ?, modified_command = ?
+       WHERE id = ? AND status = 'pending'`,
+      [
+        status,
+        new Date().toISOString(),
+        resolvedBy ?? null,
+        resolvedVia ?? null,
+        details.approval_signature ?? null,
+        details.approval_expires_at ?? null,
+        details.rejection_reason ?? null,
+        details.modified_command ?? null,
+        requestId,
+      ]
+    );
+    if (this.db.getRowsModified() === 0) {
+      return null;
+    }
+    this.persist();
+    return this.getRequest(requestId);
+  }
+
+  /**
+   * 승인 투표 기록 (approvals 테이블, approver는 resolveApproverIdentity 결과)
+   * - approved: 같은 승인자의 중복 투표는 무시 (다른 채널에서 승인해도 같은 identity면 중복)
+   * - rejected: 기존 승인 투표를 거부로 변경
+   * @returns 새로 기록되었으면 true (중복 승인이면 false)
+   */
+  recordVote(
+    requestId: string,
+    approver: string,
+    approverName: string,
+    via: string,
+    decision: 'approved' | 'rejected'
+  ): boolean {
+    const conflictClause =
+      decision === 'approved' ? 'DO NOTHING' : 'DO UPDATE SET decision = excluded.decision, approver_name = excluded.approver_name';
+    this.db.run(
+      `INSERT INTO approvals (request_id, approver, approver_name, via, decision, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (request_id, approver) ${conflictClause}`,
+      [requestId, approver, approverName, via, decision, new Date().toISOString()]
+    );
+    const recorded = this.db.getRowsModified() > 0;
+    if (recorded) {
+      this.persist();
+    }
+    return recorded;
+  }
+
+  private readMessageRefs(requestId: string, machineId?: string): Record<string, string> | null {
+    const result = this.db.exec(
+      `SELECT message_refs FROM approval_requests WHERE id = ?${machineId === undefined ? '' : ' AND machine_id = ?'}`,
+      machineId === undefined ? [requestId] : [requestId, machineId]
+    );
+    const value = result[0]?.values[0]?.[0];
+    if (typeof value !== 'string') {
+      return null;
+    }
+    try {
+      return JSON.parse(value) as Record<string, string>;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 메시지 참조 저장 (Supabase set_message_ref와 동일: 요청을 만든 머신의 pending 요청에 메신저별 한 번만)
+   * @returns 저장되었으면 true
+   */
+  setMessageRef(requestId: string, machineId: string, messenger: string, ref: string): boolean {
+    const refs = this.readMessageRefs(requestId, machineId);
+    if (!refs || messenger in refs) {
+      return false;
+    }
+    this.db.run(`UPDATE approval_requests SET message_refs = ? WHERE id = ? AND status = 'pending'`, [
+      JSON.stringify({ ...refs, [messenger]: ref }),
+      requestId,
+    ]);
+    if (this.db.getRowsModified() === 0) {
+      return false;
+    }
+    this.persist();
+    return true;
+  }
+
+  getMessageRef(requestId: string, messenger: string): string | null {
+    return this.readMessageRefs(requestId)?.[messenger] ?? null;
+  }
+
+  /** 승인한 사용자의 표시 이름 목록 (투표 순서) */
+  getApprovers(requestId: string): string[] {
+    const result = this.db.exec(
+      `SELECT approver_name FROM approvals WHERE request_id = ? AND decision = 'approved' ORDER BY id`,
+      [requestId]
+    );
+    return result[0]?.values.map((row) => String(row[0])) ?? [];
+  }
+
+  /** grant 기록 (Edge Function의 approval_grants insert와 동일) */
+  createGrant(grant: Omit<ApprovalGrant, 'created_at'>): void {
+    this.db.run(
+      `INSERT INTO approval_grants (id, request_id, scope, granted_by, granted_via, created_at, expires_at, grant_signature)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        grant.id,
+        grant.request_id,
+        grant.scope,
+        grant.granted_by,
+        grant.granted_via,
+        new Date().toISOString(),
+        grant.expires_at,
+        grant.grant_signature ?? null,
+      ]
+    );
+    this.persist();
+  }
+
+  /** scope가 같은 유효한 grant 중 가장 늦게 만료되는 것 */
+  findActiveGrant(scope: string): ApprovalGrant | null {
+    const result = this.db.exec(
+      `SELECT ${GRANT_COLUMNS.join(', ')} FROM approval_grants
+       WHERE scope = ? AND expires_at > ? ORDER BY expires_at DESC LIMIT 1`,
+      [scope, new Date().toISOString()]
+    );
+    const row = result[0]?.values[0];
+    if (!row) {
+      return null;
+    }
+    return Object.fromEntries(GRANT_COLUMNS.map((column, i) => [column, row[i]])) as unknown as ApprovalGrant;
+  }
+
+  /** 감사 기록 추가 (approval_audit는 cleanupOldRequests 대상이 아님) */
+  recordAudit(entry: NewAuditEntry): void {
+    const row: AuditEntry = { ...entry, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+    this.db.run(
+      `INSERT INTO approval_audit (${AUDIT_COLUMNS.join(', ')}) VALUES (${AUDIT_COLUMNS.map(() => '?').join(', ')})`,
+      AUDIT_COLUMNS.map((column) => row[column])
+    );
+    this.persist();
+  }
+
+  /** machine_id의 감사 기록 조회 (최신순, Supabase listAuditEntries와 동일한 필터) */
+  listAudit(machineId: string, filter: AuditFilter): AuditEntry[] {
+    const conditions = ['machine_id = ?'];
+    const params: Array<string | number> = [machineId];
+    if (filter.since) {
+      conditions.push('created_at >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until) {
+      conditions.push('created_at <= ?');
+      params.push(filter.until);
+    }
+    if (filter.severity) {
+      conditions.push('severity = ?');
+      params.push(filter.severity);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.repo) {
+      conditions.push('repo = ?');
+      params.push(filter.repo);
+    }
+    if (filter.approver) {
+      conditions.push(`resolved_by LIKE ? ESCAPE '\\'`);
+      params.push(`%${filter.approver.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+    }
+    params.push(filter.limit);
+
+    const result = this.db.exec(
+      `SELECT ${AUDIT_COLUMNS.join(', ')} FROM approval_audit
+       WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ?`,
+      params
+    );
+    return (result[0]?.values ?? []).map(
+      (row) => Object.fromEntries(AUDIT_COLUMNS.map((column, i) => [column, row[i]])) as unknown as AuditEntry
+    );
+  }
+
+  /** 오래된 요청 삭제 (Supabase cleanup_old_approval_requests와 동일하게 7일 기준) */
+  cleanupOldRequests(maxAgeMs: number = 7 * 24 * 60 * 60 * 1000): number {
+    const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+    this.db.run('DELETE FROM approval_requests WHERE created_at < ?', [cutoff]);
+    const deleted = this.db.getRowsModified();
+    // Supabase의 ON DELETE CASCADE와 동일하게 삭제된 요청의 투표도 정리
+    this.db.run('DELETE FROM approvals WHERE request_id NOT IN (SELECT id FROM approval_requests)');
+    this.db.run('DELETE FROM approval_grants WHERE expires_at < ?', [new Date().toISOString()]);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,36 @@
+import * as crypto from 'node:crypto';
+import type { Config } from '../config.js';
+
+/**
+ * Telegram setWebhook의 secret_token (apiToken에서 유도)
+ * serve와 init이 같은 값을 계산하므로 별도로 저장할 필요 없음
+ */
+export function deriveTelegramWebhookSecret(apiToken: string): string {
+  return crypto.createHmac('sha256', apiToken).update('telegram-webhook-secret').digest('hex');
+}
+
+/**
+ * serve가 사용할 callback 시크릿 조회
+ * Edge Function과 같은 환경변수 이름을 우선 사용하고, 없으면 config에서 유도
+ * (SLACK_SIGNING_SECRET, DISCORD_PUBLIC_KEY는 config에 없으므로 환경변수 필수)
+ */
+export function createSecretResolver(
+  config: Config,
+  env: NodeJS.ProcessEnv = process.env
+): (name: string) => string | undefined {
+  const fromConfig: Record<string, string | undefined> = {
+    SLACK_BOT_TOKEN: config.messenger.slack?.botToken,
+    TELEGRAM_BOT_TOKEN: config.messenger.telegram?.botToken,
+    TELEGRAM_WEBHOOK_SECRET: config.localServer ? deriveTelegramWebhookSecret(config.localServer.apiToken) : undefined,
+    TWILIO_AUTH_TOKEN: config.messenger.whatsapp?.authToken,
+    TEAMS_APP_ID: config.messenger.teams?.appId,
+    WEBHOOK_SIGNING_SECRET: config.messenger.webhook?.secret,
+    MACHINE_ID_SECRET: config.machineIdSecret,
+    SLACK_ALLOWED_APPROVERS: config.allowedApprovers?.slack?.join(','),
+    TELEGRAM_ALLOWED_APPROVERS: config.allowedApprovers?.telegram?.join(','),
+    WHATSAPP_ALLOWED_APPROVERS: config.allowedApprovers?.whatsapp?.join(','),
+    APPROVER_IDENTITIES: config.approverIdentities ? JSON.stringify(config.approverIdentities) : undefined,
+  };
+
+  return (name) => env[name] || fromConfig[name] || undefined;
+}
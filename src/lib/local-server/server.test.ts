@@ -0,0 +1,403 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as crypto from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { RateLimiter, startLocalServer, type RunningLocalServer } from './server.js';
+import { LocalApprovalStore } from '../approval-store.js';
+import type { ApprovalStatus, ApprovalRequest } from '../supabase.js';
+import { signWebhookBody } from '../messenger/webhook.js';
+
+const API_TOKEN = 'a'.repeat(64);
+const WEBHOOK_SECRET = 'b'.repeat(64);
+const MACHINE_ID = 'c'.repeat(32);
+const SLACK_SIGNING_SECRET = 'd'.repeat(32);
+const ALLOWED_SLACK_USER = 'U01ALLOWED';
+const TWILIO_AUTH_TOKEN = 'f'.repeat(32);
+const ALICE_WHATSAPP = '+821012345678';
+
+const SECRETS: Record<string, string> = {
+  WEBHOOK_SIGNING_SECRET: WEBHOOK_SECRET,
+  SLACK_SIGNING_SECRET,
+  SLACK_ALLOWED_APPROVERS: `${ALLOWED_SLACK_USER}, U02OTHER`,
+  SLACK_BOT_TOKEN: 'xoxb-test',
+  TWILIO_AUTH_TOKEN,
+  // 같은 사람의 Slack/WhatsApp ID (정족수는 사람 단위로 집계)
+  APPROVER_IDENTITIES: JSON.stringify({ alice: { slack: ALLOWED_SLACK_USER, whatsapp: ALICE_WHATSAPP } }),
+};
+
+const newRequest = {
+  command: 'rm -rf ./dist',
+  dangerReason: 'Recursive delete',
+  severity: 'high' as const,
+  cwd: '/tmp/project',
+};
+
+async function postWebhookCallback(
+  server: RunningLocalServer,
+  requestId: string,
+  action: 'approve' | 'approve_similar' | 'reject',
+  body = JSON.stringify({ resolvedBy: 'alice' })
+): Promise<Response> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  // 서명 대상: v1:{timestamp}:{requestId}:{action}:{body}
+  const signature = signWebhookBody(WEBHOOK_SECRET, timestamp, `${requestId}:${action}:${body}`);
+  return fetch(`${server.url}/webhook-callback?requestId=${requestId}&action=${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Claude-Guard-Timestamp': String(timestamp),
+      'X-Claude-Guard-Signature': signature,
+    },
+    body,
+  });
+}
+
+async function postSlackCallback(server: RunningLocalServer, requestId: string, userId: string): Promise<Response> {
+  return postSlackPayload(server, {
+    type: 'block_actions',
+    user: { id: userId, username: 'bob', name: 'bob' },
+    actions: [{ action_id: 'approve_command', value: requestId }],
+  });
+}
+
+async function postWhatsAppReply(server: RunningLocalServer, from: string, body: string): Promise<Response> {
+  const url = `${server.url}/whatsapp-callback`;
+  const params: Record<string, string> = { From: `whatsapp:${from}`, Body: body };
+  // Twilio 서명: URL + 정렬된 key/value 를 HMAC-SHA1 (base64)
+  const data = url + Object.keys(params).sort().map((key) => `${key}${params[key]}`).join('');
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': crypto.createHmac('sha1', TWILIO_AUTH_TOKEN).update(data).digest('base64'),
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+async function postSlackPayload(server: RunningLocalServer, payload: Record<string, unknown>): Promise<Response> {
+  const body = new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = `v0=${crypto.createHmac('sha256', SLACK_SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+  return fetch(`${server.url}/slack-callback`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Slack-Request-Timestamp': timestamp,
+      'X-Slack-Signature': signature,
+    },
+    body,
+  });
+}
+
+function waitForResolution(
+  store: LocalApprovalStore,
+  requestId: string,
+  timeoutMs: number
+): Promise<{ status: ApprovalStatus; request?: ApprovalRequest }> {
+  return new Promise((resolve) => {
+    store.listenForApproval(requestId, timeoutMs, (status, request) => resolve({ status, request }));
+  });
+}
+
+describe('local approval server', () => {
+  let server: RunningLocalServer;
+  let store: LocalApprovalStore;
+
+  beforeEach(async () => {
+    server = await startLocalServer({
+      host: '127.0.0.1',
+      port: 0,
+      dbPath: null,
+      apiToken: API_TOKEN,
+      getSecret: (name) => SECRETS[name],
+    });
+    store = new LocalApprovalStore(server.url, API_TOKEN, MACHINE_ID);
+  });
+
+  afterEach(async () => {
+    await store.shutdown();
+    await server.close();
+  });
+
+  it('should reject API calls without the token', async () => {
+    const result = await new LocalApprovalStore(server.url, 'wrong-token', MACHINE_ID).testConnection();
+    expect(result.ok).toBe(false);
+    expect(await store.testConnection()).toEqual({ ok: true });
+  });
+
+  it('should create requests and mask sensitive values', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, { ...newRequest, command: 'curl "https://x.io?token=secret123"' });
+
+    const request = await store.getRequest(requestId);
+    expect(request?.status).toBe('pending');
+    expect(request?.command).toContain('token=[REDACTED]');
+    expect(request).not.toHaveProperty('machine_id');
+    expect(await store.getRequest(uuidv4())).toBeNull();
+  });
+
+  it('should store message refs once and only for the requesting machine', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const otherMachine = new LocalApprovalStore(server.url, API_TOKEN, 'e'.repeat(32));
+    expect(await otherMachine.setMessageRef(requestId, 'slack', 'C0123:1700000000.000100')).toBe(false);
+    expect(await store.setMessageRef(requestId, 'slack', 'C0123:1700000000.000100')).toBe(true);
+    expect(await store.setMessageRef(requestId, 'slack', 'C9999:1700000000.000200')).toBe(false);
+    await expect(store.setMessageRef(requestId, 'unknown' as never, 'x')).rejects.toThrow('400');
+  });
+
+  it('should push webhook callback decisions to listeners', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const resolution = waitForResolution(store, requestId, 10000);
+    // SSE 구독이 등록될 때까지 대기
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const response = await postWebhookCallback(server, requestId, 'approve');
+    expect(response.status).toBe(200);
+
+    const { status, request } = await resolution;
+    expect(status).toBe('approved');
+    expect(request?.resolved_by).toBe('alice');
+    expect(request?.resolved_via).toBe('webhook');
+
+    // 이미 처리된 요청은 다시 변경되지 않음
+    const again = await postWebhookCallback(server, requestId, 'reject');
+    expect(again.status).toBe(409);
+  });
+
+  it('should reject callbacks with an invalid signature', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const response = await fetch(`${server.url}/webhook-callback?requestId=${requestId}&action=approve`, {
+      method: 'POST',
+      headers: {
+        'X-Claude-Guard-Timestamp': String(Math.floor(Date.now() / 1000)),
+        'X-Claude-Guard-Signature': 'v1=deadbeef',
+      },
+    });
+    expect(response.status).toBe(401);
+    expect((await store.getRequest(requestId))?.status).toBe('pending');
+  });
+
+  it('should reject approvers outside the allowlist', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const denied = await postSlackCallback(server, requestId, 'U09STRANGER');
+    expect(denied.status).toBe(403);
+    expect((await store.getRequest(requestId))?.status).toBe('pending');
+
+    const allowed = await postSlackCallback(server, requestId, ALLOWED_SLACK_USER);
+    expect(allowed.status).toBe(200);
+    expect((await store.getRequest(requestId))?.status).toBe('approved');
+  });
+
+  it('should store the reason submitted from the Slack reject modal', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const response = await postSlackPayload(server, {
+      type: 'view_submission',
+      user: { id: ALLOWED_SLACK_USER, username: 'bob', name: 'bob' },
+      view: {
+        callback_id: 'reject_reason',
+        private_metadata: JSON.stringify({ request_id: requestId }),
+        state: { values: { reason: { reason_input: { value: '  use git push\n--force-with-lease instead ' } } } },
+      },
+    });
+    // 빈 응답으로 modal을 닫음
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('');
+
+    const request = await store.getRequest(requestId);
+    expect(request?.status).toBe('rejected');
+    expect(request?.rejection_reason).toBe('use git push --force-with-lease instead');
+  });
+
+  it('should re-fetch Slack message blocks omitted from the modal metadata', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+    await store.setMessageRef(requestId, 'slack', 'C0123:1700000000.000100');
+
+    const originalFetch = globalThis.fetch;
+    const slackCalls: Array<{ url: string; body?: unknown }> = [];
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const url = String(input);
+      if (!url.startsWith('https://slack.com/api/')) {
+        return originalFetch(input, init);
+      }
+      slackCalls.push({ url, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+      const blocks = [
+        { type: 'section', text: { type: 'mrkdwn', text: 'rm -rf ./dist' } },
+        { type: 'actions', elements: [] },
+      ];
+      return Response.json({ ok: true, messages: [{ ts: '1700000000.000100', blocks }] });
+    });
+
+    try {
+      // 긴 메시지는 private_metadata에 blocks 없이 request_id만 담김
+      const response = await postSlackPayload(server, {
+        type: 'view_submission',
+        user: { id: ALLOWED_SLACK_USER, username: 'bob', name: 'bob' },
+        view: {
+          callback_id: 'reject_reason',
+          private_metadata: JSON.stringify({ request_id: requestId }),
+          state: { values: { reason: { reason_input: { value: 'no' } } } },
+        },
+      });
+      expect(response.status).toBe(200);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+
+    expect(slackCalls.map((call) => new URL(call.url).pathname)).toEqual([
+      '/api/conversations.history',
+      '/api/chat.update',
+    ]);
+    expect(new URL(slackCalls[0].url).searchParams.get('latest')).toBe('1700000000.000100');
+    // 버튼(actions)은 제거하고 원본 내용 + 결과 footer로 갱신
+    expect(slackCalls[1].body).toMatchObject({
+      channel: 'C0123',
+      ts: '1700000000.000100',
+      blocks: [{ type: 'section' }, { type: 'context' }],
+    });
+  });
+
+  it('should store the command submitted from the Slack edit modal', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const submitEdit = (command: string) =>
+      postSlackPayload(server, {
+        type: 'view_submission',
+        user: { id: ALLOWED_SLACK_USER, username: 'bob', name: 'bob' },
+        view: {
+          callback_id: 'edit_approve',
+          private_metadata: JSON.stringify({ request_id: requestId }),
+          state: { values: { command: { command_input: { value: command } } } },
+        },
+      });
+
+    // 빈 명령어는 modal에 오류 표시
+    expect(await (await submitEdit('   ')).json()).toMatchObject({ response_action: 'errors' });
+    expect(await (await submitEdit(' rm -rf ./dist/cache\n')).text()).toBe('');
+
+    const request = await store.getRequest(requestId);
+    expect(request?.status).toBe('approved');
+    expect(request?.modified_command).toBe('rm -rf ./dist/cache');
+  });
+
+  it('should wait for the approval quorum', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, { ...newRequest, severity: 'critical', requiredApprovals: 2 });
+
+    const first = await postSlackCallback(server, requestId, ALLOWED_SLACK_USER);
+    expect(first.status).toBe(200);
+    expect((await store.getRequest(requestId))?.status).toBe('pending');
+
+    // 같은 승인자의 중복 승인은 다른 채널에서 보내도 정족수에 포함되지 않음
+    await postSlackCallback(server, requestId, ALLOWED_SLACK_USER);
+    const crossChannel = await postWhatsAppReply(server, ALICE_WHATSAPP, `APPROVE ${requestId}`);
+    expect(await crossChannel.text()).toContain('already approved');
+    expect((await store.getRequest(requestId))?.status).toBe('pending');
+
+    await postSlackCallback(server, requestId, 'U02OTHER');
+    expect((await store.getRequest(requestId))?.status).toBe('approved');
+  });
+
+  it('should not count self-asserted webhook approvers toward a quorum', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, { ...newRequest, severity: 'critical', requiredApprovals: 2 });
+
+    const approve = await postWebhookCallback(server, requestId, 'approve');
+    expect(approve.status).toBe(403);
+    expect((await store.getRequest(requestId))?.status).toBe('pending');
+
+    // 거부는 한 명만 해도 즉시 반영
+    const reject = await postWebhookCallback(server, requestId, 'reject');
+    expect(reject.status).toBe(200);
+    expect((await store.getRequest(requestId))?.status).toBe('rejected');
+  });
+
+  it('should create a grant only for approve_similar on requests that offer it', async () => {
+    const scope = 'e'.repeat(64);
+    const plainId = uuidv4();
+    await store.createRequest(plainId, newRequest);
+    await postWebhookCallback(server, plainId, 'approve_similar');
+    expect(await store.findActiveGrant(scope)).toBeNull();
+
+    const requestId = uuidv4();
+    await store.createRequest(requestId, { ...newRequest, grantScope: scope, grantMinutes: 30 });
+    const response = await postWebhookCallback(server, requestId, 'approve_similar');
+    expect(await response.json()).toMatchObject({ status: 'approved', grantMinutes: 30 });
+
+    const grant = await store.findActiveGrant(scope);
+    expect(grant).toMatchObject({ request_id: requestId, granted_by: 'alice', granted_via: 'webhook' });
+    expect(new Date(grant!.expires_at).getTime()).toBeGreaterThan(Date.now() + 29 * 60 * 1000);
+  });
+
+  it('should record audit entries and list them per machine', async () => {
+    const entry = {
+      request_id: uuidv4(),
+      tool_name: 'Bash',
+      command: 'curl "https://x.io?token=secret123"',
+      danger_reason: 'Force push',
+      severity: 'high' as const,
+      cwd: '/repo/api',
+      repo: '/repo',
+      status: 'approved' as const,
+      decision: 'allow' as const,
+      resolved_by: 'alice, bob',
+      resolved_via: 'slack',
+      reason: 'Approved via Slack',
+      latency_ms: 1200,
+      machine_id: 'ignored-by-server',
+    };
+    await store.recordAudit(entry);
+    await store.recordAudit({ ...entry, request_id: uuidv4(), status: 'timeout', decision: 'deny', resolved_by: null });
+
+    const all = await store.listAudit({ limit: 10 });
+    expect(all).toHaveLength(2);
+    expect(all.find((e) => e.request_id === entry.request_id)).toMatchObject({
+      machine_id: MACHINE_ID,
+      command: 'curl "https://x.io?token=[REDACTED]"',
+    });
+    expect(await store.listAudit({ limit: 10, approver: 'bob' })).toHaveLength(1);
+    expect(await store.listAudit({ limit: 10, status: 'timeout', repo: '/repo' })).toHaveLength(1);
+    expect(await store.listAudit({ limit: 10, repo: '/other' })).toEqual([]);
+
+    const otherMachine = new LocalApprovalStore(server.url, API_TOKEN, `${'f'.repeat(32)}:123:sig`);
+    expect(await otherMachine.listAudit({ limit: 10 })).toEqual([]);
+  });
+
+  it('should record timeout when no decision arrives', async () => {
+    const requestId = uuidv4();
+    await store.createRequest(requestId, newRequest);
+
+    const { status } = await waitForResolution(store, requestId, 200);
+    expect(status).toBe('timeout');
+    expect((await store.getRequest(requestId))?.status).toBe('timeout');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should limit per client and drop clients whose window has passed', () => {
+    let now = 0;
+    const limiter = new RateLimiter(() => now);
+    for (let i = 0; i < 30; i++) {
+      expect(limiter.check('10.0.0.1')).toBe(true);
+    }
+    expect(limiter.check('10.0.0.1')).toBe(false);
+    expect(limiter.check('10.0.0.2')).toBe(true);
+    expect(limiter.size).toBe(2);
+
+    now = 60_000;
+    expect(limiter.check('10.0.0.3')).toBe(true);
+    expect(limiter.size).toBe(1);
+    expect(limiter.check('10.0.0.1')).toBe(true);
+  });
+});
@@ -0,0 +1,576 @@
+import * as http from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import { getEdgeFunctionName } from '../edge-function.js';
+import type { MessengerType } from '../messenger/types.js';
+import type { ApprovalRequest } from '../supabase.js';
+import { MAX_GRANT_MINUTES } from '../approval-grants.js';
+import { isAuditStatus, isSeverity, MAX_AUDIT_LIMIT, type AuditFilter, type NewAuditEntry } from '../audit.js';
+import { LocalDatabase, type LocalApprovalRequest } from './database.js';
+import { CALLBACK_HANDLERS, isValidUUID, timingSafeEqualString, type CallbackContext } from './callbacks.js';
+
+export interface LocalServerOptions {
+  host: string;
+  port: number;
+  // SQLite 파일 경로 (null이면 메모리 전용)
+  dbPath: string | null;
+  // hook ↔ 서버 API 인증 토큰 (config.localServer.apiToken)
+  apiToken: string;
+  // 외부에서 접근하는 URL (Twilio 서명 검증용, 리버스 프록시/터널 뒤에서 실행 시 필요)
+  publicUrl?: string;
+  // Edge Function과 같은 이름의 시크릿 조회 (SLACK_SIGNING_SECRET 등)
+  getSecret: (name: string) => string | undefined;
+}
+
+export interface RunningLocalServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Edge Function의 rate_limits 테이블과 동일한 기준 (IP당 1분 30회)
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX_REQUESTS = 30;
+
+// 프록시가 유휴 연결을 끊지 않도록 SSE heartbeat 전송
+const SSE_HEARTBEAT_MS = 15 * 1000;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Supabase의 "Allow select own requests" 정책과 동일하게 1시간 이내 요청만 조회 허용
+const MAX_VISIBLE_AGE_MS = 60 * 60 * 1000;
+
+const VALID_SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+// approval_requests.required_approvals CHECK 제약과 동일
+const MAX_REQUIRED_APPROVALS = 10;
+
+// set_message_ref의 p_ref 최대 길이와 동일
+const MAX_MESSAGE_REF_LENGTH = 200;
+
+// computeGrantScope 결과 (sha256 hex)
+const GRANT_SCOPE_REGEX = /^[0-9a-f]{64}$/;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Payload too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// API 응답에는 machine_id를 포함하지 않음 (새 컬럼이 그대로 노출되지 않도록 필드를 명시)
+function toPublicRequest(request: LocalApprovalRequest): ApprovalRequest {
+  return {
+    id: request.id,
+    command: request.command,
+    danger_reason: request.danger_reason,
+    severity: request.severity,
+    cwd: request.cwd,
+    status: request.status,
+    created_at: request.created_at,
+    resolved_at: request.resolved_at,
+    resolved_by: request.resolved_by,
+    resolved_via: request.resolved_via,
+    required_approvals: request.required_approvals,
+    approval_signature: request.approval_signature,
+    approval_expires_at: request.approval_expires_at,
+    grant_scope: request.grant_scope,
+    grant_minutes: request.grant_minutes,
+    message_refs: request.message_refs,
+    rejection_reason: request.rejection_reason,
+    modified_command: request.modified_command,
+  };
+}
+
+/**
+ * 식별자(클라이언트 주소)별 요청 제한
+ * 윈도우가 지난 기록은 요청 시 정리하고, 요청이 끊긴 식별자도 남지 않도록 윈도우마다 한 번씩 삭제합니다.
+ */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private lastSweep: number;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.lastSweep = now();
+  }
+
+  /** 기록이 남아 있는 식별자 수 */
+  get size(): number {
+    return this.hits.size;
+  }
+
+  check(identifier: string): boolean {
+    const time = this.now();
+    if (time - this.lastSweep >= RATE_LIMIT_WINDOW_MS) {
+      this.sweep(time);
+    }
+
+    const recent = (this.hits.get(identifier) ?? []).filter((hit) => time - hit < RATE_LIMIT_WINDOW_MS);
+    if (recent.length >= RATE_LIMIT_MAX_REQUESTS) {
+      this.hits.set(identifier, recent);
+      return false;
+    }
+    recent.push(time);
+    this.hits.set(identifier, recent);
+    return true;
+  }
+
+  private sweep(time: number): void {
+    for (const [identifier, times] of this.hits) {
+      if (times.every((hit) => time - hit >= RATE_LIMIT_WINDOW_MS)) {
+        this.hits.delete(identifier);
+      }
+    }
+    this.lastSweep = time;
+  }
+}
+
+/**
+ * Supabase 없이 승인 요청을 처리하는 로컬 서버 (claude-remote-guard serve)
+ *
+ * - /api/requests...: hook이 사용하는 API (Bearer apiToken 인증)
+ * - /<messenger>-callback: Edge Function과 동일한 메신저 callback 경로
+ * - /api/requests/:id/events: 처리 결과를 SSE로 push
+ */
+export async function startLocalServer(options: LocalServerOptions): Promise<RunningLocalServer> {
+  const db = await LocalDatabase.open(options.dbPath);
+  const listeners = new Map<string, Set<http.ServerResponse>>();
+  const rateLimiter = new RateLimiter();
+
+  const callbackTypes = new Set<string>(Object.keys(CALLBACK_HANDLERS));
+  const callbackRoutes = new Map<string, MessengerType>(
+    ([...callbackTypes] as MessengerType[]).map((type) => [`/${getEdgeFunctionName(type)}`, type])
+  );
+
+  function pushResolution(request: LocalApprovalRequest): void {
+    const subscribers = listeners.get(request.id);
+    if (!subscribers) {
+      return;
+    }
+    const data = `event: resolved\ndata: ${JSON.stringify(toPublicRequest(request))}\n\n`;
+    for (const res of subscribers) {
+      res.end(data);
+    }
+    listeners.delete(request.id);
+  }
+
+  const callbackContext: CallbackContext = {
+    db,
+    getSecret: options.getSecret,
+    onResolved: pushResolution,
+  };
+
+  function isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization;
+    return typeof header === 'string' && timingSafeEqualString(header, `Bearer ${options.apiToken}`);
+  }
+
+  function getVisibleRequest(requestId: string): LocalApprovalRequest {
+    const request = isValidUUID(requestId) ? db.getRequest(requestId) : null;
+    if (!request || Date.now() - new Date(request.created_at).getTime() > MAX_VISIBLE_AGE_MS) {
+      throw new HttpError(404, 'Request not found');
+    }
+    return request;
+  }
+
+  async function handleCreateRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const machineId = req.headers['x-machine-id'];
+    if (typeof machineId !== 'string' || machineId.length < 16) {
+      throw new HttpError(400, 'x-machine-id header is required');
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse((await readBody(req)).toString('utf8'));
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+
+    const { id, command, dangerReason, severity, cwd, requiredApprovals = 1, grantScope, grantMinutes } = body;
+    if (
+      typeof id !== 'string' ||
+      !isValidUUID(id) ||
+      typeof command !== 'string' ||
+      typeof dangerReason !== 'string' ||
+      typeof cwd !== 'string' ||
+      typeof severity !== 'string' ||
+      !VALID_SEVERITIES.includes(severity) ||
+      typeof requiredApprovals !== 'number' ||
+      !Number.isInteger(requiredApprovals) ||
+      requiredApprovals < 1 ||
+      requiredApprovals > MAX_REQUIRED_APPROVALS ||
+      (grantScope !== undefined &&
+        (typeof grantScope !== 'string' ||
+          !GRANT_SCOPE_REGEX.test(grantScope) ||
+          typeof grantMinutes !== 'number' ||
+          !Number.isInteger(grantMinutes) ||
+          grantMinutes < 1 ||
+          grantMinutes > MAX_GRANT_MINUTES))
+    ) {
+      throw new HttpError(400, 'Invalid request body');
+    }
+    if (db.getRequest(id)) {
+      throw new HttpError(409, 'Request already exists');
+    }
+
+    db.createRequest({
+      id,
+      command,
+      dangerReason,
+      severity: severity as LocalApprovalRequest['severity'],
+      cwd,
+      machineId,
+      requiredApprovals,
+      grantScope: grantScope as string | undefined,
+      grantMinutes: grantMinutes as number | undefined,
+    });
+    sendJson(res, 201, { ok: true });
+  }
+
+  // Supabase set_message_ref와 동일: 요청을 만든 머신(x-machine-id)의 pending 요청에 메신저별 한 번만 기록
+  async function handleSetMessageRef(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    requestId: string
+  ): Promise<void> {
+    const machineId = req.headers['x-machine-id'];
+    if (typeof machineId !== 'string' || machineId.length < 16) {
+      throw new HttpError(400, 'x-machine-id header is required');
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse((await readBody(req)).toString('utf8'));
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+
+    const { messenger, ref } = body;
+    if (
+      typeof messenger !== 'string' ||
+      !callbackTypes.has(messenger) ||
+      typeof ref !== 'string' ||
+      ref.length === 0 ||
+      ref.length > MAX_MESSAGE_REF_LENGTH
+    ) {
+      throw new HttpError(400, 'Invalid request body');
+    }
+
+    getVisibleRequest(requestId);
+    sendJson(res, 200, { ok: true, updated: db.setMessageRef(requestId, machineId, messenger, ref) });
+  }
+
+  // 감사 기록은 x-machine-id 헤더의 machineId 부분으로 구분 (Supabase RLS 정책과 동일)
+  function getAuditMachineId(req: http.IncomingMessage): string {
+    const header = req.headers['x-machine-id'];
+    const machineId = typeof header === 'string' ? header.split(':')[0] : '';
+    if (machineId.length < 16) {
+      throw new HttpError(400, 'x-machine-id header is required');
+    }
+    return machineId;
+  }
+
+  async function handleRecordAudit(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const machineId = getAuditMachineId(req);
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse((await readBody(req)).toString('utf8'));
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+
+    const isString = (value: unknown): value is string => typeof value === 'string';
+    const { request_id, severity, status, decision, repo, resolved_by, latency_ms } = body;
+    if (
+      !isString(request_id) ||
+      !isValidUUID(request_id) ||
+      !isString(body.tool_name) ||
+      !isString(body.command) ||
+      !isString(body.danger_reason) ||
+      !isString(body.cwd) ||
+      !isString(body.resolved_via) ||
+      !isString(body.reason) ||
+      !isString(severity) ||
+      !isSeverity(severity) ||
+      !isString(status) ||
+      !isAuditStatus(status) ||
+      (decision !== 'allow' && decision !== 'deny') ||
+      (repo !== null && !isString(repo)) ||
+      (resolved_by !== null && !isString(resolved_by)) ||
+      typeof latency_ms !== 'number' ||
+      !Number.isInteger(latency_ms) ||
+      latency_ms < 0
+    ) {
+      throw new HttpError(400, 'Invalid audit entry');
+    }
+
+    const entry: NewAuditEntry = {
+      request_id,
+      tool_name: body.tool_name,
+      command: body.command,
+      danger_reason: body.danger_reason,
+      severity,
+      cwd: body.cwd,
+      repo,
+      status,
+      decision,
+      resolved_by,
+      resolved_via: body.resolved_via,
+      reason: body.reason,
+      latency_ms,
+      machine_id: machineId,
+    };
+    db.recordAudit(entry);
+    sendJson(res, 201, { ok: true });
+  }
+
+  function handleListAudit(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): void {
+    const machineId = getAuditMachineId(req);
+
+    const limit = Number(query.get('limit') ?? '50');
+    const severity = query.get('severity') ?? undefined;
+    const status = query.get('status') ?? undefined;
+    const since = query.get('since') ?? undefined;
+    const until = query.get('until') ?? undefined;
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_AUDIT_LIMIT ||
+      (severity !== undefined && !isSeverity(severity)) ||
+      (status !== undefined && !isAuditStatus(status)) ||
+      (since !== undefined && Number.isNaN(Date.parse(since))) ||
+      (until !== undefined && Number.isNaN(Date.parse(until)))
+    ) {
+      throw new HttpError(400, 'Invalid audit filter');
+    }
+
+    const filter: AuditFilter = {
+      since: since && new Date(since).toISOString(),
+      until: until && new Date(until).toISOString(),
+      severity,
+      status,
+      repo: query.get('repo') ?? undefined,
+      approver: query.get('approver') ?? undefined,
+      limit,
+    };
+    sendJson(res, 200, db.listAudit(machineId, filter));
+  }
+
+  function handleEvents(res: http.ServerResponse, requestId: string): void {
+    const request = getVisibleRequest(requestId);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    // 구독 전에 이미 처리된 경우 즉시 전달
+    if (request.status !== 'pending') {
+      res.end(`event: resolved\ndata: ${JSON.stringify(toPublicRequest(request))}\n\n`);
+      return;
+    }
+
+    res.write(': subscribed\n\n');
+    const subscribers = listeners.get(requestId) ?? new Set();
+    subscribers.add(res);
+    listeners.set(requestId, subscribers);
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      subscribers.delete(res);
+      if (subscribers.size === 0) {
+        listeners.delete(requestId);
+      }
+    });
+  }
+
+  async function handleCallback(req: http.IncomingMessage, res: http.ServerResponse, type: MessengerType): Promise<void> {
+    if (!rateLimiter.check(req.socket.remoteAddress ?? 'unknown')) {
+      sendJson(res, 429, { error: 'Too many requests' });
+      return;
+    }
+
+    const body = await readBody(req);
+    const baseUrl = options.publicUrl ?? `http://${req.headers.host ?? 'localhost'}`;
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+      }
+    }
+
+    const request = new Request(baseUrl.replace(/\/+$/, '') + (req.url ?? '/'), {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body,
+    });
+
+    let response: Response;
+    if (req.method !== 'POST') {
+      response = new Response('Method not allowed', { status: 405 });
+    } else {
+      try {
+        response = await CALLBACK_HANDLERS[type](request, callbackContext);
+      } catch (error) {
+        console.error(`Error processing ${type} callback:`, error);
+        response = new Response('Internal server error', { status: 500 });
+      }
+    }
+
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    const callbackType = callbackRoutes.get(pathname);
+    if (callbackType) {
+      await handleCallback(req, res, callbackType);
+      return;
+    }
+
+    if (!pathname.startsWith('/api/')) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (!isAuthorized(req)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    if (pathname === '/api/health' && req.method === 'GET') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    if (pathname === '/api/requests' && req.method === 'POST') {
+      await handleCreateRequest(req, res);
+      return;
+    }
+
+    if (pathname === '/api/audit') {
+      if (req.method === 'POST') {
+        await handleRecordAudit(req, res);
+      } else if (req.method === 'GET') {
+        handleListAudit(req, res, searchParams);
+      } else {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      return;
+    }
+
+    const grantMatch = pathname.match(/^\/api\/grants\/([^/]+)$/);
+    if (grantMatch && req.method === 'GET') {
+      const grant = GRANT_SCOPE_REGEX.test(grantMatch[1]) ? db.findActiveGrant(grantMatch[1]) : null;
+      if (!grant) {
+        throw new HttpError(404, 'Grant not found');
+      }
+      sendJson(res, 200, grant);
+      return;
+    }
+
+    const match = pathname.match(/^\/api\/requests\/([^/]+)(\/events|\/timeout|\/message-ref)?$/);
+    if (!match) {
+      throw new HttpError(404, 'Not found');
+    }
+    const [, requestId, action] = match;
+
+    if (!action && req.method === 'GET') {
+      sendJson(res, 200, toPublicRequest(getVisibleRequest(requestId)));
+    } else if (action === '/events' && req.method === 'GET') {
+      handleEvents(res, requestId);
+    } else if (action === '/timeout' && req.method === 'POST') {
+      // hook은 timeout만 기록 가능 (승인/거부는 메신저 callback으로만)
+      getVisibleRequest(requestId);
+      const updated = db.resolveRequest(requestId, 'timeout');
+      if (updated) {
+        pushResolution(updated);
+      }
+      sendJson(res, 200, { ok: true, updated: updated !== null });
+    } else if (action === '/message-ref' && req.method === 'POST') {
+      await handleSetMessageRef(req, res, requestId);
+    } else {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((error) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { ok: false, error: error.message });
+        return;
+      }
+      console.error('[claude-remote-guard] Local server error:', error);
+      sendJson(res, 500, { ok: false, error: 'Internal server error' });
+    });
+  });
+
+  // close 시 keep-alive 연결을 종료하기 위해 추적 (server.closeAllConnections는 Node 18.2 이상에만 있음)
+  const sockets = new Set<Socket>();
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  const cleanupTimer = setInterval(() => db.cleanupOldRequests(), CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      clearInterval(cleanupTimer);
+      for (const subscribers of listeners.values()) {
+        for (const res of subscribers) {
+          res.end();
+        }
+      }
+      listeners.clear();
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+      // keep-alive 연결이 남아 있으면 close가 끝나지 않으므로 강제 종료
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      await closed;
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { execSync } from 'node:child_process';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+/**
+ * 머신 고유 식별자 생성
+ * 다양한 엔트로피 소스를 조합하여 RLS 우회를 방지
+ * - hostname, username, platform, arch: 기본 시스템 정보
+ * - machine-id: Linux/macOS 시스템 고유 ID
+ * - IOPlatformUUID: macOS 하드웨어 고유 ID
+ * - homedir: 사용자별 고유 경로
+ */
+export function getMachineId(): string {
+  const components: string[] = [
+    os.hostname(),
+    os.userInfo().username,
+    os.platform(),
+    os.arch(),
+  ];
+
+  // Linux/macOS machine-id 추가 (시스템 고유 식별자)
+  try {
+    if (fs.existsSync('/etc/machine-id')) {
+      components.push(fs.readFileSync('/etc/machine-id', 'utf8').trim());
+    } else if (fs.existsSync('/var/lib/dbus/machine-id')) {
+      components.push(fs.readFileSync('/var/lib/dbus/machine-id', 'utf8').trim());
+    }
+  } catch {
+    // 에러 시 무시하고 다른 소스 사용
+  }
+
+  // macOS: IOPlatformUUID (하드웨어 고유 ID)
+  try {
+    if (os.platform() === 'darwin') {
+      const uuid = execSync(
+        'ioreg -rd1 -c IOPlatformExpertDevice | grep IOPlatformUUID',
+        { encoding: 'utf8' }
+      );
+      const match = uuid.match(/"IOPlatformUUID" = "([^"]+)"/);
+      if (match) {
+        components.push(match[1]);
+      }
+    }
+  } catch {
+    // 에러 시 무시하고 다른 소스 사용
+  }
+
+  // 홈 디렉토리 경로 추가 (사용자별 고유)
+  components.push(os.homedir());
+
+  const raw = components.join(':');
+  return crypto.createHash('sha256').update(raw).digest('hex').substring(0, 32);
+}
+
+/**
+ * 서명된 machine_id 생성
+ * HMAC 서명으로 machine_id 위조 방지
+ * 형식: machineId:timestamp:signature
+ */
+export function getSignedMachineId(machineId: string, secret: string): string {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const payload = `${machineId}:${timestamp}`;
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(payload)
+    .digest('hex')
+    .substring(0, 16);
+  return `${payload}:${signature}`;
+}
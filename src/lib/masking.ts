@@ -0,0 +1,29 @@
+// 알림 메시지와 Supabase에 저장되는 요청 payload가 같은 마스킹 규칙을 쓰도록 한 곳에 둔다
+
+// Patterns that may contain sensitive information
+const SENSITIVE_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
+  // API keys, tokens, secrets in various formats
+  { pattern: /([?&])(api[_-]?key|token|secret|password|auth|key|access[_-]?token)=([^&\s'"]+)/gi, replacement: '$1$2=[REDACTED]' },
+  // Authorization headers
+  { pattern: /(Authorization:\s*)(Bearer\s+)?[^\s'"]+/gi, replacement: '$1$2[REDACTED]' },
+  // Environment variable assignments with sensitive names
+  { pattern: /(export\s+)?(AWS_SECRET_ACCESS_KEY|AWS_ACCESS_KEY_ID|API_KEY|SECRET_KEY|PRIVATE_KEY|DATABASE_URL|DB_PASSWORD|SLACK_TOKEN|GITHUB_TOKEN|NPM_TOKEN)=([^\s'"]+)/gi, replacement: '$1$2=[REDACTED]' },
+  // Connection strings with passwords
+  { pattern: /:\/\/([^:]+):([^@]+)@/g, replacement: '://$1:[REDACTED]@' },
+  // Base64 encoded credentials (likely in headers)
+  { pattern: /(Basic\s+)[A-Za-z0-9+/=]{20,}/gi, replacement: '$1[REDACTED]' },
+  // .env style assignments in file edit previews (e.g. "+ STRIPE_SECRET=sk_live_...")
+  { pattern: /\b([A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|PRIVATE_KEY)[A-Z0-9_]*\s*=\s*)[^\s'"]+/g, replacement: '$1[REDACTED]' },
+  // JSON fields with sensitive names in tool input previews (e.g. "apiKey": "...")
+  { pattern: /("[\w-]*(?:password|secret|token|api[_-]?key|authorization)[\w-]*"\s*:\s*)"(?:[^"\\]|\\.)*"/gi, replacement: '$1"[REDACTED]"' },
+  // PEM private key blocks
+  { pattern: /-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\s\S]*?(-----END \1PRIVATE KEY-----|$)/g, replacement: '-----BEGIN $1PRIVATE KEY----- [REDACTED]' },
+];
+
+export function maskSensitiveInfo(text: string): string {
+  let masked = text;
+  for (const { pattern, replacement } of SENSITIVE_PATTERNS) {
+    masked = masked.replace(pattern, replacement);
+  }
+  return masked;
+}
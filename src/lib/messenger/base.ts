@@ -1,26 +1,8 @@
 import { getSeverityEmoji as getEmoji, getSeverityColor as getColor, type Severity } from '../rules.js';
+import { maskSensitiveInfo } from '../masking.js';
+import type { MessengerMessage, MessengerResolution } from './types.js';
 
-// Patterns that may contain sensitive information
-const SENSITIVE_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
-  // API keys, tokens, secrets in various formats
-  { pattern: /([?&])(api[_-]?key|token|secret|password|auth|key|access[_-]?token)=([^&\s'"]+)/gi, replacement: '$1$2=[REDACTED]' },
-  // Authorization headers
-  { pattern: /(Authorization:\s*)(Bearer\s+)?[^\s'"]+/gi, replacement: '$1$2[REDACTED]' },
-  // Environment variable assignments with sensitive names
-  { pattern: /(export\s+)?(AWS_SECRET_ACCESS_KEY|AWS_ACCESS_KEY_ID|API_KEY|SECRET_KEY|PRIVATE_KEY|DATABASE_URL|DB_PASSWORD|SLACK_TOKEN|GITHUB_TOKEN|NPM_TOKEN)=([^\s'"]+)/gi, replacement: '$1$2=[REDACTED]' },
-  // Connection strings with passwords
-  { pattern: /:\/\/([^:]+):([^@]+)@/g, replacement: '://$1:[REDACTED]@' },
-  // Base64 encoded credentials (likely in headers)
-  { pattern: /(Basic\s+)[A-Za-z0-9+/=]{20,}/gi, replacement: '$1[REDACTED]' },
-];
-
-export function maskSensitiveInfo(text: string): string {
-  let masked = text;
-  for (const { pattern, replacement } of SENSITIVE_PATTERNS) {
-    masked = masked.replace(pattern, replacement);
-  }
-  return masked;
-}
+export { maskSensitiveInfo };
 
 export function truncateCommand(command: string, maxLength: number = 500): string {
   if (command.length <= maxLength) {
@@ -29,6 +11,25 @@ export function truncateCommand(command: string, maxLength: number = 500): strin
   return command.substring(0, maxLength - 3) + '...';
 }
 
+/**
+ * 명령어 외에 표시할 상세 내용 (파일 변경 미리보기 또는 도구 입력 JSON)
+ * 마스킹 후 maxLength로 잘라서 반환합니다.
+ */
+export function getMessageDetail(
+  message: MessengerMessage,
+  maxLength: number
+): { title: string; text: string } | null {
+  const detail = message.diff
+    ? { title: 'Changes', text: message.diff }
+    : message.toolInput
+      ? { title: 'Tool Input', text: message.toolInput }
+      : null;
+  if (!detail) {
+    return null;
+  }
+  return { title: detail.title, text: truncateCommand(maskSensitiveInfo(detail.text), maxLength) };
+}
+
 export function getSeverityEmoji(severity: Severity): string {
   return getEmoji(severity);
 }
@@ -36,3 +37,19 @@ export function getSeverityEmoji(severity: Severity): string {
 export function getSeverityColor(severity: Severity): string {
   return getColor(severity);
 }
+
+/**
+ * 처리 결과를 사람이 읽을 수 있는 한 줄로 변환 (예: "✅ Approved by alice via Slack")
+ */
+export function formatResolutionText(resolution: MessengerResolution): string {
+  if (resolution.status === 'timeout') {
+    return '⏰ Timed out (no response)';
+  }
+
+  const emoji = resolution.status === 'approved' ? '✅' : '❌';
+  const actionText = resolution.status === 'approved' ? 'Approved' : 'Rejected';
+  const by = resolution.resolvedBy ? ` by ${resolution.resolvedBy}` : '';
+  const via = resolution.via ? ` via ${resolution.via}` : '';
+  const reason = resolution.rejectionReason ? `: ${resolution.rejectionReason}` : '';
+  return `${emoji} ${actionText}${by}${via}${reason}`;
+}
@@ -0,0 +1,238 @@
+import type {
+  Messenger,
+  MessengerMessage,
+  MessengerResult,
+  MessengerResolution,
+  ConnectionTestResult,
+} from './types.js';
+import {
+  maskSensitiveInfo,
+  truncateCommand,
+  getMessageDetail,
+  getSeverityEmoji,
+  getSeverityColor,
+  formatResolutionText,
+} from './base.js';
+
+export interface DiscordConfig {
+  botToken: string;
+  channelId: string;
+}
+
+const DISCORD_API_BASE = 'https://discord.com/api/v10';
+
+// Discord message component 타입
+const COMPONENT_ACTION_ROW = 1;
+const COMPONENT_BUTTON = 2;
+const BUTTON_STYLE_SECONDARY = 2;
+const BUTTON_STYLE_SUCCESS = 3;
+const BUTTON_STYLE_DANGER = 4;
+
+interface DiscordApiError {
+  message?: string;
+  code?: number;
+}
+
+// 코드 블록 안에서 ```가 블록을 닫지 않도록 zero-width space 삽입
+function escapeDiscordCodeBlock(text: string): string {
+  return text.replace(/```/g, '`\u200b``');
+}
+
+// 인라인 코드(`...`) 안에서 백틱 제거
+function escapeDiscordInlineCode(text: string): string {
+  return text.replace(/`/g, "'");
+}
+
+function buildDiscordMessage(message: MessengerMessage) {
+  const emoji = getSeverityEmoji(message.severity);
+  const color = parseInt(getSeverityColor(message.severity).slice(1), 16);
+  const maskedCommand = maskSensitiveInfo(message.command);
+  // Embed field value는 최대 1024자
+  const truncatedCommand = truncateCommand(maskedCommand, 900);
+  const detail = getMessageDetail(message, 900);
+
+  return {
+    embeds: [
+      {
+        title: `${emoji} Claude Guard: Approval Required`,
+        color,
+        fields: [
+          { name: 'Reason', value: message.reason.slice(0, 1024) },
+          { name: 'Severity', value: message.severity.toUpperCase(), inline: true },
+          ...(message.requiredApprovals && message.requiredApprovals > 1
+            ? [{ name: 'Approvals required', value: String(message.requiredApprovals), inline: true }]
+            : []),
+          { name: 'Command', value: `\`\`\`\n${escapeDiscordCodeBlock(truncatedCommand)}\n\`\`\`` },
+          ...(detail
+            ? [
+                {
+                  name: detail.title,
+                  value: `\`\`\`${message.diff ? 'diff' : 'json'}\n${escapeDiscordCodeBlock(detail.text)}\n\`\`\``,
+                },
+              ]
+            : []),
+          {
+            name: 'Working Directory',
+            value: `\`${escapeDiscordInlineCode(message.cwd).slice(0, 1000)}\``,
+          },
+        ],
+        footer: { text: `Request ID: ${message.requestId}` },
+        timestamp: new Date(message.timestamp).toISOString(),
+      },
+    ],
+    components: [
+      {
+        type: COMPONENT_ACTION_ROW,
+        components: [
+          {
+            type: COMPONENT_BUTTON,
+            style: BUTTON_STYLE_SUCCESS,
+            label: 'Approve',
+            emoji: { name: '✅' },
+            custom_id: `approve:${message.requestId}`,
+          },
+          ...(message.grantMinutes
+            ? [
+                {
+                  type: COMPONENT_BUTTON,
+                  style: BUTTON_STYLE_SECONDARY,
+                  label: `Approve similar (${message.grantMinutes} min)`,
+                  emoji: { name: '⏱️' },
+                  custom_id: `approve_similar:${message.requestId}`,
+                },
+              ]
+            : []),
+          {
+            type: COMPONENT_BUTTON,
+            style: BUTTON_STYLE_DANGER,
+            label: 'Reject',
+            emoji: { name: '❌' },
+            custom_id: `reject:${message.requestId}`,
+          },
+        ],
+      },
+    ],
+    // 명령어 내용에 @everyone 등이 있어도 멘션되지 않도록
+    allowed_mentions: { parse: [] },
+  };
+}
+
+export class DiscordMessenger implements Messenger {
+  readonly type = 'discord' as const;
+  private config: DiscordConfig;
+  // requestId → 전송된 메시지 ID (notifyResolution에서 버튼 제거용)
+  private sentMessages = new Map<string, string>();
+
+  constructor(config: DiscordConfig) {
+    this.config = config;
+  }
+
+  validateConfig(): boolean {
+    return (
+      typeof this.config.botToken === 'string' &&
+      this.config.botToken.length > 0 &&
+      typeof this.config.channelId === 'string' &&
+      /^\d+$/.test(this.config.channelId)
+    );
+  }
+
+  private async request(
+    method: 'POST' | 'PATCH',
+    path: string,
+    body: unknown
+  ): Promise<MessengerResult & { messageId?: string }> {
+    try {
+      const response = await fetch(`${DISCORD_API_BASE}/channels/${this.config.channelId}/messages${path}`, {
+        method,
+        headers: {
+          Authorization: `Bot ${this.config.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = (await response.json().catch(() => ({}))) as DiscordApiError & { id?: string };
+      if (!response.ok) {
+        return {
+          ok: false,
+          error: `Discord API error: ${response.status} ${result.message || 'Unknown error'}`,
+        };
+      }
+
+      return { ok: true, messageId: result.id };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage };
+    }
+  }
+
+  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+    const { messageId, ...result } = await this.request('POST', '', buildDiscordMessage(message));
+    if (messageId) {
+      this.sentMessages.set(message.requestId, messageId);
+    }
+    return result;
+  }
+
+  async sendTestNotification(): Promise<MessengerResult> {
+    const { ok, error } = await this.request('POST', '', {
+      embeds: [
+        {
+          title: '✅ Claude Guard Test Notification',
+          description:
+            'This is a test notification from Claude Guard.\nIf you see this message, your Discord integration is working correctly!',
+          color: parseInt(getSeverityColor('low').slice(1), 16),
+          timestamp: new Date().toISOString(),
+        },
+      ],
+      allowed_mentions: { parse: [] },
+    });
+    return { ok, error };
+  }
+
+  // 버튼을 제거하고 처리 결과 표시 (discord-callback의 UPDATE_MESSAGE 응답과 동일한 형태)
+  async notifyResolution(requestId: string, resolution: MessengerResolution): Promise<MessengerResult> {
+    const messageId = this.sentMessages.get(requestId);
+    const content = formatResolutionText(resolution);
+
+    const { ok, error } = messageId
+      ? await this.request('PATCH', `/${messageId}`, { content, components: [], allowed_mentions: { parse: [] } })
+      : await this.request('POST', '', { content: `${content} (Request ID: ${requestId})`, allowed_mentions: { parse: [] } });
+    return { ok, error };
+  }
+
+  // /users/@me API로 Bot Token 검증 및 Bot 정보 조회
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const response = await fetch(`${DISCORD_API_BASE}/users/@me`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bot ${this.config.botToken}`,
+        },
+      });
+
+      const result = (await response.json()) as DiscordApiError & {
+        id?: string;
+        username?: string;
+        bot?: boolean;
+      };
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          error: `Discord API error: ${response.status} ${result.message || 'Invalid Bot Token'}`,
+        };
+      }
+
+      return {
+        ok: true,
+        info: {
+          botUsername: result.username,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage };
+    }
+  }
+}
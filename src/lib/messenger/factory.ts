@@ -2,17 +2,33 @@ import type { Messenger, MessengerType } from './types.js';
 import { SlackMessenger, type SlackConfig } from './slack.js';
 import { TelegramMessenger, type TelegramConfig } from './telegram.js';
 import { WhatsAppMessenger, type WhatsAppConfig } from './whatsapp.js';
+import { DiscordMessenger, type DiscordConfig } from './discord.js';
+import { TeamsMessenger, type TeamsConfig } from './teams.js';
+import { WebhookMessenger, type WebhookConfig } from './webhook.js';
 
 export interface MessengerConfig {
+  // 기본 메신저 (channels 미설정 시 이 메신저로만 알림)
   type: MessengerType;
+  // 동시에 알림을 보낼 메신저 목록 (type 포함). 가장 먼저 응답한 채널의 결정이 적용됨
+  channels?: MessengerType[];
   slack?: SlackConfig;
   telegram?: TelegramConfig;
   whatsapp?: WhatsAppConfig;
+  discord?: DiscordConfig;
+  teams?: TeamsConfig;
+  webhook?: WebhookConfig;
+}
+
+/**
+ * 알림을 보낼 메신저 목록 반환 (channels가 없으면 기본 메신저만)
+ */
+export function getMessengerChannels(config: MessengerConfig): MessengerType[] {
+  return config.channels && config.channels.length > 0 ? config.channels : [config.type];
 }
 
 export class MessengerFactory {
-  static create(config: MessengerConfig): Messenger {
-    switch (config.type) {
+  static create(config: MessengerConfig, type: MessengerType = config.type): Messenger {
+    switch (type) {
       case 'slack':
         if (!config.slack) {
           throw new Error('Slack configuration is required when type is "slack"');
@@ -31,11 +47,34 @@ export class MessengerFactory {
         }
         return new WhatsAppMessenger(config.whatsapp);
 
+      case 'discord':
+        if (!config.discord) {
+          throw new Error('Discord configuration is required when type is "discord"');
+        }
+        return new DiscordMessenger(config.discord);
+
+      case 'teams':
+        if (!config.teams) {
+          throw new Error('Teams configuration is required when type is "teams"');
+        }
+        return new TeamsMessenger(config.teams);
+
+      case 'webhook':
+        if (!config.webhook) {
+          throw new Error('Webhook configuration is required when type is "webhook"');
+        }
+        return new WebhookMessenger(config.webhook);
+
       default:
-        throw new Error(`Unknown messenger type: ${config.type}`);
+        throw new Error(`Unknown messenger type: ${type}`);
     }
   }
 
+  // 설정된 모든 채널의 Messenger 생성 (fan-out 알림용)
+  static createAll(config: MessengerConfig): Messenger[] {
+    return getMessengerChannels(config).map((type) => MessengerFactory.create(config, type));
+  }
+
   static getMessengerTypeLabel(type: MessengerType): string {
     switch (type) {
       case 'slack':
@@ -44,6 +83,12 @@ export class MessengerFactory {
         return 'Telegram';
       case 'whatsapp':
         return 'WhatsApp (Twilio)';
+      case 'discord':
+        return 'Discord';
+      case 'teams':
+        return 'Microsoft Teams';
+      case 'webhook':
+        return 'Webhook';
     }
   }
 }
@@ -1,13 +1,23 @@
 // Types
-export type { Messenger, MessengerMessage, MessengerResult, MessengerType } from './types.js';
+export type { Messenger, MessengerMessage, MessengerResult, MessengerResolution, MessengerType } from './types.js';
 
 // Base utilities
-export { maskSensitiveInfo, truncateCommand, getSeverityEmoji, getSeverityColor } from './base.js';
+export {
+  maskSensitiveInfo,
+  truncateCommand,
+  getMessageDetail,
+  getSeverityEmoji,
+  getSeverityColor,
+  formatResolutionText,
+} from './base.js';
 
 // Messenger implementations
 export { SlackMessenger, type SlackConfig } from './slack.js';
 export { TelegramMessenger, type TelegramConfig } from './telegram.js';
 export { WhatsAppMessenger, type WhatsAppConfig } from './whatsapp.js';
+export { DiscordMessenger, type DiscordConfig } from './discord.js';
+export { TeamsMessenger, type TeamsConfig } from './teams.js';
+export { WebhookMessenger, type WebhookConfig, type WebhookPayload, signWebhookBody } from './webhook.js';
 
 // Factory
-export { MessengerFactory, type MessengerConfig } from './factory.js';
+export { MessengerFactory, getMessengerChannels, type MessengerConfig } from './factory.js';
@@ -1,11 +1,31 @@
-import type { Messenger, MessengerMessage, MessengerResult, ConnectionTestResult } from './types.js';
-import { maskSensitiveInfo, truncateCommand, getSeverityEmoji, getSeverityColor } from './base.js';
+import type {
+  Messenger,
+  MessengerMessage,
+  MessengerResult,
+  MessengerResolution,
+  ConnectionTestResult,
+} from './types.js';
+import {
+  maskSensitiveInfo,
+  truncateCommand,
+  getMessageDetail,
+  getSeverityEmoji,
+  getSeverityColor,
+  formatResolutionText,
+} from './base.js';
 
 export interface SlackConfig {
-  webhookUrl: string;
+  // Incoming Webhook 모드 (기본)
+  webhookUrl?: string;
+  // bot-token 모드에서 메시지를 보낼 채널 ID (예: C0123ABCD)
   channelId?: string;
+  // 설정 시 chat.postMessage/chat.update 사용 (xoxb-, chat:write 권한 필요)
+  // 처리 결과와 타임아웃을 원본 메시지에 표시하고 버튼을 제거
+  botToken?: string;
 }
 
+const SLACK_API_BASE_URL = 'https://slack.com/api';
+
 interface SlackTextElement {
   type: string;
   text: string;
@@ -50,7 +70,10 @@ function escapeSlackText(text: string): string {
   return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
-function buildSlackBlocks(message: MessengerMessage): SlackPayload {
+/**
+ * @param botMode "Reject with reason", "Edit & approve" 버튼 표시 (입력 modal은 views.open이 필요하므로 bot-token 모드 전용)
+ */
+function buildSlackBlocks(message: MessengerMessage, botMode = false): SlackPayload {
   const emoji = getSeverityEmoji(message.severity);
   const color = getSeverityColor(message.severity);
   // Mask sensitive information before displaying
@@ -58,6 +81,8 @@ function buildSlackBlocks(message: MessengerMessage): SlackPayload {
   const escapedCommand = escapeSlackText(truncateCommand(maskedCommand));
   const escapedCwd = escapeSlackText(message.cwd);
   const escapedReason = escapeSlackText(message.reason);
+  // section text는 최대 3000자
+  const detail = getMessageDetail(message, 1500);
 
   return {
     blocks: [
@@ -73,7 +98,11 @@ function buildSlackBlocks(message: MessengerMessage): SlackPayload {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Reason:* ${escapedReason}\n*Severity:* ${message.severity.toUpperCase()}`,
+          text:
+            `*Reason:* ${escapedReason}\n*Severity:* ${message.severity.toUpperCase()}` +
+            (message.requiredApprovals && message.requiredApprovals > 1
+              ? `\n*Approvals required:* ${message.requiredApprovals}`
+              : ''),
         },
       },
       {
@@ -83,6 +112,17 @@ function buildSlackBlocks(message: MessengerMessage): SlackPayload {
           text: `*Command:*\n\`\`\`${escapedCommand}\`\`\``,
         },
       },
+      ...(detail
+        ? [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `*${detail.title}:*\n\`\`\`${escapeSlackText(detail.text)}\`\`\``,
+              },
+            },
+          ]
+        : []),
       {
         type: 'section',
         text: {
@@ -104,6 +144,34 @@ function buildSlackBlocks(message: MessengerMessage): SlackPayload {
             action_id: 'approve_command',
             value: message.requestId,
           },
+          ...(message.grantMinutes
+            ? [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: `Approve similar (${message.grantMinutes} min)`,
+                    emoji: true,
+                  },
+                  action_id: 'approve_similar_command',
+                  value: message.requestId,
+                },
+              ]
+            : []),
+          ...(botMode && message.editable
+            ? [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: 'Edit & approve',
+                    emoji: true,
+                  },
+                  action_id: 'edit_approve_command',
+                  value: message.requestId,
+                },
+              ]
+            : []),
           {
             type: 'button',
             text: {
@@ -115,6 +183,20 @@ function buildSlackBlocks(message: MessengerMessage): SlackPayload {
             action_id: 'reject_command',
             value: message.requestId,
           },
+          ...(botMode
+            ? [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: 'Reject with reason',
+                    emoji: true,
+                  },
+                  action_id: 'reject_with_reason_command',
+                  value: message.requestId,
+                },
+              ]
+            : []),
         ],
       },
       {
@@ -136,77 +218,115 @@ function buildSlackBlocks(message: MessengerMessage): SlackPayload {
   };
 }
 
+/**
+ * bot-token 모드에서 원본 메시지에 표시할 처리 결과
+ */
+function formatSlackFooter(resolution: MessengerResolution): string {
+  if (resolution.status === 'timeout') {
+    return ':alarm_clock: *Timed out* (no response)';
+  }
+  if (resolution.source === 'local') {
+    return `:computer: *Answered locally* (${resolution.status})`;
+  }
+
+  const by = resolution.resolvedBy ? ` by @${escapeSlackText(resolution.resolvedBy)}` : '';
+  const via = resolution.via ? ` via ${escapeSlackText(resolution.via)}` : '';
+  const reason = resolution.rejectionReason ? `: ${escapeSlackText(resolution.rejectionReason)}` : '';
+  return resolution.status === 'approved'
+    ? `:white_check_mark: *Approved*${by}${via}`
+    : `:x: *Rejected*${by}${via}${reason}`;
+}
+
+/**
+ * 버튼(actions 블록)을 제거하고 처리 결과 footer를 추가한 블록 (slack-callback과 동일한 형식)
+ */
+function buildResolvedBlocks(blocks: SlackBlock[], footer: string): SlackBlock[] {
+  return [
+    ...blocks.filter((block) => block.type !== 'actions'),
+    { type: 'context', elements: [{ type: 'mrkdwn', text: footer }] },
+  ];
+}
+
+interface SentSlackMessage {
+  channel: string;
+  ts: string;
+  blocks: SlackBlock[];
+}
+
 export class SlackMessenger implements Messenger {
   readonly type = 'slack' as const;
   private config: SlackConfig;
+  // requestId → 전송된 메시지 (bot-token 모드, notifyResolution에서 chat.update용)
+  private sentMessages = new Map<string, SentSlackMessage>();
 
   constructor(config: SlackConfig) {
     this.config = config;
   }
 
+  private get botMode(): boolean {
+    return Boolean(this.config.botToken);
+  }
+
   validateConfig(): boolean {
+    if (this.botMode) {
+      return (
+        typeof this.config.botToken === 'string' &&
+        this.config.botToken.startsWith('xoxb-') &&
+        typeof this.config.channelId === 'string' &&
+        this.config.channelId.length > 0
+      );
+    }
     return (
       typeof this.config.webhookUrl === 'string' &&
       this.config.webhookUrl.startsWith('https://hooks.slack.com/')
     );
   }
 
-  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+  /**
+   * Slack Web API 호출 (HTTP 200이어도 ok: false로 실패를 반환)
+   */
+  private async callApi(
+    method: string,
+    body: Record<string, unknown>
+  ): Promise<MessengerResult & { channel?: string; ts?: string; user?: string }> {
     try {
-      const payload = buildSlackBlocks(message);
-
-      const response = await fetch(this.config.webhookUrl, {
+      const response = await fetch(`${SLACK_API_BASE_URL}/${method}`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/json; charset=utf-8',
+          Authorization: `Bearer ${this.config.botToken}`,
         },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) {
-        const text = await response.text();
-        return { ok: false, error: `Slack API error: ${response.status} ${text}` };
+        return { ok: false, error: `Slack API error: ${response.status} ${response.statusText}` };
       }
 
-      return { ok: true };
+      const result = (await response.json()) as { ok: boolean; error?: string; channel?: string; ts?: string; user?: string };
+      if (!result.ok) {
+        return { ok: false, error: `Slack API error: ${result.error || 'Unknown error'}` };
+      }
+
+      return { ok: true, channel: result.channel, ts: result.ts, user: result.user };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return { ok: false, error: errorMessage };
     }
   }
 
-  async sendTestNotification(): Promise<MessengerResult> {
-    try {
-      const payload = {
-        blocks: [
-          {
-            type: 'header',
-            text: {
-              type: 'plain_text',
-              text: '✅ Claude Guard Test Notification',
-              emoji: true,
-            },
-          },
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: 'This is a test notification from Claude Guard.\nIf you see this message, your Slack integration is working correctly!',
-            },
-          },
-          {
-            type: 'context',
-            elements: [
-              {
-                type: 'mrkdwn',
-                text: `Sent at: <!date^${Math.floor(Date.now() / 1000)}^{date_short_pretty} {time}|${new Date().toISOString()}>`,
-              },
-            ],
-          },
-        ],
-      };
+  /**
+   * 메시지 전송 (bot-token 모드는 chat.postMessage, 그 외에는 Incoming Webhook)
+   */
+  private async post(
+    payload: Record<string, unknown>
+  ): Promise<MessengerResult & { channel?: string; ts?: string }> {
+    if (this.botMode) {
+      return this.callApi('chat.postMessage', { channel: this.config.channelId, ...payload });
+    }
 
-      const response = await fetch(this.config.webhookUrl, {
+    try {
+      const response = await fetch(this.config.webhookUrl!, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -226,29 +346,90 @@ export class SlackMessenger implements Messenger {
     }
   }
 
-  // Slack Webhook은 연결 테스트용 별도 API가 없으므로 간단한 메시지 전송으로 테스트
-  async testConnection(): Promise<ConnectionTestResult> {
-    try {
-      // Webhook URL로 간단한 메시지 전송 시도
-      const response = await fetch(this.config.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+    const payload = buildSlackBlocks(message, this.botMode);
+    const { ok, error, channel, ts } = await this.post({
+      ...payload,
+      // bot-token 모드의 알림 미리보기 텍스트
+      text: `Claude Guard: Approval Required (${message.severity.toUpperCase()})`,
+    });
+    if (!ok) {
+      return { ok, error };
+    }
+
+    if (channel && ts) {
+      this.sentMessages.set(message.requestId, { channel, ts, blocks: payload.blocks });
+      return { ok: true, messageRef: `${channel}:${ts}` };
+    }
+    return { ok: true };
+  }
+
+  async sendTestNotification(): Promise<MessengerResult> {
+    const { ok, error } = await this.post({
+      text: 'Claude Guard Test Notification',
+      blocks: [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: '✅ Claude Guard Test Notification',
+            emoji: true,
+          },
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: 'This is a test notification from Claude Guard.\nIf you see this message, your Slack integration is working correctly!',
+          },
+        },
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `Sent at: <!date^${Math.floor(Date.now() / 1000)}^{date_short_pretty} {time}|${new Date().toISOString()}>`,
+            },
+          ],
         },
-        body: JSON.stringify({
-          text: '🔗 Claude Guard: Connection test successful',
-        }),
+      ],
+    });
+    return { ok, error };
+  }
+
+  // bot-token 모드는 원본 메시지의 버튼을 처리 결과로 교체하고,
+  // Incoming Webhook은 보낸 메시지를 수정할 수 없으므로 처리 결과를 후속 메시지로 전송
+  async notifyResolution(requestId: string, resolution: MessengerResolution): Promise<MessengerResult> {
+    const sent = this.sentMessages.get(requestId);
+    if (sent) {
+      const footer = formatSlackFooter(resolution);
+      const { ok, error } = await this.callApi('chat.update', {
+        channel: sent.channel,
+        ts: sent.ts,
+        text: footer,
+        blocks: buildResolvedBlocks(sent.blocks, footer),
       });
+      return { ok, error };
+    }
 
-      if (!response.ok) {
-        const text = await response.text();
-        return { ok: false, error: `Slack Webhook error: ${response.status} ${text}` };
-      }
+    const { ok, error } = await this.post({
+      text: `${formatResolutionText(resolution)} (Request ID: ${requestId})`,
+    });
+    return { ok, error };
+  }
 
-      return { ok: true };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return { ok: false, error: errorMessage };
+  // bot-token 모드는 auth.test로 토큰을 검증하고,
+  // Slack Webhook은 연결 테스트용 별도 API가 없으므로 간단한 메시지 전송으로 테스트
+  async testConnection(): Promise<ConnectionTestResult> {
+    if (this.botMode) {
+      const { ok, error, user } = await this.callApi('auth.test', {});
+      if (!ok) {
+        return { ok: false, error };
+      }
+      return { ok: true, info: { botUsername: user } };
     }
+
+    const { ok, error } = await this.post({ text: '🔗 Claude Guard: Connection test successful' });
+    return { ok, error };
   }
 }
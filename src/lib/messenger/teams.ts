@@ -0,0 +1,302 @@
+import type {
+  Messenger,
+  MessengerMessage,
+  MessengerResult,
+  MessengerResolution,
+  ConnectionTestResult,
+} from './types.js';
+import {
+  maskSensitiveInfo,
+  truncateCommand,
+  getMessageDetail,
+  getSeverityEmoji,
+  formatResolutionText,
+} from './base.js';
+
+export interface TeamsConfig {
+  // Azure Bot의 Microsoft App ID
+  appId: string;
+  // Azure Bot의 Client Secret (App Password)
+  appPassword: string;
+  // Single-tenant Bot인 경우 Azure AD Tenant ID (Multi-tenant는 생략)
+  tenantId?: string;
+  // Bot Framework 서비스 URL (예: https://smba.trafficmanager.net/amer/)
+  serviceUrl: string;
+  // 알림을 보낼 채널/채팅의 Conversation ID
+  conversationId: string;
+}
+
+const BOT_FRAMEWORK_SCOPE = 'https://api.botframework.com/.default';
+const DEFAULT_TOKEN_TENANT = 'botframework.com';
+
+// Adaptive Card 1.4부터 Action.Execute (Universal Actions) 지원
+const ADAPTIVE_CARD_VERSION = '1.4';
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+// Adaptive Card severity별 색상 (Good/Warning/Attention)
+function getSeverityCardColor(severity: MessengerMessage['severity']): string {
+  switch (severity) {
+    case 'critical':
+    case 'high':
+      return 'Attention';
+    case 'medium':
+      return 'Warning';
+    case 'low':
+      return 'Good';
+  }
+}
+
+function buildTeamsCard(message: MessengerMessage) {
+  const emoji = getSeverityEmoji(message.severity);
+  const maskedCommand = maskSensitiveInfo(message.command);
+  const truncatedCommand = truncateCommand(maskedCommand, 1000);
+  const detail = getMessageDetail(message, 1500);
+
+  return {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: ADAPTIVE_CARD_VERSION,
+    body: [
+      {
+        type: 'TextBlock',
+        text: `${emoji} Claude Guard: Approval Required`,
+        weight: 'Bolder',
+        size: 'Medium',
+        color: getSeverityCardColor(message.severity),
+        wrap: true,
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Reason', value: message.reason },
+          { title: 'Severity', value: message.severity.toUpperCase() },
+          ...(message.requiredApprovals && message.requiredApprovals > 1
+            ? [{ title: 'Approvals required', value: String(message.requiredApprovals) }]
+            : []),
+          { title: 'Working Directory', value: message.cwd },
+        ],
+      },
+      {
+        type: 'TextBlock',
+        text: 'Command',
+        weight: 'Bolder',
+        spacing: 'Medium',
+      },
+      {
+        // Markdown 해석 방지를 위해 monospace TextBlock 사용
+        type: 'TextBlock',
+        text: truncatedCommand,
+        fontType: 'Monospace',
+        wrap: true,
+      },
+      ...(detail
+        ? [
+            { type: 'TextBlock', text: detail.title, weight: 'Bolder', spacing: 'Medium' },
+            {
+              type: 'TextBlock',
+              text: detail.text,
+              fontType: 'Monospace',
+              wrap: true,
+            },
+          ]
+        : []),
+      {
+        type: 'TextBlock',
+        text: `Request ID: ${message.requestId}`,
+        size: 'Small',
+        isSubtle: true,
+        wrap: true,
+      },
+    ],
+    actions: [
+      {
+        type: 'Action.Execute',
+        title: '✅ Approve',
+        verb: 'approve',
+        style: 'positive',
+        data: { requestId: message.requestId },
+      },
+      ...(message.grantMinutes
+        ? [
+            {
+              type: 'Action.Execute',
+              title: `⏱️ Approve similar (${message.grantMinutes} min)`,
+              verb: 'approve_similar',
+              data: { requestId: message.requestId },
+            },
+          ]
+        : []),
+      {
+        type: 'Action.Execute',
+        title: '❌ Reject',
+        verb: 'reject',
+        style: 'destructive',
+        data: { requestId: message.requestId },
+      },
+    ],
+  };
+}
+
+export class TeamsMessenger implements Messenger {
+  readonly type = 'teams' as const;
+  private config: TeamsConfig;
+  // requestId → 전송된 activity ID (notifyResolution에서 카드 교체용)
+  private sentActivities = new Map<string, string>();
+
+  constructor(config: TeamsConfig) {
+    this.config = config;
+  }
+
+  validateConfig(): boolean {
+    return (
+      typeof this.config.appId === 'string' &&
+      this.config.appId.length > 0 &&
+      typeof this.config.appPassword === 'string' &&
+      this.config.appPassword.length > 0 &&
+      typeof this.config.serviceUrl === 'string' &&
+      this.config.serviceUrl.startsWith('https://') &&
+      typeof this.config.conversationId === 'string' &&
+      this.config.conversationId.length > 0
+    );
+  }
+
+  // Client Credentials 방식으로 Bot Framework 액세스 토큰 발급
+  private async getAccessToken(): Promise<{ ok: true; token: string } | { ok: false; error: string }> {
+    const tenant = this.config.tenantId || DEFAULT_TOKEN_TENANT;
+    try {
+      const response = await fetch(`https://login.microsoftonline.com/${encodeURIComponent(tenant)}/oauth2/v2.0/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          grant_type: 'client_credentials',
+          client_id: this.config.appId,
+          client_secret: this.config.appPassword,
+          scope: BOT_FRAMEWORK_SCOPE,
+        }).toString(),
+      });
+
+      const result = (await response.json()) as TokenResponse;
+      if (!response.ok || !result.access_token) {
+        return {
+          ok: false,
+          error: `Microsoft identity error: ${result.error || response.status} ${result.error_description?.split('\n')[0] || ''}`.trim(),
+        };
+      }
+
+      return { ok: true, token: result.access_token };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage };
+    }
+  }
+
+  // activityId가 있으면 기존 activity 수정 (PUT), 없으면 새로 전송 (POST)
+  private async sendActivity(
+    activity: unknown,
+    activityId?: string
+  ): Promise<MessengerResult & { activityId?: string }> {
+    const tokenResult = await this.getAccessToken();
+    if (!tokenResult.ok) {
+      return { ok: false, error: tokenResult.error };
+    }
+
+    try {
+      const serviceUrl = this.config.serviceUrl.replace(/\/+$/, '');
+      const activitiesUrl = `${serviceUrl}/v3/conversations/${encodeURIComponent(this.config.conversationId)}/activities`;
+      const url = activityId ? `${activitiesUrl}/${encodeURIComponent(activityId)}` : activitiesUrl;
+      const response = await fetch(url, {
+        method: activityId ? 'PUT' : 'POST',
+        headers: {
+          Authorization: `Bearer ${tokenResult.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(activity),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        return {
+          ok: false,
+          error: `Teams API error: ${response.status} ${text.slice(0, 200)}`.trim(),
+        };
+      }
+
+      const result = (await response.json().catch(() => ({}))) as { id?: string };
+      return { ok: true, activityId: result.id };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage };
+    }
+  }
+
+  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+    const { activityId, ...result } = await this.sendActivity({
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: buildTeamsCard(message),
+        },
+      ],
+    });
+    if (activityId) {
+      this.sentActivities.set(message.requestId, activityId);
+    }
+    return result;
+  }
+
+  async sendTestNotification(): Promise<MessengerResult> {
+    const { ok, error } = await this.sendActivity({
+      type: 'message',
+      text:
+        '✅ **Claude Guard Test Notification**\n\n' +
+        'This is a test notification from Claude Guard. If you see this message, your Teams integration is working correctly!',
+    });
+    return { ok, error };
+  }
+
+  // 카드를 처리 결과로 교체하여 버튼 제거 (teams-callback의 카드 갱신과 동일한 형태)
+  async notifyResolution(requestId: string, resolution: MessengerResolution): Promise<MessengerResult> {
+    const activityId = this.sentActivities.get(requestId);
+    const text = formatResolutionText(resolution);
+
+    const { ok, error } = await this.sendActivity(
+      {
+        type: 'message',
+        attachments: [
+          {
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: {
+              type: 'AdaptiveCard',
+              $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+              version: ADAPTIVE_CARD_VERSION,
+              body: [
+                { type: 'TextBlock', text, weight: 'Bolder', wrap: true },
+                { type: 'TextBlock', text: `Request ID: ${requestId}`, size: 'Small', isSubtle: true, wrap: true },
+              ],
+            },
+          },
+        ],
+      },
+      activityId
+    );
+    return { ok, error };
+  }
+
+  // 액세스 토큰 발급으로 App ID / Client Secret 검증
+  async testConnection(): Promise<ConnectionTestResult> {
+    const tokenResult = await this.getAccessToken();
+    if (!tokenResult.ok) {
+      return { ok: false, error: tokenResult.error };
+    }
+    return { ok: true };
+  }
+}
@@ -1,9 +1,51 @@
-import type { Messenger, MessengerMessage, MessengerResult, ConnectionTestResult } from './types.js';
-import { maskSensitiveInfo, truncateCommand, getSeverityEmoji } from './base.js';
+import * as path from 'node:path';
+import type {
+  Messenger,
+  MessengerMessage,
+  MessengerResult,
+  MessengerResolution,
+  ConnectionTestResult,
+} from './types.js';
+import {
+  maskSensitiveInfo,
+  truncateCommand,
+  getMessageDetail,
+  getSeverityEmoji,
+  formatResolutionText,
+} from './base.js';
 
 export interface TelegramConfig {
   botToken: string;
   chatId: string;
+  // 포럼 그룹의 topic ID (message_thread_id). 설정 시 알림을 해당 topic에 전송
+  messageThreadId?: number;
+  // 프로젝트 경로별 topic ID (cwd가 가장 길게 일치하는 경로 사용, messageThreadId보다 우선)
+  projectThreads?: Record<string, number>;
+}
+
+/**
+ * 요청의 cwd에 해당하는 topic ID
+ * projectThreads에서 cwd와 같거나 cwd를 포함하는 가장 긴 경로를 찾고, 없으면 messageThreadId 사용
+ */
+export function resolveTelegramThreadId(config: TelegramConfig, cwd: string): number | undefined {
+  const resolvedCwd = path.resolve(cwd);
+  let matched: { length: number; threadId: number } | undefined;
+  for (const [projectPath, threadId] of Object.entries(config.projectThreads ?? {})) {
+    const resolvedPath = path.resolve(projectPath);
+    const relative = path.relative(resolvedPath, resolvedCwd);
+    const contains = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    if (contains && (!matched || resolvedPath.length > matched.length)) {
+      matched = { length: resolvedPath.length, threadId };
+    }
+  }
+  return matched?.threadId ?? config.messageThreadId;
+}
+
+// 전송된 승인 요청 메시지 (notifyResolution에서 처리 결과로 수정)
+interface SentTelegramMessage {
+  messageId: number;
+  text: string;
+  threadId?: number;
 }
 
 // Bot Token을 마스킹하여 에러 메시지에서 노출 방지
@@ -22,6 +64,7 @@ function buildTelegramMessage(message: MessengerMessage): string {
   const emoji = getSeverityEmoji(message.severity);
   const maskedCommand = maskSensitiveInfo(message.command);
   const truncatedCommand = truncateCommand(maskedCommand, 300);
+  const detail = getMessageDetail(message, 800);
 
   // MarkdownV2 형식으로 메시지 구성
   const lines = [
@@ -29,12 +72,24 @@ function buildTelegramMessage(message: MessengerMessage): string {
     '',
     `*Reason:* ${escapeTelegramMarkdownV2(message.reason)}`,
     `*Severity:* ${message.severity.toUpperCase()}`,
+    ...(message.requiredApprovals && message.requiredApprovals > 1
+      ? [`*Approvals required:* ${message.requiredApprovals}`]
+      : []),
     '',
     `*Command:*`,
     '```',
     escapeTelegramMarkdownV2(truncatedCommand),
     '```',
     '',
+    ...(detail
+      ? [
+          `*${detail.title}:*`,
+          '```',
+          escapeTelegramMarkdownV2(detail.text),
+          '```',
+          '',
+        ]
+      : []),
     `*Working Directory:*`,
     `\`${escapeTelegramMarkdownV2(message.cwd)}\``,
     '',
@@ -44,7 +99,7 @@ function buildTelegramMessage(message: MessengerMessage): string {
   return lines.join('\n');
 }
 
-function buildInlineKeyboard(requestId: string) {
+function buildInlineKeyboard(requestId: string, grantMinutes?: number, editable = false) {
   return {
     inline_keyboard: [
       [
@@ -57,6 +112,14 @@ function buildInlineKeyboard(requestId: string) {
           callback_data: `reject:${requestId}`,
         },
       ],
+      // callback_data는 최대 64바이트 (approve_similar:<uuid> = 52바이트)
+      ...(grantMinutes
+        ? [[{ text: `⏱️ Approve similar (${grantMinutes} min)`, callback_data: `approve_similar:${requestId}` }]]
+        : []),
+      // 답장 프롬프트(force_reply)로 수정된 명령어를 받아 승인
+      ...(editable ? [[{ text: '✏️ Edit & approve', callback_data: `edit_approve:${requestId}` }]] : []),
+      // 답장 프롬프트(force_reply)로 사유를 받아 거부
+      [{ text: '✍️ Reject with reason', callback_data: `reject_reason:${requestId}` }],
     ],
   };
 }
@@ -65,6 +128,8 @@ export class TelegramMessenger implements Messenger {
   readonly type = 'telegram' as const;
   private config: TelegramConfig;
   private baseUrl: string;
+  // requestId → 전송된 메시지 (notifyResolution에서 버튼 제거 및 처리 결과 표시용)
+  private sentMessages = new Map<string, SentTelegramMessage>();
 
   constructor(config: TelegramConfig) {
     this.config = config;
@@ -83,7 +148,8 @@ export class TelegramMessenger implements Messenger {
   async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
     try {
       const text = buildTelegramMessage(message);
-      const replyMarkup = buildInlineKeyboard(message.requestId);
+      const replyMarkup = buildInlineKeyboard(message.requestId, message.grantMinutes, message.editable);
+      const threadId = resolveTelegramThreadId(this.config, message.cwd);
 
       const response = await fetch(`${this.baseUrl}/sendMessage`, {
         method: 'POST',
@@ -92,18 +158,29 @@ export class TelegramMessenger implements Messenger {
         },
         body: JSON.stringify({
           chat_id: this.config.chatId,
+          ...(threadId !== undefined && { message_thread_id: threadId }),
           text,
           parse_mode: 'MarkdownV2',
           reply_markup: replyMarkup,
         }),
       });
 
-      const result = await response.json() as { ok: boolean; description?: string };
+      const result = await response.json() as {
+        ok: boolean;
+        description?: string;
+        result?: { message_id: number };
+      };
 
       if (!result.ok) {
         return { ok: false, error: maskBotToken(`Telegram API error: ${result.description || 'Unknown error'}`) };
       }
 
+      if (result.result) {
+        this.sentMessages.set(message.requestId, { messageId: result.result.message_id, text, threadId });
+        // 사유 답장으로 거부된 경우 telegram-callback이 원본 메시지의 버튼을 제거하는 데 사용
+        return { ok: true, messageRef: `${this.config.chatId}:${result.result.message_id}` };
+      }
+
       return { ok: true };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -129,6 +206,7 @@ export class TelegramMessenger implements Messenger {
         },
         body: JSON.stringify({
           chat_id: this.config.chatId,
+          ...(this.config.messageThreadId !== undefined && { message_thread_id: this.config.messageThreadId }),
           text,
           parse_mode: 'MarkdownV2',
         }),
@@ -147,6 +225,77 @@ export class TelegramMessenger implements Messenger {
     }
   }
 
+  /**
+   * 원본 메시지를 수정하여 버튼을 제거하고 처리 결과(타임아웃 포함)를 표시
+   * 수정할 수 없으면 (메시지 길이 초과 등) telegram-callback과 같이 버튼만 제거하고 답장으로 표시
+   */
+  async notifyResolution(requestId: string, resolution: MessengerResolution): Promise<MessengerResult> {
+    const sent = this.sentMessages.get(requestId);
+    const resolutionText = escapeTelegramMarkdownV2(formatResolutionText(resolution));
+
+    try {
+      if (sent) {
+        const response = await fetch(`${this.baseUrl}/editMessageText`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            chat_id: this.config.chatId,
+            message_id: sent.messageId,
+            text: `${sent.text}\n\n*${resolutionText}*`,
+            parse_mode: 'MarkdownV2',
+            reply_markup: { inline_keyboard: [] },
+          }),
+        });
+        const result = await response.json() as { ok: boolean };
+        if (result.ok) {
+          return { ok: true };
+        }
+      }
+
+      const messageId = sent?.messageId;
+      if (messageId !== undefined) {
+        await fetch(`${this.baseUrl}/editMessageReplyMarkup`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            chat_id: this.config.chatId,
+            message_id: messageId,
+            reply_markup: { inline_keyboard: [] },
+          }),
+        });
+      }
+
+      const response = await fetch(`${this.baseUrl}/sendMessage`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          chat_id: this.config.chatId,
+          ...(sent?.threadId !== undefined && { message_thread_id: sent.threadId }),
+          text: resolutionText,
+          parse_mode: 'MarkdownV2',
+          ...(messageId !== undefined ? { reply_to_message_id: messageId } : {}),
+        }),
+      });
+
+      const result = await response.json() as { ok: boolean; description?: string };
+
+      if (!result.ok) {
+        return { ok: false, error: maskBotToken(`Telegram API error: ${result.description || 'Unknown error'}`) };
+      }
+
+      return { ok: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: maskBotToken(errorMessage) };
+    }
+  }
+
   // getMe API로 Bot Token 검증 및 Bot 정보 조회
   async testConnection(): Promise<ConnectionTestResult> {
     try {
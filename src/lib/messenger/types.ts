@@ -1,6 +1,6 @@
 import type { Severity } from '../rules.js';
 
-export type MessengerType = 'slack' | 'telegram' | 'whatsapp';
+export type MessengerType = 'slack' | 'telegram' | 'whatsapp' | 'discord' | 'teams' | 'webhook';
 
 export interface MessengerMessage {
   requestId: string;
@@ -9,11 +9,36 @@ export interface MessengerMessage {
   severity: Severity;
   cwd: string;
   timestamp: number;
+  // 승인에 필요한 서로 다른 승인자 수 (1보다 크면 메시지에 표시)
+  requiredApprovals?: number;
+  // 파일 수정 도구(Edit, Write 등)의 변경 내용 미리보기 (command에는 "Edit <경로>" 형식으로 표시)
+  diff?: string;
+  // 그 외 도구(MCP, WebFetch 등)의 tool_input (pretty JSON, command에는 도구 이름만 표시)
+  toolInput?: string;
+  // 설정 시 "Approve similar" 버튼 표시 (같은 저장소의 유사 요청을 N분 동안 자동 승인)
+  grantMinutes?: number;
+  // 설정 시 "Edit & approve" 표시 (Bash 명령어의 단일 승인 요청만, 수정된 명령어는 hook이 updatedInput으로 전달)
+  editable?: boolean;
 }
 
 export interface MessengerResult {
   ok: boolean;
   error?: string;
+  // 전송된 메시지 참조 (예: Slack bot-token 모드의 "channel:ts")
+  // hook이 요청 행의 message_refs에 저장하여 callback이 원본 메시지를 갱신하는 데 사용
+  messageRef?: string;
+}
+
+// 승인 요청 처리 결과 (다른 채널의 메시지 갱신용)
+export interface MessengerResolution {
+  status: 'approved' | 'rejected' | 'timeout';
+  resolvedBy?: string;
+  // 결정이 이루어진 채널 표시 이름 (예: 'Slack', 'Local TTY')
+  via?: string;
+  // 로컬 TTY에서 결정된 경우 'local'
+  source?: 'local' | 'remote';
+  // 거부 시 승인자가 남긴 사유
+  rejectionReason?: string;
 }
 
 // testConnection() 결과: 성공 시 info에 메신저별 정보 포함
@@ -21,7 +46,7 @@ export interface ConnectionTestResult {
   ok: boolean;
   error?: string;
   info?: {
-    // Telegram: Bot username
+    // Telegram/Discord: Bot username
     botUsername?: string;
     // WhatsApp/Twilio: Account friendly name
     accountName?: string;
@@ -35,4 +60,7 @@ export interface Messenger {
   validateConfig(): boolean;
   // API를 호출하여 연결 테스트 (Bot Token, Account 등 검증)
   testConnection(): Promise<ConnectionTestResult>;
+  // 다른 채널에서 처리된 요청의 메시지를 갱신 (버튼 제거, 처리 결과 표시)
+  // sendNotification으로 보낸 메시지 정보는 인스턴스에 보관됨
+  notifyResolution?(requestId: string, resolution: MessengerResolution): Promise<MessengerResult>;
 }
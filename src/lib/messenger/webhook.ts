@@ -0,0 +1,195 @@
+import * as crypto from 'node:crypto';
+import type {
+  Messenger,
+  MessengerMessage,
+  MessengerResult,
+  MessengerResolution,
+  ConnectionTestResult,
+} from './types.js';
+import { maskSensitiveInfo } from './base.js';
+
+export interface WebhookConfig {
+  // 알림 payload를 받을 엔드포인트 (사내 도구 등)
+  url: string;
+  // payload 서명 및 callback 서명 검증에 사용하는 공유 시크릿
+  secret: string;
+  // webhook-callback URL (Edge Function 또는 serve, approve/reject callback URL 생성에 사용)
+  callbackUrl: string;
+}
+
+/** Payload 형식 버전 (호환되지 않는 변경 시 증가) */
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Claude-Guard-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Claude-Guard-Timestamp';
+
+export type WebhookEvent = 'approval.requested' | 'approval.resolved' | 'test' | 'ping';
+
+export interface WebhookPayload {
+  version: typeof WEBHOOK_PAYLOAD_VERSION;
+  event: WebhookEvent;
+  requestId?: string;
+  command?: string;
+  severity?: MessengerMessage['severity'];
+  reason?: string;
+  cwd?: string;
+  // 승인에 필요한 서로 다른 승인자 수 (callback마다 resolvedBy가 달라야 함)
+  requiredApprovals?: number;
+  // 파일 수정 도구의 변경 내용 미리보기 (마스킹됨)
+  diff?: string;
+  // MCP/WebFetch 등 도구의 입력 (pretty JSON 문자열, 마스킹됨)
+  toolInput?: string;
+  timestamp: number;
+  callbacks?: {
+    approve: string;
+    // grantMinutes가 설정된 요청만 (유사 요청 일괄 승인)
+    approveSimilar?: string;
+    reject: string;
+  };
+  // "Approve similar" grant 유효 시간 (분)
+  grantMinutes?: number;
+  // approval.resolved 이벤트 전용
+  status?: MessengerResolution['status'];
+  resolvedBy?: string;
+  resolvedVia?: string;
+}
+
+/**
+ * HMAC-SHA256 서명 생성 (Slack 서명 방식과 동일한 구조)
+ * 서명 대상: v1:{timestamp}:{body}
+ * @returns "v1=<hex>" 형식의 서명
+ */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  const hmac = crypto.createHmac('sha256', secret).update(`v1:${timestamp}:${body}`).digest('hex');
+  return `v1=${hmac}`;
+}
+
+// 로컬 개발용 http://localhost 외에는 https만 허용
+export function isAllowedWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'https:') {
+      return true;
+    }
+    return parsed.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+function buildCallbackUrl(
+  callbackUrl: string,
+  requestId: string,
+  action: 'approve' | 'approve_similar' | 'reject'
+): string {
+  const url = new URL(callbackUrl);
+  url.searchParams.set('requestId', requestId);
+  url.searchParams.set('action', action);
+  return url.toString();
+}
+
+function buildWebhookPayload(message: MessengerMessage, callbackUrl: string): WebhookPayload {
+  return {
+    version: WEBHOOK_PAYLOAD_VERSION,
+    event: 'approval.requested',
+    requestId: message.requestId,
+    command: maskSensitiveInfo(message.command),
+    severity: message.severity,
+    reason: message.reason,
+    cwd: message.cwd,
+    requiredApprovals: message.requiredApprovals ?? 1,
+    diff: message.diff ? maskSensitiveInfo(message.diff) : undefined,
+    toolInput: message.toolInput ? maskSensitiveInfo(message.toolInput) : undefined,
+    timestamp: message.timestamp,
+    grantMinutes: message.grantMinutes,
+    callbacks: {
+      approve: buildCallbackUrl(callbackUrl, message.requestId, 'approve'),
+      approveSimilar: message.grantMinutes
+        ? buildCallbackUrl(callbackUrl, message.requestId, 'approve_similar')
+        : undefined,
+      reject: buildCallbackUrl(callbackUrl, message.requestId, 'reject'),
+    },
+  };
+}
+
+export class WebhookMessenger implements Messenger {
+  readonly type = 'webhook' as const;
+  private config: WebhookConfig;
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+  }
+
+  validateConfig(): boolean {
+    return (
+      typeof this.config.url === 'string' &&
+      isAllowedWebhookUrl(this.config.url) &&
+      typeof this.config.secret === 'string' &&
+      this.config.secret.length >= 32 &&
+      typeof this.config.callbackUrl === 'string' &&
+      isAllowedWebhookUrl(this.config.callbackUrl)
+    );
+  }
+
+  private async post(payload: WebhookPayload): Promise<MessengerResult> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'claude-remote-guard',
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(this.config.secret, timestamp, body),
+        },
+        body,
+      });
+
+      if (!response.ok) {
+        return { ok: false, error: `Webhook error: ${response.status} ${response.statusText}` };
+      }
+
+      return { ok: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage };
+    }
+  }
+
+  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+    return this.post(buildWebhookPayload(message, this.config.callbackUrl));
+  }
+
+  async sendTestNotification(): Promise<MessengerResult> {
+    return this.post({
+      version: WEBHOOK_PAYLOAD_VERSION,
+      event: 'test',
+      reason: 'This is a test notification from Claude Guard.',
+      timestamp: Date.now(),
+    });
+  }
+
+  // 다른 채널에서 처리된 경우 approval.resolved 이벤트 전송
+  async notifyResolution(requestId: string, resolution: MessengerResolution): Promise<MessengerResult> {
+    return this.post({
+      version: WEBHOOK_PAYLOAD_VERSION,
+      event: 'approval.resolved',
+      requestId,
+      status: resolution.status,
+      resolvedBy: resolution.resolvedBy,
+      resolvedVia: resolution.via,
+      timestamp: Date.now(),
+    });
+  }
+
+  // ping 이벤트를 전송하여 엔드포인트 응답 확인
+  async testConnection(): Promise<ConnectionTestResult> {
+    return this.post({
+      version: WEBHOOK_PAYLOAD_VERSION,
+      event: 'ping',
+      timestamp: Date.now(),
+    });
+  }
+}
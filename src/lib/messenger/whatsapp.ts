@@ -1,32 +1,82 @@
-import type { Messenger, MessengerMessage, MessengerResult, ConnectionTestResult } from './types.js';
-import { maskSensitiveInfo, truncateCommand, getSeverityEmoji } from './base.js';
+import type {
+  Messenger,
+  MessengerMessage,
+  MessengerResult,
+  MessengerResolution,
+  ConnectionTestResult,
+} from './types.js';
+import {
+  maskSensitiveInfo,
+  truncateCommand,
+  getMessageDetail,
+  getSeverityEmoji,
+  formatResolutionText,
+} from './base.js';
 
 export interface WhatsAppConfig {
   accountSid: string;
   authToken: string;
   fromNumber: string; // Twilio WhatsApp number (e.g., whatsapp:+14155238886)
   toNumber: string;   // Recipient number (e.g., whatsapp:+821012345678)
+  // Twilio Content API quick-reply 템플릿 SID (HX...). 설정 시 Approve/Reject 버튼이 있는 메시지로 전송
+  contentSid?: string;
+}
+
+export function isValidTwilioContentSid(value: unknown): boolean {
+  return typeof value === 'string' && /^HX[0-9a-f]{32}$/i.test(value);
+}
+
+// WhatsApp 템플릿 변수는 줄바꿈, 탭, 연속된 공백을 허용하지 않음
+function toTemplateVariable(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Content API quick-reply 템플릿 변수
+ * {{1}} 심각도와 사유, {{2}} 명령어, {{3}} 작업 디렉토리, {{4}} 요청 ID
+ * 템플릿의 버튼 id는 approve:{{4}}, reject:{{4}} (whatsapp-callback이 ButtonPayload로 받음)
+ */
+function buildContentVariables(message: MessengerMessage): Record<string, string> {
+  const emoji = getSeverityEmoji(message.severity);
+  return {
+    '1': toTemplateVariable(`${emoji} ${message.severity.toUpperCase()}: ${message.reason}`),
+    '2': toTemplateVariable(truncateCommand(maskSensitiveInfo(message.command), 300)),
+    '3': toTemplateVariable(message.cwd),
+    '4': message.requestId,
+  };
 }
 
 function buildWhatsAppMessage(message: MessengerMessage): string {
   const emoji = getSeverityEmoji(message.severity);
   const maskedCommand = maskSensitiveInfo(message.command);
   const truncatedCommand = truncateCommand(maskedCommand, 300);
+  const detail = getMessageDetail(message, 600);
 
   const lines = [
     `${emoji} Claude Guard: Approval Required`,
     '',
     `Reason: ${message.reason}`,
     `Severity: ${message.severity.toUpperCase()}`,
+    ...(message.requiredApprovals && message.requiredApprovals > 1
+      ? [`Approvals required: ${message.requiredApprovals}`]
+      : []),
     '',
     `Command:`,
     truncatedCommand,
     '',
+    ...(detail ? [`${detail.title}:`, detail.text, ''] : []),
     `Working Directory: ${message.cwd}`,
     '',
     `---`,
     `To approve, reply: APPROVE ${message.requestId}`,
+    ...(message.grantMinutes
+      ? [`To approve similar requests for ${message.grantMinutes} min, reply: APPROVE SIMILAR ${message.requestId}`]
+      : []),
+    ...(message.editable
+      ? [`To approve a modified command instead, reply: EDIT ${message.requestId} <command>`]
+      : []),
     `To reject, reply: REJECT ${message.requestId}`,
+    `To reject with a reason for Claude, reply: REJECT ${message.requestId} <reason>`,
   ];
 
   return lines.join('\n');
@@ -49,21 +99,25 @@ export class WhatsAppMessenger implements Messenger {
       typeof this.config.fromNumber === 'string' &&
       this.config.fromNumber.startsWith('whatsapp:') &&
       typeof this.config.toNumber === 'string' &&
-      this.config.toNumber.startsWith('whatsapp:')
+      this.config.toNumber.startsWith('whatsapp:') &&
+      (this.config.contentSid === undefined || isValidTwilioContentSid(this.config.contentSid))
     );
   }
 
-  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+  /**
+   * Messages API로 전송 (fields: Body 또는 ContentSid/ContentVariables)
+   */
+  private async createMessage(fields: Record<string, string>): Promise<MessengerResult> {
     try {
-      const body = buildWhatsAppMessage(message);
-
       const url = `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`;
       const auth = Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString('base64');
 
       const formData = new URLSearchParams();
       formData.append('From', this.config.fromNumber);
       formData.append('To', this.config.toNumber);
-      formData.append('Body', body);
+      for (const [key, value] of Object.entries(fields)) {
+        formData.append(key, value);
+      }
 
       const response = await fetch(url, {
         method: 'POST',
@@ -87,45 +141,40 @@ export class WhatsAppMessenger implements Messenger {
     }
   }
 
-  async sendTestNotification(): Promise<MessengerResult> {
-    try {
-      const body = [
-        '✅ Claude Guard Test Notification',
-        '',
-        'This is a test notification from Claude Guard.',
-        'If you see this message, your WhatsApp integration is working correctly!',
-        '',
-        `Sent at: ${new Date().toISOString()}`,
-      ].join('\n');
-
-      const url = `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`;
-      const auth = Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString('base64');
-
-      const formData = new URLSearchParams();
-      formData.append('From', this.config.fromNumber);
-      formData.append('To', this.config.toNumber);
-      formData.append('Body', body);
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: formData.toString(),
+  /**
+   * contentSid가 설정되면 quick-reply 버튼 템플릿으로 전송하고,
+   * 템플릿 전송이 실패하면 (미승인 템플릿, 세션 만료 등) 텍스트 답장 안내 메시지로 전송
+   */
+  async sendNotification(message: MessengerMessage): Promise<MessengerResult> {
+    if (this.config.contentSid) {
+      const result = await this.createMessage({
+        ContentSid: this.config.contentSid,
+        ContentVariables: JSON.stringify(buildContentVariables(message)),
       });
+      if (result.ok) {
+        return result;
+      }
+    }
 
-      const result = await response.json() as { sid?: string; message?: string; code?: number };
+    return this.createMessage({ Body: buildWhatsAppMessage(message) });
+  }
 
-      if (!response.ok) {
-        return { ok: false, error: `Twilio API error: ${result.message || 'Unknown error'}` };
-      }
+  async sendTestNotification(): Promise<MessengerResult> {
+    const body = [
+      '✅ Claude Guard Test Notification',
+      '',
+      'This is a test notification from Claude Guard.',
+      'If you see this message, your WhatsApp integration is working correctly!',
+      '',
+      `Sent at: ${new Date().toISOString()}`,
+    ].join('\n');
+
+    return this.createMessage({ Body: body });
+  }
 
-      return { ok: true };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return { ok: false, error: errorMessage };
-    }
+  // WhatsApp 메시지는 수정할 수 없으므로 처리 결과를 후속 메시지로 전송
+  async notifyResolution(requestId: string, resolution: MessengerResolution): Promise<MessengerResult> {
+    return this.createMessage({ Body: `${formatResolutionText(resolution)}\nRequest ID: ${requestId}` });
   }
 
   // Twilio Account 정보 조회로 연결 테스트
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  appendOfflineQueueEntry,
+  clearOfflineQueue,
+  isValidOfflineFallbackConfig,
+  MAX_QUEUE_ENTRIES,
+  readOfflineQueue,
+  type OfflineQueueEntry,
+} from './offline-fallback.js';
+
+function entry(id: string): OfflineQueueEntry {
+  return {
+    id,
+    created_at: new Date().toISOString(),
+    tool_name: 'Bash',
+    command: 'git push --force',
+    cwd: '/repo',
+    severity: 'high',
+    danger_reason: 'Force push',
+    error: 'Error: fetch failed',
+    status: 'unresolved',
+    resolved_via: 'defaultAction',
+    decision: 'deny',
+  };
+}
+
+describe('offline queue', () => {
+  let dir: string;
+  let queuePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'guard-queue-'));
+    queuePath = path.join(dir, 'offline-queue.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append entries and skip corrupt lines', () => {
+    appendOfflineQueueEntry(entry('a'), queuePath);
+    fs.appendFileSync(queuePath, '{"id": "trunc');
+    fs.appendFileSync(queuePath, '\n');
+    appendOfflineQueueEntry(entry('b'), queuePath);
+
+    expect(readOfflineQueue(queuePath).map((e) => e.id)).toEqual(['a', 'b']);
+    expect(fs.statSync(queuePath).mode & 0o777).toBe(0o600);
+    expect(clearOfflineQueue(queuePath)).toBe(2);
+    expect(readOfflineQueue(queuePath)).toEqual([]);
+  });
+
+  it('should keep only the newest entries', () => {
+    const lines = Array.from({ length: MAX_QUEUE_ENTRIES }, (_, i) => JSON.stringify(entry(`old-${i}`))).join('\n');
+    fs.writeFileSync(queuePath, `${lines}\n`, { mode: 0o600 });
+    appendOfflineQueueEntry(entry('new'), queuePath);
+
+    const entries = readOfflineQueue(queuePath);
+    expect(entries).toHaveLength(MAX_QUEUE_ENTRIES);
+    expect(entries[0].id).toBe('old-1');
+    expect(entries[entries.length - 1].id).toBe('new');
+  });
+});
+
+describe('isValidOfflineFallbackConfig', () => {
+  it('should require a prompt deadline within the hook timeout', () => {
+    expect(isValidOfflineFallbackConfig({ localPromptSeconds: 120 })).toBe(true);
+    expect(isValidOfflineFallbackConfig({ localPromptSeconds: 5 })).toBe(false);
+    expect(isValidOfflineFallbackConfig({ localPromptSeconds: 600 })).toBe(false);
+    expect(isValidOfflineFallbackConfig({})).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getConfigDir } from './config.js';
+import type { Severity } from './rules.js';
+
+/**
+ * 오프라인 폴백 및 로컬 큐
+ *
+ * Supabase(또는 serve)나 메신저에 연결할 수 없을 때 hook은 바로 defaultAction을 적용하지 않고
+ * 원격 → 로컬 TTY 프롬프트(더 긴 대기 시간) → defaultAction 순서로 결정합니다.
+ * 원격에서 처리되지 않은 요청(실패, 타임아웃)은 결정 결과와 함께 로컬 큐에 기록되어
+ * `claude-remote-guard queue`로 나중에 확인할 수 있습니다.
+ */
+
+/** hook 타임아웃(310초) 안에서 응답할 수 있도록 제한 */
+export const MAX_LOCAL_PROMPT_SECONDS = 300;
+
+/** 큐에 보관할 최대 항목 수 (오래된 항목부터 삭제) */
+export const MAX_QUEUE_ENTRIES = 500;
+
+const QUEUE_FILE = 'offline-queue.jsonl';
+
+export interface OfflineFallbackConfig {
+  /** 원격 승인이 불가능할 때 로컬 TTY에서 응답을 기다리는 시간 (초) */
+  localPromptSeconds: number;
+}
+
+export interface OfflineQueueEntry {
+  id: string;
+  created_at: string;
+  tool_name: string;
+  /** 마스킹된 명령어 */
+  command: string;
+  cwd: string;
+  severity: Severity;
+  danger_reason: string;
+  /** 원격 처리에 실패한 사유 (연결 실패, 알림 전송 실패, 타임아웃 등) */
+  error: string;
+  status: 'approved' | 'rejected' | 'unresolved';
+  resolved_via: 'local' | 'defaultAction';
+  decision: 'allow' | 'deny';
+}
+
+export function isValidOfflineFallbackConfig(value: unknown): value is OfflineFallbackConfig {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const c = value as Record<string, unknown>;
+  return (
+    typeof c.localPromptSeconds === 'number' &&
+    Number.isInteger(c.localPromptSeconds) &&
+    c.localPromptSeconds >= 10 &&
+    c.localPromptSeconds <= MAX_LOCAL_PROMPT_SECONDS
+  );
+}
+
+export function getOfflineQueuePath(): string {
+  return path.join(getConfigDir(), QUEUE_FILE);
+}
+
+/**
+ * 큐 파일을 읽습니다. 손상된 줄은 건너뜁니다.
+ * @returns 오래된 항목부터 정렬된 목록 (파일이 없으면 빈 배열)
+ */
+export function readOfflineQueue(filePath: string = getOfflineQueuePath()): OfflineQueueEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: OfflineQueueEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as OfflineQueueEntry;
+      if (typeof entry === 'object' && entry !== null && typeof entry.id === 'string') {
+        entries.push(entry);
+      }
+    } catch {
+      // 쓰기 도중 중단된 줄 등은 무시
+    }
+  }
+  return entries;
+}
+
+/**
+ * 큐에 항목을 추가합니다. MAX_QUEUE_ENTRIES를 넘으면 오래된 항목을 정리합니다.
+ * 심볼릭 링크는 따라가지 않습니다 (O_NOFOLLOW).
+ */
+export function appendOfflineQueueEntry(entry: OfflineQueueEntry, filePath: string = getOfflineQueuePath()): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { mode: 0o700, recursive: true });
+  }
+
+  const { O_WRONLY, O_CREAT, O_APPEND, O_NOFOLLOW } = fs.constants;
+  const fd = fs.openSync(filePath, O_WRONLY | O_CREAT | O_APPEND | (O_NOFOLLOW ?? 0), 0o600);
+  try {
+    fs.writeSync(fd, `${JSON.stringify(entry)}\n`);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const entries = readOfflineQueue(filePath);
+  if (entries.length > MAX_QUEUE_ENTRIES) {
+    writeOfflineQueue(entries.slice(-MAX_QUEUE_ENTRIES), filePath);
+  }
+}
+
+/** 큐를 비웁니다. @returns 삭제된 항목 수 */
+export function clearOfflineQueue(filePath: string = getOfflineQueuePath()): number {
+  const count = readOfflineQueue(filePath).length;
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+  return count;
+}
+
+function writeOfflineQueue(entries: OfflineQueueEntry[], filePath: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''), {
+    encoding: 'utf8',
+    mode: 0o600,
+    flag: 'wx',
+  });
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { analyzeFilePath, globToRegExp } from './path-rules.js';
+import { parseFileToolCall } from './file-tools.js';
+
+const home = os.homedir();
+
+describe('globToRegExp', () => {
+  it('should match unanchored patterns at any directory', () => {
+    const regex = globToRegExp('.env*');
+    expect(regex.test('/repo/.env')).toBe(true);
+    expect(regex.test('/repo/packages/api/.env.local')).toBe(true);
+    expect(regex.test('/repo/src/env.ts')).toBe(false);
+  });
+
+  it('should expand ~ and match whole directories with **', () => {
+    const regex = globToRegExp('~/.ssh/**', '/home/alice');
+    expect(regex.test('/home/alice/.ssh')).toBe(true);
+    expect(regex.test('/home/alice/.ssh/keys/id_ed25519')).toBe(true);
+    expect(regex.test('/repo/.ssh/config')).toBe(false);
+  });
+
+  it('should not let * cross directory boundaries', () => {
+    const regex = globToRegExp('infra/*/main.tf');
+    expect(regex.test('/repo/infra/prod/main.tf')).toBe(true);
+    expect(regex.test('/repo/infra/prod/eu/main.tf')).toBe(false);
+  });
+});
+
+describe('analyzeFilePath', () => {
+  it('should flag default sensitive paths', () => {
+    expect(analyzeFilePath('.env', '/repo')).toMatchObject({ isDangerous: true, severity: 'high' });
+    expect(analyzeFilePath(path.join(home, '.ssh', 'authorized_keys'), '/repo').severity).toBe('critical');
+    expect(analyzeFilePath('.github/workflows/ci.yml', '/repo').isDangerous).toBe(true);
+    expect(analyzeFilePath('src/index.ts', '/repo').isDangerous).toBe(false);
+  });
+
+  it('should protect project-level Claude settings', () => {
+    expect(analyzeFilePath('.claude/settings.json', '/repo').severity).toBe('critical');
+    expect(analyzeFilePath('/repo/.claude/settings.local.json', '/repo').severity).toBe('critical');
+    expect(analyzeFilePath('packages/app/.claude/settings.local.json', '/repo').severity).toBe('critical');
+    expect(analyzeFilePath('.claude/commands/review.md', '/repo').isDangerous).toBe(false);
+  });
+
+  it('should resolve .. segments before matching', () => {
+    const result = analyzeFilePath('../../.ssh/config', path.join(home, 'work', 'repo'));
+    expect(result.severity).toBe('critical');
+  });
+
+  it('should apply custom rules without lowering defaults', () => {
+    const custom = [
+      { pattern: 'infra/prod/**', severity: 'critical' as const, reason: 'Production infrastructure' },
+      { pattern: '.env', severity: 'low' as const, reason: 'Local env' },
+    ];
+    expect(analyzeFilePath('infra/prod/main.tf', '/repo', custom).reason).toBe('Production infrastructure');
+    expect(analyzeFilePath('.env', '/repo', custom).severity).toBe('high');
+  });
+});
+
+describe('parseFileToolCall', () => {
+  it('should build a diff preview for MultiEdit', () => {
+    const call = parseFileToolCall('MultiEdit', {
+      file_path: '/repo/.env',
+      edits: [{ old_string: 'A=1', new_string: 'A=2' }],
+    });
+    expect(call?.filePath).toBe('/repo/.env');
+    expect(call?.preview).toBe('@@ edit 1/1 @@\n- A=1\n+ A=2');
+  });
+
+  it('should truncate long previews', () => {
+    const content = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n');
+    const call = parseFileToolCall('Write', { file_path: 'big.txt', content });
+    expect(call?.preview.split('\n')).toHaveLength(41);
+    expect(call?.preview).toMatch(/\.\.\. \(61 more lines\)$/);
+  });
+
+  it('should ignore other tools', () => {
+    expect(parseFileToolCall('Read', { file_path: '/repo/.env' })).toBeNull();
+  });
+});
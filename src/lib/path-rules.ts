@@ -0,0 +1,201 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { SEVERITY_RANK, type RuleResult, type Severity } from './rules.js';
+
+/** 최대 허용 glob 패턴 길이 */
+const MAX_PATH_PATTERN_LENGTH = 200;
+
+/**
+ * 파일 경로 규칙 (Edit, Write, MultiEdit, NotebookEdit 대상 파일에 적용)
+ *
+ * pattern 형식:
+ * - `~/`로 시작: 홈 디렉토리 기준 (예: `~/.ssh/**`)
+ * - `/`로 시작: 절대 경로 (예: `/etc/**`)
+ * - 그 외: 경로 중간 어디서든 디렉토리 경계에서 일치 (예: `.env*`, `infra/prod/**`)
+ *
+ * `*`는 `/`를 제외한 문자열, `**`는 여러 디렉토리, `?`는 한 문자와 일치합니다.
+ */
+export interface PathRule {
+  pattern: string;
+  severity: Severity;
+  reason: string;
+}
+
+interface CompiledPathRule {
+  rule: PathRule;
+  regex: RegExp;
+}
+
+const DEFAULT_PATH_RULES: PathRule[] = [
+  // Critical - 자격 증명 및 가드 자체 설정
+  { pattern: '~/.ssh/**', severity: 'critical', reason: 'SSH keys or configuration' },
+  { pattern: '~/.aws/**', severity: 'critical', reason: 'AWS credentials' },
+  { pattern: '~/.gnupg/**', severity: 'critical', reason: 'GPG keyring' },
+  { pattern: '~/.claude/settings.json', severity: 'critical', reason: 'Claude settings (may disable the guard hook)' },
+  { pattern: '.claude/settings.json', severity: 'critical', reason: 'Project Claude settings (may override the hook)' },
+  { pattern: '.claude/settings.local.json', severity: 'critical', reason: 'Local Claude settings (may override the hook)' },
+  { pattern: '~/.claude-remote-guard/**', severity: 'critical', reason: 'Claude Remote Guard configuration' },
+
+  // High - 시크릿, CI/CD, 실행되는 훅
+  { pattern: '.env*', severity: 'high', reason: 'Environment file may contain secrets' },
+  { pattern: '*.pem', severity: 'high', reason: 'Private key or certificate' },
+  { pattern: '*.key', severity: 'high', reason: 'Private key file' },
+  { pattern: '.github/workflows/**', severity: 'high', reason: 'CI/CD workflow change' },
+  { pattern: '.git/hooks/**', severity: 'high', reason: 'Git hook (runs on git commands)' },
+  { pattern: '.claude-remote-guard.json', severity: 'high', reason: 'Project guard rules' },
+  { pattern: '.claude/guard.json', severity: 'high', reason: 'Project guard rules' },
+
+  // Medium - 셸 시작 스크립트
+  { pattern: '~/.bashrc', severity: 'medium', reason: 'Shell startup script' },
+  { pattern: '~/.zshrc', severity: 'medium', reason: 'Shell startup script' },
+  { pattern: '~/.profile', severity: 'medium', reason: 'Shell startup script' },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * glob 패턴을 절대 경로와 대조할 정규식으로 변환합니다.
+ * 대소문자를 구분하지 않는 파일시스템(macOS, Windows)에서는 `.ENV` 같은 우회를 막기 위해 i 플래그를 사용합니다.
+ */
+export function globToRegExp(glob: string, homeDir: string = os.homedir()): RegExp {
+  let body = toPosixPath(glob.trim());
+  let prefix: string;
+
+  if (body.startsWith('~/')) {
+    prefix = '^' + escapeRegExp(toPosixPath(homeDir).replace(/\/+$/, '')) + '/';
+    body = body.slice(2);
+  } else if (body.startsWith('/')) {
+    prefix = '^/';
+    body = body.slice(1);
+  } else {
+    prefix = '^(?:.*/)?';
+  }
+
+  // 'infra/prod/'처럼 /로 끝나면 디렉토리 전체
+  if (body.endsWith('/')) {
+    body += '**';
+  }
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (source.endsWith('/') && i + 2 === body.length) {
+        // 'dir/**' → dir 자체와 하위 전체
+        source = source.slice(0, -1) + '(?:/.*)?';
+        i += 1;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const caseInsensitive = process.platform === 'darwin' || process.platform === 'win32';
+  return new RegExp(prefix + source + '$', caseInsensitive ? 'i' : '');
+}
+
+/**
+ * 경로 규칙 패턴이 유효한지 검사합니다.
+ * @returns 거부 사유 또는 null
+ */
+export function validatePathPattern(pattern: string): string | null {
+  if (pattern.trim().length === 0) {
+    return '빈 경로 패턴입니다';
+  }
+  if (pattern.length > MAX_PATH_PATTERN_LENGTH) {
+    return `경로 패턴이 너무 깁니다 (${pattern.length} > ${MAX_PATH_PATTERN_LENGTH}): ${pattern.slice(0, 50)}...`;
+  }
+  return null;
+}
+
+function compilePathRules(rules: PathRule[] | undefined): CompiledPathRule[] {
+  if (!rules) return [];
+
+  const compiled: CompiledPathRule[] = [];
+  for (const rule of rules) {
+    const error = validatePathPattern(rule.pattern);
+    if (error) {
+      process.stderr.write(`[claude-remote-guard] 경고: ${error}\n`);
+      continue;
+    }
+    compiled.push({ rule, regex: globToRegExp(rule.pattern) });
+  }
+  return compiled;
+}
+
+/**
+ * 심볼릭 링크를 따라간 실제 경로 (새 파일은 부모 디렉토리 기준)
+ * 프로젝트 안의 링크를 통해 ~/.ssh 등을 수정하는 우회를 막기 위해 사용합니다.
+ */
+function resolveRealPath(absolutePath: string): string | null {
+  try {
+    return fs.realpathSync(absolutePath);
+  } catch {
+    try {
+      return path.join(fs.realpathSync(path.dirname(absolutePath)), path.basename(absolutePath));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * 파일 경로의 위험도를 분석합니다.
+ * analyzeCommand와 마찬가지로 가장 높은 심각도의 규칙을 사용하며,
+ * 심각도가 같으면 custom 규칙이 우선합니다 (기본 규칙의 심각도를 낮출 수 없음).
+ *
+ * @param filePath 도구 입력의 file_path (상대 경로는 cwd 기준)
+ * @param cwd 작업 디렉토리
+ * @param customRules 설정 및 프로젝트 규칙의 pathRules
+ */
+export function analyzeFilePath(filePath: string, cwd: string, customRules?: PathRule[]): RuleResult {
+  const absolutePath = path.resolve(cwd, filePath);
+  const candidates = [toPosixPath(absolutePath)];
+  const realPath = resolveRealPath(absolutePath);
+  if (realPath && realPath !== absolutePath) {
+    candidates.push(toPosixPath(realPath));
+  }
+
+  const rules = [
+    ...compilePathRules(customRules),
+    ...compilePathRules(DEFAULT_PATH_RULES),
+  ];
+
+  let matched: PathRule | null = null;
+  for (const { rule, regex } of rules) {
+    if (!candidates.some((candidate) => regex.test(candidate))) {
+      continue;
+    }
+    if (!matched || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[matched.severity]) {
+      matched = rule;
+    }
+  }
+
+  if (!matched) {
+    return { isDangerous: false, severity: 'low', reason: 'No sensitive path rules matched' };
+  }
+
+  return {
+    isDangerous: true,
+    severity: matched.severity,
+    reason: matched.reason,
+    matchedPattern: matched.pattern,
+  };
+}
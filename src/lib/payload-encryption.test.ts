@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decryptPayloadField,
+  encryptPayloadField,
+  generatePayloadEncryptionKey,
+  isEncryptedPayload,
+} from './payload-encryption.js';
+
+const KEY = generatePayloadEncryptionKey();
+const REQUEST_ID = '6f1c1b1e-8d4a-4f2e-9c1a-2b3c4d5e6f70';
+
+describe('payload encryption', () => {
+  it('should round-trip a field without leaking the plaintext', () => {
+    const encrypted = encryptPayloadField(KEY, REQUEST_ID, 'command', 'rm -rf ./dist');
+    expect(isEncryptedPayload(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('rm -rf');
+    expect(decryptPayloadField(KEY, REQUEST_ID, 'command', encrypted)).toBe('rm -rf ./dist');
+  });
+
+  it('should reject a different key, request or field', () => {
+    const encrypted = encryptPayloadField(KEY, REQUEST_ID, 'cwd', '/home/me/project');
+    expect(() => decryptPayloadField(generatePayloadEncryptionKey(), REQUEST_ID, 'cwd', encrypted)).toThrow();
+    expect(() => decryptPayloadField(KEY, REQUEST_ID.replace('6f', '7f'), 'cwd', encrypted)).toThrow();
+    expect(() => decryptPayloadField(KEY, REQUEST_ID, 'command', encrypted)).toThrow();
+  });
+
+  it('should pass plaintext values through', () => {
+    expect(decryptPayloadField(KEY, REQUEST_ID, 'command', 'ls -la')).toBe('ls -la');
+  });
+});
@@ -0,0 +1,67 @@
+import * as crypto from 'node:crypto';
+
+/**
+ * approval_requests 페이로드 암호화 (opt-in, Supabase 백엔드 전용)
+ *
+ * hook이 command, cwd, danger_reason (approval_audit는 repo 포함)을 AES-256-GCM으로 암호화하여 저장하므로
+ * anon key로 조회해도 암호문만 보입니다. Edge Function은 같은 키(PAYLOAD_ENCRYPTION_KEY)로
+ * 필요할 때만 복호화합니다 (예: 결정 서명 시 command 해시 계산). 승인자가 수정한 명령어(modified_command)는
+ * Edge Function이 같은 형식으로 암호화하여 저장합니다.
+ *
+ * 형식: ENC1:<iv_base64>:<ciphertext+authTag_base64> (WebCrypto AES-GCM 출력과 동일한 순서)
+ * AAD: {requestId}:{field} (다른 요청/필드로 암호문을 옮겨 붙이는 것을 방지)
+ *
+ * Edge Function 템플릿의 PAYLOAD_ENCRYPTION_HELPER와 동일한 형식을 유지해야 합니다.
+ */
+
+export const ENCRYPTED_PAYLOAD_PREFIX = 'ENC1:';
+
+/** 암호화 대상 컬럼 (repo는 approval_audit 전용, modified_command는 Edge Function이 암호화) */
+export type EncryptedField = 'command' | 'cwd' | 'danger_reason' | 'repo' | 'modified_command';
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/** 32바이트 랜덤 키 (hex) */
+export function generatePayloadEncryptionKey(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function isValidPayloadEncryptionKey(key: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(key);
+}
+
+export function isEncryptedPayload(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PAYLOAD_PREFIX);
+}
+
+export function encryptPayloadField(key: string, requestId: string, field: EncryptedField, plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(key, 'hex'), iv);
+  cipher.setAAD(Buffer.from(`${requestId}:${field}`, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  return `${ENCRYPTED_PAYLOAD_PREFIX}${iv.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * 암호화된 값을 복호화합니다. ENC1: 접두사가 없으면 평문으로 간주하여 그대로 반환합니다.
+ * @throws 키가 다르거나 암호문이 변조된 경우
+ */
+export function decryptPayloadField(key: string, requestId: string, field: EncryptedField, value: string): string {
+  if (!isEncryptedPayload(value)) {
+    return value;
+  }
+
+  const [ivB64, dataB64] = value.slice(ENCRYPTED_PAYLOAD_PREFIX.length).split(':');
+  const data = Buffer.from(dataB64 ?? '', 'base64');
+  if (!ivB64 || data.length < AUTH_TAG_LENGTH) {
+    throw new Error(`Invalid encrypted ${field}`);
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', Buffer.from(key, 'hex'), Buffer.from(ivB64, 'base64'));
+  decipher.setAAD(Buffer.from(`${requestId}:${field}`, 'utf8'));
+  decipher.setAuthTag(data.subarray(data.length - AUTH_TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(0, data.length - AUTH_TAG_LENGTH)), decipher.final()]).toString(
+    'utf8'
+  );
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { RulesConfig } from './config.js';
+import { mergeProjectRules, resolveProjectRules } from './project-config.js';
+import { analyzeCommand, compileCustomPatterns } from './rules.js';
+
+const baseRules: RulesConfig = {
+  timeoutSeconds: 300,
+  defaultAction: 'deny',
+  customPatterns: [{ pattern: 'deploy-prod', severity: 'critical', reason: 'Production deploy' }],
+  whitelist: ['npm\\s+run\\s+deploy'],
+};
+
+describe('mergeProjectRules', () => {
+  it('should append project custom patterns', () => {
+    const warnings: string[] = [];
+    const merged = mergeProjectRules(
+      baseRules,
+      { customPatterns: [{ pattern: 'terraform\\s+apply', severity: 'high', reason: 'Infra change' }] },
+      'project.json',
+      warnings
+    );
+    expect(merged.customPatterns).toHaveLength(2);
+    expect(baseRules.customPatterns).toHaveLength(1);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should ignore whitelist entries', () => {
+    const warnings: string[] = [];
+    const merged = mergeProjectRules(baseRules, { whitelist: ['.*'] } as never, 'project.json', warnings);
+    expect(merged.whitelist).toEqual(baseRules.whitelist);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should only tighten defaultAction', () => {
+    const warnings: string[] = [];
+    const loose = mergeProjectRules(baseRules, { defaultAction: 'allow' }, 'project.json', warnings);
+    expect(loose.defaultAction).toBe('deny');
+
+    const tight = mergeProjectRules(
+      { ...baseRules, defaultAction: 'allow' },
+      { defaultAction: 'deny' },
+      'project.json',
+      warnings
+    );
+    expect(tight.defaultAction).toBe('deny');
+  });
+
+  it('should only shorten timeout when timeouts deny', () => {
+    const warnings: string[] = [];
+    expect(mergeProjectRules(baseRules, { timeoutSeconds: 60 }, 'p', warnings).timeoutSeconds).toBe(60);
+    expect(mergeProjectRules(baseRules, { timeoutSeconds: 600 }, 'p', warnings).timeoutSeconds).toBe(300);
+    expect(
+      mergeProjectRules({ ...baseRules, defaultAction: 'allow' }, { timeoutSeconds: 60 }, 'p', warnings)
+        .timeoutSeconds
+    ).toBe(300);
+  });
+
+  it('should let project patterns raise severity over matching global patterns', () => {
+    const warnings: string[] = [];
+    const merged = mergeProjectRules(
+      { ...baseRules, customPatterns: [{ pattern: 'deploy', severity: 'low', reason: 'Deploy' }] },
+      { customPatterns: [{ pattern: 'deploy\\s+prod', severity: 'critical', reason: 'Production deploy' }] },
+      'project.json',
+      warnings
+    );
+    const result = analyzeCommand('make deploy prod', compileCustomPatterns(merged.customPatterns));
+    expect(result.severity).toBe('critical');
+    expect(result.reason).toBe('Production deploy');
+  });
+
+  it('should only raise required approvals', () => {
+    const warnings: string[] = [];
+    const base = { ...baseRules, requiredApprovals: { critical: 2 } };
+    const merged = mergeProjectRules(base, { requiredApprovals: { critical: 1, high: 2 } }, 'p', warnings);
+    expect(merged.requiredApprovals).toEqual({ critical: 2, high: 2 });
+    expect(base.requiredApprovals).toEqual({ critical: 2 });
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should only shorten or disable approval grants', () => {
+    const warnings: string[] = [];
+    const base: RulesConfig = { ...baseRules, approvalGrants: { minutes: 30 } };
+    const merged = mergeProjectRules(base, { approvalGrants: { minutes: 60, maxSeverity: 'medium' } }, 'p', warnings);
+    expect(merged.approvalGrants).toEqual({ minutes: 30, maxSeverity: 'medium' });
+    expect(mergeProjectRules(base, { approvalGrants: false }, 'p', warnings).approvalGrants).toBeUndefined();
+    expect(mergeProjectRules(baseRules, { approvalGrants: { minutes: 10 } }, 'p', warnings).approvalGrants).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should only switch severity actions back to remote', () => {
+    const warnings: string[] = [];
+    const base: RulesConfig = { ...baseRules, severityActions: { low: 'ask' } };
+    const merged = mergeProjectRules(base, { severityActions: { low: 'remote', medium: 'ask' } }, 'p', warnings);
+    expect(merged.severityActions).toEqual({ low: 'remote' });
+    expect(base.severityActions).toEqual({ low: 'ask' });
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe('resolveProjectRules', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'guard-project-'));
+    fs.mkdirSync(path.join(repoDir, '.git'));
+    fs.mkdirSync(path.join(repoDir, 'packages', 'api', '.claude'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should layer rule files from the repo root down to cwd', () => {
+    fs.writeFileSync(
+      path.join(repoDir, '.claude-remote-guard.json'),
+      JSON.stringify({ timeoutSeconds: 120 })
+    );
+    fs.writeFileSync(
+      path.join(repoDir, 'packages', 'api', '.claude', 'guard.json'),
+      JSON.stringify({ customPatterns: [{ pattern: 'psql', severity: 'high', reason: 'DB access' }] })
+    );
+
+    const { rules, sources, warnings } = resolveProjectRules(
+      baseRules,
+      path.join(repoDir, 'packages', 'api')
+    );
+    expect(sources).toHaveLength(2);
+    expect(rules.timeoutSeconds).toBe(120);
+    expect(rules.customPatterns?.map((p) => p.pattern)).toContain('psql');
+    expect(warnings).toEqual([]);
+  });
+
+  it('should warn about invalid JSON', () => {
+    fs.writeFileSync(path.join(repoDir, '.claude-remote-guard.json'), '{ invalid');
+    const { rules, warnings } = resolveProjectRules(baseRules, repoDir);
+    expect(rules).toEqual(baseRules);
+    expect(warnings).toHaveLength(1);
+  });
+});
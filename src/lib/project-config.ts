@@ -0,0 +1,287 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { isValidPathRule, isValidRequiredApprovals, MAX_REQUIRED_APPROVALS, type RulesConfig } from './config.js';
+import type { Severity } from './rules.js';
+import { validateToolRule } from './tool-rules.js';
+import { isValidApprovalGrantsConfig } from './approval-grants.js';
+import { isValidSeverityActions } from './hook-output.js';
+
+/**
+ * 프로젝트별 규칙 파일 이름 (cwd에서 저장소 루트까지 탐색)
+ * 가까운 디렉토리의 파일이 나중에 적용되지만, 모든 파일은 정책을 강화만 할 수 있습니다.
+ */
+export const PROJECT_CONFIG_FILES = ['.claude-remote-guard.json', path.join('.claude', 'guard.json')];
+
+/** 프로젝트 규칙 파일 최대 크기 (비정상적으로 큰 파일 방지) */
+const MAX_PROJECT_CONFIG_SIZE = 64 * 1024;
+
+/** validateConfig와 동일한 최소 타임아웃 */
+const MIN_TIMEOUT_SECONDS = 10;
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * 프로젝트 규칙 파일 형식
+ * 글로벌 설정보다 느슨한 값은 무시됩니다 (whitelist는 지원하지 않음).
+ */
+export interface ProjectRulesConfig {
+  customPatterns?: RulesConfig['customPatterns'];
+  defaultAction?: RulesConfig['defaultAction'];
+  timeoutSeconds?: number;
+  requiredApprovals?: RulesConfig['requiredApprovals'];
+  pathRules?: RulesConfig['pathRules'];
+  toolRules?: RulesConfig['toolRules'];
+  // false면 유사 요청 일괄 승인 비활성화
+  approvalGrants?: RulesConfig['approvalGrants'] | false;
+  severityActions?: RulesConfig['severityActions'];
+}
+
+export interface ResolvedRules {
+  rules: RulesConfig;
+  /** 적용된 프로젝트 규칙 파일 경로 (저장소 루트 → cwd 순서) */
+  sources: string[];
+  /** 무시된 설정 등 사용자에게 알릴 경고 */
+  warnings: string[];
+}
+
+/**
+ * cwd에서 저장소 루트(.git이 있는 디렉토리) 또는 파일시스템 루트까지 올라가며
+ * 프로젝트 규칙 파일을 찾습니다.
+ * @returns 루트에 가까운 파일부터 정렬된 경로 목록
+ */
+export function findProjectConfigFiles(cwd: string): string[] {
+  const found: string[] = [];
+  let dir = path.resolve(cwd);
+  let reachedRoot = false;
+
+  while (!reachedRoot) {
+    // 같은 디렉토리에서는 .claude-remote-guard.json이 .claude/guard.json보다 나중에 적용
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      try {
+        if (fs.statSync(candidate).isFile()) {
+          found.push(candidate);
+        }
+      } catch {
+        // 파일 없음
+      }
+    }
+
+    const parent = path.dirname(dir);
+    reachedRoot = fs.existsSync(path.join(dir, '.git')) || parent === dir;
+    dir = parent;
+  }
+
+  return found.reverse();
+}
+
+function readProjectConfig(filePath: string, warnings: string[]): ProjectRulesConfig | null {
+  try {
+    const stats = fs.statSync(filePath);
+    if (stats.size > MAX_PROJECT_CONFIG_SIZE) {
+      warnings.push(`${filePath}: 파일이 너무 큽니다 (${stats.size} bytes). 무시합니다.`);
+      return null;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      warnings.push(`${filePath}: JSON 객체가 아닙니다. 무시합니다.`);
+      return null;
+    }
+    return parsed as ProjectRulesConfig;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    warnings.push(`${filePath}: 읽기 실패 (${errorMessage}). 무시합니다.`);
+    return null;
+  }
+}
+
+/**
+ * 프로젝트 규칙을 글로벌 규칙 위에 병합합니다.
+ * loadConfig의 환경변수 오버라이드와 마찬가지로 정책을 강화하는 값만 적용합니다:
+ * - customPatterns: 추가만 가능 (기본 패턴의 심각도를 낮출 수 없음)
+ * - defaultAction: 'deny'로 변경만 가능
+ * - timeoutSeconds: defaultAction이 'deny'일 때 더 짧게만 변경 가능
+ *   ('allow'일 때 줄이면 자동 허용이 빨라지므로 무시)
+ * - requiredApprovals: 심각도별로 늘리기만 가능
+ * - pathRules, toolRules: 추가만 가능 (기본 규칙의 심각도를 낮출 수 없음)
+ * - approvalGrants: 끄거나(false) 유효 시간과 최대 심각도를 줄이기만 가능
+ * - severityActions: 'ask'를 'remote'로 바꾸기만 가능
+ */
+export function mergeProjectRules(
+  base: RulesConfig,
+  project: ProjectRulesConfig,
+  source: string,
+  warnings: string[]
+): RulesConfig {
+  const merged: RulesConfig = {
+    ...base,
+    customPatterns: base.customPatterns ? [...base.customPatterns] : undefined,
+    requiredApprovals: base.requiredApprovals ? { ...base.requiredApprovals } : undefined,
+    severityActions: base.severityActions ? { ...base.severityActions } : undefined,
+    pathRules: base.pathRules ? [...base.pathRules] : undefined,
+    toolRules: base.toolRules ? [...base.toolRules] : undefined,
+  };
+
+  if ('whitelist' in project) {
+    warnings.push(`${source}: 프로젝트 규칙에서는 whitelist를 사용할 수 없습니다. 무시합니다.`);
+  }
+
+  if (project.customPatterns !== undefined) {
+    if (!Array.isArray(project.customPatterns)) {
+      warnings.push(`${source}: customPatterns는 배열이어야 합니다. 무시합니다.`);
+    } else {
+      for (const p of project.customPatterns) {
+        if (
+          typeof p !== 'object' ||
+          p === null ||
+          typeof p.pattern !== 'string' ||
+          typeof p.reason !== 'string' ||
+          !SEVERITIES.includes(p.severity)
+        ) {
+          warnings.push(`${source}: 잘못된 customPatterns 항목을 무시합니다: ${JSON.stringify(p)}`);
+          continue;
+        }
+        merged.customPatterns = [
+          ...(merged.customPatterns ?? []),
+          { pattern: p.pattern, severity: p.severity, reason: p.reason, tightenOnly: true },
+        ];
+      }
+    }
+  }
+
+  if (project.pathRules !== undefined) {
+    if (!Array.isArray(project.pathRules)) {
+      warnings.push(`${source}: pathRules는 배열이어야 합니다. 무시합니다.`);
+    } else {
+      for (const rule of project.pathRules) {
+        if (!isValidPathRule(rule)) {
+          warnings.push(`${source}: 잘못된 pathRules 항목을 무시합니다: ${JSON.stringify(rule)}`);
+          continue;
+        }
+        merged.pathRules = [
+          ...(merged.pathRules ?? []),
+          { pattern: rule.pattern, severity: rule.severity, reason: rule.reason },
+        ];
+      }
+    }
+  }
+
+  if (project.toolRules !== undefined) {
+    if (!Array.isArray(project.toolRules)) {
+      warnings.push(`${source}: toolRules는 배열이어야 합니다. 무시합니다.`);
+    } else {
+      for (const rule of project.toolRules) {
+        const error = validateToolRule(rule);
+        if (error) {
+          warnings.push(`${source}: 잘못된 toolRules 항목을 무시합니다 (${error}): ${JSON.stringify(rule)}`);
+          continue;
+        }
+        merged.toolRules = [...(merged.toolRules ?? []), rule];
+      }
+    }
+  }
+
+  if (project.defaultAction !== undefined) {
+    if (project.defaultAction === 'deny') {
+      merged.defaultAction = 'deny';
+    } else if (project.defaultAction !== merged.defaultAction) {
+      warnings.push(`${source}: defaultAction을 '${project.defaultAction}'로 완화할 수 없습니다.`);
+    }
+  }
+
+  if (project.timeoutSeconds !== undefined) {
+    const timeout = project.timeoutSeconds;
+    if (typeof timeout !== 'number' || !Number.isFinite(timeout) || timeout < MIN_TIMEOUT_SECONDS) {
+      warnings.push(`${source}: timeoutSeconds는 ${MIN_TIMEOUT_SECONDS} 이상의 숫자여야 합니다.`);
+    } else if (timeout > merged.timeoutSeconds) {
+      warnings.push(`${source}: timeoutSeconds를 ${merged.timeoutSeconds}초보다 늘릴 수 없습니다.`);
+    } else if (merged.defaultAction !== 'deny') {
+      warnings.push(
+        `${source}: defaultAction이 'allow'인 경우 timeoutSeconds를 줄일 수 없습니다 (자동 허용이 빨라짐).`
+      );
+    } else {
+      merged.timeoutSeconds = timeout;
+    }
+  }
+
+  if (project.requiredApprovals !== undefined) {
+    if (
+      typeof project.requiredApprovals !== 'object' ||
+      project.requiredApprovals === null ||
+      Array.isArray(project.requiredApprovals)
+    ) {
+      warnings.push(`${source}: requiredApprovals는 심각도별 숫자 객체여야 합니다. 무시합니다.`);
+    } else {
+      for (const [severity, count] of Object.entries(project.requiredApprovals)) {
+        if (!SEVERITIES.includes(severity as Severity) || !isValidRequiredApprovals(count)) {
+          warnings.push(
+            `${source}: requiredApprovals.${severity}는 1~${MAX_REQUIRED_APPROVALS} 사이의 정수여야 합니다. 무시합니다.`
+          );
+          continue;
+        }
+        const current = merged.requiredApprovals?.[severity as Severity] ?? 1;
+        if (count < current) {
+          warnings.push(`${source}: requiredApprovals.${severity}를 ${current}보다 줄일 수 없습니다.`);
+          continue;
+        }
+        merged.requiredApprovals = { ...merged.requiredApprovals, [severity]: count };
+      }
+    }
+  }
+
+  if (project.approvalGrants !== undefined) {
+    const grants = project.approvalGrants;
+    if (grants === false) {
+      merged.approvalGrants = undefined;
+    } else if (!isValidApprovalGrantsConfig(grants)) {
+      warnings.push(`${source}: approvalGrants는 false 또는 { minutes, maxSeverity } 객체여야 합니다. 무시합니다.`);
+    } else if (!merged.approvalGrants) {
+      warnings.push(`${source}: 프로젝트 규칙으로 approvalGrants를 활성화할 수 없습니다.`);
+    } else {
+      const current = merged.approvalGrants;
+      const currentMax = current.maxSeverity ?? 'high';
+      const requestedMax = grants.maxSeverity ?? 'high';
+      merged.approvalGrants = {
+        minutes: Math.min(current.minutes, grants.minutes),
+        maxSeverity: SEVERITIES.indexOf(requestedMax) < SEVERITIES.indexOf(currentMax) ? requestedMax : currentMax,
+      };
+    }
+  }
+
+  if (project.severityActions !== undefined) {
+    if (!isValidSeverityActions(project.severityActions)) {
+      warnings.push(`${source}: severityActions는 심각도별 'remote' 또는 'ask' 객체여야 합니다. 무시합니다.`);
+    } else {
+      for (const [severity, action] of Object.entries(project.severityActions)) {
+        if (action === 'ask' && merged.severityActions?.[severity as Severity] !== 'ask') {
+          warnings.push(`${source}: severityActions.${severity}를 'ask'로 완화할 수 없습니다.`);
+          continue;
+        }
+        merged.severityActions = { ...merged.severityActions, [severity]: action };
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * cwd 기준으로 프로젝트 규칙 파일을 찾아 글로벌 규칙에 병합합니다.
+ */
+export function resolveProjectRules(globalRules: RulesConfig, cwd: string): ResolvedRules {
+  const warnings: string[] = [];
+  const sources: string[] = [];
+  let rules = globalRules;
+
+  for (const filePath of findProjectConfigFiles(cwd)) {
+    const project = readProjectConfig(filePath, warnings);
+    if (!project) {
+      continue;
+    }
+    rules = mergeProjectRules(rules, project, filePath, warnings);
+    sources.push(filePath);
+  }
+
+  return { rules, sources, warnings };
+}
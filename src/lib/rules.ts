@@ -1,4 +1,5 @@
 import safeRegex from 'safe-regex';
+import { splitShellCommand } from './shell-parser.js';
 
 export type Severity = 'low' | 'medium' | 'high' | 'critical';
 
@@ -44,36 +45,95 @@ function isPatternTooPermissive(pattern: string): boolean {
 }
 
 /**
- * ReDoS 공격을 방지하기 위해 사용자 정규식 패턴의 안전성을 검증합니다.
+ * 사용자 정규식 패턴을 검사하여 RegExp 또는 거부 사유를 반환합니다.
  * @param pattern 사용자가 제공한 정규식 패턴 문자열
  * @param isWhitelist whitelist 패턴인 경우 true (광범위한 패턴 거부)
- * @returns 안전한 경우 RegExp 객체, 안전하지 않으면 null
  */
-function createSafeRegex(pattern: string, isWhitelist: boolean = false): RegExp | null {
+function compileUserPattern(
+  pattern: string,
+  isWhitelist: boolean
+): { regex: RegExp; error?: undefined } | { regex?: undefined; error: string } {
   // 패턴 길이 제한
   if (pattern.length > MAX_PATTERN_LENGTH) {
-    console.warn(`[rules] 정규식 패턴이 너무 깁니다 (${pattern.length} > ${MAX_PATTERN_LENGTH}): ${pattern.slice(0, 50)}...`);
-    return null;
+    return { error: `정규식 패턴이 너무 깁니다 (${pattern.length} > ${MAX_PATTERN_LENGTH}): ${pattern.slice(0, 50)}...` };
   }
 
   // ReDoS 취약점 검사
   if (!safeRegex(pattern)) {
-    console.warn(`[rules] 안전하지 않은 정규식 패턴이 감지되었습니다: ${pattern.slice(0, 50)}${pattern.length > 50 ? '...' : ''}`);
-    return null;
+    return { error: `안전하지 않은 정규식 패턴이 감지되었습니다: ${pattern.slice(0, 50)}${pattern.length > 50 ? '...' : ''}` };
   }
 
   // Whitelist인 경우 광범위한 패턴 거부
   if (isWhitelist && isPatternTooPermissive(pattern)) {
-    console.warn(`[rules] 너무 광범위한 whitelist 패턴 거부: ${pattern}`);
-    return null;
+    return { error: `너무 광범위한 whitelist 패턴 거부: ${pattern}` };
   }
 
   try {
-    return new RegExp(pattern, 'i');
+    return { regex: new RegExp(pattern, 'i') };
   } catch {
-    console.warn(`[rules] 유효하지 않은 정규식 패턴입니다: ${pattern.slice(0, 50)}${pattern.length > 50 ? '...' : ''}`);
+    return { error: `유효하지 않은 정규식 패턴입니다: ${pattern.slice(0, 50)}${pattern.length > 50 ? '...' : ''}` };
+  }
+}
+
+/**
+ * ReDoS 공격을 방지하기 위해 사용자 정규식 패턴의 안전성을 검증합니다.
+ * @param pattern 사용자가 제공한 정규식 패턴 문자열
+ * @param isWhitelist whitelist 패턴인 경우 true (광범위한 패턴 거부)
+ * @returns 안전한 경우 RegExp 객체, 안전하지 않으면 null
+ */
+export function createSafeRegex(pattern: string, isWhitelist: boolean = false): RegExp | null {
+  const compiled = compileUserPattern(pattern, isWhitelist);
+  if (compiled.error !== undefined) {
+    console.warn(`[rules] ${compiled.error}`);
     return null;
   }
+  return compiled.regex;
+}
+
+export interface RejectedPattern {
+  pattern: string;
+  reason: string;
+}
+
+/**
+ * createSafeRegex가 거부하는 패턴과 그 사유를 반환합니다 (경고 로그 없음).
+ * `rules test` 명령 등에서 설정 진단용으로 사용합니다.
+ */
+export function findRejectedPatterns(patterns: string[], isWhitelist: boolean = false): RejectedPattern[] {
+  const rejected: RejectedPattern[] = [];
+  for (const pattern of patterns) {
+    const { error } = compileUserPattern(pattern, isWhitelist);
+    if (error) {
+      rejected.push({ pattern, reason: error });
+    }
+  }
+  return rejected;
+}
+
+/**
+ * 설정 파일의 customPatterns를 DangerPattern으로 변환합니다.
+ * createSafeRegex로 검증하여 안전하지 않거나 유효하지 않은 패턴은 제외합니다.
+ */
+export function compileCustomPatterns(
+  patterns?: Array<{ pattern: string; severity: Severity; reason: string; tightenOnly?: boolean }>
+): DangerPattern[] {
+  if (!patterns) {
+    return [];
+  }
+
+  const compiled: DangerPattern[] = [];
+  for (const p of patterns) {
+    const regex = createSafeRegex(p.pattern);
+    if (regex) {
+      compiled.push({
+        pattern: regex,
+        severity: p.severity,
+        reason: p.reason,
+        ...(p.tightenOnly && { tightenOnly: true }),
+      });
+    }
+  }
+  return compiled;
 }
 
 export interface RuleResult {
@@ -81,12 +141,31 @@ export interface RuleResult {
   severity: Severity;
   reason: string;
   matchedPattern?: string;
+  /** 일치한 모든 규칙 (정렬, 중복 제거). grant 범위 계산에 사용 */
+  matchedPatterns?: string[];
+  /** 복합 명령에서 위험 패턴이 일치한 segment */
+  matchedSegment?: string;
+  /** 허용 판정을 내린 사용자 whitelist 패턴 */
+  whitelistedBy?: string;
+}
+
+export interface SegmentAnalysis {
+  segment: string;
+  result: RuleResult;
 }
 
-interface DangerPattern {
+export interface DetailedRuleResult {
+  result: RuleResult;
+  /** segment별 분석 결과 (복합 명령은 전체 명령 대조 결과가 마지막에 포함됨) */
+  segments: SegmentAnalysis[];
+}
+
+export interface DangerPattern {
   pattern: RegExp;
   severity: Severity;
   reason: string;
+  /** 프로젝트 규칙에서 추가된 패턴 (심각도를 높이기만 함) */
+  tightenOnly?: boolean;
 }
 
 const DANGER_PATTERNS: DangerPattern[] = [
@@ -167,16 +246,83 @@ const SAFE_PATTERNS: RegExp[] = [
   /^\s*python3?\s+-c\s+['"]print/i,
 ];
 
-export function analyzeCommand(
+/** 심각도 비교용 순위 (높을수록 위험) */
+export const SEVERITY_RANK: Record<Severity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+/**
+ * 위험 패턴과 대조하여 결과를 반환합니다.
+ */
+function matchDangerPatterns(text: string, customPatterns?: DangerPattern[]): RuleResult | null {
+  return toRuleResult(customPatterns, (dp) => dp.pattern.test(text));
+}
+
+/**
+ * 복합 명령 전체에서만 일치하는 패턴(`curl ... | sh` 등 여러 segment에 걸친 패턴)을 대조합니다.
+ * 어느 한 segment에서라도 일치하는 패턴은 해당 segment 분석(SAFE_PATTERNS/whitelist 적용)에 맡기므로,
+ * whitelist된 segment나 따옴표 안의 텍스트가 전체 명령 대조로 다시 위험 판정되지 않습니다.
+ */
+function matchCrossSegmentPatterns(
   command: string,
+  segments: string[],
+  customPatterns?: DangerPattern[]
+): RuleResult | null {
+  return toRuleResult(
+    customPatterns,
+    (dp) => dp.pattern.test(command) && !segments.some((segment) => dp.pattern.test(segment))
+  );
+}
+
+/**
+ * 일치한 패턴으로 결과를 만듭니다.
+ * 글로벌 custom 패턴은 기본 패턴보다 우선하여, 처음 일치한 패턴이 기본 패턴 대신 사용됩니다
+ * (기본 패턴의 심각도를 낮출 수 있음). 프로젝트 규칙의 패턴(tightenOnly)은 정책을 강화만 하므로
+ * 함께 일치한 패턴보다 심각도가 높을 때만 적용됩니다 (같으면 프로젝트 패턴의 사유 사용).
+ */
+function toRuleResult(
+  customPatterns: DangerPattern[] | undefined,
+  matches: (dp: DangerPattern) => boolean
+): RuleResult | null {
+  const custom = (customPatterns ?? []).filter(matches);
+  const builtin = DANGER_PATTERNS.filter(matches);
+  const globalMatch = custom.find((dp) => !dp.tightenOnly);
+  const candidates = [...custom.filter((dp) => dp.tightenOnly), ...(globalMatch ? [globalMatch] : builtin)];
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const highest = candidates.reduce((best, dp) =>
+    SEVERITY_RANK[dp.severity] > SEVERITY_RANK[best.severity] ? dp : best
+  );
+  return {
+    isDangerous: true,
+    severity: highest.severity,
+    reason: highest.reason,
+    matchedPattern: highest.pattern.source,
+    matchedPatterns: uniqueSorted([...custom, ...builtin].map((dp) => dp.pattern.source)),
+  };
+}
+
+export function uniqueSorted(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+/**
+ * 단일 segment(구분자 없는 단순 명령)를 분석합니다.
+ * SAFE_PATTERNS와 whitelist는 segment 단위로만 적용됩니다.
+ */
+function analyzeSegment(
+  segment: string,
   customPatterns?: DangerPattern[],
   whitelist?: string[]
 ): RuleResult {
-  const trimmedCommand = command.trim();
-
   // Check safe patterns first
   for (const pattern of SAFE_PATTERNS) {
-    if (pattern.test(trimmedCommand)) {
+    if (pattern.test(segment)) {
       return { isDangerous: false, severity: 'low', reason: 'Safe command' };
     }
   }
@@ -185,39 +331,96 @@ export function analyzeCommand(
   if (whitelist) {
     for (const pattern of whitelist) {
       const regex = createSafeRegex(pattern, true); // isWhitelist = true
-      if (regex && regex.test(trimmedCommand)) {
-        return { isDangerous: false, severity: 'low', reason: 'Whitelisted command' };
+      if (regex && regex.test(segment)) {
+        return {
+          isDangerous: false,
+          severity: 'low',
+          reason: 'Whitelisted command',
+          whitelistedBy: pattern,
+        };
       }
     }
   }
 
-  // Check custom patterns first (higher priority)
-  if (customPatterns) {
-    for (const dp of customPatterns) {
-      if (dp.pattern.test(trimmedCommand)) {
-        return {
-          isDangerous: true,
-          severity: dp.severity,
-          reason: dp.reason,
-          matchedPattern: dp.pattern.source,
-        };
-      }
+  return (
+    matchDangerPatterns(segment, customPatterns) ?? {
+      isDangerous: false,
+      severity: 'low',
+      reason: 'No dangerous patterns detected',
     }
+  );
+}
+
+/**
+ * 명령어의 위험도를 분석합니다.
+ *
+ * 명령어를 셸 구문 기준으로 segment(&&, ||, ;, |, 서브셸, 명령 치환 등)로 나누어
+ * 각각 독립적으로 검사하고 가장 높은 심각도의 결과를 반환합니다.
+ * 따라서 `echo ok && rm -rf ~/` 처럼 안전한 명령 뒤에 위험한 명령을 연결해도
+ * SAFE_PATTERNS로 우회할 수 없습니다.
+ *
+ * 여러 segment로 구성된 명령은 파이프 기반 패턴(`curl ... | sh` 등)을 위해
+ * 전체 문자열도 위험 패턴과 대조하되, 단일 segment 안에서 일치하는 패턴은 제외합니다.
+ */
+export function analyzeCommand(
+  command: string,
+  customPatterns?: DangerPattern[],
+  whitelist?: string[]
+): RuleResult {
+  return analyzeCommandDetailed(command, customPatterns, whitelist).result;
+}
+
+/**
+ * analyzeCommand와 동일하게 분석하되 segment별 결과를 함께 반환합니다.
+ */
+export function analyzeCommandDetailed(
+  command: string,
+  customPatterns?: DangerPattern[],
+  whitelist?: string[]
+): DetailedRuleResult {
+  const noDanger: RuleResult = {
+    isDangerous: false,
+    severity: 'low',
+    reason: 'No dangerous patterns detected',
+  };
+  const segments = splitShellCommand(command);
+
+  if (segments.length === 0) {
+    return { result: noDanger, segments: [] };
   }
 
-  // Check default danger patterns
-  for (const dp of DANGER_PATTERNS) {
-    if (dp.pattern.test(trimmedCommand)) {
-      return {
-        isDangerous: true,
-        severity: dp.severity,
-        reason: dp.reason,
-        matchedPattern: dp.pattern.source,
-      };
+  if (segments.length === 1) {
+    const result = analyzeSegment(segments[0], customPatterns, whitelist);
+    return { result, segments: [{ segment: segments[0], result }] };
+  }
+
+  const analyses: SegmentAnalysis[] = segments.map((segment) => ({
+    segment,
+    result: analyzeSegment(segment, customPatterns, whitelist),
+  }));
+
+  // Pipe-aware patterns (e.g. curl ... | sh) need the whole command line
+  const trimmedCommand = command.trim();
+  analyses.push({
+    segment: trimmedCommand,
+    result: matchCrossSegmentPatterns(trimmedCommand, segments, customPatterns) ?? noDanger,
+  });
+
+  let highest: RuleResult | null = null;
+  const matchedPatterns: string[] = [];
+  for (const { segment, result } of analyses) {
+    if (!result.isDangerous) continue;
+    matchedPatterns.push(...(result.matchedPatterns ?? []));
+    if (!highest || SEVERITY_RANK[result.severity] > SEVERITY_RANK[highest.severity]) {
+      highest = { ...result, matchedSegment: segment };
     }
   }
 
-  return { isDangerous: false, severity: 'low', reason: 'No dangerous patterns detected' };
+  // 가장 높은 심각도 외에 다른 segment에서 일치한 패턴도 함께 기록
+  return {
+    result: highest ? { ...highest, matchedPatterns: uniqueSorted(matchedPatterns) } : noDanger,
+    segments: analyses,
+  };
 }
 
 export function getSeverityColor(severity: Severity): string {
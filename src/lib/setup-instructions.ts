@@ -17,7 +17,19 @@ CREATE TABLE IF NOT EXISTS approval_requests (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   resolved_at TIMESTAMPTZ,
   resolved_by TEXT,
+  resolved_via TEXT,
   machine_id TEXT NOT NULL,
+  required_approvals INTEGER NOT NULL DEFAULT 1 CHECK (required_approvals BETWEEN 1 AND 10),
+  -- Edge Function이 서명한 결정 (requestId, sha256(command), status, 만료 시각)
+  approval_signature TEXT,
+  approval_expires_at TIMESTAMPTZ,
+  -- "Approve similar" 버튼을 표시한 요청의 grant 범위 (sha256 hex)와 유효 시간 (분)
+  grant_scope TEXT CHECK (grant_scope ~ '^[0-9a-f]{64}$'),
+  grant_minutes INTEGER CHECK (grant_minutes BETWEEN 1 AND 1440),
+  -- 메신저별 전송된 메시지 참조 (예: {"slack": "C0123:1700000000.000100"}, set_message_ref로만 추가)
+  message_refs JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rejection_reason TEXT CHECK (char_length(rejection_reason) <= 500),
+  modified_command TEXT,
   CONSTRAINT valid_resolution CHECK (
     (status = 'pending' AND resolved_at IS NULL AND resolved_by IS NULL) OR
     (status != 'pending' AND resolved_at IS NOT NULL)
@@ -31,6 +43,17 @@ ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS cwd TEXT NOT NULL DEFAULT
 ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS machine_id TEXT;
 ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
 ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS resolved_by TEXT;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS resolved_via TEXT;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS required_approvals INTEGER NOT NULL DEFAULT 1
+  CHECK (required_approvals BETWEEN 1 AND 10);
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS approval_signature TEXT;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS approval_expires_at TIMESTAMPTZ;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS grant_scope TEXT CHECK (grant_scope ~ '^[0-9a-f]{64}$');
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS grant_minutes INTEGER CHECK (grant_minutes BETWEEN 1 AND 1440);
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS message_refs JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS rejection_reason TEXT
+  CHECK (char_length(rejection_reason) <= 500);
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS modified_command TEXT;
 
 -- 레거시 데이터 정리
 UPDATE approval_requests SET machine_id = 'legacy-' || id::text WHERE machine_id IS NULL;
@@ -61,6 +84,11 @@ CREATE POLICY "Allow insert pending requests" ON approval_requests
     status = 'pending' AND
     resolved_at IS NULL AND
     resolved_by IS NULL AND
+    resolved_via IS NULL AND
+    approval_signature IS NULL AND
+    message_refs = '{}'::jsonb AND
+    rejection_reason IS NULL AND
+    modified_command IS NULL AND
     machine_id IS NOT NULL AND
     machine_id != '' AND
     length(machine_id) >= 16
@@ -98,6 +126,37 @@ GRANT SELECT, INSERT, DELETE ON approval_requests TO anon;
 GRANT SELECT, INSERT, UPDATE, DELETE ON approval_requests TO authenticated;
 GRANT ALL ON approval_requests TO service_role;
 
+-- 메시지 참조 저장 (hook이 알림 전송 후 호출, anon은 UPDATE 권한이 없으므로 함수로 제한)
+-- 요청을 만든 머신(x-machine-id 헤더)의 pending 요청에 메신저별로 한 번만 기록 가능
+CREATE OR REPLACE FUNCTION set_message_ref(p_request_id UUID, p_messenger TEXT, p_ref TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF p_messenger NOT IN ('slack', 'telegram', 'whatsapp', 'discord', 'teams', 'webhook')
+    OR p_ref IS NULL OR length(p_ref) = 0 OR length(p_ref) > 200 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE approval_requests
+  SET message_refs = message_refs || jsonb_build_object(p_messenger, p_ref)
+  WHERE id = p_request_id
+    AND status = 'pending'
+    AND machine_id = coalesce(current_setting('request.headers', true)::json->>'x-machine-id', '')
+    AND NOT (message_refs ? p_messenger);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count > 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_message_ref(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_message_ref(UUID, TEXT, TEXT) TO anon, authenticated, service_role;
+
 -- ==========================================
 -- 2. rate_limits 테이블 (서버리스 Rate Limiting)
 -- ==========================================
@@ -118,7 +177,170 @@ CREATE POLICY "service_role_only" ON rate_limits
   FOR ALL USING (auth.role() = 'service_role');
 
 GRANT ALL ON rate_limits TO service_role;
-GRANT USAGE, SELECT ON SEQUENCE rate_limits_id_seq TO service_role;`;
+GRANT USAGE, SELECT ON SEQUENCE rate_limits_id_seq TO service_role;
+
+-- ==========================================
+-- 3. approvals 테이블 (다중 승인 정족수)
+-- ==========================================
+-- required_approvals > 1인 요청은 Edge Function이 승인 투표를 기록하고
+-- 서로 다른 승인자 수가 정족수에 도달했을 때만 approval_requests.status를 approved로 변경
+
+CREATE TABLE IF NOT EXISTS approvals (
+  id BIGSERIAL PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES approval_requests(id) ON DELETE CASCADE,
+  -- 승인자 식별자: APPROVER_IDENTITIES에 매핑된 사람은 "identity:{이름}", 그 외는 "{via}:{메신저별 ID}"
+  -- (같은 사람이 여러 채널에서 승인해도 한 번만 집계), 표시 이름은 approver_name
+  approver TEXT NOT NULL,
+  approver_name TEXT NOT NULL,
+  via TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approvals_request_id ON approvals(request_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approvals_request_approver ON approvals(request_id, approver);
+
+ALTER TABLE approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_only" ON approvals;
+
+CREATE POLICY "service_role_only" ON approvals
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON approvals TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE approvals_id_seq TO service_role;
+
+-- ==========================================
+-- 4. approval_grants 테이블 (유사 요청 일괄 승인)
+-- ==========================================
+-- 승인자가 "Approve similar"를 누르면 Edge Function이 요청의 grant_scope로 grant를 만들고,
+-- hook은 같은 scope의 유효한 grant가 있으면 새 요청 없이 허용 (grant_signature 검증)
+-- scope는 (machine, cwd, 도구, 규칙)의 해시이므로 경로나 명령어는 저장되지 않음
+
+CREATE TABLE IF NOT EXISTS approval_grants (
+  id UUID PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES approval_requests(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL,
+  granted_by TEXT NOT NULL,
+  granted_via TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  grant_signature TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_grants_scope ON approval_grants(scope, expires_at);
+
+ALTER TABLE approval_grants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow select active grants" ON approval_grants;
+DROP POLICY IF EXISTS "service_role_only" ON approval_grants;
+
+-- 생성과 조회 모두 service_role만 가능 (hook은 find_active_grant 함수로 자신의 grant만 조회)
+CREATE POLICY "service_role_only" ON approval_grants
+  FOR ALL USING (auth.role() = 'service_role');
+
+REVOKE SELECT ON approval_grants FROM anon, authenticated;
+GRANT ALL ON approval_grants TO service_role;
+
+-- scope가 같고 요청을 만든 머신(x-machine-id 헤더의 machineId 부분)이 같은 유효한 grant 중 가장 늦게 만료되는 것
+CREATE OR REPLACE FUNCTION find_active_grant(p_scope TEXT)
+RETURNS SETOF approval_grants
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.*
+  FROM approval_grants g
+  JOIN approval_requests r ON r.id = g.request_id
+  WHERE g.scope = p_scope
+    AND g.expires_at > NOW()
+    AND split_part(r.machine_id, ':', 1) =
+      split_part(coalesce(current_setting('request.headers', true)::json->>'x-machine-id', ''), ':', 1)
+  ORDER BY g.expires_at DESC
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION find_active_grant(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION find_active_grant(TEXT) TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 5. approval_audit 테이블 (감사 기록)
+-- ==========================================
+-- hook이 최종 결정(원격 승인, 로컬 TTY, grant, 타임아웃, 오프라인 폴백)을 기록하는 append-only 테이블
+-- approval_requests와 달리 자동 정리되지 않으며 (보존 기간 정리는 purge_approval_audit), anon 키로는 접근할 수 없음
+-- hook은 guard-audit Edge Function을 통해 기록/조회하고, 함수가 서명된 x-machine-id를 검증한 뒤
+-- service role로 해당 머신(machine_id = 헤더의 machineId 부분)의 기록만 추가/조회
+
+CREATE TABLE IF NOT EXISTS approval_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL,
+  tool_name TEXT NOT NULL,
+  command TEXT NOT NULL,
+  danger_reason TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  cwd TEXT NOT NULL,
+  repo TEXT,
+  status TEXT NOT NULL CHECK (status IN ('approved', 'rejected', 'timeout', 'failed')),
+  decision TEXT NOT NULL CHECK (decision IN ('allow', 'deny')),
+  resolved_by TEXT,
+  resolved_via TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  latency_ms INTEGER NOT NULL CHECK (latency_ms >= 0),
+  machine_id TEXT NOT NULL CHECK (length(machine_id) >= 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_audit_machine_created ON approval_audit(machine_id, created_at DESC);
+
+ALTER TABLE approval_audit ENABLE ROW LEVEL SECURITY;
+
+-- x-machine-id 헤더를 그대로 신뢰하던 정책 제거 (정책이 없으므로 anon/authenticated는 접근 불가, service_role은 RLS 우회)
+DROP POLICY IF EXISTS "Allow insert own audit" ON approval_audit;
+DROP POLICY IF EXISTS "Allow select own audit" ON approval_audit;
+
+-- service_role로도 변경할 수 없도록 트리거로 차단 (purge_approval_audit의 보존 기간 정리만 예외)
+CREATE OR REPLACE FUNCTION prevent_approval_audit_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('claude_guard.audit_purge', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'approval_audit is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS approval_audit_append_only ON approval_audit;
+CREATE TRIGGER approval_audit_append_only
+  BEFORE UPDATE OR DELETE ON approval_audit
+  FOR EACH ROW EXECUTE FUNCTION prevent_approval_audit_changes();
+
+REVOKE ALL ON approval_audit FROM anon, authenticated;
+GRANT SELECT, INSERT ON approval_audit TO service_role;
+
+-- 보존 기간 정리: p_before 이전 기록 삭제 (SQL Editor 또는 service_role에서만 실행 가능)
+-- 예: SELECT purge_approval_audit(NOW() - INTERVAL '180 days');
+CREATE OR REPLACE FUNCTION purge_approval_audit(p_before TIMESTAMPTZ)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  PERFORM set_config('claude_guard.audit_purge', 'on', true);
+  DELETE FROM approval_audit WHERE created_at < p_before;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  PERFORM set_config('claude_guard.audit_purge', 'off', true);
+  RETURN deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION purge_approval_audit(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_approval_audit(TIMESTAMPTZ) TO service_role;`;
 
 export function printSupabaseSetupInstructions(): void {
   const border = '━'.repeat(60);
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { splitShellCommand } from './shell-parser.js';
+
+describe('splitShellCommand', () => {
+  it('should split on command separators', () => {
+    expect(splitShellCommand('a && b || c; d | e')).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('should split on newlines and background operator', () => {
+    expect(splitShellCommand('a &\nb')).toEqual(['a', 'b']);
+  });
+
+  it('should keep redirections intact', () => {
+    expect(splitShellCommand('make 2>&1 | tee log')).toEqual(['make 2>&1', 'tee log']);
+    expect(splitShellCommand('cmd &> out.txt')).toEqual(['cmd &> out.txt']);
+  });
+
+  it('should not split inside quotes', () => {
+    expect(splitShellCommand(`echo 'a && b' "c; d"`)).toEqual([`echo 'a && b' "c; d"`]);
+  });
+
+  it('should extract command substitutions', () => {
+    expect(splitShellCommand('echo $(rm -rf ~/)')).toEqual(['rm -rf ~/', 'echo $(rm -rf ~/)']);
+    expect(splitShellCommand('echo `whoami`')).toEqual(['whoami', 'echo `whoami`']);
+  });
+
+  it('should extract substitutions inside double quotes only', () => {
+    expect(splitShellCommand('echo "$(id)"')).toEqual(['id', 'echo "$(id)"']);
+    expect(splitShellCommand(`echo '$(id)'`)).toEqual([`echo '$(id)'`]);
+  });
+
+  it('should split subshell groups', () => {
+    expect(splitShellCommand('(cd /tmp && rm -rf x)')).toEqual(['cd /tmp', 'rm -rf x']);
+  });
+
+  it('should tolerate unterminated quotes', () => {
+    expect(splitShellCommand('echo "unterminated && rm -rf /')).toEqual([
+      'echo "unterminated && rm -rf /',
+    ]);
+  });
+});
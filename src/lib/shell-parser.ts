@@ -0,0 +1,253 @@
+/**
+ * 셸 명령어를 개별 실행 단위(segment)로 분리하는 간단한 토크나이저
+ *
+ * 완전한 POSIX 셸 파서는 아니지만, 규칙 검사를 우회할 수 있는 구문을 모두 분리합니다:
+ * - 명령 구분자: &&, ||, ;, |, |&, &, 줄바꿈
+ * - 서브셸 그룹: ( ... )
+ * - 명령 치환: $( ... ), `...` (큰따옴표 안에서도 실행되므로 분리)
+ *
+ * 작은따옴표 안의 내용은 실행되지 않으므로 그대로 유지합니다.
+ * 닫히지 않은 따옴표/괄호는 문자열 끝까지로 간주합니다 (보수적으로 처리).
+ */
+
+/** 치환 중첩 최대 깊이 (악의적인 입력으로 인한 과도한 재귀 방지) */
+const MAX_NESTING_DEPTH = 16;
+
+/**
+ * 위치 i의 `$(` 또는 `(`에 대응하는 닫는 괄호 위치를 찾습니다.
+ * 따옴표와 중첩 괄호를 고려하며, 찾지 못하면 문자열 길이를 반환합니다.
+ */
+function findClosingParen(input: string, start: number): number {
+  let depth = 1;
+  let i = start;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end === -1 ? input.length : end + 1;
+      continue;
+    }
+    if (ch === '"') {
+      i = findClosingDoubleQuote(input, i + 1) + 1;
+      continue;
+    }
+    if (ch === '`') {
+      i = findClosingBacktick(input, i + 1) + 1;
+      continue;
+    }
+    if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    i++;
+  }
+
+  return input.length;
+}
+
+/**
+ * 큰따옴표 문자열의 닫는 위치를 찾습니다 (이스케이프와 $( ) 중첩 고려).
+ */
+function findClosingDoubleQuote(input: string, start: number): number {
+  let i = start;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === '"') {
+      return i;
+    }
+    if (ch === '$' && input[i + 1] === '(') {
+      i = findClosingParen(input, i + 2) + 1;
+      continue;
+    }
+    if (ch === '`') {
+      i = findClosingBacktick(input, i + 1) + 1;
+      continue;
+    }
+    i++;
+  }
+
+  return input.length;
+}
+
+/**
+ * 백틱 명령 치환의 닫는 위치를 찾습니다.
+ */
+function findClosingBacktick(input: string, start: number): number {
+  let i = start;
+
+  while (i < input.length) {
+    if (input[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (input[i] === '`') {
+      return i;
+    }
+    i++;
+  }
+
+  return input.length;
+}
+
+function splitInto(input: string, segments: string[], depth: number): void {
+  if (depth > MAX_NESTING_DEPTH) {
+    // 너무 깊은 중첩은 분리하지 않고 통째로 검사
+    segments.push(input.trim());
+    return;
+  }
+
+  let current = '';
+
+  const flush = () => {
+    const trimmed = current.trim();
+    if (trimmed) {
+      segments.push(trimmed);
+    }
+    current = '';
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    const next = input[i + 1];
+
+    // 이스케이프: 다음 문자를 그대로 유지
+    if (ch === '\\') {
+      current += input.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+
+    // 작은따옴표: 내용이 해석되지 않으므로 그대로 유지
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      const stop = end === -1 ? input.length : end + 1;
+      current += input.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // 큰따옴표: 문자열은 유지하되 내부의 명령 치환은 별도로 분석
+    if (ch === '"') {
+      const end = findClosingDoubleQuote(input, i + 1);
+      const inner = input.slice(i + 1, end);
+      current += input.slice(i, end + 1);
+      extractSubstitutions(inner, segments, depth + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // $( ... ) 명령 치환
+    if (ch === '$' && next === '(') {
+      const end = findClosingParen(input, i + 2);
+      current += input.slice(i, end + 1);
+      splitInto(input.slice(i + 2, end), segments, depth + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // `...` 명령 치환
+    if (ch === '`') {
+      const end = findClosingBacktick(input, i + 1);
+      current += input.slice(i, end + 1);
+      splitInto(input.slice(i + 1, end), segments, depth + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // ( ... ) 서브셸 그룹 및 <( ... ) 프로세스 치환
+    if (ch === '(') {
+      const end = findClosingParen(input, i + 1);
+      flush();
+      splitInto(input.slice(i + 1, end), segments, depth + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // 리다이렉션의 일부인 &, | 는 구분자가 아님 (2>&1, &>file, >|file)
+    if (ch === '&' && (current.endsWith('>') || current.endsWith('<') || next === '>')) {
+      current += ch;
+      i++;
+      continue;
+    }
+    if (ch === '|' && current.endsWith('>')) {
+      current += ch;
+      i++;
+      continue;
+    }
+
+    // 명령 구분자: &&, ||, |&, ;, |, &, 줄바꿈
+    if (ch === '&' || ch === '|' || ch === ';' || ch === '\n' || ch === ')') {
+      flush();
+      i += (ch === '&' && next === '&') || (ch === '|' && (next === '|' || next === '&')) ? 2 : 1;
+      continue;
+    }
+
+    current += ch;
+    i++;
+  }
+
+  flush();
+}
+
+/**
+ * 큰따옴표 문자열 내부에서 실행되는 명령 치환만 추출합니다.
+ */
+function extractSubstitutions(inner: string, segments: string[], depth: number): void {
+  let i = 0;
+  while (i < inner.length) {
+    const ch = inner[i];
+
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === '$' && inner[i + 1] === '(') {
+      const end = findClosingParen(inner, i + 2);
+      splitInto(inner.slice(i + 2, end), segments, depth);
+      i = end + 1;
+      continue;
+    }
+    if (ch === '`') {
+      const end = findClosingBacktick(inner, i + 1);
+      splitInto(inner.slice(i + 1, end), segments, depth);
+      i = end + 1;
+      continue;
+    }
+    i++;
+  }
+}
+
+/**
+ * 셸 명령어를 독립적으로 분석할 segment 목록으로 분리합니다.
+ *
+ * @example
+ * splitShellCommand('echo ok && rm -rf ~/')
+ * // => ['echo ok', 'rm -rf ~/']
+ * splitShellCommand('echo "$(whoami)" | tee out.txt')
+ * // => ['whoami', 'echo "$(whoami)"', 'tee out.txt']
+ *
+ * @param command 원본 명령어 문자열
+ * @returns 공백이 제거된 비어 있지 않은 segment 배열 (치환 내부 명령 포함)
+ */
+export function splitShellCommand(command: string): string[] {
+  const segments: string[] = [];
+  splitInto(command, segments, 0);
+  return segments;
+}
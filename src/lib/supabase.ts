@@ -1,23 +1,14 @@
 import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 import type { Config } from './config.js';
 import type { Severity } from './rules.js';
+import type { ApprovalGrant } from './approval-grants.js';
+import { MAX_AUDIT_LIMIT, type AuditEntry, type AuditFilter, type NewAuditEntry } from './audit.js';
+import { decryptPayloadField, encryptPayloadField, type EncryptedField } from './payload-encryption.js';
+import { maskSensitiveInfo } from './masking.js';
+import { getSignedMachineId } from './machine-id.js';
+import { AUDIT_EDGE_FUNCTION_NAME } from './edge-function.js';
 
-// Patterns that may contain sensitive information
-const SENSITIVE_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
-  { pattern: /([?&])(api[_-]?key|token|secret|password|auth|key|access[_-]?token)=([^&\s'"]+)/gi, replacement: '$1$2=[REDACTED]' },
-  { pattern: /(Authorization:\s*)(Bearer\s+)?[^\s'"]+/gi, replacement: '$1$2[REDACTED]' },
-  { pattern: /(export\s+)?(AWS_SECRET_ACCESS_KEY|AWS_ACCESS_KEY_ID|API_KEY|SECRET_KEY|PRIVATE_KEY|DATABASE_URL|DB_PASSWORD|SLACK_TOKEN|GITHUB_TOKEN|NPM_TOKEN)=([^\s'"]+)/gi, replacement: '$1$2=[REDACTED]' },
-  { pattern: /:\/\/([^:]+):([^@]+)@/g, replacement: '://$1:[REDACTED]@' },
-  { pattern: /(Basic\s+)[A-Za-z0-9+/=]{20,}/gi, replacement: '$1[REDACTED]' },
-];
-
-function maskSensitiveInfo(text: string): string {
-  let masked = text;
-  for (const { pattern, replacement } of SENSITIVE_PATTERNS) {
-    masked = masked.replace(pattern, replacement);
-  }
-  return masked;
-}
+export { maskSensitiveInfo };
 
 export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'timeout';
 
@@ -31,9 +22,65 @@ export interface ApprovalRequest {
   created_at: string;
   resolved_at?: string;
   resolved_by?: string;
+  // 결정이 이루어진 메신저 (Edge Function이 설정)
+  resolved_via?: string;
+  // 승인에 필요한 서로 다른 승인자 수 (기본 1)
+  required_approvals?: number;
+  // 결정 서명 (Edge Function이 MACHINE_ID_SECRET으로 서명, hook이 검증)
+  approval_signature?: string | null;
+  approval_expires_at?: string | null;
+  // "Approve similar" 버튼으로 만들 grant의 범위와 유효 시간 (버튼을 표시한 요청만)
+  grant_scope?: string | null;
+  grant_minutes?: number | null;
+  // 메신저별 전송된 메시지 참조 (예: { slack: 'C0123:1700000000.000100' })
+  message_refs?: Record<string, string>;
+  // 거부 시 승인자가 남긴 사유 (deny reason에 포함하여 Claude에 전달)
+  rejection_reason?: string | null;
+  // "Edit & approve"로 승인자가 수정한 명령어 (hook이 재분석 후 updatedInput으로 전달)
+  modified_command?: string | null;
 }
 
 let supabaseClient: SupabaseClient | null = null;
+// guard-audit Edge Function 호출 시 x-machine-id를 새로 서명하기 위한 값 (서명은 10분 후 만료)
+let auditMachineId: string | null = null;
+let machineIdSecret: string | null = null;
+// 설정된 경우 command, cwd, danger_reason을 암호화하여 저장 (config.payloadEncryptionKey)
+let payloadEncryptionKey: string | null = null;
+
+const ENCRYPTED_FIELDS: EncryptedField[] = ['command', 'cwd', 'danger_reason'];
+const ENCRYPTED_AUDIT_FIELDS: EncryptedField[] = [...ENCRYPTED_FIELDS, 'repo'];
+
+// 페이로드 암호화가 설정된 경우 DB에는 암호문만 저장 (AAD는 요청 ID)
+function protect(requestId: string, field: EncryptedField, value: string): string {
+  return payloadEncryptionKey ? encryptPayloadField(payloadEncryptionKey, requestId, field, value) : value;
+}
+
+/**
+ * 조회한 행의 암호화된 필드를 복호화 (실패 시 암호문 유지)
+ * @param requestId 암호화 시 AAD로 사용한 요청 ID
+ */
+function decryptFields<T extends object>(row: T, requestId: string, fields: EncryptedField[]): T {
+  if (!payloadEncryptionKey) {
+    return row;
+  }
+  const decrypted = { ...row } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = decrypted[field];
+    if (typeof value !== 'string') {
+      continue;
+    }
+    try {
+      decrypted[field] = decryptPayloadField(payloadEncryptionKey, requestId, field, value);
+    } catch {
+      // 다른 키로 암호화된 값 등은 그대로 둠
+    }
+  }
+  return decrypted as T;
+}
+
+function decryptRequest(request: ApprovalRequest): ApprovalRequest {
+  return decryptFields(request, request.id, [...ENCRYPTED_FIELDS, 'modified_command']);
+}
 
 export function initializeSupabase(config: Config, machineId?: string): SupabaseClient {
   if (supabaseClient) {
@@ -45,7 +92,14 @@ export function initializeSupabase(config: Config, machineId?: string): Supabase
     ? { global: { headers: { 'x-machine-id': machineId } } }
     : undefined;
 
+  if (!config.supabase) {
+    throw new Error('Supabase configuration is missing');
+  }
+
   supabaseClient = createClient(config.supabase.url, config.supabase.anonKey, options);
+  payloadEncryptionKey = config.payloadEncryptionKey ?? null;
+  auditMachineId = machineId ? machineId.split(':')[0] : null;
+  machineIdSecret = config.machineIdSecret ?? null;
   return supabaseClient;
 }
 
@@ -58,7 +112,16 @@ export function getSupabaseClient(): SupabaseClient {
 
 export async function createRequest(
   requestId: string,
-  request: { command: string; dangerReason: string; severity: Severity; cwd: string; machineId?: string }
+  request: {
+    command: string;
+    dangerReason: string;
+    severity: Severity;
+    cwd: string;
+    machineId?: string;
+    requiredApprovals?: number;
+    grantScope?: string;
+    grantMinutes?: number;
+  }
 ): Promise<void> {
   const client = getSupabaseClient();
 
@@ -67,12 +130,15 @@ export async function createRequest(
 
   const { error } = await client.from('approval_requests').insert({
     id: requestId,
-    command: maskedCommand,
-    danger_reason: request.dangerReason,
+    command: protect(requestId, 'command', maskedCommand),
+    danger_reason: protect(requestId, 'danger_reason', request.dangerReason),
     severity: request.severity,
-    cwd: request.cwd,
+    cwd: protect(requestId, 'cwd', request.cwd),
     status: 'pending',
     machine_id: request.machineId,
+    // 기본값(1)은 생략하여 required_approvals 컬럼이 없는 기존 스키마와 호환
+    ...(request.requiredApprovals && request.requiredApprovals > 1 && { required_approvals: request.requiredApprovals }),
+    ...(request.grantScope && { grant_scope: request.grantScope, grant_minutes: request.grantMinutes }),
   });
 
   if (error) {
@@ -119,19 +185,183 @@ export async function getRequest(requestId: string): Promise<ApprovalRequest | n
     throw new Error(`Failed to get request: ${error.message}`);
   }
 
-  return data as ApprovalRequest;
+  return decryptRequest(data as ApprovalRequest);
+}
+
+/**
+ * 전송된 메시지 참조를 요청에 저장 (set_message_ref RPC, 요청을 만든 머신의 pending 요청만)
+ * @returns 저장되었으면 true (이미 처리되었거나 같은 메신저의 참조가 있으면 false)
+ */
+export async function setMessageRef(requestId: string, messenger: string, ref: string): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client.rpc('set_message_ref', {
+    p_request_id: requestId,
+    p_messenger: messenger,
+    p_ref: ref,
+  });
+
+  if (error) {
+    throw new Error(`Failed to set message ref: ${error.message}`);
+  }
+
+  return data === true;
+}
+
+/**
+ * scope가 같은 유효한 grant 중 가장 늦게 만료되는 것을 조회
+ * (find_active_grant RPC, 이 머신이 만든 요청에서 생성된 grant만)
+ */
+export async function findActiveGrant(scope: string): Promise<ApprovalGrant | null> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client.rpc('find_active_grant', { p_scope: scope });
+
+  if (error) {
+    throw new Error(`Failed to find approval grant: ${error.message}`);
+  }
+
+  return (data?.[0] as ApprovalGrant | undefined) ?? null;
 }
 
+/**
+ * guard-audit Edge Function 호출 (approval_audit는 anon 키로 접근할 수 없음)
+ * 함수가 x-machine-id 서명을 검증한 뒤 service role로 이 머신의 기록만 추가/조회
+ */
+async function invokeAuditFunction(
+  failure: string,
+  path: string,
+  method: 'GET' | 'POST',
+  body?: object
+): Promise<unknown> {
+  const client = getSupabaseClient();
+  if (!auditMachineId) {
+    throw new Error(`${failure}: machine_id is required`);
+  }
+
+  const headers = {
+    'x-machine-id': machineIdSecret ? getSignedMachineId(auditMachineId, machineIdSecret) : auditMachineId,
+  };
+  const { data, error } = await client.functions.invoke(path, { method, headers, body });
+
+  if (error) {
+    // Edge Function이 반환한 에러 메시지 사용 (배포되지 않은 경우 404)
+    if (!(error.context instanceof Response)) {
+      throw new Error(`${failure}: ${error.message}`);
+    }
+    const result = (await error.context.json().catch(() => ({}))) as { error?: string; message?: string };
+    throw new Error(`${failure}: ${error.context.status} ${result.error ?? result.message ?? error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * 최종 결정을 approval_audit에 기록 (append-only, guard-audit Edge Function이 machine_id를 결정)
+ */
+export async function recordAudit(entry: NewAuditEntry): Promise<void> {
+  await invokeAuditFunction('Failed to record audit entry', AUDIT_EDGE_FUNCTION_NAME, 'POST', {
+    request_id: entry.request_id,
+    tool_name: entry.tool_name,
+    command: protect(entry.request_id, 'command', maskSensitiveInfo(entry.command)),
+    danger_reason: protect(entry.request_id, 'danger_reason', entry.danger_reason),
+    severity: entry.severity,
+    cwd: protect(entry.request_id, 'cwd', entry.cwd),
+    repo: entry.repo === null ? null : protect(entry.request_id, 'repo', entry.repo),
+    status: entry.status,
+    decision: entry.decision,
+    resolved_by: entry.resolved_by,
+    resolved_via: entry.resolved_via,
+    reason: entry.reason,
+    latency_ms: entry.latency_ms,
+  });
+}
+
+/**
+ * 이 머신의 감사 기록 조회 (최신순)
+ * 암호화된 repo는 DB에서 비교할 수 없으므로 복호화 후 필터링 (최대 MAX_AUDIT_LIMIT건 조회)
+ */
+export async function listAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+  const filterRepoLocally = Boolean(filter.repo && payloadEncryptionKey);
+
+  const params = new URLSearchParams();
+  for (const key of ['since', 'until', 'severity', 'status', 'approver'] as const) {
+    const value = filter[key];
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  if (filter.repo && !filterRepoLocally) {
+    params.set('repo', filter.repo);
+  }
+  params.set('limit', String(filterRepoLocally ? MAX_AUDIT_LIMIT : filter.limit));
+
+  const data = await invokeAuditFunction('Failed to list audit entries', `${AUDIT_EDGE_FUNCTION_NAME}?${params}`, 'GET');
+
+  const entries = ((data ?? []) as AuditEntry[]).map((entry) =>
+    decryptFields(entry, entry.request_id, ENCRYPTED_AUDIT_FIELDS)
+  );
+  return filterRepoLocally ? entries.filter((entry) => entry.repo === filter.repo).slice(0, filter.limit) : entries;
+}
+
+/** 결과를 수신한 경로 (hook의 reason 문자열에 표시) */
+export type ApprovalTransport = 'realtime' | 'polling' | 'sse';
+
+// Realtime 구독 실패 시 getRequest polling 간격 (지수 backoff)
+const POLL_INITIAL_INTERVAL_MS = 1000;
+const POLL_MAX_INTERVAL_MS = 10000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
 export function listenForApproval(
   requestId: string,
   timeoutMs: number,
-  onResolved: (status: ApprovalStatus) => void
+  onResolved: (status: ApprovalStatus, request?: ApprovalRequest, transport?: ApprovalTransport) => void
 ): () => void {
   const client = getSupabaseClient();
 
   let resolved = false;
   let timeoutId: NodeJS.Timeout | null = null;
+  let pollTimeoutId: NodeJS.Timeout | null = null;
   let channel: RealtimeChannel | null = null;
+  let transport: ApprovalTransport = 'realtime';
+
+  function finish(request: ApprovalRequest, via: ApprovalTransport): void {
+    if (resolved || request.status === 'pending') {
+      return;
+    }
+    resolved = true;
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+    cleanup();
+    onResolved(request.status, request, via);
+  }
+
+  // 현재 상태 조회 (Realtime 구독 전에 이미 처리된 경우 또는 polling)
+  async function checkStatus(via: ApprovalTransport): Promise<void> {
+    const request = await getRequest(requestId);
+    if (request) {
+      finish(request, via);
+    }
+  }
+
+  // WebSocket이 차단된 환경(회사 프록시 등)에서는 getRequest polling으로 전환
+  function startPolling(interval: number): void {
+    pollTimeoutId = setTimeout(async () => {
+      pollTimeoutId = null;
+      if (resolved) {
+        return;
+      }
+      try {
+        await checkStatus('polling');
+      } catch (err) {
+        console.error(`[Claude Guard] Polling failed for ${requestId}:`, err);
+      }
+      if (!resolved) {
+        startPolling(Math.min(interval * POLL_BACKOFF_FACTOR, POLL_MAX_INTERVAL_MS));
+      }
+    }, interval);
+  }
 
   // Subscribe to realtime changes
   channel = client
@@ -145,19 +375,26 @@ export function listenForApproval(
         filter: `id=eq.${requestId}`,
       },
       (payload) => {
-        const newStatus = (payload.new as ApprovalRequest).status;
-
-        if (newStatus && newStatus !== 'pending' && !resolved) {
-          resolved = true;
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-          }
-          cleanup();
-          onResolved(newStatus);
-        }
+        finish(decryptRequest(payload.new as ApprovalRequest), 'realtime');
       }
     )
-    .subscribe();
+    .subscribe((status, err) => {
+      if (resolved) {
+        return;
+      }
+
+      if (status === 'SUBSCRIBED') {
+        // 구독 완료 전에 처리된 변경은 전달되지 않으므로 한 번 조회
+        checkStatus('realtime').catch(() => {});
+      } else if ((status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') && transport === 'realtime') {
+        transport = 'polling';
+        process.stderr.write(
+          `[claude-remote-guard] Realtime 구독 실패 (${status}${err ? `: ${err.message}` : ''}), polling으로 전환합니다.\n`
+        );
+        removeChannel();
+        startPolling(POLL_INITIAL_INTERVAL_MS);
+      }
+    });
 
   // Set timeout
   timeoutId = setTimeout(async () => {
@@ -173,15 +410,24 @@ export function listenForApproval(
         console.error(`[Claude Guard] Failed to update timeout status for ${requestId}:`, err);
       }
 
-      onResolved('timeout');
+      onResolved('timeout', undefined, transport);
     }
   }, timeoutMs);
 
-  // Cleanup function
-  function cleanup(): void {
+  function removeChannel(): void {
     if (channel) {
-      client.removeChannel(channel);
+      const current = channel;
       channel = null;
+      client.removeChannel(current);
+    }
+  }
+
+  // Cleanup function
+  function cleanup(): void {
+    removeChannel();
+    if (pollTimeoutId) {
+      clearTimeout(pollTimeoutId);
+      pollTimeoutId = null;
     }
   }
 
@@ -236,5 +482,6 @@ export async function shutdownSupabase(): Promise<void> {
   if (supabaseClient) {
     await supabaseClient.removeAllChannels();
     supabaseClient = null;
+    payloadEncryptionKey = null;
   }
 }
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { RulesConfig } from './config.js';
+import { analyzeToolCall, analyzeToolInput, validateToolRule, type ToolRule } from './tool-rules.js';
+
+const rules: RulesConfig = { timeoutSeconds: 300, defaultAction: 'deny' };
+
+describe('analyzeToolInput', () => {
+  it('should match default MCP rules by tool name glob', () => {
+    const result = analyzeToolInput('mcp__github__merge_pull_request', { owner: 'acme', pull_number: 1 });
+    expect(result).toMatchObject({ isDangerous: true, severity: 'high', matchedPattern: 'mcp__*__merge_*' });
+    expect(analyzeToolInput('mcp__github__get_issue', { issue_number: 1 }).isDangerous).toBe(false);
+  });
+
+  it('should evaluate JSON path predicates', () => {
+    const sql = analyzeToolInput('mcp__postgres__query', { query: 'DELETE FROM users' });
+    expect(sql.severity).toBe('critical');
+    expect(analyzeToolInput('mcp__postgres__query', { query: 'select 1' }).isDangerous).toBe(false);
+  });
+
+  it('should flag WebFetch outside the domain allowlist', () => {
+    const custom: ToolRule[] = [
+      {
+        tool: 'WebFetch',
+        when: [{ path: '$.url', domainNotIn: ['github.com', 'docs.python.org'] }],
+        severity: 'medium',
+        reason: 'Fetch from non-allowlisted domain',
+      },
+    ];
+    expect(analyzeToolInput('WebFetch', { url: 'https://api.github.com/repos' }, custom).isDangerous).toBe(false);
+    expect(analyzeToolInput('WebFetch', { url: 'https://evil.example/x' }, custom).severity).toBe('medium');
+    expect(analyzeToolInput('WebFetch', { url: 'http://169.254.169.254/latest' }, custom).severity).toBe('high');
+  });
+
+  it('should match wildcard paths against every element', () => {
+    const custom: ToolRule[] = [
+      { tool: 'mcp__*', when: [{ path: '$.files[*].path', matches: '^\\.github/' }], severity: 'high', reason: 'CI' },
+    ];
+    const input = { files: [{ path: 'README.md' }, { path: '.github/workflows/ci.yml' }] };
+    expect(analyzeToolInput('mcp__github__create_or_update_files', input, custom).reason).toBe('CI');
+  });
+});
+
+describe('validateToolRule', () => {
+  it('should reject invalid paths and unsafe regexes', () => {
+    expect(validateToolRule({ tool: 'mcp__*', severity: 'high', reason: 'x' })).toBeNull();
+    expect(validateToolRule({ tool: 'x', when: [{ path: '$..a' }], severity: 'high', reason: 'x' })).not.toBeNull();
+    expect(
+      validateToolRule({ tool: 'x', when: [{ path: '$.a', matches: '(a+)+$' }], severity: 'high', reason: 'x' })
+    ).not.toBeNull();
+  });
+});
+
+describe('analyzeToolCall', () => {
+  it('should combine command and tool rules for Bash', () => {
+    const custom: RulesConfig = {
+      ...rules,
+      toolRules: [{ tool: 'Bash', when: [{ path: '$.run_in_background', equals: true }], severity: 'medium', reason: 'bg' }],
+    };
+    expect(analyzeToolCall('Bash', { command: 'ls', run_in_background: true }, '/repo', custom).reason).toBe('bg');
+    expect(analyzeToolCall('Bash', { command: 'git push --force' }, '/repo', custom).severity).toBe('critical');
+    expect(analyzeToolCall('Read', { file_path: '/repo/.env' }, '/repo', rules).isDangerous).toBe(false);
+  });
+});
@@ -0,0 +1,323 @@
+import type { RulesConfig } from './config.js';
+import { parseFileToolCall } from './file-tools.js';
+import { analyzeFilePath } from './path-rules.js';
+import {
+  analyzeCommand,
+  compileCustomPatterns,
+  createSafeRegex,
+  findRejectedPatterns,
+  SEVERITY_RANK,
+  uniqueSorted,
+  type RuleResult,
+  type Severity,
+} from './rules.js';
+
+/** 최대 허용 tool glob / JSON path 길이 */
+const MAX_TOOL_PATTERN_LENGTH = 200;
+
+/**
+ * tool_input 조건 (path로 찾은 값 중 하나라도 조건을 만족하면 일치)
+ * 연산자가 없으면 값이 존재하는지만 검사합니다.
+ */
+export interface ToolInputCondition {
+  /** JSON path (예: `$.url`, `$.edits[*].new_string`, `$["pull_number"]`) */
+  path: string;
+  /** 값이 정확히 같으면 일치 */
+  equals?: string | number | boolean;
+  /** 문자열 값이 정규식과 일치하면 일치 (대소문자 무시, ReDoS 검사) */
+  matches?: string;
+  /** URL 값의 호스트가 목록(하위 도메인 포함)에 없으면 일치. URL이 아니면 일치로 간주 */
+  domainNotIn?: string[];
+}
+
+/**
+ * 도구 호출 규칙 (MCP 도구, WebFetch 등)
+ * tool은 도구 이름 glob (`*`는 모든 문자열, `?`는 한 문자)이며, when의 조건은 모두 만족해야 합니다.
+ */
+export interface ToolRule {
+  tool: string;
+  when?: ToolInputCondition[];
+  severity: Severity;
+  reason: string;
+}
+
+const DEFAULT_TOOL_RULES: ToolRule[] = [
+  // MCP 서버의 파괴적 작업 (예: mcp__github__delete_branch, mcp__postgres__drop_table)
+  { tool: 'mcp__*__drop_*', severity: 'critical', reason: 'Destructive MCP operation (drop)' },
+  { tool: 'mcp__*__delete_*', severity: 'high', reason: 'Destructive MCP operation (delete)' },
+  { tool: 'mcp__*__merge_*', severity: 'high', reason: 'Merge via MCP' },
+  { tool: 'mcp__*__push_*', severity: 'high', reason: 'Push via MCP' },
+  {
+    tool: 'mcp__*',
+    when: [{ path: '$.query', matches: '\\b(drop|truncate)\\s+(table|database|schema)\\b|\\bdelete\\s+from\\b' }],
+    severity: 'critical',
+    reason: 'Destructive SQL via MCP',
+  },
+  {
+    tool: 'mcp__*',
+    when: [{ path: '$.sql', matches: '\\b(drop|truncate)\\s+(table|database|schema)\\b|\\bdelete\\s+from\\b' }],
+    severity: 'critical',
+    reason: 'Destructive SQL via MCP',
+  },
+
+  // 로컬/내부 네트워크 및 클라우드 메타데이터 접근
+  {
+    tool: 'WebFetch',
+    when: [
+      {
+        path: '$.url',
+        matches: '^[a-z]+://(localhost|127\\.|0\\.0\\.0\\.0|10\\.|192\\.168\\.|169\\.254\\.|\\[::1?\\])',
+      },
+    ],
+    severity: 'high',
+    reason: 'Request to a local or internal network address',
+  },
+];
+
+// ============================================================
+// JSON path
+// ============================================================
+
+type PathSegment = string | number | '*';
+
+const PATH_TOKEN = /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\d+)\]|\[\*\]|\[(["'])(.*?)\3\]/y;
+
+/**
+ * `$.a.b[0]["c"]` 형식의 JSON path를 segment 목록으로 변환합니다.
+ * `$`는 생략할 수 있습니다 (`url`은 `$.url`과 같음).
+ * @returns 유효하지 않으면 null
+ */
+function parseJsonPath(jsonPath: string): PathSegment[] | null {
+  let rest = jsonPath.trim();
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (!rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = '.' + rest;
+  }
+
+  const segments: PathSegment[] = [];
+  PATH_TOKEN.lastIndex = 0;
+  while (PATH_TOKEN.lastIndex < rest.length) {
+    const match = PATH_TOKEN.exec(rest);
+    if (!match) {
+      return null;
+    }
+    const token = match[0];
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else if (match[4] !== undefined) {
+      segments.push(match[4]);
+    } else if (token === '.*' || token === '[*]') {
+      segments.push('*');
+    }
+  }
+  return segments;
+}
+
+/**
+ * JSON path로 값을 찾습니다. wildcard(`*`)는 배열 요소와 객체 값 전체로 확장됩니다.
+ */
+function resolveJsonPath(root: unknown, segments: PathSegment[]): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (typeof value !== 'object' || value === null) {
+        continue;
+      }
+      if (segment === '*') {
+        next.push(...Object.values(value));
+      } else if (Object.prototype.hasOwnProperty.call(value, segment)) {
+        next.push((value as Record<string | number, unknown>)[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return current.filter((value) => value !== undefined);
+}
+
+// ============================================================
+// 규칙 검증 및 평가
+// ============================================================
+
+function toolGlobToRegExp(glob: string): RegExp {
+  const source = glob
+    .trim()
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function isDomainAllowed(hostname: string, domains: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return domains.some((domain) => {
+    const d = domain.toLowerCase().replace(/^\*?\./, '');
+    return host === d || host.endsWith(`.${d}`);
+  });
+}
+
+function matchesCondition(toolInput: Record<string, unknown>, condition: ToolInputCondition): boolean {
+  const segments = parseJsonPath(condition.path);
+  if (!segments) {
+    return false;
+  }
+  const values = resolveJsonPath(toolInput, segments);
+  const regex = condition.matches !== undefined ? createSafeRegex(condition.matches) : undefined;
+  if (regex === null) {
+    // 안전하지 않은 정규식은 조건 불일치로 처리 (createSafeRegex가 경고 출력)
+    return false;
+  }
+
+  return values.some((value) => {
+    if (condition.equals !== undefined && value !== condition.equals) {
+      return false;
+    }
+    if (regex && !((typeof value === 'string' || typeof value === 'number') && regex.test(String(value)))) {
+      return false;
+    }
+    if (condition.domainNotIn !== undefined) {
+      if (typeof value !== 'string') {
+        return false;
+      }
+      try {
+        return !isDomainAllowed(new URL(value).hostname, condition.domainNotIn);
+      } catch {
+        return true;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * 도구 규칙이 유효한지 검사합니다.
+ * @returns 거부 사유 또는 null
+ */
+export function validateToolRule(rule: unknown): string | null {
+  if (typeof rule !== 'object' || rule === null) {
+    return '규칙은 객체여야 합니다';
+  }
+  const r = rule as Record<string, unknown>;
+  if (typeof r.tool !== 'string' || r.tool.trim().length === 0 || r.tool.length > MAX_TOOL_PATTERN_LENGTH) {
+    return `tool은 1~${MAX_TOOL_PATTERN_LENGTH}자의 문자열이어야 합니다`;
+  }
+  if (typeof r.reason !== 'string' || !['low', 'medium', 'high', 'critical'].includes(r.severity as string)) {
+    return 'severity와 reason이 필요합니다';
+  }
+  if (r.when === undefined) {
+    return null;
+  }
+  if (!Array.isArray(r.when)) {
+    return 'when은 배열이어야 합니다';
+  }
+
+  for (const condition of r.when as unknown[]) {
+    if (typeof condition !== 'object' || condition === null) {
+      return 'when 항목은 객체여야 합니다';
+    }
+    const c = condition as Record<string, unknown>;
+    if (typeof c.path !== 'string' || c.path.length > MAX_TOOL_PATTERN_LENGTH || !parseJsonPath(c.path)) {
+      return `유효하지 않은 JSON path입니다: ${String(c.path)}`;
+    }
+    if (c.equals !== undefined && !['string', 'number', 'boolean'].includes(typeof c.equals)) {
+      return 'equals는 문자열, 숫자 또는 boolean이어야 합니다';
+    }
+    if (c.matches !== undefined) {
+      if (typeof c.matches !== 'string') {
+        return 'matches는 정규식 문자열이어야 합니다';
+      }
+      const [rejected] = findRejectedPatterns([c.matches]);
+      if (rejected) {
+        return rejected.reason;
+      }
+    }
+    if (
+      c.domainNotIn !== undefined &&
+      (!Array.isArray(c.domainNotIn) || !c.domainNotIn.every((d) => typeof d === 'string' && d.length > 0))
+    ) {
+      return 'domainNotIn은 도메인 문자열 배열이어야 합니다';
+    }
+  }
+  return null;
+}
+
+/**
+ * 도구 규칙과 대조합니다.
+ * analyzeCommand와 마찬가지로 가장 높은 심각도의 규칙을 사용하며, 심각도가 같으면 custom 규칙이 우선합니다.
+ */
+export function analyzeToolInput(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  customRules?: ToolRule[]
+): RuleResult {
+  let matched: ToolRule | null = null;
+
+  for (const rule of [...(customRules ?? []), ...DEFAULT_TOOL_RULES]) {
+    if (validateToolRule(rule) !== null || !toolGlobToRegExp(rule.tool).test(toolName)) {
+      continue;
+    }
+    if (!(rule.when ?? []).every((condition) => matchesCondition(toolInput, condition))) {
+      continue;
+    }
+    if (!matched || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[matched.severity]) {
+      matched = rule;
+    }
+  }
+
+  if (!matched) {
+    return { isDangerous: false, severity: 'low', reason: 'No tool rules matched' };
+  }
+
+  return {
+    isDangerous: true,
+    severity: matched.severity,
+    reason: matched.reason,
+    matchedPattern: matched.tool,
+  };
+}
+
+/**
+ * 도구 호출의 위험도를 분석합니다.
+ * - Bash: analyzeCommand (customPatterns, whitelist)
+ * - Edit, Write, MultiEdit, NotebookEdit: analyzeFilePath (pathRules)
+ * - 모든 도구: analyzeToolInput (toolRules)
+ * 위험으로 판정된 결과 중 가장 높은 심각도를 반환합니다.
+ */
+export function analyzeToolCall(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  cwd: string,
+  rules: RulesConfig
+): RuleResult {
+  const results: RuleResult[] = [];
+
+  if (toolName === 'Bash' && typeof toolInput.command === 'string') {
+    results.push(analyzeCommand(toolInput.command, compileCustomPatterns(rules.customPatterns), rules.whitelist));
+  }
+
+  const fileCall = parseFileToolCall(toolName, toolInput);
+  if (fileCall) {
+    results.push(analyzeFilePath(fileCall.filePath, cwd, rules.pathRules));
+  }
+
+  results.push(analyzeToolInput(toolName, toolInput, rules.toolRules));
+
+  const dangerous = results.filter((result) => result.isDangerous);
+  if (dangerous.length === 0) {
+    return results[0];
+  }
+  const worst = dangerous.reduce((worst, result) =>
+    SEVERITY_RANK[result.severity] > SEVERITY_RANK[worst.severity] ? result : worst
+  );
+  return {
+    ...worst,
+    matchedPatterns: uniqueSorted(
+      dangerous.flatMap((result) => result.matchedPatterns ?? [result.matchedPattern ?? result.reason])
+    ),
+  };
+}
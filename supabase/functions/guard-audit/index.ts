@@ -0,0 +1,217 @@
+// Supabase Edge Function for the Approval Audit Log
+// Deploy: supabase functions deploy guard-audit
+//
+// approval_audit는 anon 키로 접근할 수 없으며, 이 함수가 x-machine-id 헤더를 검증한 뒤
+// service role로 해당 머신의 기록만 추가/조회합니다 (serve의 /api/audit과 같은 형식)
+//   POST: 감사 기록 추가 (machine_id는 헤더에서 결정)
+//   GET ?since=&until=&severity=&status=&repo=&approver=&limit=: 최신순 조회
+//
+// Required environment variables:
+// - MACHINE_ID_SECRET: machine_id 서명 검증 (미설정 시 32자 hex machine_id 형식만 확인)
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
+
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// UUID v4 형식 검증
+const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+function isValidUUID(id: string): boolean {
+  return UUID_V4_REGEX.test(id);
+}
+
+/**
+ * 서명된 machine_id 검증
+ * 형식: machineId:timestamp:signature (secret 설정 시)
+ * 또는 machineId (secret 미설정 시 기존 방식)
+ */
+async function verifySignedMachineId(
+  signedId: string | null,
+  maxAgeSeconds = 600
+): Promise<{ valid: boolean; machineId: string | null }> {
+  if (!signedId) return { valid: false, machineId: null };
+
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  if (!secret) {
+    // secret 미설정 시 기존 방식 (32자 hex 검증만)
+    const isValidFormat = /^[a-f0-9]{32}$/i.test(signedId);
+    return { valid: isValidFormat, machineId: isValidFormat ? signedId : null };
+  }
+
+  const parts = signedId.split(':');
+  if (parts.length !== 3) return { valid: false, machineId: null };
+
+  const [machineId, timestampStr, signature] = parts;
+  const timestamp = parseInt(timestampStr, 10);
+
+  // 만료 확인
+  const now = Math.floor(Date.now() / 1000);
+  if (now - timestamp > maxAgeSeconds) {
+    return { valid: false, machineId: null };
+  }
+
+  // 서명 검증
+  const payload = `${machineId}:${timestampStr}`;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  const expected = Array.from(new Uint8Array(sig))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .substring(0, 16);
+
+  // 서명 일치 확인
+  if (signature !== expected) {
+    return { valid: false, machineId: null };
+  }
+
+  return { valid: true, machineId };
+}
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const AUDIT_STATUSES = ['approved', 'rejected', 'timeout', 'failed'];
+const MAX_AUDIT_LIMIT = 1000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+// 감사 기록 검증 (허용된 필드만 복사, machine_id는 검증된 헤더 값 사용)
+function toAuditRow(body: Record<string, unknown>, machineId: string): Record<string, unknown> | null {
+  const { request_id, severity, status, decision, repo, resolved_by, latency_ms } = body;
+  if (
+    !isString(request_id) ||
+    !isValidUUID(request_id) ||
+    !isString(body.tool_name) ||
+    !isString(body.command) ||
+    !isString(body.danger_reason) ||
+    !isString(body.cwd) ||
+    !isString(body.resolved_via) ||
+    !isString(body.reason) ||
+    !isString(severity) ||
+    !SEVERITIES.includes(severity) ||
+    !isString(status) ||
+    !AUDIT_STATUSES.includes(status) ||
+    (decision !== 'allow' && decision !== 'deny') ||
+    (repo !== null && !isString(repo)) ||
+    (resolved_by !== null && !isString(resolved_by)) ||
+    typeof latency_ms !== 'number' ||
+    !Number.isInteger(latency_ms) ||
+    latency_ms < 0
+  ) {
+    return null;
+  }
+
+  return {
+    request_id,
+    tool_name: body.tool_name,
+    command: body.command,
+    danger_reason: body.danger_reason,
+    severity,
+    cwd: body.cwd,
+    repo,
+    status,
+    decision,
+    resolved_by,
+    resolved_via: body.resolved_via,
+    reason: body.reason,
+    latency_ms,
+    machine_id: machineId,
+  };
+}
+
+// LIKE 패턴의 와일드카드 이스케이프
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => '\\' + c);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // 서명된 machine_id 검증 (10분 이내에 서명된 헤더만 허용)
+  const verification = await verifySignedMachineId(req.headers.get('x-machine-id'));
+  if (!verification.valid || !verification.machineId) {
+    return jsonResponse({ error: 'Invalid machine signature' }, 403);
+  }
+  const machineId = verification.machineId;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    if (req.method === 'POST') {
+      let body: Record<string, unknown>;
+      try {
+        body = await req.json();
+      } catch {
+        return jsonResponse({ error: 'Invalid JSON body' }, 400);
+      }
+
+      const row = toAuditRow(body, machineId);
+      if (!row) {
+        return jsonResponse({ error: 'Invalid audit entry' }, 400);
+      }
+
+      const { error } = await supabase.from('approval_audit').insert(row);
+      if (error) {
+        console.error('Failed to record audit entry:', error);
+        return jsonResponse({ error: 'Failed to record audit entry' }, 500);
+      }
+      return jsonResponse({ ok: true }, 201);
+    }
+
+    const query = new URL(req.url).searchParams;
+    const limit = Number(query.get('limit') ?? '50');
+    const severity = query.get('severity');
+    const status = query.get('status');
+    const since = query.get('since');
+    const until = query.get('until');
+    const repo = query.get('repo');
+    const approver = query.get('approver');
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_AUDIT_LIMIT ||
+      (severity !== null && !SEVERITIES.includes(severity)) ||
+      (status !== null && !AUDIT_STATUSES.includes(status)) ||
+      (since !== null && Number.isNaN(Date.parse(since))) ||
+      (until !== null && Number.isNaN(Date.parse(until)))
+    ) {
+      return jsonResponse({ error: 'Invalid audit filter' }, 400);
+    }
+
+    let select = supabase.from('approval_audit').select('*').eq('machine_id', machineId);
+    if (since !== null) select = select.gte('created_at', new Date(since).toISOString());
+    if (until !== null) select = select.lte('created_at', new Date(until).toISOString());
+    if (severity !== null) select = select.eq('severity', severity);
+    if (status !== null) select = select.eq('status', status);
+    if (repo !== null) select = select.eq('repo', repo);
+    if (approver !== null) select = select.ilike('resolved_by', '%' + escapeLikePattern(approver) + '%');
+
+    const { data, error } = await select.order('created_at', { ascending: false }).limit(limit);
+    if (error) {
+      console.error('Failed to list audit entries:', error);
+      return jsonResponse({ error: 'Failed to list audit entries' }, 500);
+    }
+    return jsonResponse(data ?? []);
+  } catch (error) {
+    console.error('Error processing request:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
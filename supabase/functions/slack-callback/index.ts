@@ -3,6 +3,9 @@
 //
 // Required environment variables:
 // - SLACK_SIGNING_SECRET: Your Slack app's signing secret
+// - SLACK_ALLOWED_APPROVERS (optional): Comma-separated Slack user IDs allowed to approve (e.g. U01ABCDEF,U02GHIJKL)
+// - SLACK_BOT_TOKEN (optional): Bot token (xoxb-...) to replace the buttons on the original message (bot-token mode)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
 // - SUPABASE_URL: Auto-provided by Supabase
 // - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
 
@@ -20,13 +23,55 @@ interface SlackUser {
   name: string;
 }
 
+interface SlackBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface SlackView {
+  callback_id: string;
+  private_metadata: string;
+  state?: { values?: Record<string, Record<string, { value?: string | null }>> };
+}
+
 interface SlackPayload {
   type: string;
   user: SlackUser;
-  actions: SlackAction[];
-  response_url: string;
+  // block_actions
+  actions?: SlackAction[];
+  response_url?: string;
+  trigger_id?: string;
+  // 버튼이 눌린 원본 메시지
+  message?: { blocks?: SlackBlock[] };
+  // view_submission ("Reject with reason", "Edit & approve" modal)
+  view?: SlackView;
+}
+
+// modal의 private_metadata (제출 시 요청과 원본 메시지를 찾는 데 사용)
+interface ModalMetadata {
+  request_id: string;
+  response_url?: string;
+  blocks?: SlackBlock[];
 }
 
+// 입력란 하나로 구성된 modal 정의 (block_id는 오류 표시 위치로도 사용)
+interface InputModal {
+  callbackId: string;
+  title: string;
+  submit: string;
+  blockId: string;
+  actionId: string;
+  label: string;
+  maxLength: number;
+  placeholder?: string;
+  initialValue?: string;
+}
+
+const REJECT_REASON_CALLBACK_ID = 'reject_reason';
+const EDIT_APPROVE_CALLBACK_ID = 'edit_approve';
+// Slack private_metadata 최대 길이
+const MAX_PRIVATE_METADATA_LENGTH = 3000;
+
 // UUID v4 형식 검증
 const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 function isValidUUID(id: string): boolean {
@@ -87,6 +132,437 @@ async function verifySignedMachineId(
   return { valid: true, machineId };
 }
 
+// 승인 결정 공통 로직 (src/lib/decision-core.ts에서 생성, serve와 같은 코드)
+
+// 타임스탬프 검증: 1시간(3600초) 이내 요청만 허용
+const MAX_REQUEST_AGE_SECONDS = 3600;
+
+// 거부 사유 최대 길이 (approval_requests.rejection_reason CHECK와 동일)
+const MAX_REJECTION_REASON_LENGTH = 500;
+
+// "Edit & approve"로 수정한 명령어 최대 길이 (Slack plain_text_input, Telegram 메시지 길이 제한 이내)
+const MAX_MODIFIED_COMMAND_LENGTH = 3000;
+
+// 결정 서명 유효 기간 (hook은 결정 직후 검증하므로 짧게 유지)
+const APPROVAL_SIGNATURE_TTL_SECONDS = 600;
+
+// 결정/grant 서명 키 파생용 컨텍스트 (machine_id 서명과 다른 키를 사용)
+const APPROVAL_SIGNING_KEY_CONTEXT = 'claude-remote-guard:approval-signature:v1';
+
+function isRequestExpired(createdAt: string, now: number = Date.now()): boolean {
+  return (now - new Date(createdAt).getTime()) / 1000 > MAX_REQUEST_AGE_SECONDS;
+}
+
+/**
+ * 승인자 allowlist 검증
+ * @param allowlist {MESSENGER}_ALLOWED_APPROVERS 값: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+ */
+function isApproverInAllowlist(allowlist: string | undefined, approverId: string): boolean {
+  const ids = (allowlist ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  return ids.length === 0 || ids.includes(approverId);
+}
+
+/**
+ * 거부 사유 정리: 한 줄로 합치고 최대 길이로 자름 (hook이 deny reason으로 Claude에 전달)
+ */
+function normalizeRejectionReason(text: string | null | undefined): string | undefined {
+  const reason = text?.replace(/[\s\p{Cc}]+/gu, ' ').trim().slice(0, MAX_REJECTION_REASON_LENGTH);
+  return reason || undefined;
+}
+
+/**
+ * "Edit & approve": 수정된 명령어 정리 (여러 줄 명령어를 위해 줄바꿈은 유지)
+ * 비어 있거나 최대 길이를 넘으면 undefined (hook이 같은 규칙으로 다시 분석한 뒤 updatedInput으로 전달)
+ */
+function normalizeModifiedCommand(text: string | null | undefined): string | undefined {
+  const command = text?.trim();
+  return command && command.length <= MAX_MODIFIED_COMMAND_LENGTH ? command : undefined;
+}
+
+/**
+ * 결정 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt(unix seconds)}
+ * 수정된 명령어가 있으면 뒤에 :{sha256(modifiedCommand)}를 추가
+ */
+function approvalSignaturePayload(
+  requestId: string,
+  commandHash: string,
+  status: string,
+  expiresAt: number,
+  modifiedCommandHash?: string
+): string {
+  const modifiedSuffix = modifiedCommandHash ? `:${modifiedCommandHash}` : '';
+  return `v1:${requestId}:${commandHash}:${status}:${expiresAt}${modifiedSuffix}`;
+}
+
+/**
+ * grant 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt(unix seconds)}
+ */
+function grantSignaturePayload(grantId: string, scope: string, expiresAt: number): string {
+  return `grant-v1:${grantId}:${scope}:${expiresAt}`;
+}
+
+// 처리 결과 메시지에 붙일 grant 안내
+function grantSuffix(grantedMinutes?: number): string {
+  return grantedMinutes ? ` (similar requests auto-approved for ${grantedMinutes} min)` : '';
+}
+
+/**
+ * approvals.approver에 저장할 승인자 식별자
+ * APPROVER_IDENTITIES ({"alice": {"slack": "U01...", "telegram": "123..."}})로 같은 사람의 메신저별 ID를 묶어
+ * 정족수를 사람 단위로 집계 (매핑되지 않은 ID는 "{via}:{ID}")
+ */
+function resolveApproverIdentity(
+  identities: Record<string, Partial<Record<string, unknown>>> | undefined,
+  via: string,
+  approverId: string
+): string {
+  for (const [name, ids] of Object.entries(identities ?? {})) {
+    if (ids?.[via] === approverId) {
+      return `identity:${name}`;
+    }
+  }
+  return `${via}:${approverId}`;
+}
+
+function requiredApprovalCount(request: { required_approvals?: number | null }): number {
+  return Math.max(1, request.required_approvals ?? 1);
+}
+
+/**
+ * 승인자가 수정한 명령어 중 실제로 저장할 값 (거부이거나 원래 명령어와 같으면 일반 결정으로 처리)
+ */
+function effectiveModifiedCommand(
+  status: 'approved' | 'rejected',
+  modifiedCommand: string | undefined,
+  command: string
+): string | undefined {
+  return status === 'approved' && modifiedCommand !== command ? modifiedCommand : undefined;
+}
+
+interface QuorumResult {
+  // resolved: 정족수 도달, pending: 정족수 미달, duplicate: 이미 승인한 승인자
+  outcome: 'resolved' | 'pending' | 'duplicate';
+  approvals: number;
+  // 정족수 도달 시 resolved_by에 기록할 승인자 목록
+  resolvedBy?: string;
+}
+
+/**
+ * 다중 승인 정족수 판정 (승인 투표를 기록한 뒤 호출, 거부는 정족수와 관계없이 즉시 반영)
+ * @param approverNames 승인 투표를 한 승인자 이름 (투표 순서)
+ * @param duplicate 이번 투표가 같은 승인자의 중복 승인인지
+ */
+function evaluateQuorum(approverNames: string[], required: number, duplicate: boolean): QuorumResult {
+  const approvals = approverNames.length;
+  if (duplicate) {
+    return { outcome: 'duplicate', approvals };
+  }
+  if (approvals < required) {
+    return { outcome: 'pending', approvals };
+  }
+  return { outcome: 'resolved', approvals, resolvedBy: approverNames.join(', ') };
+}
+
+
+// 승인자 allowlist 검증
+// {MESSENGER}_ALLOWED_APPROVERS: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+function isApproverAllowed(envName: string, approverId: string): boolean {
+  return isApproverInAllowlist(Deno.env.get(envName), approverId);
+}
+
+// 승인 결정 서명 (hook이 allow 전에 검증)
+// 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt}[:{sha256(modifiedCommand)}]
+// 키: HMAC-SHA256(MACHINE_ID_SECRET, APPROVAL_SIGNING_KEY_CONTEXT)
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function hmacSha256Hex(key: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+async function signApprovalDecision(
+  requestId: string,
+  command: string,
+  status: string,
+  modifiedCommand?: string
+): Promise<{ approval_signature: string; approval_expires_at: string } | null> {
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(Date.now() / 1000) + APPROVAL_SIGNATURE_TTL_SECONDS;
+  const commandHash = await sha256Hex(command);
+  // "Edit & approve": 승인자가 수정한 명령어도 서명에 포함
+  const modifiedHash = modifiedCommand ? await sha256Hex(modifiedCommand) : undefined;
+  const signingKey = await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT);
+  const signature = await hmacSha256Hex(
+    signingKey,
+    approvalSignaturePayload(requestId, commandHash, status, expiresAt, modifiedHash)
+  );
+  return { approval_signature: signature, approval_expires_at: new Date(expiresAt * 1000).toISOString() };
+}
+
+// 페이로드 암호화 (hook의 payloadEncryptionKey와 동일한 PAYLOAD_ENCRYPTION_KEY 사용)
+// 형식: ENC1:<iv_base64>:<ciphertext+authTag_base64>, AAD: {requestId}:{field}
+// ENC1: 접두사가 없으면 평문으로 간주, 키가 없거나 복호화에 실패하면 null
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// 승인자가 수정한 명령어(modified_command)를 원래 command와 같은 방식으로 암호화
+async function encryptPayloadField(requestId: string, field: string, plaintext: string): Promise<string | null> {
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+  const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${requestId}:${field}`) },
+    cryptoKey,
+    new TextEncoder().encode(plaintext)
+  );
+  return `ENC1:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptPayloadField(requestId: string, field: string, value: string): Promise<string | null> {
+  if (!value.startsWith('ENC1:')) return value;
+
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  try {
+    const [iv, data] = value.slice('ENC1:'.length).split(':');
+    const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+    const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(`${requestId}:${field}`) },
+      cryptoKey,
+      fromBase64(data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+// 유사 요청 일괄 승인 (approval_grants)
+// "Approve similar" 버튼: hook이 요청에 넣은 grant_scope를 grant_minutes 동안 자동 승인
+// 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt} (결정 서명과 같은 키)
+async function createApprovalGrant(
+  supabase: SupabaseClient,
+  request: { id: string; grant_scope?: string | null; grant_minutes?: number | null },
+  grantedBy: string,
+  via: string
+): Promise<number | undefined> {
+  if (!request.grant_scope || !request.grant_minutes) return undefined;
+
+  const id = crypto.randomUUID();
+  const expiresAt = Math.floor(Date.now() / 1000) + request.grant_minutes * 60;
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  const signingKey = secret ? await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT) : null;
+
+  const { error } = await supabase.from('approval_grants').insert({
+    id,
+    request_id: request.id,
+    scope: request.grant_scope,
+    granted_by: grantedBy,
+    granted_via: via,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    grant_signature: signingKey
+      ? await hmacSha256Hex(signingKey, grantSignaturePayload(id, request.grant_scope, expiresAt))
+      : null,
+  });
+  if (error) {
+    // grant 생성 실패는 이번 승인에 영향 없음
+    console.error('Failed to create approval grant:', error);
+    return undefined;
+  }
+  return request.grant_minutes;
+}
+
+// 다중 승인 정족수 처리
+// required_approvals가 1이면 바로 상태를 변경하고, 2 이상이면 approvals 테이블에 투표를 기록한 뒤
+// 서로 다른 승인자 수가 정족수에 도달했을 때만 approved로 변경 (거부는 즉시 반영)
+// details.rejectionReason: 거부 시 승인자가 남긴 사유 (normalizeRejectionReason으로 정리된 값)
+// details.modifiedCommand: "Edit & approve"로 수정한 명령어 (다중 승인 요청은 불가)
+
+// APPROVER_IDENTITIES 시크릿 파싱 (resolveApproverIdentity 참고, 형식이 잘못된 경우 채널별 ID로 집계)
+function parseApproverIdentities(): Record<string, Record<string, unknown>> | undefined {
+  const secret = Deno.env.get('APPROVER_IDENTITIES');
+  if (!secret) return undefined;
+  try {
+    return JSON.parse(secret) as Record<string, Record<string, unknown>>;
+  } catch {
+    console.error('Invalid APPROVER_IDENTITIES secret');
+    return undefined;
+  }
+}
+
+interface VoteResult {
+  // resolved: 상태 변경됨, pending: 정족수 미달, duplicate: 이미 승인한 사용자,
+  // conflict: 이미 처리됨 (race condition), unavailable: 다중 승인 요청의 명령어 수정, error: DB 오류
+  outcome: 'resolved' | 'pending' | 'duplicate' | 'conflict' | 'unavailable' | 'error';
+  approvals: number;
+  required: number;
+  // resolved_by에 기록된 값 (정족수 승인 시 승인자 목록)
+  resolvedBy: string;
+  // "Approve similar"로 grant를 만든 경우 유효 시간 (분)
+  grantedMinutes?: number;
+  // 실제로 저장된 수정 명령어 (원래 명령어와 같으면 undefined)
+  modifiedCommand?: string;
+}
+
+async function recordVote(
+  supabase: SupabaseClient,
+  request: {
+    id: string;
+    command: string;
+    required_approvals?: number | null;
+    grant_scope?: string | null;
+    grant_minutes?: number | null;
+  },
+  status: 'approved' | 'rejected',
+  approverId: string,
+  approverName: string,
+  via: string,
+  grant = false,
+  details: { rejectionReason?: string; modifiedCommand?: string } = {}
+): Promise<VoteResult> {
+  const required = requiredApprovalCount(request);
+  let approvals = status === 'approved' ? 1 : 0;
+  let resolvedBy = approverName;
+
+  if (details.modifiedCommand && required > 1) {
+    return { outcome: 'unavailable', approvals: 0, required, resolvedBy };
+  }
+
+  if (required > 1) {
+    const vote = {
+      request_id: request.id,
+      approver: resolveApproverIdentity(parseApproverIdentities(), via, approverId),
+      approver_name: approverName,
+      via,
+      decision: status,
+    };
+
+    if (status === 'rejected') {
+      // 거부는 중복 여부와 관계없이 즉시 반영 (기존 승인 투표도 거부로 변경)
+      const { error: voteError } = await supabase
+        .from('approvals')
+        .upsert(vote, { onConflict: 'request_id,approver' });
+      if (voteError) {
+        console.error('Failed to record rejection vote:', voteError);
+      }
+    } else {
+      const { error: voteError } = await supabase.from('approvals').insert(vote);
+      // 23505: unique_violation (같은 승인자가 다시 승인, 다른 채널이라도 같은 identity면 중복)
+      const duplicate = voteError?.code === '23505';
+      if (voteError && !duplicate) {
+        console.error('Failed to record vote:', voteError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const { data: votes, error: votesError } = await supabase
+        .from('approvals')
+        .select('approver_name')
+        .eq('request_id', request.id)
+        .eq('decision', 'approved')
+        .order('created_at', { ascending: true });
+      if (votesError || !votes) {
+        console.error('Failed to count votes:', votesError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const quorum = evaluateQuorum(
+        votes.map((v: { approver_name: string }) => v.approver_name),
+        required,
+        duplicate
+      );
+      approvals = quorum.approvals;
+      if (quorum.outcome !== 'resolved') {
+        return { outcome: quorum.outcome, approvals, required, resolvedBy };
+      }
+      resolvedBy = quorum.resolvedBy ?? resolvedBy;
+    }
+  }
+
+  // 서명은 평문 명령어 기준이므로 암호화된 command는 먼저 복호화
+  const command = await decryptPayloadField(request.id, 'command', request.command);
+  if (command === null) {
+    console.error('Failed to decrypt command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // 원래 명령어와 같으면 일반 승인으로 처리
+  const modifiedCommand = effectiveModifiedCommand(status, details.modifiedCommand, command);
+  // 원래 command가 암호화된 경우 수정된 명령어도 암호화하여 저장
+  const storedModifiedCommand =
+    modifiedCommand && request.command.startsWith('ENC1:')
+      ? await encryptPayloadField(request.id, 'modified_command', modifiedCommand)
+      : modifiedCommand;
+  if (modifiedCommand && !storedModifiedCommand) {
+    console.error('Failed to encrypt modified command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // MACHINE_ID_SECRET이 설정된 경우 hook이 검증할 수 있도록 결정을 서명
+  const signature = await signApprovalDecision(request.id, command, status, modifiedCommand);
+
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .update({
+      status,
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+      resolved_via: via,
+      ...(status === 'rejected' && details.rejectionReason && { rejection_reason: details.rejectionReason }),
+      ...(storedModifiedCommand && { modified_command: storedModifiedCommand }),
+      ...signature,
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending') // Only update if still pending
+    .select('id');
+
+  if (error) {
+    console.error('Failed to update request:', error);
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // Verify that a row was actually updated
+  if (!data || data.length === 0) {
+    return { outcome: 'conflict', approvals, required, resolvedBy };
+  }
+
+  // "Approve similar": 같은 범위의 요청을 일정 시간 자동 승인
+  const grantedMinutes =
+    grant && status === 'approved' ? await createApprovalGrant(supabase, request, resolvedBy, via) : undefined;
+
+  return { outcome: 'resolved', approvals, required, resolvedBy, grantedMinutes, modifiedCommand };
+}
+
 // 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
 function getClientIP(req: Request): string {
   // cf-connecting-ip: Cloudflare가 제공하는 실제 클라이언트 IP
@@ -130,6 +606,32 @@ async function checkRateLimit(supabase: SupabaseClient, identifier: string): Pro
   return true;
 }
 
+const REJECT_REASON_MODAL: InputModal = {
+  callbackId: REJECT_REASON_CALLBACK_ID,
+  title: 'Reject request',
+  submit: 'Reject',
+  blockId: 'reason',
+  actionId: 'reason_input',
+  label: 'Reason (sent back to Claude)',
+  maxLength: MAX_REJECTION_REASON_LENGTH,
+  placeholder: 'e.g. use git push --force-with-lease instead',
+};
+
+const EDIT_APPROVE_MODAL: InputModal = {
+  callbackId: EDIT_APPROVE_CALLBACK_ID,
+  title: 'Edit & approve',
+  submit: 'Approve',
+  blockId: 'command',
+  actionId: 'command_input',
+  label: 'Command to run instead',
+  maxLength: MAX_MODIFIED_COMMAND_LENGTH,
+};
+
+// mrkdwn 제어 문자 이스케이프 (승인자가 입력한 거부 사유, 수정된 명령어 표시용)
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 // HMAC-SHA256 signature verification for Slack requests
 async function verifySlackSignature(
   body: string,
@@ -163,6 +665,145 @@ async function verifySlackSignature(
   return result === 0;
 }
 
+// 원본 메시지 blocks 조회 (modal의 private_metadata에 담지 못한 긴 메시지)
+// channels:history (비공개 채널은 groups:history) 권한 필요
+async function fetchSlackMessageBlocks(
+  botToken: string,
+  channel: string,
+  ts: string
+): Promise<SlackBlock[] | null> {
+  try {
+    const params = new URLSearchParams({ channel, latest: ts, inclusive: 'true', limit: '1' });
+    const response = await fetch(`https://slack.com/api/conversations.history?${params}`, {
+      headers: { Authorization: `Bearer ${botToken}` },
+    });
+    const result = await response.json();
+    const message = result.messages?.[0];
+    if (!result.ok || message?.ts !== ts || !message.blocks) {
+      console.error('Failed to fetch Slack message:', result.error ?? 'message not found');
+      return null;
+    }
+    return message.blocks;
+  } catch (error) {
+    console.error('Failed to fetch Slack message:', error);
+    return null;
+  }
+}
+
+// bot-token 모드: hook이 저장한 channel:ts의 원본 메시지에서 버튼을 제거하고 처리 결과 footer 표시
+// blocks가 없으면 (modal 제출 시 private_metadata에서 생략된 경우) conversations.history로 조회
+// @returns 갱신되었으면 true (bot token이나 메시지 참조가 없으면 false → response_url로 후속 메시지 전송)
+async function updateSlackMessage(
+  messageRef: string | undefined,
+  blocks: SlackBlock[] | undefined,
+  footer: string
+): Promise<boolean> {
+  const botToken = Deno.env.get('SLACK_BOT_TOKEN');
+  const [channel, ts] = messageRef?.split(':') ?? [];
+  if (!botToken || !channel || !ts) {
+    return false;
+  }
+  const originalBlocks = blocks ?? (await fetchSlackMessageBlocks(botToken, channel, ts));
+  if (!originalBlocks) {
+    return false;
+  }
+
+  try {
+    const response = await fetch('https://slack.com/api/chat.update', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${botToken}`,
+      },
+      body: JSON.stringify({
+        channel,
+        ts,
+        text: footer,
+        blocks: [
+          ...originalBlocks.filter(block => block.type !== 'actions'),
+          { type: 'context', elements: [{ type: 'mrkdwn', text: footer }] },
+        ],
+      }),
+    });
+    const result = await response.json();
+    if (!result.ok) {
+      console.error('Failed to update Slack message:', result.error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to update Slack message:', error);
+    return false;
+  }
+}
+
+// "Reject with reason", "Edit & approve": 입력 modal 열기 (views.open은 bot token 필요)
+// 원본 메시지 blocks는 private_metadata 길이 제한을 넘으면 생략 (제출 시 conversations.history로 다시 조회)
+async function openInputModal(triggerId: string, metadata: ModalMetadata, modal: InputModal): Promise<boolean> {
+  const botToken = Deno.env.get('SLACK_BOT_TOKEN');
+  if (!botToken) {
+    return false;
+  }
+
+  let privateMetadata = JSON.stringify(metadata);
+  if (privateMetadata.length > MAX_PRIVATE_METADATA_LENGTH) {
+    privateMetadata = JSON.stringify({ request_id: metadata.request_id, response_url: metadata.response_url });
+  }
+
+  try {
+    const response = await fetch('https://slack.com/api/views.open', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${botToken}`,
+      },
+      body: JSON.stringify({
+        trigger_id: triggerId,
+        view: {
+          type: 'modal',
+          callback_id: modal.callbackId,
+          private_metadata: privateMetadata,
+          title: { type: 'plain_text', text: modal.title },
+          submit: { type: 'plain_text', text: modal.submit },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [
+            {
+              type: 'input',
+              block_id: modal.blockId,
+              label: { type: 'plain_text', text: modal.label },
+              element: {
+                type: 'plain_text_input',
+                action_id: modal.actionId,
+                multiline: true,
+                max_length: modal.maxLength,
+                ...(modal.placeholder && { placeholder: { type: 'plain_text', text: modal.placeholder } }),
+                ...(modal.initialValue && { initial_value: modal.initialValue.slice(0, modal.maxLength) }),
+              },
+            },
+          ],
+        },
+      }),
+    });
+    const result = await response.json();
+    if (!result.ok) {
+      console.error('Failed to open Slack modal:', result.error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to open Slack modal:', error);
+    return false;
+  }
+}
+
+// view_submission 응답: modal을 닫지 않고 입력란(blockId) 아래에 오류 표시
+function modalErrorResponse(message: string, blockId = 'reason'): Response {
+  return new Response(JSON.stringify({ response_action: 'errors', errors: { [blockId]: message } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
 Deno.serve(async (req: Request) => {
   // Only allow POST from Slack
   if (req.method !== 'POST') {
@@ -234,19 +875,49 @@ Deno.serve(async (req: Request) => {
 
     const payload: SlackPayload = JSON.parse(payloadStr);
 
-    // Validate payload type
-    if (payload.type !== 'block_actions') {
+    // block_actions: 메시지 버튼 클릭, view_submission: "Reject with reason"/"Edit & approve" modal 제출
+    const isModal = payload.type === 'view_submission';
+    let action_id: string;
+    let requestId: string;
+    let responseUrl: string | undefined;
+    let messageBlocks: SlackBlock[] | undefined;
+    let rejectionReason: string | undefined;
+    let modifiedCommand: string | undefined;
+    let modalBlockId = REJECT_REASON_MODAL.blockId;
+    if (
+      isModal &&
+      (payload.view?.callback_id === REJECT_REASON_CALLBACK_ID || payload.view?.callback_id === EDIT_APPROVE_CALLBACK_ID)
+    ) {
+      // private_metadata는 views.open 시 이 함수가 설정한 값 (Slack 서명으로 보호됨)
+      const metadata: ModalMetadata = JSON.parse(payload.view.private_metadata);
+      const values = payload.view.state?.values;
+      requestId = metadata.request_id;
+      responseUrl = metadata.response_url;
+      messageBlocks = metadata.blocks;
+      if (payload.view.callback_id === EDIT_APPROVE_CALLBACK_ID) {
+        action_id = 'approve_command';
+        modalBlockId = EDIT_APPROVE_MODAL.blockId;
+        modifiedCommand = normalizeModifiedCommand(values?.command?.command_input?.value);
+        if (!modifiedCommand) {
+          return modalErrorResponse(`Enter a command (max ${MAX_MODIFIED_COMMAND_LENGTH} characters).`, modalBlockId);
+        }
+      } else {
+        action_id = 'reject_command';
+        rejectionReason = normalizeRejectionReason(values?.reason?.reason_input?.value);
+      }
+    } else if (payload.type === 'block_actions') {
+      const action = payload.actions?.[0];
+      if (!action) {
+        return new Response('No action found', { status: 400 });
+      }
+      action_id = action.action_id;
+      requestId = action.value;
+      responseUrl = payload.response_url;
+      messageBlocks = payload.message?.blocks;
+    } else {
       return new Response('Unsupported interaction type', { status: 400 });
     }
 
-    // Get action details
-    const action = payload.actions[0];
-    if (!action) {
-      return new Response('No action found', { status: 400 });
-    }
-
-    const { action_id, value: requestId } = action;
-
     // UUID 형식 검증
     if (!isValidUUID(requestId)) {
       console.error('Invalid request ID format:', requestId);
@@ -257,27 +928,96 @@ Deno.serve(async (req: Request) => {
 
     // Determine status based on action
     let status: 'approved' | 'rejected';
-    if (action_id === 'approve_command') {
+    if (
+      action_id === 'approve_command' ||
+      action_id === 'approve_similar_command' ||
+      action_id === 'edit_approve_command'
+    ) {
       status = 'approved';
-    } else if (action_id === 'reject_command') {
+    } else if (action_id === 'reject_command' || action_id === 'reject_with_reason_command') {
       status = 'rejected';
     } else {
       return new Response('Unknown action', { status: 400 });
     }
 
+    // 버튼 클릭에 대한 안내 (본인에게만 표시)
+    const postEphemeral = async (text: string) => {
+      if (!responseUrl) return;
+      await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response_type: 'ephemeral', replace_original: false, text }),
+      });
+    };
+
+    // 승인자 allowlist 검증 (Slack user ID 기준)
+    if (!isApproverAllowed('SLACK_ALLOWED_APPROVERS', payload.user.id)) {
+      console.error('Approver not in allowlist:', payload.user.id);
+      if (isModal) {
+        return modalErrorResponse('You are not authorized to approve or reject this request.', modalBlockId);
+      }
+      if (responseUrl) {
+        await fetch(responseUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            response_type: 'ephemeral',
+            replace_original: false,
+            text: ':no_entry: You are not authorized to approve or reject this request.',
+          }),
+        });
+      }
+      return new Response('Not authorized', { status: 403 });
+    }
+
+    // 사유 입력 modal을 열고, 제출(view_submission) 시 거부 처리
+    if (action_id === 'reject_with_reason_command') {
+      const opened =
+        payload.trigger_id &&
+        (await openInputModal(
+          payload.trigger_id,
+          { request_id: requestId, response_url: responseUrl, blocks: messageBlocks },
+          REJECT_REASON_MODAL
+        ));
+      if (!opened) {
+        await postEphemeral(
+          ':warning: Could not open the reason dialog (SLACK_BOT_TOKEN is required). Use Reject instead.'
+        );
+      }
+      return new Response('OK', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' },
+      });
+    }
+
     // 요청 조회 (machine_id 포함)
     const { data: requestData, error: fetchError } = await supabase
       .from('approval_requests')
-      .select('id, created_at, status, machine_id')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes, message_refs')
       .eq('id', requestId)
       .eq('status', 'pending')
       .single();
 
     if (fetchError || !requestData) {
       console.error('Request not found or already resolved:', requestId);
+      if (isModal) {
+        return modalErrorResponse('This request was not found or has already been resolved.', modalBlockId);
+      }
+      if (action_id === 'edit_approve_command') {
+        await postEphemeral(':warning: Request not found or already resolved.');
+      }
       return new Response('Request not found or already resolved', { status: 404 });
     }
 
+    // 1시간 이내 요청만 허용
+    if (isRequestExpired(requestData.created_at)) {
+      console.error('Request expired:', requestId);
+      if (isModal) {
+        return modalErrorResponse('This request was not found or has already been resolved.', modalBlockId);
+      }
+      return new Response('Request expired', { status: 410 });
+    }
+
     // machine_id 서명 검증
     const machineIdSecret = Deno.env.get('MACHINE_ID_SECRET');
     if (machineIdSecret && requestData.machine_id) {
@@ -291,38 +1031,101 @@ Deno.serve(async (req: Request) => {
       }
     }
 
-    // Update the approval request
-    const { data, error } = await supabase
-      .from('approval_requests')
-      .update({
-        status,
-        resolved_at: new Date().toISOString(),
-        resolved_by: resolvedBy,
-      })
-      .eq('id', requestId)
-      .eq('status', 'pending') // Only update if still pending
-      .select('id');
+    // 원래 명령어를 채운 편집 modal을 열고, 제출 시 수정된 명령어로 승인 처리
+    if (action_id === 'edit_approve_command') {
+      if ((requestData.required_approvals ?? 1) > 1) {
+        await postEphemeral(':warning: Edit & approve is not available for requests that need multiple approvals.');
+      } else {
+        // 복호화할 수 없으면 빈 입력란으로 열림
+        const command = await decryptPayloadField(requestId, 'command', requestData.command);
+        const opened =
+          payload.trigger_id &&
+          (await openInputModal(
+            payload.trigger_id,
+            { request_id: requestId, response_url: responseUrl, blocks: messageBlocks },
+            { ...EDIT_APPROVE_MODAL, initialValue: command ?? undefined }
+          ));
+        if (!opened) {
+          await postEphemeral(':warning: Could not open the edit dialog (SLACK_BOT_TOKEN is required).');
+        }
+      }
+      return new Response('OK', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' },
+      });
+    }
 
-    if (error) {
-      console.error('Failed to update request:', error);
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      payload.user.id,
+      resolvedBy,
+      'slack',
+      action_id === 'approve_similar_command',
+      { rejectionReason, modifiedCommand }
+    );
+
+    if (vote.outcome === 'error') {
       return new Response('Failed to update request', { status: 500 });
     }
 
-    // Verify that a row was actually updated
-    if (!data || data.length === 0) {
+    if (vote.outcome === 'unavailable') {
+      if (isModal) {
+        return modalErrorResponse(
+          'Edit & approve is not available for requests that need multiple approvals.',
+          modalBlockId
+        );
+      }
+      return new Response('Modification not available', { status: 400 });
+    }
+
+    if (vote.outcome === 'conflict') {
       console.error('Request update failed (race condition):', requestId);
+      if (isModal) {
+        return modalErrorResponse('This request has already been resolved.', modalBlockId);
+      }
       return new Response('Request update failed', { status: 409 });
     }
 
-    // Send response back to Slack to update the message
-    const responseMessage =
-      status === 'approved'
-        ? `:white_check_mark: *Approved* by @${resolvedBy}`
-        : `:x: *Rejected* by @${resolvedBy}`;
+    // 정족수 미달: 버튼을 유지하고 진행 상황만 표시
+    if (vote.outcome === 'pending' || vote.outcome === 'duplicate') {
+      const progressMessage =
+        vote.outcome === 'pending'
+          ? `:ballot_box_with_check: Approved by @${resolvedBy} (${vote.approvals}/${vote.required} approvals)`
+          : `:warning: @${resolvedBy} already approved (${vote.approvals}/${vote.required} approvals)`;
+      if (responseUrl) {
+        await fetch(responseUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ replace_original: false, text: progressMessage }),
+        });
+      }
+      return new Response('OK', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' },
+      });
+    }
+
+    // 처리 결과 (원본 메시지 footer 또는 후속 메시지)
+    let responseMessage: string;
+    if (status === 'rejected') {
+      responseMessage = `:x: *Rejected* by @${vote.resolvedBy}${rejectionReason ? `: ${escapeSlackText(rejectionReason)}` : ''}`;
+    } else if (vote.modifiedCommand) {
+      responseMessage = `:pencil2: *Approved with changes* by @${vote.resolvedBy}\n\`\`\`${escapeSlackText(vote.modifiedCommand)}\`\`\``;
+    } else {
+      responseMessage = `:white_check_mark: *Approved* by @${vote.resolvedBy}${grantSuffix(vote.grantedMinutes)}`;
+    }
 
-    // Respond to Slack's response_url to update the original message
-    if (payload.response_url) {
-      await fetch(payload.response_url, {
+    // bot-token 모드는 원본 메시지를 갱신하고, 그 외에는 response_url로 후속 메시지 전송
+    const updated = await updateSlackMessage(
+      requestData.message_refs?.slack,
+      messageBlocks,
+      responseMessage
+    );
+    if (!updated && responseUrl) {
+      await fetch(responseUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -332,6 +1135,10 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    // view_submission은 빈 200 응답으로 modal을 닫음
+    if (isModal) {
+      return new Response(null, { status: 200 });
+    }
     return new Response('OK', {
       status: 200,
       headers: { 'Content-Type': 'text/plain' },
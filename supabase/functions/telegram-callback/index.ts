@@ -4,6 +4,8 @@
 // Required environment variables:
 // - TELEGRAM_BOT_TOKEN: Your Telegram bot token
 // - TELEGRAM_WEBHOOK_SECRET: Secret token for webhook verification (set via setWebhook API)
+// - TELEGRAM_ALLOWED_APPROVERS (optional): Comma-separated Telegram user IDs allowed to approve (e.g. 123456789)
+// - APPROVER_IDENTITIES (optional): JSON map of approvers to their per-messenger IDs for multi-approval quorums
 // - SUPABASE_URL: Auto-provided by Supabase
 // - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
 
@@ -82,12 +84,435 @@ async function verifySignedMachineId(
   return { valid: true, machineId };
 }
 
+// 승인 결정 공통 로직 (src/lib/decision-core.ts에서 생성, serve와 같은 코드)
+
 // 타임스탬프 검증: 1시간(3600초) 이내 요청만 허용
 const MAX_REQUEST_AGE_SECONDS = 3600;
-function isRequestExpired(createdAt: string): boolean {
-  const createdTime = new Date(createdAt).getTime();
-  const now = Date.now();
-  return (now - createdTime) / 1000 > MAX_REQUEST_AGE_SECONDS;
+
+// 거부 사유 최대 길이 (approval_requests.rejection_reason CHECK와 동일)
+const MAX_REJECTION_REASON_LENGTH = 500;
+
+// "Edit & approve"로 수정한 명령어 최대 길이 (Slack plain_text_input, Telegram 메시지 길이 제한 이내)
+const MAX_MODIFIED_COMMAND_LENGTH = 3000;
+
+// 결정 서명 유효 기간 (hook은 결정 직후 검증하므로 짧게 유지)
+const APPROVAL_SIGNATURE_TTL_SECONDS = 600;
+
+// 결정/grant 서명 키 파생용 컨텍스트 (machine_id 서명과 다른 키를 사용)
+const APPROVAL_SIGNING_KEY_CONTEXT = 'claude-remote-guard:approval-signature:v1';
+
+function isRequestExpired(createdAt: string, now: number = Date.now()): boolean {
+  return (now - new Date(createdAt).getTime()) / 1000 > MAX_REQUEST_AGE_SECONDS;
+}
+
+/**
+ * 승인자 allowlist 검증
+ * @param allowlist {MESSENGER}_ALLOWED_APPROVERS 값: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+ */
+function isApproverInAllowlist(allowlist: string | undefined, approverId: string): boolean {
+  const ids = (allowlist ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  return ids.length === 0 || ids.includes(approverId);
+}
+
+/**
+ * 거부 사유 정리: 한 줄로 합치고 최대 길이로 자름 (hook이 deny reason으로 Claude에 전달)
+ */
+function normalizeRejectionReason(text: string | null | undefined): string | undefined {
+  const reason = text?.replace(/[\s\p{Cc}]+/gu, ' ').trim().slice(0, MAX_REJECTION_REASON_LENGTH);
+  return reason || undefined;
+}
+
+/**
+ * "Edit & approve": 수정된 명령어 정리 (여러 줄 명령어를 위해 줄바꿈은 유지)
+ * 비어 있거나 최대 길이를 넘으면 undefined (hook이 같은 규칙으로 다시 분석한 뒤 updatedInput으로 전달)
+ */
+function normalizeModifiedCommand(text: string | null | undefined): string | undefined {
+  const command = text?.trim();
+  return command && command.length <= MAX_MODIFIED_COMMAND_LENGTH ? command : undefined;
+}
+
+/**
+ * 결정 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt(unix seconds)}
+ * 수정된 명령어가 있으면 뒤에 :{sha256(modifiedCommand)}를 추가
+ */
+function approvalSignaturePayload(
+  requestId: string,
+  commandHash: string,
+  status: string,
+  expiresAt: number,
+  modifiedCommandHash?: string
+): string {
+  const modifiedSuffix = modifiedCommandHash ? `:${modifiedCommandHash}` : '';
+  return `v1:${requestId}:${commandHash}:${status}:${expiresAt}${modifiedSuffix}`;
+}
+
+/**
+ * grant 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt(unix seconds)}
+ */
+function grantSignaturePayload(grantId: string, scope: string, expiresAt: number): string {
+  return `grant-v1:${grantId}:${scope}:${expiresAt}`;
+}
+
+// 처리 결과 메시지에 붙일 grant 안내
+function grantSuffix(grantedMinutes?: number): string {
+  return grantedMinutes ? ` (similar requests auto-approved for ${grantedMinutes} min)` : '';
+}
+
+/**
+ * approvals.approver에 저장할 승인자 식별자
+ * APPROVER_IDENTITIES ({"alice": {"slack": "U01...", "telegram": "123..."}})로 같은 사람의 메신저별 ID를 묶어
+ * 정족수를 사람 단위로 집계 (매핑되지 않은 ID는 "{via}:{ID}")
+ */
+function resolveApproverIdentity(
+  identities: Record<string, Partial<Record<string, unknown>>> | undefined,
+  via: string,
+  approverId: string
+): string {
+  for (const [name, ids] of Object.entries(identities ?? {})) {
+    if (ids?.[via] === approverId) {
+      return `identity:${name}`;
+    }
+  }
+  return `${via}:${approverId}`;
+}
+
+function requiredApprovalCount(request: { required_approvals?: number | null }): number {
+  return Math.max(1, request.required_approvals ?? 1);
+}
+
+/**
+ * 승인자가 수정한 명령어 중 실제로 저장할 값 (거부이거나 원래 명령어와 같으면 일반 결정으로 처리)
+ */
+function effectiveModifiedCommand(
+  status: 'approved' | 'rejected',
+  modifiedCommand: string | undefined,
+  command: string
+): string | undefined {
+  return status === 'approved' && modifiedCommand !== command ? modifiedCommand : undefined;
+}
+
+interface QuorumResult {
+  // resolved: 정족수 도달, pending: 정족수 미달, duplicate: 이미 승인한 승인자
+  outcome: 'resolved' | 'pending' | 'duplicate';
+  approvals: number;
+  // 정족수 도달 시 resolved_by에 기록할 승인자 목록
+  resolvedBy?: string;
+}
+
+/**
+ * 다중 승인 정족수 판정 (승인 투표를 기록한 뒤 호출, 거부는 정족수와 관계없이 즉시 반영)
+ * @param approverNames 승인 투표를 한 승인자 이름 (투표 순서)
+ * @param duplicate 이번 투표가 같은 승인자의 중복 승인인지
+ */
+function evaluateQuorum(approverNames: string[], required: number, duplicate: boolean): QuorumResult {
+  const approvals = approverNames.length;
+  if (duplicate) {
+    return { outcome: 'duplicate', approvals };
+  }
+  if (approvals < required) {
+    return { outcome: 'pending', approvals };
+  }
+  return { outcome: 'resolved', approvals, resolvedBy: approverNames.join(', ') };
+}
+
+
+// 승인자 allowlist 검증
+// {MESSENGER}_ALLOWED_APPROVERS: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+function isApproverAllowed(envName: string, approverId: string): boolean {
+  return isApproverInAllowlist(Deno.env.get(envName), approverId);
+}
+
+// 승인 결정 서명 (hook이 allow 전에 검증)
+// 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt}[:{sha256(modifiedCommand)}]
+// 키: HMAC-SHA256(MACHINE_ID_SECRET, APPROVAL_SIGNING_KEY_CONTEXT)
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function hmacSha256Hex(key: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+async function signApprovalDecision(
+  requestId: string,
+  command: string,
+  status: string,
+  modifiedCommand?: string
+): Promise<{ approval_signature: string; approval_expires_at: string } | null> {
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(Date.now() / 1000) + APPROVAL_SIGNATURE_TTL_SECONDS;
+  const commandHash = await sha256Hex(command);
+  // "Edit & approve": 승인자가 수정한 명령어도 서명에 포함
+  const modifiedHash = modifiedCommand ? await sha256Hex(modifiedCommand) : undefined;
+  const signingKey = await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT);
+  const signature = await hmacSha256Hex(
+    signingKey,
+    approvalSignaturePayload(requestId, commandHash, status, expiresAt, modifiedHash)
+  );
+  return { approval_signature: signature, approval_expires_at: new Date(expiresAt * 1000).toISOString() };
+}
+
+// 페이로드 암호화 (hook의 payloadEncryptionKey와 동일한 PAYLOAD_ENCRYPTION_KEY 사용)
+// 형식: ENC1:<iv_base64>:<ciphertext+authTag_base64>, AAD: {requestId}:{field}
+// ENC1: 접두사가 없으면 평문으로 간주, 키가 없거나 복호화에 실패하면 null
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// 승인자가 수정한 명령어(modified_command)를 원래 command와 같은 방식으로 암호화
+async function encryptPayloadField(requestId: string, field: string, plaintext: string): Promise<string | null> {
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+  const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${requestId}:${field}`) },
+    cryptoKey,
+    new TextEncoder().encode(plaintext)
+  );
+  return `ENC1:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptPayloadField(requestId: string, field: string, value: string): Promise<string | null> {
+  if (!value.startsWith('ENC1:')) return value;
+
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  try {
+    const [iv, data] = value.slice('ENC1:'.length).split(':');
+    const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+    const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(`${requestId}:${field}`) },
+      cryptoKey,
+      fromBase64(data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+// 유사 요청 일괄 승인 (approval_grants)
+// "Approve similar" 버튼: hook이 요청에 넣은 grant_scope를 grant_minutes 동안 자동 승인
+// 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt} (결정 서명과 같은 키)
+async function createApprovalGrant(
+  supabase: SupabaseClient,
+  request: { id: string; grant_scope?: string | null; grant_minutes?: number | null },
+  grantedBy: string,
+  via: string
+): Promise<number | undefined> {
+  if (!request.grant_scope || !request.grant_minutes) return undefined;
+
+  const id = crypto.randomUUID();
+  const expiresAt = Math.floor(Date.now() / 1000) + request.grant_minutes * 60;
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  const signingKey = secret ? await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT) : null;
+
+  const { error } = await supabase.from('approval_grants').insert({
+    id,
+    request_id: request.id,
+    scope: request.grant_scope,
+    granted_by: grantedBy,
+    granted_via: via,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    grant_signature: signingKey
+      ? await hmacSha256Hex(signingKey, grantSignaturePayload(id, request.grant_scope, expiresAt))
+      : null,
+  });
+  if (error) {
+    // grant 생성 실패는 이번 승인에 영향 없음
+    console.error('Failed to create approval grant:', error);
+    return undefined;
+  }
+  return request.grant_minutes;
+}
+
+// 다중 승인 정족수 처리
+// required_approvals가 1이면 바로 상태를 변경하고, 2 이상이면 approvals 테이블에 투표를 기록한 뒤
+// 서로 다른 승인자 수가 정족수에 도달했을 때만 approved로 변경 (거부는 즉시 반영)
+// details.rejectionReason: 거부 시 승인자가 남긴 사유 (normalizeRejectionReason으로 정리된 값)
+// details.modifiedCommand: "Edit & approve"로 수정한 명령어 (다중 승인 요청은 불가)
+
+// APPROVER_IDENTITIES 시크릿 파싱 (resolveApproverIdentity 참고, 형식이 잘못된 경우 채널별 ID로 집계)
+function parseApproverIdentities(): Record<string, Record<string, unknown>> | undefined {
+  const secret = Deno.env.get('APPROVER_IDENTITIES');
+  if (!secret) return undefined;
+  try {
+    return JSON.parse(secret) as Record<string, Record<string, unknown>>;
+  } catch {
+    console.error('Invalid APPROVER_IDENTITIES secret');
+    return undefined;
+  }
+}
+
+interface VoteResult {
+  // resolved: 상태 변경됨, pending: 정족수 미달, duplicate: 이미 승인한 사용자,
+  // conflict: 이미 처리됨 (race condition), unavailable: 다중 승인 요청의 명령어 수정, error: DB 오류
+  outcome: 'resolved' | 'pending' | 'duplicate' | 'conflict' | 'unavailable' | 'error';
+  approvals: number;
+  required: number;
+  // resolved_by에 기록된 값 (정족수 승인 시 승인자 목록)
+  resolvedBy: string;
+  // "Approve similar"로 grant를 만든 경우 유효 시간 (분)
+  grantedMinutes?: number;
+  // 실제로 저장된 수정 명령어 (원래 명령어와 같으면 undefined)
+  modifiedCommand?: string;
+}
+
+async function recordVote(
+  supabase: SupabaseClient,
+  request: {
+    id: string;
+    command: string;
+    required_approvals?: number | null;
+    grant_scope?: string | null;
+    grant_minutes?: number | null;
+  },
+  status: 'approved' | 'rejected',
+  approverId: string,
+  approverName: string,
+  via: string,
+  grant = false,
+  details: { rejectionReason?: string; modifiedCommand?: string } = {}
+): Promise<VoteResult> {
+  const required = requiredApprovalCount(request);
+  let approvals = status === 'approved' ? 1 : 0;
+  let resolvedBy = approverName;
+
+  if (details.modifiedCommand && required > 1) {
+    return { outcome: 'unavailable', approvals: 0, required, resolvedBy };
+  }
+
+  if (required > 1) {
+    const vote = {
+      request_id: request.id,
+      approver: resolveApproverIdentity(parseApproverIdentities(), via, approverId),
+      approver_name: approverName,
+      via,
+      decision: status,
+    };
+
+    if (status === 'rejected') {
+      // 거부는 중복 여부와 관계없이 즉시 반영 (기존 승인 투표도 거부로 변경)
+      const { error: voteError } = await supabase
+        .from('approvals')
+        .upsert(vote, { onConflict: 'request_id,approver' });
+      if (voteError) {
+        console.error('Failed to record rejection vote:', voteError);
+      }
+    } else {
+      const { error: voteError } = await supabase.from('approvals').insert(vote);
+      // 23505: unique_violation (같은 승인자가 다시 승인, 다른 채널이라도 같은 identity면 중복)
+      const duplicate = voteError?.code === '23505';
+      if (voteError && !duplicate) {
+        console.error('Failed to record vote:', voteError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const { data: votes, error: votesError } = await supabase
+        .from('approvals')
+        .select('approver_name')
+        .eq('request_id', request.id)
+        .eq('decision', 'approved')
+        .order('created_at', { ascending: true });
+      if (votesError || !votes) {
+        console.error('Failed to count votes:', votesError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const quorum = evaluateQuorum(
+        votes.map((v: { approver_name: string }) => v.approver_name),
+        required,
+        duplicate
+      );
+      approvals = quorum.approvals;
+      if (quorum.outcome !== 'resolved') {
+        return { outcome: quorum.outcome, approvals, required, resolvedBy };
+      }
+      resolvedBy = quorum.resolvedBy ?? resolvedBy;
+    }
+  }
+
+  // 서명은 평문 명령어 기준이므로 암호화된 command는 먼저 복호화
+  const command = await decryptPayloadField(request.id, 'command', request.command);
+  if (command === null) {
+    console.error('Failed to decrypt command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // 원래 명령어와 같으면 일반 승인으로 처리
+  const modifiedCommand = effectiveModifiedCommand(status, details.modifiedCommand, command);
+  // 원래 command가 암호화된 경우 수정된 명령어도 암호화하여 저장
+  const storedModifiedCommand =
+    modifiedCommand && request.command.startsWith('ENC1:')
+      ? await encryptPayloadField(request.id, 'modified_command', modifiedCommand)
+      : modifiedCommand;
+  if (modifiedCommand && !storedModifiedCommand) {
+    console.error('Failed to encrypt modified command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // MACHINE_ID_SECRET이 설정된 경우 hook이 검증할 수 있도록 결정을 서명
+  const signature = await signApprovalDecision(request.id, command, status, modifiedCommand);
+
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .update({
+      status,
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+      resolved_via: via,
+      ...(status === 'rejected' && details.rejectionReason && { rejection_reason: details.rejectionReason }),
+      ...(storedModifiedCommand && { modified_command: storedModifiedCommand }),
+      ...signature,
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending') // Only update if still pending
+    .select('id');
+
+  if (error) {
+    console.error('Failed to update request:', error);
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // Verify that a row was actually updated
+  if (!data || data.length === 0) {
+    return { outcome: 'conflict', approvals, required, resolvedBy };
+  }
+
+  // "Approve similar": 같은 범위의 요청을 일정 시간 자동 승인
+  const grantedMinutes =
+    grant && status === 'approved' ? await createApprovalGrant(supabase, request, resolvedBy, via) : undefined;
+
+  return { outcome: 'resolved', approvals, required, resolvedBy, grantedMinutes, modifiedCommand };
 }
 
 // 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
@@ -143,6 +568,9 @@ interface TelegramUser {
 interface TelegramMessage {
   message_id: number;
   chat: { id: number };
+  from?: TelegramUser;
+  text?: string;
+  reply_to_message?: TelegramMessage;
 }
 
 interface CallbackQuery {
@@ -155,8 +583,16 @@ interface CallbackQuery {
 interface TelegramUpdate {
   update_id: number;
   callback_query?: CallbackQuery;
+  // "Reject with reason", "Edit & approve" 프롬프트(force_reply)에 대한 답장
+  message?: TelegramMessage;
 }
 
+// force_reply 프롬프트: 답장의 reply_to_message(봇이 보낸 프롬프트)에서 요청 ID를 다시 읽음
+const REJECT_REASON_PROMPT = 'Reply to this message with the reason for rejecting request';
+const REJECT_REASON_PROMPT_REGEX = /rejecting request ([0-9a-f-]{36})/i;
+const EDIT_APPROVE_PROMPT = 'Reply to this message with the command to run instead for request';
+const EDIT_APPROVE_PROMPT_REGEX = /command to run instead for request ([0-9a-f-]{36})/i;
+
 Deno.serve(async (req: Request) => {
   if (req.method !== 'POST') {
     return new Response('Method not allowed', { status: 405 });
@@ -202,19 +638,56 @@ Deno.serve(async (req: Request) => {
     }
 
     const update: TelegramUpdate = await req.json();
-    if (!update.callback_query) {
-      return new Response('OK', { status: 200 });
-    }
-
     const callbackQuery = update.callback_query;
-    const callbackData = callbackQuery.data;
-    if (!callbackData) {
-      return new Response('No callback data', { status: 400 });
-    }
+    // 봇이 보낸 프롬프트에 대한 답장만 거부 사유/수정된 명령어로 처리 (bot token의 앞부분이 봇의 user ID)
+    const promptReply =
+      update.message?.reply_to_message?.from?.id === Number(botToken.split(':')[0]) ? update.message : undefined;
+
+    let action: string;
+    let requestId: string;
+    let from: TelegramUser;
+    let rejectionReason: string | undefined;
+    let modifiedCommand: string | undefined;
+    let notify: (text: string, showAlert?: boolean) => Promise<void>;
+    if (callbackQuery) {
+      const callbackData = callbackQuery.data;
+      if (!callbackData) {
+        return new Response('No callback data', { status: 400 });
+      }
 
-    const [action, requestId] = callbackData.split(':');
-    if (!action || !requestId || (action !== 'approve' && action !== 'reject')) {
-      return new Response('Invalid callback data format', { status: 400 });
+      [action, requestId] = callbackData.split(':');
+      if (
+        !action ||
+        !requestId ||
+        !['approve', 'approve_similar', 'reject', 'reject_reason', 'edit_approve'].includes(action)
+      ) {
+        return new Response('Invalid callback data format', { status: 400 });
+      }
+      from = callbackQuery.from;
+      notify = (text, showAlert = false) => answerCallbackQuery(botToken, callbackQuery.id, text, showAlert);
+    } else if (promptReply?.from && promptReply.text) {
+      const promptText = promptReply.reply_to_message?.text;
+      const reasonMatch = promptText?.match(REJECT_REASON_PROMPT_REGEX);
+      const editMatch = promptText?.match(EDIT_APPROVE_PROMPT_REGEX);
+      from = promptReply.from;
+      notify = (text) => sendReply(botToken, promptReply.chat.id, promptReply.message_id, text);
+      if (reasonMatch) {
+        action = 'reject';
+        requestId = reasonMatch[1];
+        rejectionReason = normalizeRejectionReason(promptReply.text);
+      } else if (editMatch) {
+        action = 'approve';
+        requestId = editMatch[1];
+        modifiedCommand = normalizeModifiedCommand(promptReply.text);
+        if (!modifiedCommand) {
+          await notify(`⚠️ Command is empty or longer than ${MAX_MODIFIED_COMMAND_LENGTH} characters`);
+          return new Response('OK', { status: 200 });
+        }
+      } else {
+        return new Response('OK', { status: 200 });
+      }
+    } else {
+      return new Response('OK', { status: 200 });
     }
 
     // UUID 형식 검증
@@ -223,33 +696,50 @@ Deno.serve(async (req: Request) => {
       return new Response('Invalid request ID format', { status: 400 });
     }
 
-    const status = action === 'approve' ? 'approved' : 'rejected';
-    const resolvedBy = callbackQuery.from.username ||
-      `${callbackQuery.from.first_name}${callbackQuery.from.last_name ? ' ' + callbackQuery.from.last_name : ''}` ||
-      String(callbackQuery.from.id);
+    const status = action.startsWith('reject') ? 'rejected' : 'approved';
+    const resolvedBy = from.username ||
+      `${from.first_name}${from.last_name ? ' ' + from.last_name : ''}` ||
+      String(from.id);
+
+    // 승인자 allowlist 검증 (Telegram user ID 기준, 그룹 채팅의 다른 멤버 차단)
+    if (!isApproverAllowed('TELEGRAM_ALLOWED_APPROVERS', String(from.id))) {
+      console.error('Approver not in allowlist:', from.id);
+      await notify('🚫 You are not authorized to approve or reject this request', true);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 처리되었거나 만료된 요청의 버튼 제거 (hook이 종료되어 원본 메시지를 갱신하지 못한 경우)
+    const removeStaleKeyboard = async () => {
+      if (callbackQuery?.message) {
+        await removeInlineKeyboard(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id);
+      }
+    };
 
     // 타임스탬프 검증: 요청의 created_at 조회
     const { data: requestData, error: fetchError } = await supabase
       .from('approval_requests')
-      .select('id, created_at, status, machine_id')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes, message_refs')
       .eq('id', requestId)
       .single();
 
     if (fetchError || !requestData) {
       console.error('Request not found:', requestId);
-      await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ Request not found');
+      await notify('⚠️ Request not found');
+      await removeStaleKeyboard();
       return new Response('Request not found', { status: 404 });
     }
 
     if (requestData.status !== 'pending') {
-      await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ Request already resolved');
+      await notify('⚠️ Request already resolved');
+      await removeStaleKeyboard();
       return new Response('OK', { status: 200 });
     }
 
     // 1시간 이내 요청만 허용
     if (isRequestExpired(requestData.created_at)) {
       console.error('Request expired:', requestId);
-      await answerCallbackQuery(botToken, callbackQuery.id, '⏰ Request expired (>1 hour)');
+      await notify('⏰ Request expired (>1 hour)');
+      await removeStaleKeyboard();
       return new Response('Request expired', { status: 410 });
     }
 
@@ -259,39 +749,107 @@ Deno.serve(async (req: Request) => {
       const verification = await verifySignedMachineId(requestData.machine_id);
       if (!verification.valid) {
         console.error('Invalid machine_id signature:', requestId);
-        await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ 유효하지 않은 요청입니다');
+        await notify('⚠️ 유효하지 않은 요청입니다');
         return new Response('Invalid machine signature', { status: 403 });
       }
     }
 
-    const { data, error } = await supabase
-      .from('approval_requests')
-      .update({
-        status,
-        resolved_at: new Date().toISOString(),
-        resolved_by: resolvedBy,
-      })
-      .eq('id', requestId)
-      .eq('status', 'pending')
-      .select('id');
+    // "Reject with reason": 원본 메시지에 답장 프롬프트(force_reply)를 보내고, 답장이 오면 거부 처리
+    if (action === 'reject_reason') {
+      await notify('✍️ Reply with the reason');
+      if (callbackQuery?.message) {
+        await sendForceReply(
+          botToken,
+          callbackQuery.message.chat.id,
+          callbackQuery.message.message_id,
+          `✍️ ${REJECT_REASON_PROMPT} ${requestId}`,
+          'Reason for rejecting'
+        );
+      }
+      return new Response('OK', { status: 200 });
+    }
+
+    // "Edit & approve": 원래 명령어와 함께 답장 프롬프트를 보내고, 답장으로 받은 명령어로 승인 처리
+    if (action === 'edit_approve') {
+      if ((requestData.required_approvals ?? 1) > 1) {
+        await notify('⚠️ Edit & approve is not available for requests that need multiple approvals', true);
+        return new Response('OK', { status: 200 });
+      }
+      await notify('✏️ Reply with the command to run');
+      if (callbackQuery?.message) {
+        // 복호화할 수 없으면 원래 명령어 없이 프롬프트만 전송
+        const command = await decryptPayloadField(requestId, 'command', requestData.command);
+        await sendForceReply(
+          botToken,
+          callbackQuery.message.chat.id,
+          callbackQuery.message.message_id,
+          `✏️ ${EDIT_APPROVE_PROMPT} ${requestId}${command ? `\n\n${command.slice(0, MAX_MODIFIED_COMMAND_LENGTH)}` : ''}`,
+          'Command to run instead'
+        );
+      }
+      return new Response('OK', { status: 200 });
+    }
 
-    if (error) {
-      console.error('Failed to update request:', error);
-      await answerCallbackQuery(botToken, callbackQuery.id, '❌ Failed to update request');
+    // 승인 투표 기록 (정족수 충족 또는 거부 시 상태 변경)
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      String(from.id),
+      resolvedBy,
+      'telegram',
+      action === 'approve_similar',
+      { rejectionReason, modifiedCommand }
+    );
+
+    if (vote.outcome === 'error') {
+      await notify('❌ Failed to update request');
       return new Response('Failed to update request', { status: 500 });
     }
 
-    if (!data || data.length === 0) {
-      await answerCallbackQuery(botToken, callbackQuery.id, '⚠️ Request not found or already resolved');
+    if (vote.outcome === 'unavailable') {
+      await notify('⚠️ Edit & approve is not available for requests that need multiple approvals');
+      return new Response('OK', { status: 200 });
+    }
+
+    if (vote.outcome === 'conflict') {
+      await notify('⚠️ Request not found or already resolved');
+      await removeStaleKeyboard();
       return new Response('OK', { status: 200 });
     }
 
-    const emoji = status === 'approved' ? '✅' : '❌';
-    const actionText = status === 'approved' ? 'Approved' : 'Rejected';
-    await answerCallbackQuery(botToken, callbackQuery.id, `${emoji} ${actionText}`);
+    if (vote.outcome === 'duplicate') {
+      await notify(`⚠️ Already approved (${vote.approvals}/${vote.required} approvals)`);
+      return new Response('OK', { status: 200 });
+    }
 
-    if (callbackQuery.message) {
-      await editMessageReplyMarkup(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id, `\n\n${emoji} *${actionText}* by @${resolvedBy}`);
+    // 정족수 미달: 버튼을 유지하고 진행 상황만 표시
+    if (vote.outcome === 'pending') {
+      await notify(`☑️ Approval recorded (${vote.approvals}/${vote.required})`);
+      if (callbackQuery?.message) {
+        await sendReply(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id, `☑️ Approved by @${resolvedBy} (${vote.approvals}/${vote.required} approvals)`);
+      }
+      return new Response('OK', { status: 200 });
+    }
+
+    const emoji = status === 'approved' ? (vote.modifiedCommand ? '✏️' : '✅') : '❌';
+    const actionText = status === 'approved' ? (vote.modifiedCommand ? 'Approved with changes' : 'Approved') : 'Rejected';
+    await notify(`${emoji} ${actionText}`);
+
+    const reasonSuffix = rejectionReason
+      ? `: ${rejectionReason}`
+      : vote.modifiedCommand
+        ? `\n${vote.modifiedCommand}`
+        : '';
+    const resultText = `\n\n${emoji} *${actionText}* by @${vote.resolvedBy}${grantSuffix(vote.grantedMinutes)}${reasonSuffix}`;
+    if (callbackQuery?.message) {
+      await editMessageReplyMarkup(botToken, callbackQuery.message.chat.id, callbackQuery.message.message_id, resultText);
+    } else if (promptReply) {
+      // 답장으로 처리된 경우: hook이 저장한 원본 메시지(chat_id:message_id)의 버튼 제거
+      const [chatId, messageId] = requestData.message_refs?.telegram?.split(':') ?? [];
+      if (chatId && messageId) {
+        await removeInlineKeyboard(botToken, chatId, Number(messageId));
+      }
     }
 
     return new Response('OK', { status: 200 });
@@ -301,27 +859,55 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-async function answerCallbackQuery(botToken: string, callbackQueryId: string, text: string): Promise<void> {
+async function answerCallbackQuery(botToken: string, callbackQueryId: string, text: string, showAlert = false): Promise<void> {
   await fetch(`https://api.telegram.org/bot${botToken}/answerCallbackQuery`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ callback_query_id: callbackQueryId, text, show_alert: false }),
+    body: JSON.stringify({ callback_query_id: callbackQueryId, text, show_alert: showAlert }),
   });
 }
 
 async function editMessageReplyMarkup(botToken: string, chatId: number, messageId: number, appendText: string): Promise<void> {
+  await removeInlineKeyboard(botToken, chatId, messageId);
+  await sendReply(botToken, chatId, messageId, appendText);
+}
+
+async function removeInlineKeyboard(botToken: string, chatId: number | string, messageId: number): Promise<void> {
   await fetch(`https://api.telegram.org/bot${botToken}/editMessageReplyMarkup`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ chat_id: chatId, message_id: messageId, reply_markup: { inline_keyboard: [] } }),
   });
+}
+
+// 답장 입력창을 바로 열어주는 프롬프트 (MarkdownV2 없이 전송하여 요청 ID를 그대로 유지)
+async function sendForceReply(
+  botToken: string,
+  chatId: number,
+  messageId: number,
+  text: string,
+  placeholder: string
+): Promise<void> {
+  await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      chat_id: chatId,
+      reply_to_message_id: messageId,
+      text,
+      reply_markup: { force_reply: true, input_field_placeholder: placeholder },
+    }),
+  });
+}
+
+async function sendReply(botToken: string, chatId: number, messageId: number, text: string): Promise<void> {
   await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       chat_id: chatId,
       reply_to_message_id: messageId,
-      text: appendText.replace(/[_*\[\]()~`>#+\-=|{}.!\\]/g, '\\$&'),
+      text: text.replace(/[_*\[\]()~`>#+\-=|{}.!\\]/g, '\\$&'),
       parse_mode: 'MarkdownV2',
     }),
   });
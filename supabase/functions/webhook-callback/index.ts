@@ -0,0 +1,748 @@
+// Supabase Edge Function for Generic Signed Webhook Callbacks
+// Deploy: supabase functions deploy webhook-callback
+//
+// Callback 형식:
+//   POST <callback-url>?requestId=<uuid>&action=approve|approve_similar|reject
+//   X-Claude-Guard-Timestamp: <unix seconds>
+//   X-Claude-Guard-Signature: v1=<hex(HMAC-SHA256(secret, "v1:{timestamp}:{requestId}:{action}:{body}"))>
+//   Body (optional): {"resolvedBy": "alice"}
+//
+// Required environment variables:
+// - WEBHOOK_SIGNING_SECRET: Shared secret (same as messenger.webhook.secret)
+// - SUPABASE_URL: Auto-provided by Supabase
+// - SUPABASE_SERVICE_ROLE_KEY: Auto-provided by Supabase
+
+// npm: specifier 사용 (Supabase Edge Runtime --no-remote 호환)
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Timing-safe string comparison to prevent timing attacks
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+// UUID v4 형식 검증
+const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+function isValidUUID(id: string): boolean {
+  return UUID_V4_REGEX.test(id);
+}
+
+/**
+ * 서명된 machine_id 검증
+ * 형식: machineId:timestamp:signature (secret 설정 시)
+ * 또는 machineId (secret 미설정 시 기존 방식)
+ */
+async function verifySignedMachineId(
+  signedId: string | null,
+  maxAgeSeconds = 600
+): Promise<{ valid: boolean; machineId: string | null }> {
+  if (!signedId) return { valid: false, machineId: null };
+
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  if (!secret) {
+    // secret 미설정 시 기존 방식 (32자 hex 검증만)
+    const isValidFormat = /^[a-f0-9]{32}$/i.test(signedId);
+    return { valid: isValidFormat, machineId: isValidFormat ? signedId : null };
+  }
+
+  const parts = signedId.split(':');
+  if (parts.length !== 3) return { valid: false, machineId: null };
+
+  const [machineId, timestampStr, signature] = parts;
+  const timestamp = parseInt(timestampStr, 10);
+
+  // 만료 확인
+  const now = Math.floor(Date.now() / 1000);
+  if (now - timestamp > maxAgeSeconds) {
+    return { valid: false, machineId: null };
+  }
+
+  // 서명 검증
+  const payload = `${machineId}:${timestampStr}`;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  const expected = Array.from(new Uint8Array(sig))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .substring(0, 16);
+
+  // 서명 일치 확인
+  if (signature !== expected) {
+    return { valid: false, machineId: null };
+  }
+
+  return { valid: true, machineId };
+}
+
+// 승인 결정 공통 로직 (src/lib/decision-core.ts에서 생성, serve와 같은 코드)
+
+// 타임스탬프 검증: 1시간(3600초) 이내 요청만 허용
+const MAX_REQUEST_AGE_SECONDS = 3600;
+
+// 거부 사유 최대 길이 (approval_requests.rejection_reason CHECK와 동일)
+const MAX_REJECTION_REASON_LENGTH = 500;
+
+// "Edit & approve"로 수정한 명령어 최대 길이 (Slack plain_text_input, Telegram 메시지 길이 제한 이내)
+const MAX_MODIFIED_COMMAND_LENGTH = 3000;
+
+// 결정 서명 유효 기간 (hook은 결정 직후 검증하므로 짧게 유지)
+const APPROVAL_SIGNATURE_TTL_SECONDS = 600;
+
+// 결정/grant 서명 키 파생용 컨텍스트 (machine_id 서명과 다른 키를 사용)
+const APPROVAL_SIGNING_KEY_CONTEXT = 'claude-remote-guard:approval-signature:v1';
+
+function isRequestExpired(createdAt: string, now: number = Date.now()): boolean {
+  return (now - new Date(createdAt).getTime()) / 1000 > MAX_REQUEST_AGE_SECONDS;
+}
+
+/**
+ * 승인자 allowlist 검증
+ * @param allowlist {MESSENGER}_ALLOWED_APPROVERS 값: 쉼표로 구분된 ID 목록 (미설정 시 모든 사용자 허용)
+ */
+function isApproverInAllowlist(allowlist: string | undefined, approverId: string): boolean {
+  const ids = (allowlist ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  return ids.length === 0 || ids.includes(approverId);
+}
+
+/**
+ * 거부 사유 정리: 한 줄로 합치고 최대 길이로 자름 (hook이 deny reason으로 Claude에 전달)
+ */
+function normalizeRejectionReason(text: string | null | undefined): string | undefined {
+  const reason = text?.replace(/[\s\p{Cc}]+/gu, ' ').trim().slice(0, MAX_REJECTION_REASON_LENGTH);
+  return reason || undefined;
+}
+
+/**
+ * "Edit & approve": 수정된 명령어 정리 (여러 줄 명령어를 위해 줄바꿈은 유지)
+ * 비어 있거나 최대 길이를 넘으면 undefined (hook이 같은 규칙으로 다시 분석한 뒤 updatedInput으로 전달)
+ */
+function normalizeModifiedCommand(text: string | null | undefined): string | undefined {
+  const command = text?.trim();
+  return command && command.length <= MAX_MODIFIED_COMMAND_LENGTH ? command : undefined;
+}
+
+/**
+ * 결정 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt(unix seconds)}
+ * 수정된 명령어가 있으면 뒤에 :{sha256(modifiedCommand)}를 추가
+ */
+function approvalSignaturePayload(
+  requestId: string,
+  commandHash: string,
+  status: string,
+  expiresAt: number,
+  modifiedCommandHash?: string
+): string {
+  const modifiedSuffix = modifiedCommandHash ? `:${modifiedCommandHash}` : '';
+  return `v1:${requestId}:${commandHash}:${status}:${expiresAt}${modifiedSuffix}`;
+}
+
+/**
+ * grant 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt(unix seconds)}
+ */
+function grantSignaturePayload(grantId: string, scope: string, expiresAt: number): string {
+  return `grant-v1:${grantId}:${scope}:${expiresAt}`;
+}
+
+// 처리 결과 메시지에 붙일 grant 안내
+function grantSuffix(grantedMinutes?: number): string {
+  return grantedMinutes ? ` (similar requests auto-approved for ${grantedMinutes} min)` : '';
+}
+
+/**
+ * approvals.approver에 저장할 승인자 식별자
+ * APPROVER_IDENTITIES ({"alice": {"slack": "U01...", "telegram": "123..."}})로 같은 사람의 메신저별 ID를 묶어
+ * 정족수를 사람 단위로 집계 (매핑되지 않은 ID는 "{via}:{ID}")
+ */
+function resolveApproverIdentity(
+  identities: Record<string, Partial<Record<string, unknown>>> | undefined,
+  via: string,
+  approverId: string
+): string {
+  for (const [name, ids] of Object.entries(identities ?? {})) {
+    if (ids?.[via] === approverId) {
+      return `identity:${name}`;
+    }
+  }
+  return `${via}:${approverId}`;
+}
+
+function requiredApprovalCount(request: { required_approvals?: number | null }): number {
+  return Math.max(1, request.required_approvals ?? 1);
+}
+
+/**
+ * 승인자가 수정한 명령어 중 실제로 저장할 값 (거부이거나 원래 명령어와 같으면 일반 결정으로 처리)
+ */
+function effectiveModifiedCommand(
+  status: 'approved' | 'rejected',
+  modifiedCommand: string | undefined,
+  command: string
+): string | undefined {
+  return status === 'approved' && modifiedCommand !== command ? modifiedCommand : undefined;
+}
+
+interface QuorumResult {
+  // resolved: 정족수 도달, pending: 정족수 미달, duplicate: 이미 승인한 승인자
+  outcome: 'resolved' | 'pending' | 'duplicate';
+  approvals: number;
+  // 정족수 도달 시 resolved_by에 기록할 승인자 목록
+  resolvedBy?: string;
+}
+
+/**
+ * 다중 승인 정족수 판정 (승인 투표를 기록한 뒤 호출, 거부는 정족수와 관계없이 즉시 반영)
+ * @param approverNames 승인 투표를 한 승인자 이름 (투표 순서)
+ * @param duplicate 이번 투표가 같은 승인자의 중복 승인인지
+ */
+function evaluateQuorum(approverNames: string[], required: number, duplicate: boolean): QuorumResult {
+  const approvals = approverNames.length;
+  if (duplicate) {
+    return { outcome: 'duplicate', approvals };
+  }
+  if (approvals < required) {
+    return { outcome: 'pending', approvals };
+  }
+  return { outcome: 'resolved', approvals, resolvedBy: approverNames.join(', ') };
+}
+
+
+// 승인 결정 서명 (hook이 allow 전에 검증)
+// 서명 대상: v1:{requestId}:{sha256(command)}:{status}:{expiresAt}[:{sha256(modifiedCommand)}]
+// 키: HMAC-SHA256(MACHINE_ID_SECRET, APPROVAL_SIGNING_KEY_CONTEXT)
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function hmacSha256Hex(key: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+async function signApprovalDecision(
+  requestId: string,
+  command: string,
+  status: string,
+  modifiedCommand?: string
+): Promise<{ approval_signature: string; approval_expires_at: string } | null> {
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(Date.now() / 1000) + APPROVAL_SIGNATURE_TTL_SECONDS;
+  const commandHash = await sha256Hex(command);
+  // "Edit & approve": 승인자가 수정한 명령어도 서명에 포함
+  const modifiedHash = modifiedCommand ? await sha256Hex(modifiedCommand) : undefined;
+  const signingKey = await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT);
+  const signature = await hmacSha256Hex(
+    signingKey,
+    approvalSignaturePayload(requestId, commandHash, status, expiresAt, modifiedHash)
+  );
+  return { approval_signature: signature, approval_expires_at: new Date(expiresAt * 1000).toISOString() };
+}
+
+// 페이로드 암호화 (hook의 payloadEncryptionKey와 동일한 PAYLOAD_ENCRYPTION_KEY 사용)
+// 형식: ENC1:<iv_base64>:<ciphertext+authTag_base64>, AAD: {requestId}:{field}
+// ENC1: 접두사가 없으면 평문으로 간주, 키가 없거나 복호화에 실패하면 null
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// 승인자가 수정한 명령어(modified_command)를 원래 command와 같은 방식으로 암호화
+async function encryptPayloadField(requestId: string, field: string, plaintext: string): Promise<string | null> {
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+  const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${requestId}:${field}`) },
+    cryptoKey,
+    new TextEncoder().encode(plaintext)
+  );
+  return `ENC1:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptPayloadField(requestId: string, field: string, value: string): Promise<string | null> {
+  if (!value.startsWith('ENC1:')) return value;
+
+  const key = Deno.env.get('PAYLOAD_ENCRYPTION_KEY');
+  if (!key || !/^[0-9a-f]{64}$/i.test(key)) return null;
+
+  try {
+    const [iv, data] = value.slice('ENC1:'.length).split(':');
+    const keyBytes = new Uint8Array(key.match(/../g)!.map(h => parseInt(h, 16)));
+    const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(`${requestId}:${field}`) },
+      cryptoKey,
+      fromBase64(data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+// 유사 요청 일괄 승인 (approval_grants)
+// "Approve similar" 버튼: hook이 요청에 넣은 grant_scope를 grant_minutes 동안 자동 승인
+// 서명 대상: grant-v1:{grantId}:{scope}:{expiresAt} (결정 서명과 같은 키)
+async function createApprovalGrant(
+  supabase: SupabaseClient,
+  request: { id: string; grant_scope?: string | null; grant_minutes?: number | null },
+  grantedBy: string,
+  via: string
+): Promise<number | undefined> {
+  if (!request.grant_scope || !request.grant_minutes) return undefined;
+
+  const id = crypto.randomUUID();
+  const expiresAt = Math.floor(Date.now() / 1000) + request.grant_minutes * 60;
+  const secret = Deno.env.get('MACHINE_ID_SECRET');
+  const signingKey = secret ? await hmacSha256Hex(secret, APPROVAL_SIGNING_KEY_CONTEXT) : null;
+
+  const { error } = await supabase.from('approval_grants').insert({
+    id,
+    request_id: request.id,
+    scope: request.grant_scope,
+    granted_by: grantedBy,
+    granted_via: via,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    grant_signature: signingKey
+      ? await hmacSha256Hex(signingKey, grantSignaturePayload(id, request.grant_scope, expiresAt))
+      : null,
+  });
+  if (error) {
+    // grant 생성 실패는 이번 승인에 영향 없음
+    console.error('Failed to create approval grant:', error);
+    return undefined;
+  }
+  return request.grant_minutes;
+}
+
+// 다중 승인 정족수 처리
+// required_approvals가 1이면 바로 상태를 변경하고, 2 이상이면 approvals 테이블에 투표를 기록한 뒤
+// 서로 다른 승인자 수가 정족수에 도달했을 때만 approved로 변경 (거부는 즉시 반영)
+// details.rejectionReason: 거부 시 승인자가 남긴 사유 (normalizeRejectionReason으로 정리된 값)
+// details.modifiedCommand: "Edit & approve"로 수정한 명령어 (다중 승인 요청은 불가)
+
+// APPROVER_IDENTITIES 시크릿 파싱 (resolveApproverIdentity 참고, 형식이 잘못된 경우 채널별 ID로 집계)
+function parseApproverIdentities(): Record<string, Record<string, unknown>> | undefined {
+  const secret = Deno.env.get('APPROVER_IDENTITIES');
+  if (!secret) return undefined;
+  try {
+    return JSON.parse(secret) as Record<string, Record<string, unknown>>;
+  } catch {
+    console.error('Invalid APPROVER_IDENTITIES secret');
+    return undefined;
+  }
+}
+
+interface VoteResult {
+  // resolved: 상태 변경됨, pending: 정족수 미달, duplicate: 이미 승인한 사용자,
+  // conflict: 이미 처리됨 (race condition), unavailable: 다중 승인 요청의 명령어 수정, error: DB 오류
+  outcome: 'resolved' | 'pending' | 'duplicate' | 'conflict' | 'unavailable' | 'error';
+  approvals: number;
+  required: number;
+  // resolved_by에 기록된 값 (정족수 승인 시 승인자 목록)
+  resolvedBy: string;
+  // "Approve similar"로 grant를 만든 경우 유효 시간 (분)
+  grantedMinutes?: number;
+  // 실제로 저장된 수정 명령어 (원래 명령어와 같으면 undefined)
+  modifiedCommand?: string;
+}
+
+async function recordVote(
+  supabase: SupabaseClient,
+  request: {
+    id: string;
+    command: string;
+    required_approvals?: number | null;
+    grant_scope?: string | null;
+    grant_minutes?: number | null;
+  },
+  status: 'approved' | 'rejected',
+  approverId: string,
+  approverName: string,
+  via: string,
+  grant = false,
+  details: { rejectionReason?: string; modifiedCommand?: string } = {}
+): Promise<VoteResult> {
+  const required = requiredApprovalCount(request);
+  let approvals = status === 'approved' ? 1 : 0;
+  let resolvedBy = approverName;
+
+  if (details.modifiedCommand && required > 1) {
+    return { outcome: 'unavailable', approvals: 0, required, resolvedBy };
+  }
+
+  if (required > 1) {
+    const vote = {
+      request_id: request.id,
+      approver: resolveApproverIdentity(parseApproverIdentities(), via, approverId),
+      approver_name: approverName,
+      via,
+      decision: status,
+    };
+
+    if (status === 'rejected') {
+      // 거부는 중복 여부와 관계없이 즉시 반영 (기존 승인 투표도 거부로 변경)
+      const { error: voteError } = await supabase
+        .from('approvals')
+        .upsert(vote, { onConflict: 'request_id,approver' });
+      if (voteError) {
+        console.error('Failed to record rejection vote:', voteError);
+      }
+    } else {
+      const { error: voteError } = await supabase.from('approvals').insert(vote);
+      // 23505: unique_violation (같은 승인자가 다시 승인, 다른 채널이라도 같은 identity면 중복)
+      const duplicate = voteError?.code === '23505';
+      if (voteError && !duplicate) {
+        console.error('Failed to record vote:', voteError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const { data: votes, error: votesError } = await supabase
+        .from('approvals')
+        .select('approver_name')
+        .eq('request_id', request.id)
+        .eq('decision', 'approved')
+        .order('created_at', { ascending: true });
+      if (votesError || !votes) {
+        console.error('Failed to count votes:', votesError);
+        return { outcome: 'error', approvals: 0, required, resolvedBy };
+      }
+
+      const quorum = evaluateQuorum(
+        votes.map((v: { approver_name: string }) => v.approver_name),
+        required,
+        duplicate
+      );
+      approvals = quorum.approvals;
+      if (quorum.outcome !== 'resolved') {
+        return { outcome: quorum.outcome, approvals, required, resolvedBy };
+      }
+      resolvedBy = quorum.resolvedBy ?? resolvedBy;
+    }
+  }
+
+  // 서명은 평문 명령어 기준이므로 암호화된 command는 먼저 복호화
+  const command = await decryptPayloadField(request.id, 'command', request.command);
+  if (command === null) {
+    console.error('Failed to decrypt command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // 원래 명령어와 같으면 일반 승인으로 처리
+  const modifiedCommand = effectiveModifiedCommand(status, details.modifiedCommand, command);
+  // 원래 command가 암호화된 경우 수정된 명령어도 암호화하여 저장
+  const storedModifiedCommand =
+    modifiedCommand && request.command.startsWith('ENC1:')
+      ? await encryptPayloadField(request.id, 'modified_command', modifiedCommand)
+      : modifiedCommand;
+  if (modifiedCommand && !storedModifiedCommand) {
+    console.error('Failed to encrypt modified command: check PAYLOAD_ENCRYPTION_KEY');
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // MACHINE_ID_SECRET이 설정된 경우 hook이 검증할 수 있도록 결정을 서명
+  const signature = await signApprovalDecision(request.id, command, status, modifiedCommand);
+
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .update({
+      status,
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+      resolved_via: via,
+      ...(status === 'rejected' && details.rejectionReason && { rejection_reason: details.rejectionReason }),
+      ...(storedModifiedCommand && { modified_command: storedModifiedCommand }),
+      ...signature,
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending') // Only update if still pending
+    .select('id');
+
+  if (error) {
+    console.error('Failed to update request:', error);
+    return { outcome: 'error', approvals, required, resolvedBy };
+  }
+
+  // Verify that a row was actually updated
+  if (!data || data.length === 0) {
+    return { outcome: 'conflict', approvals, required, resolvedBy };
+  }
+
+  // "Approve similar": 같은 범위의 요청을 일정 시간 자동 승인
+  const grantedMinutes =
+    grant && status === 'approved' ? await createApprovalGrant(supabase, request, resolvedBy, via) : undefined;
+
+  return { outcome: 'resolved', approvals, required, resolvedBy, grantedMinutes, modifiedCommand };
+}
+
+// 클라이언트 IP 추출 (Supabase/Cloudflare 환경에서 실제 IP 획득)
+function getClientIP(req: Request): string {
+  // cf-connecting-ip: Cloudflare가 제공하는 실제 클라이언트 IP
+  // x-real-ip: 일부 프록시/로드밸런서가 제공
+  // x-forwarded-for: 마지막 값이 실제 클라이언트 IP (첫 번째는 스푸핑 가능)
+  return req.headers.get('cf-connecting-ip')
+    || req.headers.get('x-real-ip')
+    || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    || 'unknown';
+}
+
+// Supabase 테이블 기반 Rate Limiter (서버리스 환경에서 분산 제한)
+async function checkRateLimit(supabase: SupabaseClient, identifier: string): Promise<boolean> {
+  const windowMs = 60 * 1000; // 1분
+  const maxRequests = 30;
+  const now = Date.now();
+  const windowStart = now - windowMs;
+
+  // 현재 윈도우 내 요청 수 조회
+  const { count, error } = await supabase
+    .from('rate_limits')
+    .select('*', { count: 'exact', head: true })
+    .eq('identifier', identifier)
+    .gte('created_at', new Date(windowStart).toISOString());
+
+  if (error) {
+    console.error('Rate limit check failed:', error);
+    return true; // 에러 시 허용 (서비스 가용성 우선)
+  }
+
+  if ((count || 0) >= maxRequests) {
+    return false;
+  }
+
+  // 새 요청 기록
+  await supabase.from('rate_limits').insert({
+    identifier,
+    created_at: new Date().toISOString(),
+  });
+
+  return true;
+}
+
+const MAX_RESOLVED_BY_LENGTH = 100;
+
+// HMAC-SHA256 signature verification for callback requests
+async function verifyCallbackSignature(
+  secret: string,
+  timestamp: string,
+  requestId: string,
+  action: string,
+  body: string,
+  signature: string
+): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const baseString = `v1:${timestamp}:${requestId}:${action}:${body}`;
+  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(baseString));
+  const computedSignature = 'v1=' + Array.from(new Uint8Array(signatureBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return timingSafeEqual(computedSignature, signature);
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ ok: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // Initialize Supabase client first for rate limiting
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ ok: false, error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Rate limiting 체크 (Supabase 테이블 기반)
+    const clientIP = getClientIP(req);
+    if (!(await checkRateLimit(supabase, clientIP))) {
+      return jsonResponse({ ok: false, error: 'Too many requests' }, 429);
+    }
+
+    const signingSecret = Deno.env.get('WEBHOOK_SIGNING_SECRET');
+    if (!signingSecret) {
+      console.error('Missing WEBHOOK_SIGNING_SECRET environment variable');
+      return jsonResponse({ ok: false, error: 'Server configuration error' }, 500);
+    }
+
+    const url = new URL(req.url);
+    const requestId = url.searchParams.get('requestId');
+    const action = url.searchParams.get('action');
+    if (!requestId || !action || !['approve', 'approve_similar', 'reject'].includes(action)) {
+      return jsonResponse({ ok: false, error: 'Invalid requestId or action' }, 400);
+    }
+
+    // UUID 형식 검증
+    if (!isValidUUID(requestId)) {
+      console.error('Invalid request ID format:', requestId);
+      return jsonResponse({ ok: false, error: 'Invalid request ID format' }, 400);
+    }
+
+    const signature = req.headers.get('X-Claude-Guard-Signature');
+    const timestamp = req.headers.get('X-Claude-Guard-Timestamp');
+    if (!signature || !timestamp) {
+      console.error('Missing signature headers');
+      return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Check timestamp to prevent replay attacks (5 minute window)
+    const currentTime = Math.floor(Date.now() / 1000);
+    const requestTime = parseInt(timestamp, 10);
+    if (!Number.isFinite(requestTime) || Math.abs(currentTime - requestTime) > 300) {
+      console.error('Request timestamp too old');
+      return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
+    }
+
+    const bodyText = await req.text();
+    const isValid = await verifyCallbackSignature(signingSecret, timestamp, requestId, action, bodyText, signature);
+    if (!isValid) {
+      console.error('Invalid callback signature');
+      return jsonResponse({ ok: false, error: 'Unauthorized' }, 401);
+    }
+
+    let resolvedBy = 'webhook';
+    if (bodyText) {
+      try {
+        const parsed = JSON.parse(bodyText);
+        if (typeof parsed?.resolvedBy === 'string' && parsed.resolvedBy.trim()) {
+          resolvedBy = parsed.resolvedBy.trim().slice(0, MAX_RESOLVED_BY_LENGTH);
+        }
+      } catch {
+        return jsonResponse({ ok: false, error: 'Invalid JSON body' }, 400);
+      }
+    }
+
+    const status = action === 'reject' ? 'rejected' : 'approved';
+
+    // 타임스탬프 검증: 요청의 created_at 조회
+    const { data: requestData, error: fetchError } = await supabase
+      .from('approval_requests')
+      .select('id, command, created_at, status, machine_id, required_approvals, grant_scope, grant_minutes')
+      .eq('id', requestId)
+      .single();
+
+    if (fetchError || !requestData) {
+      console.error('Request not found:', requestId);
+      return jsonResponse({ ok: false, error: 'Request not found' }, 404);
+    }
+
+    if (requestData.status !== 'pending') {
+      return jsonResponse({ ok: false, error: 'Request already resolved', status: requestData.status }, 409);
+    }
+
+    // 1시간 이내 요청만 허용
+    if (isRequestExpired(requestData.created_at)) {
+      console.error('Request expired:', requestId);
+      return jsonResponse({ ok: false, error: 'Request expired' }, 410);
+    }
+
+    // machine_id 서명 검증
+    const machineIdSecret = Deno.env.get('MACHINE_ID_SECRET');
+    if (machineIdSecret && requestData.machine_id) {
+      const verification = await verifySignedMachineId(requestData.machine_id);
+      if (!verification.valid) {
+        console.error('Invalid machine_id signature:', requestId);
+        return jsonResponse({ ok: false, error: 'Invalid machine signature' }, 403);
+      }
+    }
+
+    // resolvedBy는 서명 키를 가진 호출자가 임의로 지정하므로 다중 승인 정족수에는 사용할 수 없음 (거부는 허용)
+    if (status === 'approved' && (requestData.required_approvals ?? 1) > 1) {
+      return jsonResponse({ ok: false, error: 'Requests that require multiple approvers cannot be approved via webhook' }, 403);
+    }
+
+    // 승인 투표 기록 (거부 시 상태 변경)
+    // 서명된 요청의 resolvedBy를 승인자 ID로 사용
+    const vote = await recordVote(
+      supabase,
+      requestData,
+      status,
+      resolvedBy,
+      resolvedBy,
+      'webhook',
+      action === 'approve_similar'
+    );
+
+    if (vote.outcome === 'error') {
+      return jsonResponse({ ok: false, error: 'Failed to update request' }, 500);
+    }
+
+    if (vote.outcome === 'conflict') {
+      return jsonResponse({ ok: false, error: 'Request not found or already resolved' }, 409);
+    }
+
+    if (vote.outcome === 'duplicate') {
+      return jsonResponse({ ok: false, error: 'Already approved by this approver', approvals: vote.approvals, requiredApprovals: vote.required }, 409);
+    }
+
+    // 정족수 미달: 요청은 pending 상태로 유지
+    if (vote.outcome === 'pending') {
+      return jsonResponse({ ok: true, requestId, status: 'pending', resolvedBy, approvals: vote.approvals, requiredApprovals: vote.required });
+    }
+
+    return jsonResponse({
+      ok: true,
+      requestId,
+      status,
+      resolvedBy: vote.resolvedBy,
+      ...(vote.grantedMinutes && { grantMinutes: vote.grantedMinutes }),
+    });
+  } catch (error) {
+    console.error('Error processing request:', error);
+    return jsonResponse({ ok: false, error: 'Internal server error' }, 500);
+  }
+});